@@ -3,8 +3,10 @@ import { StatsBar } from './components/StatsBar';
 import { ProjectFilter } from './components/ProjectFilter';
 import { PriorityQueueList } from './components/PriorityQueueList';
 import { DecisionsPanel } from './components/DecisionsPanel';
+import { SnoozedTasks } from './components/SnoozedTasks';
 import { HeuristicWeightTuner } from './components/HeuristicWeightTuner';
 import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { UndoToast } from './components/UndoToast';
 import { useGetStatusQuery, useGetVersionQuery } from './store';
 import { useAppSelector } from './store/hooks';
 import { selectHeuristicWeights } from './store/selectors';
@@ -85,6 +87,7 @@ function App() {
               <div className="space-y-6">
                 <WorkspaceSwitcher />
                 <ProjectFilter />
+                <SnoozedTasks />
                 <DecisionsPanel />
               </div>
 
@@ -120,6 +123,9 @@ function App() {
 
       {/* Heuristic Weight Tuner Panel */}
       <HeuristicWeightTuner />
+
+      {/* V4.3: Undo/redo toast for the latest change */}
+      {data && <UndoToast />}
     </div>
   );
 }
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { ExternalLink, SlidersHorizontal } from 'lucide-react';
+import { useGetCustomFieldsQuery, useUpdateTaskMutation } from '../store/api';
+import type { CustomFieldDefinition, CustomFieldValue, WeightedTask } from '../types';
+
+type Draft = Record<string, string | boolean>;
+
+const INPUT_CLASS = 'w-full px-2 py-1 bg-surface-800 border border-surface-600 rounded text-surface-200';
+
+function toDraft(fields: CustomFieldDefinition[], values: WeightedTask['customFields']): Draft {
+  const draft: Draft = {};
+  for (const field of fields) {
+    const value = values?.[field.key];
+    draft[field.key] = field.type === 'boolean' ? value === true : value === undefined ? '' : String(value);
+  }
+  return draft;
+}
+
+// Draft input → stored value (null clears it)
+function fromDraft(field: CustomFieldDefinition, input: string | boolean): CustomFieldValue | null {
+  if (field.type === 'boolean') return input as boolean;
+  if (input === '') return null;
+  return field.type === 'number' ? Number(input) : (input as string);
+}
+
+/**
+ * V4.3: Show and edit a task's workspace-defined custom fields (part of the expanded TaskCard)
+ */
+export function CustomFieldsEditor({ task }: { task: WeightedTask }) {
+  const { data: fields = [] } = useGetCustomFieldsQuery();
+  const [updateTask, { isLoading: isSaving, error }] = useUpdateTaskMutation();
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  if (fields.length === 0) return null;
+  const current = draft ?? toDraft(fields, task.customFields);
+
+  const setValue = (key: string, value: string | boolean) => setDraft({ ...current, [key]: value });
+
+  const handleSave = async () => {
+    const changes: Record<string, CustomFieldValue | null> = {};
+    for (const field of fields) {
+      const value = fromDraft(field, current[field.key]);
+      if (value !== (task.customFields?.[field.key] ?? (field.type === 'boolean' ? false : null))) {
+        changes[field.key] = value;
+      }
+    }
+    if (Object.keys(changes).length === 0) return;
+    try {
+      await updateTask({ id: task.id, updates: { customFields: changes }, revision: task.revision }).unwrap();
+      setDraft(null);
+    } catch (err) {
+      console.error('Failed to save custom fields:', err);
+    }
+  };
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const value = current[field.key];
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={value as boolean}
+            onChange={(e) => setValue(field.key, e.target.checked)}
+            className="accent-green-500"
+          />
+        );
+      case 'enum':
+        return (
+          <select value={value as string} onChange={(e) => setValue(field.key, e.target.value)} className={INPUT_CLASS}>
+            <option value="">—</option>
+            {field.options?.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <div className="flex items-center gap-1">
+            <input
+              type={{ string: 'text', number: 'number', date: 'date', url: 'url' }[field.type]}
+              value={value as string}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {field.type === 'url' && task.customFields?.[field.key] && (
+              <a
+                href={String(task.customFields[field.key])}
+                target="_blank"
+                rel="noreferrer"
+                className="text-surface-400 hover:text-surface-200"
+              >
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-xs text-surface-500">
+        <SlidersHorizontal className="w-3 h-3" />
+        Custom fields
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {fields.map((field) => (
+          <label key={field.key} className="space-y-1" title={field.description}>
+            <span className="block text-surface-500">
+              {field.label || field.key}
+              {field.required && <span className="text-red-400"> *</span>}
+            </span>
+            {renderInput(field)}
+          </label>
+        ))}
+      </div>
+      {draft && (
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-2 py-1 text-xs rounded bg-green-500/10 text-green-400 border border-green-500/30 hover:bg-green-500/20 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save fields'}
+        </button>
+      )}
+      {error && <div className="text-xs text-red-400">Could not save the fields (check the values, or the task changed elsewhere)</div>}
+    </div>
+  );
+}
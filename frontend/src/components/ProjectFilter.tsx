@@ -1,8 +1,10 @@
 import { Folder, FolderOpen, CheckCircle2, AlertCircle } from 'lucide-react';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
-import { setFilterProject } from '../store';
-import { selectProjects, selectProjectTaskCounts, selectPriorityQueue } from '../store/selectors';
+import { setFilterProject, toggleFilterTag, clearFilterTags } from '../store';
+import { selectProjects, selectProjectTaskCounts, selectPriorityQueue, selectTagTaskCounts } from '../store/selectors';
+import { useGetTagsQuery } from '../store/api';
 import { cn } from '../lib/utils';
+import { TagChip } from './TagChip';
 
 export function ProjectFilter() {
   const dispatch = useAppDispatch();
@@ -10,6 +12,11 @@ export function ProjectFilter() {
   const tasks = useAppSelector(selectPriorityQueue);
   const projectCounts = useAppSelector(selectProjectTaskCounts);
   const currentFilter = useAppSelector((state) => state.ui.filterProject);
+  // V4.3: Tag filter (tasks with any of the selected tags)
+  const tagCounts = useAppSelector(selectTagTaskCounts);
+  const filterTags = useAppSelector((state) => state.ui.filterTags);
+  const { data: tagRegistry } = useGetTagsQuery();
+  const tagColors = Object.fromEntries((tagRegistry ?? []).map((tag) => [tag.name, tag.color]));
 
   const totalTasks = tasks.length;
 
@@ -81,6 +88,36 @@ export function ProjectFilter() {
           );
         })}
       </div>
+
+      {tagCounts.length > 0 && (
+        <>
+          <div className="flex items-center justify-between mt-4 mb-2">
+            <h3 className="text-xs font-medium text-surface-400 uppercase tracking-wider">
+              Filter by Tag
+            </h3>
+            {filterTags.length > 0 && (
+              <button
+                onClick={() => dispatch(clearFilterTags())}
+                className="text-[10px] text-surface-500 hover:text-surface-300"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {tagCounts.map(([tag, count]) => (
+              <TagChip
+                key={tag}
+                name={tag}
+                color={tagColors[tag]}
+                count={count}
+                active={filterTags.includes(tag)}
+                onClick={() => dispatch(toggleFilterTag(tag))}
+              />
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { useUpdateTaskMutation } from '../store/api';
+import type { RecurrenceFrequency, RecurrenceRule, WeightedTask, Weekday } from '../types';
+import { cn, RECURRENCE_UNITS, describeRecurrence } from '../lib/utils';
+
+const FREQUENCIES: Array<{ value: RecurrenceFrequency | 'none'; label: string }> = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'after_completion', label: 'Days after completion' },
+];
+
+const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/**
+ * V4.3: Edit a task's repeat schedule (part of the expanded TaskCard)
+ */
+export function RecurrenceEditor({ task }: { task: WeightedTask }) {
+  const [updateTask, { isLoading: isSaving, error }] = useUpdateTaskMutation();
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | 'none'>(task.recurrence?.frequency ?? 'none');
+  const [repeatInterval, setRepeatInterval] = useState(task.recurrence?.interval ?? 1);
+  const [weekdays, setWeekdays] = useState<Weekday[]>(task.recurrence?.weekdays ?? []);
+  const [until, setUntil] = useState(task.recurrence?.until ?? '');
+
+  const toggleWeekday = (day: Weekday) => {
+    setWeekdays((days) => (days.includes(day) ? days.filter((d) => d !== day) : [...days, day]));
+  };
+
+  const handleSave = async () => {
+    const recurrence: RecurrenceRule | null = frequency === 'none'
+      ? null
+      : {
+          frequency,
+          interval: repeatInterval,
+          ...(frequency === 'weekly' && weekdays.length > 0 && { weekdays: WEEKDAYS.filter((d) => weekdays.includes(d)) }),
+          ...(until && { until }),
+        };
+    try {
+      await updateTask({ id: task.id, updates: { recurrence }, revision: task.revision }).unwrap();
+    } catch (err) {
+      console.error('Failed to save recurrence:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-xs text-surface-500">
+        <Repeat className="w-3 h-3" />
+        Repeat
+        {task.recurrence && (
+          <span className="text-surface-300">· {describeRecurrence(task.recurrence)}</span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | 'none')}
+          className="px-2 py-1 bg-surface-800 border border-surface-600 rounded text-surface-200"
+        >
+          {FREQUENCIES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        {frequency !== 'none' && (
+          <>
+            <label className="flex items-center gap-1 text-surface-500">
+              every
+              <input
+                type="number"
+                min={1}
+                value={repeatInterval}
+                onChange={(e) => setRepeatInterval(Math.max(1, Number(e.target.value) || 1))}
+                className="w-14 px-2 py-1 bg-surface-800 border border-surface-600 rounded text-surface-200"
+              />
+              {RECURRENCE_UNITS[frequency]}
+            </label>
+            <label className="flex items-center gap-1 text-surface-500">
+              until
+              <input
+                type="date"
+                value={until}
+                onChange={(e) => setUntil(e.target.value)}
+                className="px-2 py-1 bg-surface-800 border border-surface-600 rounded text-surface-200"
+              />
+            </label>
+          </>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-2 py-1 rounded bg-green-500/10 text-green-400 border border-green-500/30 hover:bg-green-500/20 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      {frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map((day) => (
+            <button
+              key={day}
+              onClick={() => toggleWeekday(day)}
+              className={cn(
+                'px-1.5 py-0.5 rounded text-[10px] font-mono border transition-colors',
+                weekdays.includes(day)
+                  ? 'bg-green-500/20 border-green-500/50 text-green-300'
+                  : 'border-surface-600 text-surface-500 hover:text-surface-300'
+              )}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <div className="text-xs text-red-400">Could not save the schedule (it may have changed elsewhere)</div>}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Moon } from 'lucide-react';
+import { useSnoozeTaskMutation, useUnsnoozeTaskMutation } from '../store/api';
+import type { WeightedTask } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Quick picks, relative to when the button is pressed
+const PRESETS: Array<{ label: string; until: () => Date }> = [
+  { label: '3 hours', until: () => new Date(Date.now() + 3 * HOUR_MS) },
+  {
+    label: 'Tomorrow 9:00',
+    until: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 1);
+      date.setHours(9, 0, 0, 0);
+      return date;
+    },
+  },
+  { label: 'Next week', until: () => new Date(Date.now() + 7 * 24 * HOUR_MS) },
+];
+
+/**
+ * V4.3: Snooze a task out of the queue (part of the expanded TaskCard)
+ */
+export function SnoozeControl({ task }: { task: WeightedTask }) {
+  const [snoozeTask, { isLoading: isSnoozing, error }] = useSnoozeTaskMutation();
+  const [unsnoozeTask, { isLoading: isWaking }] = useUnsnoozeTaskMutation();
+  const [custom, setCustom] = useState('');
+
+  const snooze = async (until: Date) => {
+    try {
+      await snoozeTask({ id: task.id, until: until.toISOString(), revision: task.revision }).unwrap();
+    } catch (err) {
+      console.error('Failed to snooze task:', err);
+    }
+  };
+
+  const handleWake = async () => {
+    try {
+      await unsnoozeTask(task.id).unwrap();
+    } catch (err) {
+      console.error('Failed to unsnooze task:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 text-xs text-surface-500">
+        <Moon className="w-3 h-3" />
+        Snooze
+        {task.snoozedUntil && (
+          <span className="text-indigo-300">· until {new Date(task.snoozedUntil).toLocaleString()}</span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {PRESETS.map(({ label, until }) => (
+          <button
+            key={label}
+            onClick={() => snooze(until())}
+            disabled={isSnoozing}
+            className="px-2 py-1 rounded border border-surface-600 text-surface-300 hover:border-indigo-500/50 hover:text-indigo-300 disabled:opacity-50"
+          >
+            {label}
+          </button>
+        ))}
+        <input
+          type="datetime-local"
+          value={custom}
+          onChange={(e) => setCustom(e.target.value)}
+          className="px-2 py-1 bg-surface-800 border border-surface-600 rounded text-surface-200"
+        />
+        <button
+          onClick={() => snooze(new Date(custom))}
+          disabled={!custom || isSnoozing}
+          className="px-2 py-1 rounded bg-indigo-500/10 text-indigo-300 border border-indigo-500/30 hover:bg-indigo-500/20 disabled:opacity-50"
+        >
+          {isSnoozing ? 'Snoozing...' : 'Snooze'}
+        </button>
+        {task.snoozedUntil && (
+          <button
+            onClick={handleWake}
+            disabled={isWaking}
+            className="px-2 py-1 rounded bg-green-500/10 text-green-400 border border-green-500/30 hover:bg-green-500/20 disabled:opacity-50"
+          >
+            Wake now
+          </button>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-400">Could not snooze (pick a time in the future)</div>}
+    </div>
+  );
+}
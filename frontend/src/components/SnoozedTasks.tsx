@@ -0,0 +1,69 @@
+import { AlarmClock, Moon } from 'lucide-react';
+import { useGetSnoozedTasksQuery, useUnsnoozeTaskMutation } from '../store/api';
+import { cn, getPriorityBgClass } from '../lib/utils';
+
+// The server wakes tasks once a minute; refresh often enough to see them leave
+const POLL_INTERVAL = 30000;
+
+/**
+ * V4.3: Tasks snoozed out of the queue, soonest to wake first
+ */
+export function SnoozedTasks() {
+  const { data: snoozed = [] } = useGetSnoozedTasksQuery(undefined, { pollingInterval: POLL_INTERVAL });
+  const [unsnoozeTask, { isLoading: isWaking }] = useUnsnoozeTaskMutation();
+
+  const handleWake = async (id: string) => {
+    try {
+      await unsnoozeTask(id).unwrap();
+    } catch (err) {
+      console.error('Failed to unsnooze task:', err);
+    }
+  };
+
+  return (
+    <div className="glass-light rounded-xl p-4">
+      <h3 className="text-xs font-medium text-surface-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Moon className={cn('w-4 h-4', snoozed.length > 0 && 'text-indigo-400')} />
+        Snoozed
+        {snoozed.length > 0 && (
+          <span className="ml-auto px-2 py-0.5 rounded bg-indigo-500/20 text-indigo-300 text-xs">
+            {snoozed.length}
+          </span>
+        )}
+      </h3>
+
+      {snoozed.length === 0 ? (
+        <p className="text-sm text-surface-500 text-center py-4">
+          No snoozed tasks
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-[300px] overflow-y-auto">
+          {snoozed.map((task) => (
+            <div
+              key={task.id}
+              className="p-3 rounded-lg bg-surface-800/50 border border-surface-700"
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className={cn('px-1.5 py-0.5 rounded text-[10px] font-bold text-white', getPriorityBgClass(task.priority))}>
+                  {task.priority}
+                </span>
+                <span className="text-sm text-surface-200 truncate">{task.task}</span>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-surface-500">
+                <AlarmClock className="w-3 h-3" />
+                <span className="font-mono">{new Date(task.snoozedUntil!).toLocaleString()}</span>
+                <button
+                  onClick={() => handleWake(task.id)}
+                  disabled={isWaking}
+                  className="ml-auto px-2 py-0.5 rounded text-green-400 border border-green-500/30 hover:bg-green-500/10 disabled:opacity-50"
+                >
+                  Wake now
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
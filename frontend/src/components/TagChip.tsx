@@ -0,0 +1,47 @@
+import { Tag } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface TagChipProps {
+  name: string;
+  color?: string;      // Registry color (hex); neutral when unset
+  count?: number;
+  active?: boolean;
+  onClick?: () => void;
+}
+
+/**
+ * V4.3: A task tag, optionally a filter toggle
+ */
+export function TagChip({ name, color, count, active, onClick }: TagChipProps) {
+  const className = cn(
+    'inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-mono transition-colors',
+    active
+      ? 'bg-green-500/20 border-green-500/50 text-green-300'
+      : 'border-surface-600 text-surface-400',
+    onClick && !active && 'hover:text-surface-200 hover:border-surface-500'
+  );
+  const style = color && !active ? { color, borderColor: `${color}80` } : undefined;
+  const content = (
+    <>
+      <Tag className="w-2.5 h-2.5" />
+      {name}
+      {count !== undefined && <span className="text-surface-500">{count}</span>}
+    </>
+  );
+
+  if (!onClick) {
+    return <span className={className} style={style}>{content}</span>;
+  }
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={className}
+      style={style}
+    >
+      {content}
+    </button>
+  );
+}
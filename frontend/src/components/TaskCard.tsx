@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { 
   AlertCircle, 
   Clock, 
@@ -10,6 +11,8 @@ import {
   Circle,
   GripVertical,
   Trash2,
+  CornerDownRight,
+  Repeat,
 } from 'lucide-react';
 import type { WeightedTask } from '../types';
 import { 
@@ -19,10 +22,18 @@ import {
   getEffortLabel,
   formatScore,
   priorityToUrgency,
+  describeRecurrence,
 } from '../lib/utils';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { setSelectedTask } from '../store';
-import { useDeleteTaskMutation } from '../store/api';
+import { useDeleteTaskMutation, useGetTagsQuery } from '../store/api';
+import { TaskHistory } from './TaskHistory';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { TagChip } from './TagChip';
+import { CustomFieldsEditor } from './CustomFieldsEditor';
+import { SnoozeControl } from './SnoozeControl';
+
+type DetailTab = 'details' | 'history';
 
 interface TaskCardProps {
   task: WeightedTask;
@@ -55,6 +66,11 @@ export function TaskCard({
   const isSelected = selectedTaskId === task.id;
   const urgency = priorityToUrgency(task.priority);
   const [deleteTask, { isLoading: isDeleting }] = useDeleteTaskMutation();
+  // V4.3: Expanded card shows either the details or the change history
+  const [detailTab, setDetailTab] = useState<DetailTab>('details');
+  // V4.3: Registry colors for the tag chips (one shared, cached request)
+  const { data: tagRegistry } = useGetTagsQuery(undefined, { skip: !task.tags?.length });
+  const tagColors = Object.fromEntries((tagRegistry ?? []).map((tag) => [tag.name, tag.color]));
 
   const _StatusIcon = {
     not_started: Circle,
@@ -223,6 +239,12 @@ export function TaskCard({
               <GitBranch className="w-3 h-3" />
               {task.project}
             </span>
+            {task.parentId && (
+              <span className="flex items-center gap-1" title="Subtask of">
+                <CornerDownRight className="w-3 h-3" />
+                {task.parentId}
+              </span>
+            )}
             {task.effort && (
               <span className="flex items-center gap-1">
                 {getEffortLabel(task.effort)}
@@ -234,12 +256,21 @@ export function TaskCard({
                 Blocks: {task.blocking}
               </span>
             )}
+            {task.recurrence && (
+              <span className="flex items-center gap-1" title={describeRecurrence(task.recurrence)}>
+                <Repeat className="w-3 h-3" />
+                Repeats
+              </span>
+            )}
             {task.deadline && (
               <span className="flex items-center gap-1 text-red-400">
                 <Clock className="w-3 h-3" />
                 Due: {new Date(task.deadline).toLocaleDateString()}
               </span>
             )}
+            {task.tags?.map((tag) => (
+              <TagChip key={tag} name={tag} color={tagColors[tag]} />
+            ))}
           </div>
 
           {/* Notes */}
@@ -280,108 +311,138 @@ export function TaskCard({
       {/* Expanded Details (when selected) */}
       {isSelected && (
         <div className="mt-4 pt-4 border-t border-surface-700 animate-fade-in space-y-4">
-          {/* Full Task Details */}
-          <div className="space-y-3">
-            <div className="text-xs font-semibold text-surface-400 uppercase tracking-wide mb-2">
-              Full Details
-            </div>
-            
-            {/* Full Task Description */}
-            <div>
-              <div className="text-xs text-surface-500 mb-1">Task Description</div>
-              <div className="text-sm text-surface-200 whitespace-normal break-words leading-relaxed">
-                {task.task}
-              </div>
-            </div>
+          {/* Tabs */}
+          <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+            {(['details', 'history'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setDetailTab(tab)}
+                className={cn(
+                  'px-2 py-1 rounded text-xs font-semibold uppercase tracking-wide transition-colors',
+                  detailTab === tab
+                    ? 'bg-surface-700 text-surface-200'
+                    : 'text-surface-500 hover:text-surface-300'
+                )}
+              >
+                {tab === 'details' ? 'Full Details' : 'History'}
+              </button>
+            ))}
+          </div>
 
-            {/* Full Notes */}
-            {task.notes && (
-              <div>
-                <div className="text-xs text-surface-500 mb-1">Notes</div>
-                <div className="text-sm text-surface-300 whitespace-normal break-words leading-relaxed italic">
-                  {task.notes}
+          {detailTab === 'history' ? (
+            <TaskHistory taskId={task.id} />
+          ) : (
+            <>
+              {/* Full Task Details */}
+              <div className="space-y-3">
+            
+                {/* Full Task Description */}
+                <div>
+                  <div className="text-xs text-surface-500 mb-1">Task Description</div>
+                  <div className="text-sm text-surface-200 whitespace-normal break-words leading-relaxed">
+                    {task.task}
+                  </div>
                 </div>
-              </div>
-            )}
 
-            {/* Dependencies */}
-            {task.dependencies && task.dependencies.length > 0 && (
-              <div>
-                <div className="text-xs text-surface-500 mb-1">Dependencies</div>
-                <div className="flex flex-wrap gap-2">
-                  {task.dependencies.map((depId) => (
-                    <span
-                      key={depId}
-                      className="px-2 py-1 text-xs font-mono bg-surface-700/50 rounded border border-surface-600 text-surface-300"
-                    >
-                      {depId}
-                    </span>
-                  ))}
+                {/* Full Notes */}
+                {task.notes && (
+                  <div>
+                    <div className="text-xs text-surface-500 mb-1">Notes</div>
+                    <div className="text-sm text-surface-300 whitespace-normal break-words leading-relaxed italic">
+                      {task.notes}
+                    </div>
+                  </div>
+                )}
+
+                {/* Dependencies */}
+                {task.dependencies && task.dependencies.length > 0 && (
+                  <div>
+                    <div className="text-xs text-surface-500 mb-1">Dependencies</div>
+                    <div className="flex flex-wrap gap-2">
+                      {task.dependencies.map((depId) => (
+                        <span
+                          key={depId}
+                          className="px-2 py-1 text-xs font-mono bg-surface-700/50 rounded border border-surface-600 text-surface-300"
+                        >
+                          {depId}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* V4.3: Workspace custom fields */}
+                <CustomFieldsEditor key={`fields-${task.revision}`} task={task} />
+
+                {/* V4.3: Repeat schedule */}
+                <RecurrenceEditor key={task.revision} task={task} />
+
+                {/* V4.3: Snooze out of the queue */}
+                <SnoozeControl task={task} />
+
+                {/* Timestamps */}
+                <div className="grid grid-cols-2 gap-4 text-xs">
+                  <div>
+                    <div className="text-surface-500 mb-1">Created</div>
+                    <div className="text-surface-400 font-mono">
+                      {new Date(task.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-surface-500 mb-1">Updated</div>
+                    <div className="text-surface-400 font-mono">
+                      {new Date(task.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
                 </div>
               </div>
-            )}
 
-            {/* Timestamps */}
-            <div className="grid grid-cols-2 gap-4 text-xs">
+              {/* Priority Score Breakdown */}
               <div>
-                <div className="text-surface-500 mb-1">Created</div>
-                <div className="text-surface-400 font-mono">
-                  {new Date(task.createdAt).toLocaleString()}
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-xs font-semibold text-surface-400 uppercase tracking-wide">
+                    Priority Score Breakdown
+                  </div>
+                  {/* Delete Button (small, to the right) */}
+                  <button
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className={cn(
+                      'flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors',
+                      'bg-red-500/10 text-red-400 border border-red-500/30',
+                      'hover:bg-red-500/20 hover:border-red-500/50',
+                      'disabled:opacity-50 disabled:cursor-not-allowed',
+                      isDeleting && 'animate-pulse'
+                    )}
+                    title="Delete task"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    {isDeleting ? 'Deleting...' : 'Delete'}
+                  </button>
                 </div>
-              </div>
-              <div>
-                <div className="text-surface-500 mb-1">Updated</div>
-                <div className="text-surface-400 font-mono">
-                  {new Date(task.updatedAt).toLocaleString()}
+                <div className="grid grid-cols-5 gap-2">
+                  {[
+                    { label: 'Blocking', value: task.weights.blockingCount, max: 10 },
+                    { label: 'Cross-Project', value: task.weights.crossProjectImpact, max: 1 },
+                    { label: 'Time Sensitive', value: task.weights.timeSensitivity, max: 10 },
+                    { label: 'Effort/Value', value: task.weights.effortValueRatio, max: 9 },
+                    { label: 'Dep Depth', value: task.weights.dependencyDepth, max: 5 },
+                  ].map(({ label, value, max }) => (
+                    <div key={label} className="text-center">
+                      <div className="text-lg font-bold text-surface-200 font-mono">{value}</div>
+                      <div className="text-[9px] text-surface-500 uppercase">{label}</div>
+                      <div className="mt-1 h-1 bg-surface-700 rounded-full overflow-hidden">
+                        <div 
+                          className="h-full bg-green-500 rounded-full transition-all"
+                          style={{ width: `${(value / max) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
-            </div>
-          </div>
-
-          {/* Priority Score Breakdown */}
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <div className="text-xs font-semibold text-surface-400 uppercase tracking-wide">
-                Priority Score Breakdown
-              </div>
-              {/* Delete Button (small, to the right) */}
-              <button
-                onClick={handleDelete}
-                disabled={isDeleting}
-                className={cn(
-                  'flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors',
-                  'bg-red-500/10 text-red-400 border border-red-500/30',
-                  'hover:bg-red-500/20 hover:border-red-500/50',
-                  'disabled:opacity-50 disabled:cursor-not-allowed',
-                  isDeleting && 'animate-pulse'
-                )}
-                title="Delete task"
-              >
-                <Trash2 className="w-3 h-3" />
-                {isDeleting ? 'Deleting...' : 'Delete'}
-              </button>
-            </div>
-            <div className="grid grid-cols-5 gap-2">
-              {[
-                { label: 'Blocking', value: task.weights.blockingCount, max: 10 },
-                { label: 'Cross-Project', value: task.weights.crossProjectImpact, max: 1 },
-                { label: 'Time Sensitive', value: task.weights.timeSensitivity, max: 10 },
-                { label: 'Effort/Value', value: task.weights.effortValueRatio, max: 9 },
-                { label: 'Dep Depth', value: task.weights.dependencyDepth, max: 5 },
-              ].map(({ label, value, max }) => (
-                <div key={label} className="text-center">
-                  <div className="text-lg font-bold text-surface-200 font-mono">{value}</div>
-                  <div className="text-[9px] text-surface-500 uppercase">{label}</div>
-                  <div className="mt-1 h-1 bg-surface-700 rounded-full overflow-hidden">
-                    <div 
-                      className="h-full bg-green-500 rounded-full transition-all"
-                      style={{ width: `${(value / max) * 100}%` }}
-                    />
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
+            </>
+          )}
         </div>
       )}
     </div>
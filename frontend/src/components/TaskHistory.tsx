@@ -0,0 +1,82 @@
+import { History, User } from 'lucide-react';
+import { useGetTaskHistoryQuery } from '../store/api';
+import type { FieldChange } from '../types';
+import { cn, formatRelativeTime } from '../lib/utils';
+
+const OPERATION_LABELS: Record<string, string> = {
+  create: 'Created',
+  update: 'Updated',
+  complete: 'Completed',
+  delete: 'Deleted',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function ChangeRow({ change }: { change: FieldChange }) {
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      <span className="font-mono text-surface-400 shrink-0">{change.field}</span>
+      <span className="text-surface-500 line-through break-all">{formatValue(change.before)}</span>
+      <span className="text-surface-600">→</span>
+      <span className="text-surface-200 break-all">{formatValue(change.after)}</span>
+    </div>
+  );
+}
+
+/**
+ * V4.3: Who changed a task and how (newest first), for the History tab of TaskCard
+ */
+export function TaskHistory({ taskId }: { taskId: string }) {
+  const { data: history, isLoading, isError } = useGetTaskHistoryQuery(taskId);
+
+  if (isLoading) {
+    return <div className="text-xs text-surface-500 animate-pulse">Loading history...</div>;
+  }
+  if (isError || !history || history.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-surface-500">
+        <History className="w-3 h-3" />
+        No recorded changes
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-3">
+      {history.map((entry, i) => (
+        <li key={`${entry.timestamp}-${i}`} className="border-l-2 border-surface-700 pl-3 space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            <span className={cn(
+              'font-medium',
+              entry.operation === 'delete' ? 'text-red-400' : 'text-surface-200'
+            )}>
+              {OPERATION_LABELS[entry.operation] ?? entry.operation}
+            </span>
+            {entry.source && (
+              <span className="px-1.5 py-0.5 rounded bg-surface-700/50 text-[10px] text-surface-400">
+                {entry.source}
+              </span>
+            )}
+            <span className="flex items-center gap-1 text-surface-400 truncate" title={entry.actor}>
+              <User className="w-3 h-3 shrink-0" />
+              {entry.actor}
+            </span>
+            <span
+              className="ml-auto text-surface-500 font-mono shrink-0"
+              title={new Date(entry.timestamp).toLocaleString()}
+            >
+              {formatRelativeTime(entry.timestamp)}
+            </span>
+          </div>
+          {entry.changes.map((change) => (
+            <ChangeRow key={change.field} change={change} />
+          ))}
+        </li>
+      ))}
+    </ol>
+  );
+}
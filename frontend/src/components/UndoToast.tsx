@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+import { useGetUndoHistoryQuery, useUndoMutation, useRedoMutation } from '../store/api';
+import type { UndoResult } from '../types';
+import { cn } from '../lib/utils';
+
+// Poll so changes made over MCP also surface here
+const UNDO_POLL_INTERVAL = 5000;
+const TOAST_DURATION = 8000;
+
+/**
+ * V4.3: Toast offering to undo the latest change (or redo the one just undone)
+ */
+export function UndoToast() {
+  const { data: history } = useGetUndoHistoryQuery(undefined, {
+    pollingInterval: UNDO_POLL_INTERVAL,
+  });
+  const [undo, { isLoading: isUndoing }] = useUndoMutation();
+  const [redo, { isLoading: isRedoing }] = useRedoMutation();
+
+  // Only changes made after the dashboard opened raise a toast
+  const [mountedAt] = useState(() => Date.now());
+  const [lastResult, setLastResult] = useState<{ result: UndoResult; at: number } | null>(null);
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+
+  const latest = history?.undo[0];
+  const latestAt = latest ? new Date(latest.timestamp).getTime() : 0;
+
+  let toast: { key: string; message: string } | null = null;
+  if (lastResult && lastResult.at >= latestAt) {
+    const { result, at } = lastResult;
+    toast = {
+      key: `${result.direction}-${result.change.id}-${at}`,
+      message: `${result.direction === 'undo' ? 'Undone' : 'Redone'}: ${result.change.description}`,
+    };
+  } else if (latest && latestAt >= mountedAt) {
+    toast = { key: latest.id, message: latest.description };
+  }
+  const toastKey = toast?.key ?? null;
+
+  useEffect(() => {
+    if (!toastKey) return;
+    const timer = setTimeout(() => setDismissedKey(toastKey), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [toastKey]);
+
+  if (!toast || toast.key === dismissedKey) return null;
+
+  const canUndo = (history?.undo.length ?? 0) > 0;
+  const canRedo = (history?.redo.length ?? 0) > 0;
+
+  const handleUndo = async () => {
+    try {
+      const result = await undo().unwrap();
+      setLastResult({ result, at: Date.now() });
+    } catch (error) {
+      console.error('Failed to undo:', error);
+    }
+  };
+
+  const handleRedo = async () => {
+    try {
+      const result = await redo().unwrap();
+      setLastResult({ result, at: Date.now() });
+    } catch (error) {
+      console.error('Failed to redo:', error);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-6 left-6 z-50 max-w-sm glass rounded-xl shadow-2xl px-4 py-3 animate-fade-in">
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-surface-200 truncate" title={toast.message}>
+          {toast.message}
+        </span>
+        <div className="flex items-center gap-1 ml-auto shrink-0">
+          <button
+            onClick={handleUndo}
+            disabled={!canUndo || isUndoing || isRedoing}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded-lg text-xs transition-colors',
+              canUndo ? 'text-green-400 hover:bg-green-500/10' : 'text-surface-600 cursor-not-allowed'
+            )}
+            title="Undo"
+          >
+            <Undo2 className="w-3.5 h-3.5" />
+            Undo
+          </button>
+          <button
+            onClick={handleRedo}
+            disabled={!canRedo || isUndoing || isRedoing}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded-lg text-xs transition-colors',
+              canRedo ? 'text-blue-400 hover:bg-blue-500/10' : 'text-surface-600 cursor-not-allowed'
+            )}
+            title="Redo"
+          >
+            <Redo2 className="w-3.5 h-3.5" />
+            Redo
+          </button>
+          <button
+            onClick={() => setDismissedKey(toast.key)}
+            className="p-1 rounded-lg text-surface-500 hover:text-surface-300 hover:bg-surface-700/50 transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
 export { Header } from './Header';
 export { TaskCard } from './TaskCard';
+export { TaskHistory } from './TaskHistory';
+export { RecurrenceEditor } from './RecurrenceEditor';
+export { TagChip } from './TagChip';
+export { CustomFieldsEditor } from './CustomFieldsEditor';
+export { SnoozeControl } from './SnoozeControl';
+export { SnoozedTasks } from './SnoozedTasks';
 export { PriorityQueueList } from './PriorityQueueList';
 export { ProjectFilter } from './ProjectFilter';
 export { HeuristicWeightTuner } from './HeuristicWeightTuner';
 export { WorkspaceSwitcher } from './WorkspaceSwitcher';
 export { DecisionsPanel } from './DecisionsPanel';
 export { StatsBar } from './StatsBar';
+export { UndoToast } from './UndoToast';
 
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { RecurrenceFrequency, RecurrenceRule } from '../types';
 
 export function cn(...inputs: ClassValue[]): string {
   return twMerge(clsx(inputs));
@@ -112,3 +113,24 @@ export function priorityToUrgency(priority: string): 'critical' | 'high' | 'medi
     default: return 'low';
   }
 }
+
+// V4.3: Recurring tasks
+export const RECURRENCE_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  after_completion: 'day(s) after completion',
+};
+
+/**
+ * V4.3: Human-readable schedule, e.g. "Every 2 weeks on MO, TH"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = rule.interval ?? 1;
+  const every = rule.frequency === 'after_completion'
+    ? `${interval} day(s) after completion`
+    : `Every ${interval > 1 ? `${interval} ` : ''}${RECURRENCE_UNITS[rule.frequency]}`;
+  const days = rule.weekdays?.length ? ` on ${rule.weekdays.join(', ')}` : '';
+  const until = rule.until ? ` until ${new Date(rule.until).toLocaleDateString()}` : '';
+  return `${every}${days}${until}`;
+}
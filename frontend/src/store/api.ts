@@ -15,6 +15,12 @@ import type {
   UnifiedProgress, 
   HeuristicWeights, 
   WeightedTask,
+  UndoHistory,
+  UndoResult,
+  TaskHistoryEntry,
+  TaskUpdates,
+  TagSummary,
+  CustomFieldDefinition,
 } from '../types';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3456';
@@ -29,8 +35,15 @@ export interface VersionInfo {
 
 export const priorityApi = createApi({
   reducerPath: 'priorityApi',
-  baseQuery: fetchBaseQuery({ baseUrl: API_BASE }),
-  tagTypes: ['Status', 'Tasks', 'Weights'],
+  baseQuery: fetchBaseQuery({
+    baseUrl: API_BASE,
+    // V4.3: Changes made here are attributed to the dashboard in task history
+    prepareHeaders: (headers) => {
+      headers.set('X-Actor', 'dashboard');
+      return headers;
+    },
+  }),
+  tagTypes: ['Status', 'Tasks', 'Weights', 'Undo', 'History'],
   endpoints: (builder) => ({
     // GET /version - App version info (single source of truth)
     getVersion: builder.query<VersionInfo, void>({
@@ -81,12 +94,17 @@ export const priorityApi = createApi({
       invalidatesTags: ['Status', 'Tasks'],
     }),
 
-    // PATCH /tasks/:id - Update task
-    updateTask: builder.mutation<WeightedTask, { id: string; updates: Partial<WeightedTask> }>({
-      query: ({ id, updates }) => ({
+    // PUT /tasks/:id - Update task
+    // V4.3: Pass the revision that was edited to get a 409 (not a silent overwrite) on concurrent changes
+    updateTask: builder.mutation<
+      WeightedTask,
+      { id: string; updates: TaskUpdates; revision?: number }
+    >({
+      query: ({ id, updates, revision }) => ({
         url: `/tasks/${id}`,
-        method: 'PATCH',
+        method: 'PUT',
         body: updates,
+        headers: revision !== undefined ? { 'If-Match': `"${revision}"` } : undefined,
       }),
       // Optimistic update
       async onQueryStarted({ id, updates }, { dispatch, queryFulfilled }) {
@@ -106,7 +124,7 @@ export const priorityApi = createApi({
           patchResult.undo();
         }
       },
-      invalidatesTags: ['Tasks'],
+      invalidatesTags: ['Tasks', 'Undo', 'History'],
     }),
 
     // POST /tasks - Create task
@@ -116,7 +134,7 @@ export const priorityApi = createApi({
         method: 'POST',
         body: task,
       }),
-      invalidatesTags: ['Status', 'Tasks'],
+      invalidatesTags: ['Status', 'Tasks', 'Undo', 'History'],
     }),
 
     // DELETE /tasks/:id - Delete task
@@ -125,7 +143,51 @@ export const priorityApi = createApi({
         url: `/tasks/${id}`,
         method: 'DELETE',
       }),
-      invalidatesTags: ['Status', 'Tasks'],
+      invalidatesTags: ['Status', 'Tasks', 'Undo', 'History'],
+    }),
+
+    // V4.3: GET /tasks/snoozed - Tasks hidden from the queue, soonest to wake first
+    getSnoozedTasks: builder.query<WeightedTask[], void>({
+      query: () => '/tasks/snoozed',
+      providesTags: ['Status', 'Tasks'],
+    }),
+
+    // V4.3: POST /tasks/:id/snooze - Hide a task from the queue until a time
+    snoozeTask: builder.mutation<WeightedTask, { id: string; until: string; revision?: number }>({
+      query: ({ id, until, revision }) => ({
+        url: `/tasks/${id}/snooze`,
+        method: 'POST',
+        body: { until },
+        headers: revision !== undefined ? { 'If-Match': `"${revision}"` } : undefined,
+      }),
+      invalidatesTags: ['Status', 'Tasks', 'Undo', 'History'],
+    }),
+
+    // V4.3: POST /tasks/:id/unsnooze - Put a snoozed task back in the queue now
+    unsnoozeTask: builder.mutation<WeightedTask, string>({
+      query: (id) => ({
+        url: `/tasks/${id}/unsnooze`,
+        method: 'POST',
+      }),
+      invalidatesTags: ['Status', 'Tasks', 'Undo', 'History'],
+    }),
+
+    // V4.3: GET /tasks/:id/history - Who changed what, newest first
+    getTaskHistory: builder.query<TaskHistoryEntry[], string>({
+      query: (id) => `/tasks/${id}/history`,
+      providesTags: ['History'],
+    }),
+
+    // V4.3: GET /tags - Tag registry with task counts (colors for tag chips)
+    getTags: builder.query<TagSummary[], void>({
+      query: () => '/tags',
+      providesTags: ['Status'],
+    }),
+
+    // V4.3: GET /custom-fields - Custom field schema of the current workspace
+    getCustomFields: builder.query<CustomFieldDefinition[], void>({
+      query: () => '/custom-fields',
+      providesTags: ['Status'],
     }),
 
     // V3.2: Online Learning - Log drag reorder
@@ -155,7 +217,7 @@ export const priorityApi = createApi({
         body: params,
       }),
       // Invalidate to refetch updated weights and scores
-      invalidatesTags: ['Status', 'Tasks', 'Weights'],
+      invalidatesTags: ['Status', 'Tasks', 'Weights', 'Undo', 'History'],
     }),
 
     // V3.2: Get online learner state
@@ -176,6 +238,28 @@ export const priorityApi = createApi({
       providesTags: ['Weights'],
     }),
 
+    // V4.3: Undo/redo (current workspace)
+    getUndoHistory: builder.query<UndoHistory, void>({
+      query: () => '/undo',
+      providesTags: ['Undo'],
+    }),
+
+    undo: builder.mutation<UndoResult, void>({
+      query: () => ({
+        url: '/undo',
+        method: 'POST',
+      }),
+      invalidatesTags: ['Status', 'Tasks', 'Weights', 'Undo', 'History'],
+    }),
+
+    redo: builder.mutation<UndoResult, void>({
+      query: () => ({
+        url: '/redo',
+        method: 'POST',
+      }),
+      invalidatesTags: ['Status', 'Tasks', 'Weights', 'Undo', 'History'],
+    }),
+
     // V4: Workspace Management
     getWorkspaces: builder.query<
       {
@@ -246,7 +330,7 @@ export const priorityApi = createApi({
         url: `/workspaces/${workspaceId}/switch`,
         method: 'POST',
       }),
-      invalidatesTags: ['Status', 'Tasks', 'Weights'],
+      invalidatesTags: ['Status', 'Tasks', 'Weights', 'Undo', 'History'],
     }),
 
     deleteWorkspace: builder.mutation<
@@ -284,8 +368,17 @@ export const {
   useUpdateTaskMutation,
   useCreateTaskMutation,
   useDeleteTaskMutation,
+  useGetSnoozedTasksQuery,
+  useSnoozeTaskMutation,
+  useUnsnoozeTaskMutation,
+  useGetTaskHistoryQuery,
+  useGetTagsQuery,
+  useGetCustomFieldsQuery,
   useLogDragReorderMutation,
   useGetOnlineLearnerStateQuery,
+  useGetUndoHistoryQuery,
+  useUndoMutation,
+  useRedoMutation,
   useGetWorkspacesQuery,
   useGetCurrentWorkspaceQuery,
   useCreateWorkspaceMutation,
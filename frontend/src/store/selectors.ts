@@ -66,6 +66,7 @@ interface RootStateWithUI {
     filterProject: string;
     filterPriority: Priority | 'all';
     filterStatus: TaskStatus | 'all';
+    filterTags: string[];
     searchQuery: string;
     selectedTaskId: string | null;
     viewMode: string;
@@ -78,6 +79,7 @@ interface RootStateWithUI {
 export const selectFilterProject = (state: RootStateWithUI) => state.ui.filterProject;
 export const selectFilterPriority = (state: RootStateWithUI) => state.ui.filterPriority;
 export const selectFilterStatus = (state: RootStateWithUI) => state.ui.filterStatus;
+export const selectFilterTags = (state: RootStateWithUI) => state.ui.filterTags;
 export const selectSearchQuery = (state: RootStateWithUI) => state.ui.searchQuery;
 export const selectSelectedTaskId = (state: RootStateWithUI) => state.ui.selectedTaskId;
 export const selectHideCompleted = (state: RootStateWithUI) => state.ui.hideCompleted;
@@ -99,8 +101,8 @@ export const selectSortedTasks = createSelector(
  * Tasks filtered by current UI filters
  */
 export const selectFilteredTasks = createSelector(
-  [selectSortedTasks, selectFilterProject, selectFilterPriority, selectFilterStatus, selectSearchQuery, selectHideCompleted],
-  (tasks, filterProject, filterPriority, filterStatus, searchQuery, hideCompleted): WeightedTask[] => {
+  [selectSortedTasks, selectFilterProject, selectFilterPriority, selectFilterStatus, selectFilterTags, selectSearchQuery, selectHideCompleted],
+  (tasks, filterProject, filterPriority, filterStatus, filterTags, searchQuery, hideCompleted): WeightedTask[] => {
     return tasks.filter((task: WeightedTask) => {
       // Hide complete/cancelled by default (unless toggled off)
       // Canonical status is 'complete' (normalized from legacy 'completed')
@@ -116,6 +118,9 @@ export const selectFilteredTasks = createSelector(
       
       // Status filter
       if (filterStatus !== 'all' && task.status !== filterStatus) return false;
+
+      // V4.3: Tag filter (any of the selected tags)
+      if (filterTags.length > 0 && !filterTags.some((tag) => task.tags?.includes(tag))) return false;
       
       // Search filter
       if (searchQuery) {
@@ -124,7 +129,8 @@ export const selectFilteredTasks = createSelector(
           task.task.toLowerCase().includes(query) ||
           task.id.toLowerCase().includes(query) ||
           task.project.toLowerCase().includes(query) ||
-          (task.notes?.toLowerCase().includes(query) ?? false)
+          (task.notes?.toLowerCase().includes(query) ?? false) ||
+          (task.tags?.some((tag) => tag.includes(query)) ?? false)
         );
       }
       
@@ -230,6 +236,22 @@ export const selectSelectedTask = createSelector(
     selectedId ? tasks.find((t: WeightedTask) => t.id === selectedId) ?? null : null
 );
 
+/**
+ * V4.3: Tag → number of queued tasks carrying it, most used first
+ */
+export const selectTagTaskCounts = createSelector(
+  [selectPriorityQueue],
+  (tasks): Array<[string, number]> => {
+    const counts: Record<string, number> = {};
+    for (const task of tasks) {
+      for (const tag of task.tags ?? []) {
+        counts[tag] = (counts[tag] ?? 0) + 1;
+      }
+    }
+    return Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }
+);
+
 /**
  * Project task counts
  */
@@ -7,6 +7,7 @@ interface UIState {
   filterProject: FilterProject;
   filterPriority: FilterPriority;
   filterStatus: FilterStatus;
+  filterTags: string[];  // V4.3: Show tasks with any of these tags (empty = no tag filter)
   selectedTaskId: string | null;
   isWeightsPanelOpen: boolean;
   isDetailsPanelOpen: boolean;
@@ -19,6 +20,7 @@ const initialState: UIState = {
   filterProject: 'all',
   filterPriority: 'all',
   filterStatus: 'all',
+  filterTags: [],
   selectedTaskId: null,
   isWeightsPanelOpen: false,
   isDetailsPanelOpen: false,
@@ -42,6 +44,14 @@ export const uiSlice = createSlice({
     setFilterStatus: (state, action: PayloadAction<FilterStatus>) => {
       state.filterStatus = action.payload;
     },
+    toggleFilterTag: (state, action: PayloadAction<string>) => {
+      state.filterTags = state.filterTags.includes(action.payload)
+        ? state.filterTags.filter((tag) => tag !== action.payload)
+        : [...state.filterTags, action.payload];
+    },
+    clearFilterTags: (state) => {
+      state.filterTags = [];
+    },
     setSelectedTask: (state, action: PayloadAction<string | null>) => {
       state.selectedTaskId = action.payload;
       state.isDetailsPanelOpen = action.payload !== null;
@@ -63,6 +73,7 @@ export const uiSlice = createSlice({
       state.filterProject = 'all';
       state.filterPriority = 'all';
       state.filterStatus = 'all';
+      state.filterTags = [];
       state.searchQuery = '';
       state.hideCompleted = true;
     },
@@ -80,6 +91,8 @@ export const {
   setFilterProject,
   setFilterPriority,
   setFilterStatus,
+  toggleFilterTag,
+  clearFilterTags,
   setSelectedTask,
   toggleWeightsPanel,
   setWeightsPanelOpen,
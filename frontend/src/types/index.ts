@@ -15,6 +15,7 @@ export interface Project {
   primaryFocus: string;
   createdAt: string;
   updatedAt: string;
+  revision: number;  // V4.3: Incremented on every write
 }
 
 export interface TaskWeights {
@@ -42,14 +43,65 @@ export interface WeightedTask {
   blocking?: string;
   dependencies?: string[];
   notes?: string;
+  parentId?: string;  // V4.3: Subtask of this task
+  tags?: string[];    // V4.3: Free-form labels
+  customFields?: Record<string, CustomFieldValue>;  // V4.3: Values for the workspace's custom fields
   createdAt: string;
   updatedAt: string;
+  revision: number;  // V4.3: Sent back as If-Match on updates
   priorityScore: number;
   weights: TaskWeights;
   deadline?: string;
   effort?: Effort;
+  recurrence?: RecurrenceRule;  // V4.3: Repeats; completing creates the next instance
+  seriesId?: string;
+  snoozedUntil?: string;  // V4.3: Hidden from the queue until then
 }
 
+// V4.3: Recurring tasks (weekdays are RRULE BYDAY codes)
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  weekdays?: Weekday[];
+  until?: string;
+}
+
+// V4.3: Workspace custom field schema (GET /custom-fields)
+export type CustomFieldType = 'string' | 'number' | 'enum' | 'date' | 'boolean' | 'url';
+export type CustomFieldValue = string | number | boolean;
+
+export interface CustomFieldDefinition {
+  key: string;
+  label?: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// V4.3: Tag registry entry (GET /tags)
+export interface TagSummary {
+  name: string;
+  description?: string;
+  color?: string;
+  scoreMultiplier?: number;
+  taskCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of PUT /tasks/:id (null clears recurrence / parentId / a custom field)
+export type TaskUpdates = Partial<Omit<WeightedTask, 'recurrence' | 'parentId' | 'customFields'>> & {
+  recurrence?: RecurrenceRule | null;
+  parentId?: string | null;
+  customFields?: Record<string, CustomFieldValue | null>;
+};
+
 export interface Decision {
   id: string;
   date: string;
@@ -58,6 +110,44 @@ export interface Decision {
   createdAt: string;
 }
 
+// V4.3: Undo/redo history (per workspace)
+export type UndoableAction = 'createTask' | 'updateTask' | 'deleteTask' | 'completeTask' | 'logDragReorder';
+
+export interface UndoSummary {
+  id: string;
+  action: UndoableAction;
+  taskId: string;
+  description: string;
+  timestamp: string;
+}
+
+export interface UndoHistory {
+  undo: UndoSummary[];  // Most recent first
+  redo: UndoSummary[];  // Next redo first
+}
+
+export interface UndoResult {
+  direction: 'undo' | 'redo';
+  change: UndoSummary;
+  task: WeightedTask | null;
+  history: UndoHistory;
+}
+
+// V4.3: Field-level task history (GET /tasks/:id/history)
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TaskHistoryEntry {
+  timestamp: string;
+  operation: 'create' | 'update' | 'delete' | 'complete';
+  actor: string;  // 'dashboard', 'rest[:<user agent>]', 'mcp[:<client>][:<session>]', 'system' or 'unknown'
+  source?: string;
+  changes: FieldChange[];
+}
+
 // Backend task statistics (accurate counts including completed)
 export interface BackendTaskStats {
   total: number;
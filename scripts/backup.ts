@@ -0,0 +1,77 @@
+#!/usr/bin/env npx tsx
+/**
+ * Backups of every workspace and the global ML data (see src/storage/backups.ts)
+ *
+ * Stop the server before restoring; a running server keeps its own copy in memory.
+ *
+ * Run: npm run backup -- <command>
+ *   list                 backups, newest first
+ *   create [--note <t>]  take a manual backup now
+ *   restore <id>         validate the backup, take a safety backup, then restore it
+ */
+
+import { storage } from '../src/storage';
+import { BackupInfo } from '../src/types/schema';
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function describe(backup: BackupInfo): string {
+  const size = `${(backup.sizeBytes / 1024).toFixed(1)} KB`;
+  const note = backup.note ? ` - ${backup.note}` : '';
+  return `${backup.id}  ${backup.trigger.padEnd(20)} ${String(backup.tasks).padStart(5)} tasks  ${size}${note}`;
+}
+
+async function main(): Promise<boolean> {
+  const [command, id] = process.argv.slice(2);
+
+  switch (command) {
+    case 'list': {
+      const { config, backups } = await storage.getBackups();
+      const { hourly, daily, weekly, preOperation } = config.retention;
+      console.log(`Schedule: every ${config.scheduleHours}h; keeping ${hourly} hourly, ${daily} daily, ${weekly} weekly, ${preOperation} pre-operation`);
+      for (const backup of backups) {
+        console.log(`  ${describe(backup)}`);
+      }
+      if (backups.length === 0) console.log('  (no backups yet)');
+      return true;
+    }
+    case 'create': {
+      const backup = await storage.createBackup('manual', argValue('--note'));
+      console.log(`📦 ${describe(backup)}`);
+      return true;
+    }
+    case 'restore': {
+      if (!id) {
+        console.error('❌ Pass the backup ID to restore (see: npm run backup -- list)');
+        return false;
+      }
+      const result = await storage.restoreBackup(id);
+      if (!result) {
+        console.error(`❌ Backup not found: ${id}`);
+        return false;
+      }
+      console.log(`♻️  Restored ${result.backup.id}`);
+      for (const workspace of result.workspaces) {
+        console.log(`  ${workspace.workspaceId}: ${workspace.created} created, ${workspace.updated} updated, ${workspace.deleted} deleted`);
+      }
+      if (result.removedWorkspaces.length > 0) {
+        console.log(`  Removed workspaces created since: ${result.removedWorkspaces.join(', ')}`);
+      }
+      console.log(`  To undo: npm run backup -- restore ${result.safetyBackup.id}`);
+      return true;
+    }
+    default:
+      console.log('Usage: npm run backup -- list | create [--note <text>] | restore <id>');
+      return command === undefined;
+  }
+}
+
+main()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((err) => {
+    console.error('❌ Backup command failed:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
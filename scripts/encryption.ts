@@ -0,0 +1,114 @@
+#!/usr/bin/env npx tsx
+/**
+ * Encryption at rest for the JSON backend (see src/storage/encryption.ts)
+ *
+ * The key comes from PRIORITY_FORGE_ENCRYPTION_KEY or the file named by
+ * PRIORITY_FORGE_ENCRYPTION_KEY_FILE. Stop the server before encrypt, rotate
+ * or decrypt --in-place.
+ *
+ * Run: npm run encryption -- <command>
+ *   keygen                     print a new random key
+ *   status                     show which data files are encrypted, and with which key
+ *   encrypt                    encrypt every plain data file with the configured key
+ *   rotate --new-key-file <f>  re-encrypt everything with a new key
+ *                              (or set PRIORITY_FORGE_NEW_ENCRYPTION_KEY)
+ *   decrypt [--out <dir>]      write decrypted copies for export (default data/export-decrypted-<time>)
+ *   decrypt --in-place         turn encryption off (decrypt the data files themselves)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_DIR } from '../src/storage/jsonStorage';
+import {
+  ENCRYPTION_KEY_ENV,
+  ENCRYPTION_KEY_FILE_ENV,
+  EncryptionKey,
+  generateEncryptionKey,
+  isEncrypted,
+  listDataFiles,
+  loadEncryptionKey,
+  parseEncryptionKey,
+  transcodeDataset,
+} from '../src/storage/encryption';
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function requireKey(): EncryptionKey {
+  const key = loadEncryptionKey();
+  if (!key) {
+    throw new Error(`No key configured: set ${ENCRYPTION_KEY_ENV} or ${ENCRYPTION_KEY_FILE_ENV}`);
+  }
+  return key;
+}
+
+function main(): void {
+  const command = process.argv[2];
+
+  switch (command) {
+    case 'keygen': {
+      console.log(generateEncryptionKey());
+      return;
+    }
+
+    case 'status': {
+      const key = loadEncryptionKey();
+      console.log(key ? `Configured key: ${key.id}` : 'No key configured (encryption off)');
+      for (const file of listDataFiles(DATA_DIR)) {
+        const firstLine = fs.readFileSync(path.join(DATA_DIR, file), 'utf-8').split('\n')[0];
+        const state = isEncrypted(firstLine) ? `encrypted (key ${JSON.parse(firstLine).keyId})` : 'plain';
+        console.log(`  ${file}: ${state}`);
+      }
+      return;
+    }
+
+    case 'encrypt': {
+      const key = requireKey();
+      const files = transcodeDataset({ dataDir: DATA_DIR, from: key, to: key });
+      console.log(`🔒 Encrypted ${files.length} files with key ${key.id}`);
+      return;
+    }
+
+    case 'rotate': {
+      const key = requireKey();
+      const newKeyFile = argValue('--new-key-file');
+      const newKeyText = newKeyFile ? fs.readFileSync(newKeyFile, 'utf-8') : process.env.PRIORITY_FORGE_NEW_ENCRYPTION_KEY;
+      if (!newKeyText) {
+        throw new Error('Pass --new-key-file <file> or set PRIORITY_FORGE_NEW_ENCRYPTION_KEY');
+      }
+      const newKey = parseEncryptionKey(newKeyText);
+      const files = transcodeDataset({ dataDir: DATA_DIR, from: key, to: newKey });
+      console.log(`🔑 Re-encrypted ${files.length} files: key ${key.id} → ${newKey.id}`);
+      console.log(`   Point ${ENCRYPTION_KEY_ENV} / ${ENCRYPTION_KEY_FILE_ENV} at the new key before starting the server.`);
+      return;
+    }
+
+    case 'decrypt': {
+      const key = loadEncryptionKey();
+      if (process.argv.includes('--in-place')) {
+        const files = transcodeDataset({ dataDir: DATA_DIR, from: key, to: null });
+        console.log(`🔓 Decrypted ${files.length} files in place`);
+        console.log(`   Unset ${ENCRYPTION_KEY_ENV} / ${ENCRYPTION_KEY_FILE_ENV}, or the server will encrypt them again.`);
+        return;
+      }
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const outDir = argValue('--out') ?? path.join(DATA_DIR, `export-decrypted-${timestamp}`);
+      const files = transcodeDataset({ dataDir: DATA_DIR, from: key, to: null, outDir });
+      console.log(`🔓 Wrote ${files.length} decrypted files to ${outDir}`);
+      return;
+    }
+
+    default:
+      console.log('Usage: npm run encryption -- keygen | status | encrypt | rotate --new-key-file <file> | decrypt [--out <dir> | --in-place]');
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(`❌ ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
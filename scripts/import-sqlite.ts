@@ -0,0 +1,34 @@
+#!/usr/bin/env npx tsx
+/**
+ * Import Script: JSON data directory → SQLite
+ *
+ * Copies workspaces.json, every workspaces/{id}/progress.json and
+ * ml-training.json into the SQLite file used by PRIORITY_FORGE_STORAGE=sqlite.
+ * The JSON files are left untouched.
+ *
+ * Run: npm run import:sqlite [-- --force]
+ *   --force   overwrite a SQLite file that already has data
+ *
+ * Target file: PRIORITY_FORGE_SQLITE_PATH (default data/priority-forge.db)
+ */
+
+import { DATA_DIR } from '../src/storage/jsonStorage';
+import { importJsonIntoSqlite, SQLITE_FILE } from '../src/storage/sqliteStorage';
+
+const force = process.argv.includes('--force');
+
+console.log('='.repeat(60));
+console.log('Import: JSON → SQLite');
+console.log('='.repeat(60));
+console.log(`Source: ${DATA_DIR}`);
+console.log(`Target: ${SQLITE_FILE}`);
+
+try {
+  const summary = importJsonIntoSqlite({ dataDir: DATA_DIR, sqliteFile: SQLITE_FILE, force });
+  console.log(`\n✅ Imported ${summary.workspaces} workspace(s): ${summary.projects} projects, ${summary.tasks} tasks`);
+  console.log(`   ${summary.mlEvents} ML events`);
+  console.log('\nStart the server with PRIORITY_FORGE_STORAGE=sqlite to use it.');
+} catch (err) {
+  console.error(`\n❌ Import failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
@@ -0,0 +1,64 @@
+#!/usr/bin/env npx tsx
+/**
+ * Data integrity check (see src/integrity)
+ *
+ * Reports dangling references in workspaces and the global ML data, and
+ * optionally applies the safe repairs. Exits non-zero if violations remain.
+ *
+ * Run: npm run integrity [-- --repair] [-- --workspace <id> | --all]
+ *   --repair          drop references to tasks/projects that no longer exist
+ *   --workspace <id>  check this workspace (default: current)
+ *   --all             check every workspace
+ */
+
+import { storage } from '../src/storage';
+import { INTEGRITY_CATEGORIES, IntegrityReport } from '../src/integrity';
+
+function printReport(report: IntegrityReport): void {
+  const found = report.violations.length;
+  console.log(`\nWorkspace ${report.workspaceId}: ${found === 0 ? '✅ no violations' : `${found} violations`}`);
+  for (const category of INTEGRITY_CATEGORIES) {
+    if (report.counts[category] > 0) {
+      console.log(`  ${category}: ${report.counts[category]}`);
+    }
+  }
+  for (const violation of report.violations) {
+    const mark = violation.repaired ? '🩹' : violation.repairable ? '•' : '⚠️ ';
+    console.log(`  ${mark} ${violation.message}`);
+  }
+  if (report.repair) {
+    console.log(`  Repaired: ${report.repaired}`);
+  }
+}
+
+async function main(): Promise<boolean> {
+  const repair = process.argv.includes('--repair');
+  const workspaceIndex = process.argv.indexOf('--workspace');
+
+  let workspaceIds: Array<string | undefined> = [undefined];
+  if (process.argv.includes('--all')) {
+    workspaceIds = (await storage.getWorkspaces()).map(w => w.id);
+  } else if (workspaceIndex !== -1) {
+    workspaceIds = [process.argv[workspaceIndex + 1]];
+  }
+
+  let ok = true;
+  for (const workspaceId of workspaceIds) {
+    const report = await storage.checkIntegrity({ workspaceId, repair });
+    if (!report) {
+      console.error(`❌ Workspace not found: ${workspaceId}`);
+      ok = false;
+      continue;
+    }
+    printReport(report);
+    ok = ok && report.ok;
+  }
+  return ok;
+}
+
+main()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((err) => {
+    console.error('❌ Integrity check failed:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,52 @@
+#!/usr/bin/env npx tsx
+/**
+ * Schema migrations (see src/migrations)
+ *
+ * The server applies pending migrations on startup; this script lets you
+ * inspect or preview them without starting it.
+ *
+ * Run: npm run migrate [-- --dry-run | --status]
+ *   --status    show revisions and pending migrations only
+ *   --dry-run   report what each pending migration would change, write nothing
+ *   (no flag)   back up, then apply pending migrations
+ */
+
+import { storage } from '../src/storage';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (process.argv.includes('--status')) {
+    const status = await storage.getMigrationStatus();
+    console.log(`Latest revision: ${status.latestRevision}`);
+    console.log(`Global ML data:  ${status.globalMLRevision}`);
+    for (const workspace of status.workspaces) {
+      console.log(`Workspace ${workspace.id}: ${workspace.revision}`);
+    }
+    console.log(status.pending.length === 0
+      ? '\n✅ No pending migrations'
+      : `\nPending:\n${status.pending.map(m => `  ${m.revision}. ${m.name} - ${m.description}`).join('\n')}`);
+    return;
+  }
+
+  const report = await storage.runMigrations({ dryRun });
+  if (report.applied.length === 0) {
+    console.log(`\n✅ Already at revision ${report.toRevision}, nothing to do`);
+    return;
+  }
+
+  console.log(`\n${dryRun ? '🔍 Dry run' : '✅ Migrated'}: revision ${report.fromRevision} → ${report.toRevision}`);
+  for (const result of report.applied) {
+    console.log(`  ${result.revision}. ${result.name}: ${result.changes} changes (${result.stores.join(', ')})`);
+  }
+  if (report.backupPath) {
+    console.log(`\n📦 Backup: ${report.backupPath}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('❌ Migration failed:', err);
+    process.exit(1);
+  });
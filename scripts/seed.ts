@@ -8,6 +8,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { ProgressDatabase, DEFAULT_HEURISTIC_WEIGHTS } from '../src/types/schema';
+import { withFileLockSync } from '../src/storage/fileLock';
 
 const DATA_DIR = path.join(__dirname, '../data');
 const DB_FILE = path.join(DATA_DIR, 'progress.json');
@@ -24,6 +25,7 @@ const seedData: ProgressDatabase = {
       primaryFocus: 'Your project description here',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      revision: 1,
     },
   ],
   tasks: [
@@ -36,6 +38,7 @@ const seedData: ProgressDatabase = {
       notes: 'Delete this example and add your own tasks via the API',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      revision: 1,
       priorityScore: 82,
       weights: {
         blockingCount: 0,
@@ -57,16 +60,27 @@ if (!fs.existsSync(DATA_DIR)) {
   fs.mkdirSync(DATA_DIR, { recursive: true });
 }
 
-// Check if database already exists
-if (fs.existsSync(DB_FILE)) {
+// Check-then-write under the same advisory lock the server uses
+let written = false;
+try {
+  written = withFileLockSync(DB_FILE, () => {
+    if (fs.existsSync(DB_FILE)) return false;
+    // Write seed data
+    fs.writeFileSync(DB_FILE, JSON.stringify(seedData, null, 2));
+    return true;
+  });
+} catch (err) {
+  console.error(`❌ ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
+
+if (!written) {
   console.log('⚠️  Database already exists at:', DB_FILE);
   console.log('   To reset, delete the file first: rm data/progress.json');
   console.log('   Then run this script again.');
   process.exit(1);
 }
 
-// Write seed data
-fs.writeFileSync(DB_FILE, JSON.stringify(seedData, null, 2));
 console.log(`✅ Created new database with example data:`);
 console.log(`   - 1 example project`);
 console.log(`   - 1 example task`);
@@ -22,5 +22,6 @@ export {
   toWeightedTask,
   recalculateAllScores,
   getDefaultWeights,
+  getTagMultiplier,
 } from './priorityScoring';
 
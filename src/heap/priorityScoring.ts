@@ -139,7 +139,7 @@ function calculateDependencyDepth(
   }
 
   if (visited.has(task.id)) {
-    return 0; // Prevent cycles
+    return 0; // Prevent cycles (V4.3: storage rejects new ones; old data may still have them)
   }
   visited.add(task.id);
 
@@ -162,7 +162,8 @@ function calculateDependencyDepth(
 export function calculatePriorityScore(
   weights: TaskWeights,
   basePriority: Priority,
-  heuristicWeights: HeuristicWeights = DEFAULT_HEURISTIC_WEIGHTS
+  heuristicWeights: HeuristicWeights = DEFAULT_HEURISTIC_WEIGHTS,
+  tagMultiplier: number = 1
 ): number {
   // Start with base score from P0-P3 label
   const baseScore = PRIORITY_BASE_SCORES[basePriority];
@@ -179,7 +180,19 @@ export function calculatePriorityScore(
 
   // Final score: base + adjustment
   // A P0 task with high blocking count will have lower score than P0 with no blocking
-  return baseScore + weightedAdjustment;
+  // V4.3: Tag multipliers scale the adjustment, never the P0-P3 base
+  return baseScore + weightedAdjustment * tagMultiplier;
+}
+
+/**
+ * V4.3: Combined multiplier of a task's tags (product of the registered
+ * multipliers; tags without one count as 1)
+ */
+export function getTagMultiplier(
+  tags: string[] | undefined,
+  tagMultipliers: Record<string, number> = {}
+): number {
+  return (tags ?? []).reduce((product, tag) => product * (tagMultipliers[tag] ?? 1), 1);
 }
 
 /**
@@ -188,13 +201,19 @@ export function calculatePriorityScore(
 export function toWeightedTask(
   task: Task | WeightedTask,
   allTasks: Task[],
-  heuristicWeights: HeuristicWeights = DEFAULT_HEURISTIC_WEIGHTS
+  heuristicWeights: HeuristicWeights = DEFAULT_HEURISTIC_WEIGHTS,
+  tagMultipliers?: Record<string, number>
 ): WeightedTask {
   // Check if already weighted
   const existingWeights = (task as WeightedTask).weights;
   
   const weights = calculateTaskWeights(task, allTasks, existingWeights);
-  const priorityScore = calculatePriorityScore(weights, task.priority, heuristicWeights);
+  const priorityScore = calculatePriorityScore(
+    weights,
+    task.priority,
+    heuristicWeights,
+    getTagMultiplier(task.tags, tagMultipliers)
+  );
 
   return {
     ...task,
@@ -210,13 +229,14 @@ export function toWeightedTask(
  */
 export function recalculateAllScores(
   tasks: (Task | WeightedTask)[],
-  heuristicWeights: HeuristicWeights = DEFAULT_HEURISTIC_WEIGHTS
+  heuristicWeights: HeuristicWeights = DEFAULT_HEURISTIC_WEIGHTS,
+  tagMultipliers?: Record<string, number>
 ): WeightedTask[] {
   // First pass: calculate weights for all tasks
   const baseTasks = tasks as Task[];
   
   // Second pass: convert to weighted tasks with scores
-  return tasks.map(task => toWeightedTask(task, baseTasks, heuristicWeights));
+  return tasks.map(task => toWeightedTask(task, baseTasks, heuristicWeights, tagMultipliers));
 }
 
 /**
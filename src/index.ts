@@ -16,7 +16,7 @@
  */
 
 import express from 'express';
-import { storage } from './storage/jsonStorage';
+import { storage } from './storage';
 import { mcpHandler, getTools, getResources, getPrompts, handleToolCall, handleResourceRead, handlePromptGet } from './mcp/handler';
 import { createStreamableHandler } from './mcp/streamableHandler';
 import { mcpProcessor, setHandlers } from './mcp/processor';
@@ -24,19 +24,33 @@ import projectsRouter from './routes/projects';
 import tasksRouter from './routes/tasks';
 import dataGapsRouter from './routes/dataGaps';
 import decisionsRouter from './routes/decisions';
+import journalRouter from './routes/journal';
+import trashRouter from './routes/trash';
+import archiveRouter from './routes/archive';
+import tagsRouter from './routes/tags';
+import dependenciesRouter from './routes/dependencies';
+import customFieldsRouter from './routes/customFields';
+import backupsRouter from './routes/backups';
+import { sendStorageError } from './routes/errors';
+import { getActor } from './routes/actor';
 import { VERSION, VERSION_TAG, APP_NAME, FULL_NAME } from './version';
+import { ImportWorkspaceOptions } from './types/schema';
 
 const app = express();
 const PORT = process.env.PORT || 3456;
+// V4.3: How often to run scheduled maintenance (backup and ML compaction if due, trash purge)
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+// V4.3: How often snoozed tasks are checked for wake-up
+const SNOOZE_CHECK_INTERVAL_MS = 60 * 1000;
 
-// Middleware
-app.use(express.json());
+// Middleware (V4.3: larger body limit for workspace archives on POST /workspaces/import)
+app.use(express.json({ limit: '50mb' }));
 
 // CORS middleware for frontend
 app.use((_req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, If-Match, X-Actor');
   if (_req.method === 'OPTIONS') {
     return res.sendStatus(200);
   }
@@ -75,6 +89,7 @@ app.get('/status', async (_req, res) => {
       inProgress: allTasks.filter(t => t.status === 'in_progress').length,
       blocked: allTasks.filter(t => t.status === 'blocked').length,
       waiting: allTasks.filter(t => t.status === 'waiting').length,
+      archived: db.archive?.length ?? 0,  // V4.3: Not counted in total/completed
       p0: allTasks.filter(t => t.priority === 'P0' && !finishedStatuses.includes(t.status)).length,
       p1: allTasks.filter(t => t.priority === 'P1' && !finishedStatuses.includes(t.status)).length,
       p2: allTasks.filter(t => t.priority === 'P2' && !finishedStatuses.includes(t.status)).length,
@@ -123,7 +138,7 @@ app.post('/recalculate', async (_req, res) => {
       topPriority: tasks[0] || null,
     });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to recalculate priorities' });
+    sendStorageError(res, error, 'Failed to recalculate priorities');
   }
 });
 
@@ -145,7 +160,7 @@ app.put('/heuristic-weights', async (req, res) => {
       weights,
     });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update heuristic weights' });
+    sendStorageError(res, error, 'Failed to update heuristic weights');
   }
 });
 
@@ -154,6 +169,13 @@ app.use('/projects', projectsRouter);
 app.use('/tasks', tasksRouter);
 app.use('/data-gaps', dataGapsRouter);
 app.use('/decisions', decisionsRouter);
+app.use('/journal', journalRouter);
+app.use('/trash', trashRouter);
+app.use('/archive', archiveRouter);
+app.use('/tags', tagsRouter);
+app.use('/dependencies', dependenciesRouter);
+app.use('/custom-fields', customFieldsRouter);
+app.use('/backups', backupsRouter);
 
 // Completion records (V3 prep)
 app.get('/completion-records', async (_req, res) => {
@@ -205,7 +227,7 @@ app.put('/online-learner', async (req, res) => {
       config,
     });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update online learner config' });
+    sendStorageError(res, error, 'Failed to update online learner config');
   }
 });
 
@@ -228,6 +250,65 @@ app.get('/drag-reorder-events', async (_req, res) => {
   }
 });
 
+// V4.3: Retention / compaction of the global ML event logs
+app.get('/ml/retention', async (_req, res) => {
+  try {
+    res.json(await storage.getRetentionConfig());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch retention policy' });
+  }
+});
+
+app.put('/ml/retention', async (req, res) => {
+  try {
+    res.json(await storage.updateRetentionConfig(req.body));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to update retention policy');
+  }
+});
+
+// ?dryRun=true reports what would be evicted without changing anything
+app.post('/ml/compact', async (req, res) => {
+  try {
+    res.json(await storage.compactMLEvents({ dryRun: req.query.dryRun === 'true' }));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to compact ML events');
+  }
+});
+
+// V4.3: Undo / redo (current workspace)
+app.get('/undo', async (_req, res) => {
+  try {
+    res.json(await storage.getUndoHistory());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch undo history' });
+  }
+});
+
+app.post('/undo', async (req, res) => {
+  try {
+    const result = await storage.undo({ actor: getActor(req) });
+    if (!result) {
+      return res.status(409).json({ error: 'Nothing to undo' });
+    }
+    res.json({ ...result, history: await storage.getUndoHistory() });
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to undo');
+  }
+});
+
+app.post('/redo', async (req, res) => {
+  try {
+    const result = await storage.redo({ actor: getActor(req) });
+    if (!result) {
+      return res.status(409).json({ error: 'Nothing to redo' });
+    }
+    res.json({ ...result, history: await storage.getUndoHistory() });
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to redo');
+  }
+});
+
 // V2.1: Resource endpoints (REST access to MCP resources)
 app.get('/resources/current-focus', async (_req, res) => {
   try {
@@ -277,6 +358,47 @@ When ANY task is finished (even partially):
 `);
 });
 
+// V4.3: Schema migration status (?dryRun=true previews pending changes)
+app.get('/migrations', async (req, res) => {
+  try {
+    const status = await storage.getMigrationStatus();
+    if (req.query.dryRun === 'true') {
+      return res.json({ ...status, dryRun: await storage.runMigrations({ dryRun: true }) });
+    }
+    res.json(status);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch migration status' });
+  }
+});
+
+// V4.3: Integrity check (?workspaceId=..., default current workspace)
+app.get('/integrity', async (req, res) => {
+  try {
+    const workspaceId = typeof req.query.workspaceId === 'string' ? req.query.workspaceId : undefined;
+    const report = await storage.checkIntegrity({ workspaceId });
+    if (!report) {
+      return res.status(404).json({ error: `Workspace not found: ${workspaceId}` });
+    }
+    res.json(report);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to check integrity' });
+  }
+});
+
+// V4.3: Apply safe repairs (drop references to tasks/projects that no longer exist)
+app.post('/integrity/repair', async (req, res) => {
+  try {
+    const workspaceId = typeof req.body?.workspaceId === 'string' ? req.body.workspaceId : undefined;
+    const report = await storage.checkIntegrity({ workspaceId, repair: true });
+    if (!report) {
+      return res.status(404).json({ error: `Workspace not found: ${workspaceId}` });
+    }
+    res.json(report);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to repair integrity violations');
+  }
+});
+
 // V4: Workspace Management
 app.get('/workspaces', async (_req, res) => {
   try {
@@ -347,6 +469,57 @@ app.delete('/workspaces/:id', async (req, res) => {
   }
 });
 
+// V4.3: Download a workspace as a single-file archive (?includeML=true adds its ML events)
+app.get('/workspaces/:id/export', async (req, res) => {
+  try {
+    const archive = await storage.exportWorkspace(req.params.id, { includeML: req.query.includeML === 'true' });
+    if (!archive) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+    const slug = archive.workspace.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+    res.setHeader('Content-Disposition', `attachment; filename="priority-forge-${slug}-${archive.exportedAt.slice(0, 10)}.json"`);
+    res.json(archive);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to export workspace' });
+  }
+});
+
+// V4.3: Import an archive (body) - ?onConflict=copy|replace|fail, &name=, &switch=true
+app.post('/workspaces/import', async (req, res) => {
+  try {
+    const result = await storage.importWorkspace(req.body, {
+      onConflict: req.query.onConflict as ImportWorkspaceOptions['onConflict'],
+      name: req.query.name as string | undefined,
+      switchTo: req.query.switch === 'true',
+    });
+    res.status(201).json(result);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to import workspace');
+  }
+});
+
+// V4.3: Fork a workspace
+app.post('/workspaces/:id/clone', async (req, res) => {
+  try {
+    const result = await storage.cloneWorkspace(req.params.id, req.body);
+    if (!result) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to clone workspace');
+  }
+});
+
+// V4.3: Merge one workspace into another ({ sourceId, targetId, dryRun })
+app.post('/workspaces/merge', async (req, res) => {
+  try {
+    res.json(await storage.mergeWorkspaces(req.body));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to merge workspaces');
+  }
+});
+
 app.post('/workspaces/current/seed', async (_req, res) => {
   try {
     await storage.seedCurrentWorkspace();
@@ -377,8 +550,38 @@ app.delete('/mcp', streamableHandler);
 // Some older clients may still use this
 app.post('/mcp/legacy', mcpHandler);
 
-app.listen(PORT, () => {
-  console.log(`
+async function start(): Promise<void> {
+  // V4.3: Bring stored data up to the latest schema revision before serving (backs up first)
+  await storage.runMigrations();
+
+  // V4.3: Scheduled maintenance - backups and ML event compaction (each per its own
+  // scheduleHours) and purging trash past each workspace's retention period
+  const runMaintenance = async () => {
+    await storage.runScheduledBackup().catch((err) => {
+      console.error('⚠️  Scheduled backup failed:', err);
+    });
+    await storage.runScheduledCompaction().catch((err) => {
+      console.error('⚠️  Scheduled ML compaction failed:', err);
+    });
+    await storage.purgeExpiredTrash().catch((err) => {
+      console.error('⚠️  Scheduled trash purge failed:', err);
+    });
+    await storage.archiveCompletedTasks().catch((err) => {
+      console.error('⚠️  Scheduled task archiving failed:', err);
+    });
+  };
+  await runMaintenance();
+  setInterval(runMaintenance, MAINTENANCE_INTERVAL_MS).unref();
+
+  // V4.3: Put snoozed tasks back in the queue once their time comes
+  const wakeSnoozed = () => storage.wakeSnoozedTasks().catch((err) => {
+    console.error('⚠️  Waking snoozed tasks failed:', err);
+  });
+  await wakeSnoozed();
+  setInterval(wakeSnoozed, SNOOZE_CHECK_INTERVAL_MS).unref();
+
+  app.listen(PORT, () => {
+    console.log(`
 ╔═══════════════════════════════════════════════════════════════╗
 ║       ${FULL_NAME.padEnd(55)}║
 ║       Workspaces + Global ML Learning                         ║
@@ -410,5 +613,11 @@ app.listen(PORT, () => {
 ║    CRUD /tasks                - Task priority queue           ║
 ║    POST /mcp                  - MCP JSON-RPC 2.0              ║
 ╚═══════════════════════════════════════════════════════════════╝
-  `);
+    `);
+  });
+}
+
+start().catch((err) => {
+  console.error('❌ Failed to start:', err);
+  process.exit(1);
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkCompletionRecords, checkWorkspace, countByCategory, repairWorkspace } from '../checker';
+import {
+  DEFAULT_GLOBAL_ML_DATABASE,
+  Objective,
+  Project,
+  ProgressDatabase,
+  TaskCompletionRecord,
+  WeightedTask,
+} from '../../types/schema';
+import { getEmptyDatabase } from '../../storage/baseStorage';
+import { JsonStorage } from '../../storage/jsonStorage';
+
+function task(id: string, extra: Partial<WeightedTask> = {}): WeightedTask {
+  return { id, project: 'app', revision: 1, ...extra } as WeightedTask;
+}
+
+function workspace(): ProgressDatabase {
+  const db = getEmptyDatabase();
+  db.projects = [{ id: 'P1', name: 'app' } as Project];
+  db.tasks = [
+    task('T1', { dependencies: ['T2', 'GONE'] }),
+    task('T2', { blocking: 'T1' }),
+    task('T3', { blocking: 'Release notes', project: 'removed-project' }),
+    task('T4', { parentId: 'GONE' }),
+    task('T5', { parentId: 'T4' }),
+  ];
+  db.objectives = [{ id: 'O1', linkedTaskIds: ['T1', 'GONE'], linkedProjectIds: ['P1', 'P-GONE'] } as Objective];
+  return db;
+}
+
+describe('integrity checker', () => {
+  it('reports every dangling reference by category', () => {
+    const violations = checkWorkspace('ws', workspace());
+    expect(countByCategory(violations)).toEqual({
+      dangling_dependency: 1,
+      dangling_blocking: 1,
+      dangling_parent: 1,
+      missing_project: 1,
+      dangling_objective_task: 1,
+      dangling_objective_project: 1,
+      orphan_completion_record: 0,
+    });
+  });
+
+  it('repairs only references to things that no longer exist', () => {
+    const db = workspace();
+    const violations = checkWorkspace('ws', db);
+    const repair = repairWorkspace(db, violations);
+
+    expect(repair.tasks.map(t => t.after.id)).toEqual(['T1', 'T4']);
+    expect(db.tasks[0].dependencies).toEqual(['T2']);
+    expect(db.tasks[3]).not.toHaveProperty('parentId');
+    expect(db.tasks[3].dependencies).toBeUndefined();
+    expect(db.tasks[4].parentId).toBe('T4');
+    expect(db.tasks[0].revision).toBe(2);
+    expect(db.tasks[2].blocking).toBe('Release notes');
+    expect(db.objectives?.[0].linkedTaskIds).toEqual(['T1']);
+    expect(db.objectives?.[0].linkedProjectIds).toEqual(['P1']);
+    expect(checkWorkspace('ws', db).map(v => v.category)).toEqual(['dangling_blocking', 'missing_project']);
+  });
+
+  it('checks completion records against their own workspace', () => {
+    const globalML = structuredClone(DEFAULT_GLOBAL_ML_DATABASE);
+    globalML.completionRecords = [
+      { id: 'C1', taskId: 'T1', workspaceId: 'ws' },
+      { id: 'C2', taskId: 'T1', workspaceId: 'other' },
+      { id: 'C3', taskId: 'T9' },
+    ] as TaskCompletionRecord[];
+
+    const violations = checkCompletionRecords(globalML, new Map([['ws', new Set(['T1'])]]));
+    expect(violations.map(v => v.entityId)).toEqual(['C2', 'C3']);
+  });
+});
+
+describe('integrity checks in storage', () => {
+  let dir: string;
+  let storage: JsonStorage;
+
+  afterEach(() => {
+    storage.dispose();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('only checks workspaces it knows, without touching the disk for others', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pf-integrity-'));
+    const dataDir = path.join(dir, 'data');
+    storage = new JsonStorage(dataDir);
+    const workspace = await storage.createWorkspace({ name: 'Main' });
+
+    expect((await storage.checkIntegrity({ workspaceId: workspace.id }))?.ok).toBe(true);
+    expect(await storage.checkIntegrity({ workspaceId: 'missing' })).toBeNull();
+    expect(await storage.checkIntegrity({ workspaceId: '../../escaped', repair: true })).toBeNull();
+    expect(fs.readdirSync(path.join(dataDir, 'workspaces')).sort()).toEqual(['default', workspace.id].sort());
+    expect(fs.existsSync(path.join(dir, 'escaped'))).toBe(false);
+  });
+});
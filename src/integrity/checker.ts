@@ -0,0 +1,220 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GlobalMLDatabase, Objective, ProgressDatabase, WeightedTask } from '../types/schema';
+import { INTEGRITY_CATEGORIES, IntegrityCategory, IntegrityViolation } from './types';
+
+/**
+ * V4.3: Find dangling references inside one workspace database
+ */
+export function checkWorkspace(workspaceId: string, db: ProgressDatabase): IntegrityViolation[] {
+  const store = `workspace:${workspaceId}`;
+  // Trashed and archived records can still be restored, so references to them are not dangling
+  const trash = db.trash ?? [];
+  const taskIds = new Set([
+    ...db.tasks.map(t => t.id),
+    ...trash.filter(e => e.entity === 'task').map(e => e.entityId),
+    ...(db.archive ?? []).map(t => t.id),
+  ]);
+  const projectIds = new Set([...db.projects.map(p => p.id), ...trash.filter(e => e.entity === 'project').map(e => e.entityId)]);
+  const projectRefs = new Set([...db.projects.map(p => p.id), ...db.projects.map(p => p.name)]);
+  const violations: IntegrityViolation[] = [];
+
+  for (const task of db.tasks) {
+    for (const dependencyId of task.dependencies ?? []) {
+      if (!taskIds.has(dependencyId)) {
+        violations.push({
+          category: 'dangling_dependency',
+          store,
+          entity: 'task',
+          entityId: task.id,
+          field: 'dependencies',
+          reference: dependencyId,
+          message: `Task ${task.id} depends on missing task ${dependencyId}`,
+          repairable: true,
+        });
+      }
+    }
+    if (task.blocking && !taskIds.has(task.blocking)) {
+      violations.push({
+        category: 'dangling_blocking',
+        store,
+        entity: 'task',
+        entityId: task.id,
+        field: 'blocking',
+        reference: task.blocking,
+        message: `Task ${task.id} has blocking "${task.blocking}", which matches no task`,
+        repairable: false,
+      });
+    }
+    if (task.parentId && !taskIds.has(task.parentId)) {
+      violations.push({
+        category: 'dangling_parent',
+        store,
+        entity: 'task',
+        entityId: task.id,
+        field: 'parentId',
+        reference: task.parentId,
+        message: `Task ${task.id} is a subtask of missing task ${task.parentId}`,
+        repairable: true,
+      });
+    }
+    if (!projectRefs.has(task.project)) {
+      violations.push({
+        category: 'missing_project',
+        store,
+        entity: 'task',
+        entityId: task.id,
+        field: 'project',
+        reference: task.project,
+        message: `Task ${task.id} belongs to missing project "${task.project}"`,
+        repairable: false,
+      });
+    }
+  }
+
+  for (const objective of db.objectives ?? []) {
+    for (const taskId of objective.linkedTaskIds) {
+      if (!taskIds.has(taskId)) {
+        violations.push({
+          category: 'dangling_objective_task',
+          store,
+          entity: 'objective',
+          entityId: objective.id,
+          field: 'linkedTaskIds',
+          reference: taskId,
+          message: `Objective ${objective.id} links missing task ${taskId}`,
+          repairable: true,
+        });
+      }
+    }
+    for (const projectId of objective.linkedProjectIds) {
+      if (!projectIds.has(projectId)) {
+        violations.push({
+          category: 'dangling_objective_project',
+          store,
+          entity: 'objective',
+          entityId: objective.id,
+          field: 'linkedProjectIds',
+          reference: projectId,
+          message: `Objective ${objective.id} links missing project ${projectId}`,
+          repairable: true,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * V4.3: Find completion records whose task no longer exists. Records tagged with a
+ * workspace are checked against that workspace; untagged (legacy) records against all.
+ */
+export function checkCompletionRecords(
+  globalML: GlobalMLDatabase,
+  taskIdsByWorkspace: Map<string, Set<string>>
+): IntegrityViolation[] {
+  const violations: IntegrityViolation[] = [];
+
+  for (const record of globalML.completionRecords) {
+    const found = record.workspaceId
+      ? taskIdsByWorkspace.get(record.workspaceId)?.has(record.taskId) ?? false
+      : [...taskIdsByWorkspace.values()].some(ids => ids.has(record.taskId));
+    if (!found) {
+      violations.push({
+        category: 'orphan_completion_record',
+        store: 'globalML',
+        entity: 'completionRecord',
+        entityId: record.id,
+        field: 'taskId',
+        reference: record.taskId,
+        message: record.workspaceId
+          ? `Completion record ${record.id} is for task ${record.taskId}, missing from workspace ${record.workspaceId}`
+          : `Completion record ${record.id} is for task ${record.taskId}, missing from every workspace`,
+        repairable: false,
+      });
+    }
+  }
+
+  return violations;
+}
+
+export function countByCategory(violations: IntegrityViolation[]): Record<IntegrityCategory, number> {
+  const counts = Object.fromEntries(INTEGRITY_CATEGORIES.map(c => [c, 0])) as Record<IntegrityCategory, number>;
+  for (const violation of violations) {
+    counts[violation.category]++;
+  }
+  return counts;
+}
+
+export interface WorkspaceRepair {
+  tasks: Array<{ before: WeightedTask; after: WeightedTask }>;
+  objectives: Array<{ before: Objective; after: Objective }>;
+}
+
+/**
+ * V4.3: Apply the repairable violations to a workspace database in place.
+ * Repaired tasks get a new revision; violations are marked `repaired`.
+ */
+export function repairWorkspace(db: ProgressDatabase, violations: IntegrityViolation[]): WorkspaceRepair {
+  const now = new Date().toISOString();
+  const drops = new Map<string, Map<string, Set<string>>>();  // entityId → field → references
+  for (const violation of violations) {
+    if (!violation.repairable || violation.entity === 'completionRecord') continue;
+    const key = `${violation.entity}:${violation.entityId}`;
+    const fields = drops.get(key) ?? new Map<string, Set<string>>();
+    fields.set(violation.field, (fields.get(violation.field) ?? new Set()).add(violation.reference));
+    drops.set(key, fields);
+    violation.repaired = true;
+  }
+
+  const repair: WorkspaceRepair = { tasks: [], objectives: [] };
+
+  db.tasks = db.tasks.map(task => {
+    const fields = drops.get(`task:${task.id}`);
+    if (!fields) return task;
+    const dangling = fields.get('dependencies');
+    const after: WeightedTask = {
+      ...task,
+      ...(dangling && { dependencies: (task.dependencies ?? []).filter(id => !dangling.has(id)) }),
+      updatedAt: now,
+      revision: task.revision + 1,
+    };
+    // A subtask of a missing parent becomes a top-level task
+    if (fields.has('parentId')) delete after.parentId;
+    repair.tasks.push({ before: task, after });
+    return after;
+  });
+
+  if (db.objectives) {
+    db.objectives = db.objectives.map(objective => {
+      const fields = drops.get(`objective:${objective.id}`);
+      if (!fields) return objective;
+      const after: Objective = {
+        ...objective,
+        linkedTaskIds: objective.linkedTaskIds.filter(id => !fields.get('linkedTaskIds')?.has(id)),
+        linkedProjectIds: objective.linkedProjectIds.filter(id => !fields.get('linkedProjectIds')?.has(id)),
+        updatedAt: now,
+      };
+      repair.objectives.push({ before: objective, after });
+      return after;
+    });
+  }
+
+  return repair;
+}
@@ -0,0 +1,63 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * V4.3: Kinds of dangling reference the integrity checker looks for
+ */
+export type IntegrityCategory =
+  | 'dangling_dependency'          // task.dependencies → task that does not exist
+  | 'dangling_blocking'            // task.blocking → no task with that ID
+  | 'dangling_parent'              // task.parentId → task that does not exist
+  | 'missing_project'              // task.project matches no project ID or name
+  | 'dangling_objective_task'      // objective.linkedTaskIds → task that does not exist
+  | 'dangling_objective_project'   // objective.linkedProjectIds → project that does not exist
+  | 'orphan_completion_record';    // completion record for a task no workspace has
+
+export const INTEGRITY_CATEGORIES: IntegrityCategory[] = [
+  'dangling_dependency',
+  'dangling_blocking',
+  'dangling_parent',
+  'missing_project',
+  'dangling_objective_task',
+  'dangling_objective_project',
+  'orphan_completion_record',
+];
+
+export interface IntegrityViolation {
+  category: IntegrityCategory;
+  store: string;                 // 'workspace:<id>' or 'globalML'
+  entity: 'task' | 'objective' | 'completionRecord';
+  entityId: string;
+  field: string;
+  reference: string;             // The value that points nowhere
+  message: string;
+  // Safe repairs only drop references to things that no longer exist. Free text
+  // (blocking), task → project links and ML training data are reported, never changed.
+  repairable: boolean;
+  repaired?: boolean;
+}
+
+export interface IntegrityReport {
+  workspaceId: string;
+  checkedAt: string;
+  repair: boolean;
+  ok: boolean;                   // No violations left after any repairs
+  counts: Record<IntegrityCategory, number>;   // Violations found, including any repaired
+  repaired: number;
+  violations: IntegrityViolation[];
+}
+
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+
+// The handler uses the shared storage instance: make it the in-memory backend
+vi.hoisted(() => {
+  process.env.PRIORITY_FORGE_STORAGE = 'memory';
+});
+
+import { storage } from '../../storage';
+import { InMemoryStorage } from '../../storage/memoryStorage';
+import { getTools, handleToolCall } from '../handler';
+import { sessionManager } from '../sessionManager';
+
+describe('MCP tools (in-memory storage)', () => {
+  beforeAll(async () => {
+    await handleToolCall('create_workspace', { name: 'MCP' });
+    const [workspace] = await storage.getWorkspaces();
+    await handleToolCall('switch_workspace', { workspaceId: workspace.id });
+    await handleToolCall('create_project', { name: 'app', path: '/app', primaryFocus: 'MCP' });
+  });
+
+  afterAll(() => {
+    (storage as InMemoryStorage).dispose();
+  });
+
+  it('lists each tool once and rejects unknown ones', async () => {
+    const names = (await getTools()).map(t => t.name);
+    expect(new Set(names).size).toBe(names.length);
+    await expect(handleToolCall('no_such_tool', {})).rejects.toThrow();
+  });
+
+  it('creates tasks and reports the top priority', async () => {
+    await handleToolCall('create_task', { task: 'Later', project: 'app', priority: 'P2' });
+    const urgent = await handleToolCall('create_task', { task: 'Urgent', project: 'app', priority: 'P0' }) as { id: string };
+
+    const top = await handleToolCall('get_top_priority', {}) as { task: { id: string } };
+    expect(top.task.id).toBe(urgent.id);
+  });
+
+  it('completes tasks into ML training data', async () => {
+    const created = await handleToolCall('create_task', { task: 'Ship', project: 'app', priority: 'P1' }) as { id: string };
+    await handleToolCall('complete_task', { id: created.id, outcome: 'completed' });
+
+    const training = await handleToolCall('export_training_data', {}) as { completionRecords: Array<{ taskId: string }> };
+    expect(training.completionRecords.map(r => r.taskId)).toContain(created.id);
+  });
+
+  it('attributes changes to the MCP client and session', async () => {
+    const sessionId = sessionManager.createSession();
+    sessionManager.setClientName(sessionId, 'test-agent');
+    const created = await handleToolCall('create_task', { task: 'Traced', project: 'app', priority: 'P2' }, { sessionId }) as { id: string };
+    await handleToolCall('update_task', { id: created.id, notes: 'edited' });
+
+    const result = await handleToolCall('get_task_history', { id: created.id }) as { history: Array<{ operation: string; actor: string }> };
+    expect(result.history.map(e => [e.operation, e.actor])).toEqual([
+      ['update', 'mcp'],
+      ['create', `mcp:test-agent:${sessionId}`],
+    ]);
+    sessionManager.deleteSession(sessionId);
+  });
+
+  it('describes the workspace custom fields in the task tool schemas', async () => {
+    await handleToolCall('define_custom_field', { key: 'hypothesis', type: 'string', label: 'Hypothesis' });
+    const createTask = (await getTools()).find(t => t.name === 'create_task')!;
+    expect(createTask.inputSchema.properties.customFields).toMatchObject({
+      properties: { hypothesis: { type: 'string', description: 'Hypothesis' } },
+    });
+    await handleToolCall('define_custom_field', { key: 'hypothesis', delete: true });
+    expect((await getTools()).find(t => t.name === 'create_task')!.inputSchema.properties.customFields).toBeUndefined();
+  });
+
+  it('returns an error result for unknown tasks', async () => {
+    expect(await handleToolCall('delete_task', { id: 'missing' })).toEqual({ error: 'Task not found' });
+  });
+});
@@ -18,7 +18,21 @@
 import { Request, Response } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
-import { storage } from '../storage/jsonStorage';
+import { storage } from '../storage';
+import { DependencyCycleError, OpenSubtasksError, RevisionConflictError, TagInUseError } from '../storage/errors';
+import { matchesTags, parseTagFilter } from '../storage/tags';
+import { customFieldsJsonSchema } from '../storage/customFields';
+import { sessionManager } from './sessionManager';
+import {
+  CustomFieldInput,
+  CustomFieldValue,
+  DeleteProjectMode,
+  ImportWorkspaceOptions,
+  RecurrenceRule,
+  UpdateBackupConfigDTO,
+  UpdateRetentionDTO,
+  UpdateTagDTO,
+} from '../types/schema';
 import { VERSION, VERSION_TAG } from '../version';
 import {
   TeamPulseSyncEmitter,
@@ -50,6 +64,11 @@ interface JsonRpcRequest {
   params?: Record<string, unknown>;
 }
 
+// V4.3: Per-call context (which MCP session made the call)
+export interface ToolCallContext {
+  sessionId?: string;
+}
+
 interface JsonRpcResponse {
   jsonrpc: '2.0';
   id: string | number;
@@ -97,6 +116,15 @@ const resources = [
   },
 ];
 
+/**
+ * V4.3: Why a dependent left 'blocked' (shown in complete_task and current-focus)
+ */
+async function unblockReason(completedTaskId: string): Promise<string> {
+  const completed = await storage.getTask(completedTaskId);
+  const name = completed ? `"${completed.task}" (${completedTaskId})` : completedTaskId;
+  return `unblocked: ${name} was completed and no other prerequisites are open`;
+}
+
 async function handleResourceRead(uri: string): Promise<string> {
   switch (uri) {
     case 'progress://current-focus': {
@@ -104,6 +132,8 @@ async function handleResourceRead(uri: string): Promise<string> {
       const allTasks = await storage.getTasks();
       const inProgress = allTasks.filter(t => t.status === 'in_progress');
       const blocked = allTasks.filter(t => t.status === 'blocked');
+      const snoozed = await storage.getSnoozedTasks();  // V4.3: Not in the queue until they wake
+      const unblocked = allTasks.filter(t => t.unblockedBy && t.status === 'not_started');
       
       let content = `# 🎯 CURRENT FOCUS\n\n`;
       
@@ -136,6 +166,22 @@ async function handleResourceRead(uri: string): Promise<string> {
         }
         content += `\n`;
       }
+
+      if (unblocked.length > 0) {
+        content += `## 🔓 Newly Unblocked (${unblocked.length})\n`;
+        for (const task of unblocked) {
+          content += `- [${task.id}] ${task.task} - ${await unblockReason(task.unblockedBy!)}\n`;
+        }
+        content += `\n`;
+      }
+
+      if (snoozed.length > 0) {
+        content += `## 💤 Snoozed (${snoozed.length})\n`;
+        for (const task of snoozed) {
+          content += `- [${task.id}] ${task.task} - until ${task.snoozedUntil}\n`;
+        }
+        content += `\n`;
+      }
       
       content += `---\n`;
       content += `**Action Required:** If working on something different from top priority, call \`log_context_switch\` first.\n`;
@@ -568,6 +614,19 @@ Call \`create_project\` with:
 }
 
 // MCP Tool definitions - V2 with heap-based priority queue
+// V4.3: Shared by create_task and update_task
+const RECURRENCE_SCHEMA = {
+  type: 'object',
+  description: 'V4.3: Repeat the task; completing it creates the next instance with a new deadline',
+  properties: {
+    frequency: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'after_completion'] },
+    interval: { type: 'number', description: 'Every N days/weeks/months, or N days after completion (default 1)' },
+    weekdays: { type: 'array', items: { type: 'string', enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] }, description: 'weekly only: days it falls on' },
+    until: { type: 'string', description: 'ISO date; no instances due after it' },
+  },
+  required: ['frequency'],
+};
+
 const tools = [
   {
     name: 'get_status',
@@ -593,6 +652,20 @@ const tools = [
           type: 'boolean',
           description: 'Include completed tasks (default: false)',
         },
+        tree: {
+          type: 'boolean',
+          description: 'V4.3: Return parent tasks with their subtasks nested under them, plus rollup progress. The flat list only has actionable tasks (parents with open subtasks are left out).',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'V4.3: Only tasks with any of these tags (see tagMatch)',
+        },
+        tagMatch: {
+          type: 'string',
+          enum: ['any', 'all'],
+          description: "V4.3: 'all' keeps only tasks that have every listed tag (default: 'any')",
+        },
       },
       required: [],
     },
@@ -620,25 +693,28 @@ const tools = [
   },
   {
     name: 'create_task',
-    description: 'Create a new task in the priority queue',
+    description: 'Create a new task in the priority queue. Pass parentId to create a subtask: it inherits the parent\'s priority and project unless given, and the parent leaves the queue until its subtasks are done.',
     inputSchema: {
       type: 'object',
       properties: {
         id: { type: 'string', description: 'Optional custom task ID (e.g., DATA-001)' },
-        priority: { type: 'string', enum: ['P0', 'P1', 'P2', 'P3'] },
+        priority: { type: 'string', enum: ['P0', 'P1', 'P2', 'P3'], description: 'Required unless parentId is given' },
         task: { type: 'string', description: 'Task description' },
-        project: { type: 'string', description: 'Project ID or name' },
+        project: { type: 'string', description: 'Project ID or name (required unless parentId is given)' },
+        parentId: { type: 'string', description: 'V4.3: Parent task ID (makes this a subtask)' },
         blocking: { type: 'string', description: 'What this task blocks' },
         dependencies: { 
           type: 'array', 
           items: { type: 'string' },
-          description: 'Task IDs this task depends on',
+          description: 'Task IDs this task depends on (V4.3: a link that would close a cycle is rejected with the cycle path)',
         },
         notes: { type: 'string', description: 'Additional notes' },
         deadline: { type: 'string', description: 'ISO date string for deadline' },
         effort: { type: 'string', enum: ['low', 'medium', 'high'], description: 'Effort estimate' },
+        recurrence: RECURRENCE_SCHEMA,
+        tags: { type: 'array', items: { type: 'string' }, description: 'V4.3: Labels such as bug, infra or tech-debt (new tags are registered automatically)' },
       },
-      required: ['priority', 'task', 'project'],
+      required: ['task'],
     },
   },
   {
@@ -656,29 +732,268 @@ const tools = [
         notes: { type: 'string' },
         deadline: { type: 'string' },
         effort: { type: 'string', enum: ['low', 'medium', 'high'] },
+        parentId: { type: ['string', 'null'], description: 'V4.3: Move under another parent task, or null to detach' },
+        recurrence: { ...RECURRENCE_SCHEMA, type: ['object', 'null'], description: 'V4.3: Set the repeat schedule, or null to stop repeating' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'V4.3: Replaces the task\'s tags ([] removes them all)' },
+        expectedRevision: { type: 'number', description: 'V4.3: Revision you last read; on mismatch nothing is written and the current copy is returned' },
       },
       required: ['id'],
     },
   },
   {
     name: 'complete_task',
-    description: 'Mark a task as complete with outcome tracking',
+    description: 'Mark a task as complete with outcome tracking. A parent task cannot be completed while its subtasks are open unless force is set. Blocked tasks whose prerequisites are now all finished move to not_started and are listed under unblocked (see update_dependency_settings).',
     inputSchema: {
       type: 'object',
       properties: {
         id: { type: 'string', description: 'Task ID' },
         outcome: { type: 'string', enum: ['completed', 'cancelled', 'deferred'] },
+        force: { type: 'boolean', description: 'V4.3: Complete a parent even though subtasks are open (they stay open)' },
       },
       required: ['id', 'outcome'],
     },
   },
+  {
+    name: 'get_task_series',
+    description: 'V4.3: Every instance of a recurring task (live and archived), oldest first, with the series completion records for per-series durations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        seriesId: { type: 'string', description: 'Series ID (seriesId on any instance)' },
+      },
+      required: ['seriesId'],
+    },
+  },
+  {
+    name: 'snooze_task',
+    description: 'V4.3: Hide a task from the queue (get_priorities, get_top_priority, current focus) until a time; it re-enters the queue automatically when the time comes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Task ID' },
+        until: { type: 'string', description: 'ISO date or timestamp in the future' },
+        expectedRevision: { type: 'number', description: 'V4.3: Revision you last read; on mismatch nothing is written and the current copy is returned' },
+      },
+      required: ['id', 'until'],
+    },
+  },
+  {
+    name: 'unsnooze_task',
+    description: 'V4.3: Put a snoozed task back in the queue now',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Task ID' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'update_dependency_settings',
+    description: 'V4.3: Show the current workspace\'s dependency settings, or change them. With autoUnblock on (the default), completing a task moves blocked dependents whose prerequisites are all finished to not_started.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        autoUnblock: { type: 'boolean', description: 'Turn automatic unblocking on or off (omit to just read the settings)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_task_history',
+    description: 'V4.3: Who changed a task and how - every create/update/complete/delete with the changed fields (before/after), timestamp and actor (MCP client/session, REST caller or system), newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Task ID' },
+        limit: { type: 'number', description: 'Only the most recent N entries' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'undo_last_change',
+    description: 'V4.3: Undo the most recent task create/update/delete/complete or drag reorder in the current workspace. Undoing a completion retracts its completion record.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'redo_change',
+    description: 'V4.3: Re-apply the most recently undone change in the current workspace',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'delete_task',
+    description: 'V4.3: Move a task to the trash (restorable with restore_from_trash)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Task ID' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'move_task',
+    description: 'V4.3: Move a task to another workspace, keeping its ID, timestamps and ML history. Its project is matched in the target or copied there. Dependencies that would cross workspaces are returned as warnings.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Task ID' },
+        targetWorkspaceId: { type: 'string', description: 'Workspace to move the task to' },
+      },
+      required: ['id', 'targetWorkspaceId'],
+    },
+  },
+  {
+    name: 'move_project',
+    description: 'V4.3: Move a project and all its tasks to another workspace, keeping IDs, timestamps and ML history. Dependencies that would cross workspaces are returned as warnings.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Project ID' },
+        targetWorkspaceId: { type: 'string', description: 'Workspace to move the project to' },
+      },
+      required: ['id', 'targetWorkspaceId'],
+    },
+  },
+  {
+    name: 'delete_project',
+    description: 'V4.3: Move a project to the trash. If it still has tasks: mode "cascade" (default) trashes them too, "refuse" fails, "reassign" moves them to reassignTo.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Project ID' },
+        mode: { type: 'string', enum: ['refuse', 'cascade', 'reassign'], description: 'What to do with the project\'s tasks' },
+        reassignTo: { type: 'string', description: 'Target project ID or name (mode "reassign")' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'list_trash',
+    description: 'V4.3: List soft-deleted tasks and projects in the current workspace (who deleted them and when) and the automatic purge period',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'restore_from_trash',
+    description: 'V4.3: Restore a deleted task or project. Restoring a project also restores the tasks deleted with it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Trash entry ID, or the ID of the deleted task/project' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'purge_trash',
+    description: 'V4.3: Permanently delete trash entries. With no arguments, empties the trash.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, description: 'Trash entry IDs to purge' },
+        olderThanDays: { type: 'number', description: 'Only purge entries deleted more than N days ago' },
+        retentionDays: { type: 'number', description: 'Instead of purging, set how many days entries are kept before automatic purge (0 = never)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'search_archive',
+    description: 'V4.3: Search finished tasks archived out of the live queue in the current workspace (paginated). Pass archiveAfterDays to change when finished tasks are archived instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        q: { type: 'string', description: 'Text to match in the task ID, description, notes or project' },
+        project: { type: 'string', description: 'Project ID or name' },
+        page: { type: 'number', description: 'Page number, starting at 1 (default: 1)' },
+        pageSize: { type: 'number', description: 'Results per page (default: 50, max 500)' },
+        archiveAfterDays: { type: 'number', description: 'Instead of searching, set how many days after finishing tasks are archived (0 = never)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_tags',
+    description: 'V4.3: Tag registry of the current workspace: each tag with its description, color, score multiplier and how many tasks carry it',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'update_tag',
+    description: 'V4.3: Create or update a tag in the registry, or delete it (refused while tasks carry it). A scoreMultiplier scales the heuristic urgency of every task with the tag, e.g. 2 to boost security work.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Tag name' },
+        description: { type: 'string' },
+        color: { type: 'string', description: 'Hex color, e.g. #ef4444' },
+        scoreMultiplier: { type: ['number', 'null'], description: 'Above 0, at most 10; 1 = neutral, null removes it' },
+        delete: { type: 'boolean', description: 'Remove the tag from the registry instead' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'get_custom_fields',
+    description: 'V4.3: Custom field schema of the current workspace (key, type, label, enum options, required). Set values through customFields on create_task/update_task.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'define_custom_field',
+    description: 'V4.3: Add or redefine a custom field for tasks in the current workspace, or delete it (clears its values from tasks)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: { type: 'string', description: 'Property name in customFields (starts with a letter; letters, digits, underscores)' },
+        type: { type: 'string', enum: ['string', 'number', 'enum', 'date', 'boolean', 'url'] },
+        label: { type: 'string' },
+        options: { type: 'array', items: { type: 'string' }, description: 'enum only: allowed values' },
+        required: { type: 'boolean', description: 'New tasks must set it' },
+        description: { type: 'string' },
+        delete: { type: 'boolean', description: 'Remove the field instead' },
+      },
+      required: ['key'],
+    },
+  },
+  {
+    name: 'unarchive_task',
+    description: 'V4.3: Move an archived task back into the live queue',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Task ID' },
+      },
+      required: ['id'],
+    },
+  },
   {
     name: 'log_context_switch',
-    description: 'Log that user switched away from a task (for V3 training data)',
+    description: 'Log that user switched away from a task (for V3 training data). V4.3: Persisted, returns the running switch count for the task',
     inputSchema: {
       type: 'object',
       properties: {
         taskId: { type: 'string', description: 'Task ID being switched from' },
+        toTaskId: { type: 'string', description: 'Task ID being switched to (optional)' },
       },
       required: ['taskId'],
     },
@@ -806,6 +1121,110 @@ const tools = [
       required: [],
     },
   },
+  {
+    name: 'get_migration_status',
+    description: 'V4.3: Show the schema revision of each workspace and the global ML data, plus pending migrations (applied automatically on server start).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        dry_run: { type: 'boolean', description: 'If true, also report how many records each pending migration would change' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_retention_policy',
+    description: 'V4.3: Show retention policies for the global ML event logs, when compaction last ran, and totals already compacted.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'update_retention_policy',
+    description: 'V4.3: Set per-event-type retention (max age in days and/or max count) and the compaction schedule. A null policy keeps that event type forever.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        policies: {
+          type: 'object',
+          description: 'Keyed by queueRebalanceEvents, dragReorderEvents, taskSelectionEvents or priorityChangeEvents; values are { maxAgeDays?, maxCount? } or null',
+        },
+        scheduleHours: { type: 'number', description: 'Compact automatically every N hours (0 = only on demand)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'compact_ml_events',
+    description: 'V4.3: Apply retention policies now. Evicted events are archived to a JSONL file and rolled into summaries that export_training_data still reports.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        dry_run: { type: 'boolean', description: 'If true, report what would be evicted without writing' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'check_integrity',
+    description: 'V4.3: Scan a workspace and the global ML data for dangling references (missing dependencies, blocking targets, projects, objective links, orphan completion records). Optionally apply safe repairs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspace_id: { type: 'string', description: 'Workspace to check (default: current)' },
+        repair: { type: 'boolean', description: 'If true, drop references to tasks/projects that no longer exist. Blocking text, task projects and completion records are only reported.' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'list_backups',
+    description: 'V4.3: List backups of all workspaces and the global ML data (newest first) with the backup schedule and rotation settings',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'create_backup',
+    description: 'V4.3: Take a manual backup of all workspaces and the global ML data now. Manual backups are never rotated out.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        note: { type: 'string', description: 'Why the backup was taken' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'restore_backup',
+    description: 'V4.3: Replace ALL workspaces and the global ML data with a backup. The backup is validated first and a safety backup is taken, so the restore itself can be undone by restoring that.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Backup ID (from list_backups)' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'update_backup_settings',
+    description: 'V4.3: Set how often scheduled backups run and how many are kept per hour/day/week',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        scheduleHours: { type: 'number', description: 'Take a scheduled backup every N hours (0 = off)' },
+        retention: {
+          type: 'object',
+          description: '{ hourly?, daily?, weekly?, preOperation? }: keep the newest scheduled backup of each of the last N hours/days/weeks, and the newest N backups taken before migrations, workspace deletes and restores',
+        },
+      },
+      required: [],
+    },
+  },
   // ====== V3.2: Online Learning Tools ======
   {
     name: 'log_drag_reorder',
@@ -914,6 +1333,65 @@ const tools = [
       required: [],
     },
   },
+  {
+    name: 'export_workspace',
+    description: 'V4.3: Export a workspace (projects, tasks, decisions, data gaps, objectives, trash) as a single-file archive to move it to another machine or teammate',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspaceId: { type: 'string', description: 'ID of the workspace to export' },
+        includeML: { type: 'boolean', description: 'Also include the ML events (completions, selections, ...) tagged with this workspace' },
+        file: { type: 'string', description: 'Write the archive to this file and return a summary instead of the archive' },
+      },
+      required: ['workspaceId'],
+    },
+  },
+  {
+    name: 'import_workspace',
+    description: 'V4.3: Import a workspace archive (from export_workspace). Pass the archive object or a file path. IDs of tasks and projects are kept.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        archive: { type: 'object', description: 'The archive produced by export_workspace' },
+        file: { type: 'string', description: 'Path of an archive file (instead of archive)' },
+        onConflict: {
+          type: 'string',
+          enum: ['copy', 'replace', 'fail'],
+          description: 'If the workspace ID already exists: copy (default) imports under a new ID, replace overwrites it after a backup, fail aborts',
+        },
+        name: { type: 'string', description: 'Name for the imported workspace' },
+        switchTo: { type: 'boolean', description: 'Switch to the imported workspace' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'clone_workspace',
+    description: 'V4.3: Fork a workspace into a new one. Tasks and projects keep their IDs; ML events stay with the original.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workspaceId: { type: 'string', description: 'ID of the workspace to clone' },
+        name: { type: 'string', description: 'Name of the new workspace' },
+        description: { type: 'string', description: 'Optional description' },
+        switchTo: { type: 'boolean', description: 'Switch to the new workspace' },
+      },
+      required: ['workspaceId', 'name'],
+    },
+  },
+  {
+    name: 'merge_workspaces',
+    description: 'V4.3: Merge the projects, tasks, decisions and data gaps of one workspace into another. Same-named projects are folded together, clashing task IDs are renamed and dependencies rewritten; the newer copy of a shared task wins. Use dryRun to see the report first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sourceId: { type: 'string', description: 'Workspace to merge from (left unchanged)' },
+        targetId: { type: 'string', description: 'Workspace to merge into' },
+        dryRun: { type: 'boolean', description: 'Report what would change without writing (default: false)' },
+      },
+      required: ['sourceId', 'targetId'],
+    },
+  },
   // ====== Team Pulse Sync Tools ======
   {
     name: 'enable_team_sync',
@@ -972,7 +1450,20 @@ const tools = [
   },
 ];
 
-async function handleToolCall(name: string, params: Record<string, unknown>): Promise<unknown> {
+/**
+ * V4.3: Actor recorded for changes made over MCP: 'mcp', then the client name
+ * the session sent on initialize and the session ID when known
+ */
+function mcpActor(context: ToolCallContext): string {
+  const clientName = context.sessionId ? sessionManager.getClientName(context.sessionId) : undefined;
+  return ['mcp', clientName, context.sessionId].filter(Boolean).join(':');
+}
+
+async function handleToolCall(
+  name: string,
+  params: Record<string, unknown>,
+  context: ToolCallContext = {}
+): Promise<unknown> {
   switch (name) {
     case 'get_status': {
       const db = await storage.getAll();
@@ -991,11 +1482,16 @@ async function handleToolCall(name: string, params: Record<string, unknown>): Pr
 
     case 'get_priorities': {
       const includeCompleted = params.includeCompleted === true;
+      const tagFilter = parseTagFilter(params.tags, params.tagMatch);
+      if (params.tree === true) {
+        return storage.getTaskTree(includeCompleted, tagFilter);
+      }
       if (params.priority) {
-        const tasks = await storage.getTasksByPriority(params.priority as 'P0' | 'P1' | 'P2' | 'P3');
+        const tasks = (await storage.getTasksByPriority(params.priority as 'P0' | 'P1' | 'P2' | 'P3'))
+          .filter(t => !tagFilter || matchesTags(t, tagFilter));
         return includeCompleted ? tasks : tasks.filter(t => t.status !== 'complete');
       }
-      return storage.getTasks(includeCompleted);
+      return storage.getTasks(includeCompleted, tagFilter);
     }
 
     case 'get_top_priority': {
@@ -1022,25 +1518,60 @@ async function handleToolCall(name: string, params: Record<string, unknown>): Pr
     }
 
     case 'create_task': {
-      const created = await storage.createTask({
-        id: params.id as string | undefined,
-        priority: params.priority as 'P0' | 'P1' | 'P2' | 'P3',
-        task: params.task as string,
-        project: params.project as string,
-        blocking: params.blocking as string | undefined,
-        dependencies: params.dependencies as string[] | undefined,
-        notes: params.notes as string | undefined,
-        deadline: params.deadline as string | undefined,
-        effort: params.effort as 'low' | 'medium' | 'high' | undefined,
-      });
+      let created;
+      try {
+        created = await storage.createTask({
+          id: params.id as string | undefined,
+          priority: params.priority as 'P0' | 'P1' | 'P2' | 'P3' | undefined,
+          task: params.task as string,
+          project: params.project as string | undefined,
+          parentId: params.parentId as string | undefined,
+          blocking: params.blocking as string | undefined,
+          dependencies: params.dependencies as string[] | undefined,
+          notes: params.notes as string | undefined,
+          deadline: params.deadline as string | undefined,
+          effort: params.effort as 'low' | 'medium' | 'high' | undefined,
+          recurrence: params.recurrence as RecurrenceRule | undefined,
+          tags: params.tags as string[] | undefined,
+          customFields: params.customFields as Record<string, CustomFieldValue> | undefined,
+        }, { actor: mcpActor(context) });
+      } catch (error) {
+        if (error instanceof DependencyCycleError) {
+          return { error: error.message, cycle: error.cycle };
+        }
+        throw error;
+      }
       syncEmitter.emitTaskCreated(created as unknown as Record<string, unknown>);
       return created;
     }
 
     case 'update_task': {
-      const { id, ...updates } = params;
+      const { id, expectedRevision, ...updates } = params;
       const previousTask = await storage.getTask(id as string);
-      const updated = await storage.updateTask(id as string, updates);
+      let updated;
+      try {
+        updated = await storage.updateTask(id as string, updates, {
+          expectedRevision: expectedRevision as number | undefined,
+          actor: mcpActor(context),
+        });
+      } catch (error) {
+        if (error instanceof RevisionConflictError) {
+          return {
+            error: error.message,
+            conflict: true,
+            expectedRevision: error.expectedRevision,
+            currentRevision: error.current.revision,
+            current: error.current,
+          };
+        }
+        if (error instanceof OpenSubtasksError) {
+          return { error: error.message, openSubtaskIds: error.openSubtaskIds };
+        }
+        if (error instanceof DependencyCycleError) {
+          return { error: error.message, cycle: error.cycle };
+        }
+        throw error;
+      }
       if (previousTask) {
         syncEmitter.emitTaskUpdated(
           id as string,
@@ -1053,22 +1584,245 @@ async function handleToolCall(name: string, params: Record<string, unknown>): Pr
 
     case 'complete_task': {
       const taskBeforeComplete = await storage.getTask(params.id as string);
-      const completionResult = await storage.completeTask(
-        params.id as string,
-        params.outcome as 'completed' | 'cancelled' | 'deferred'
-      );
+      let completionResult;
+      try {
+        completionResult = await storage.completeTask(
+          params.id as string,
+          params.outcome as 'completed' | 'cancelled' | 'deferred',
+          { actor: mcpActor(context), force: params.force === true }
+        );
+      } catch (error) {
+        if (error instanceof OpenSubtasksError) {
+          return { error: error.message, openSubtaskIds: error.openSubtaskIds };
+        }
+        throw error;
+      }
       if (taskBeforeComplete) {
         syncEmitter.emitTaskCompleted(
           taskBeforeComplete as unknown as Record<string, unknown>,
           params.outcome as string,
         );
       }
+      // V4.3: Say which dependents can be started now
+      if (completionResult?.unblockedTaskIds) {
+        const reason = await unblockReason(completionResult.taskId);
+        const unblocked = [];
+        for (const id of completionResult.unblockedTaskIds) {
+          const task = await storage.getTask(id);
+          unblocked.push({ id, task: task?.task, status: task?.status, reason });
+        }
+        return { ...completionResult, unblocked };
+      }
       return completionResult;
     }
 
+    case 'get_task_series': {
+      const instances = await storage.getSeries(params.seriesId as string);
+      if (instances.length === 0) {
+        return { error: 'Series not found' };
+      }
+      const completions = (await storage.getCompletionRecords()).filter(r => r.seriesId === params.seriesId);
+      return { seriesId: params.seriesId, instances, completions };
+    }
+
+    case 'snooze_task': {
+      const previousTask = await storage.getTask(params.id as string);
+      let snoozed;
+      try {
+        snoozed = await storage.snoozeTask(params.id as string, params.until as string, {
+          expectedRevision: params.expectedRevision as number | undefined,
+          actor: mcpActor(context),
+        });
+      } catch (error) {
+        if (error instanceof RevisionConflictError) {
+          return {
+            error: error.message,
+            conflict: true,
+            expectedRevision: error.expectedRevision,
+            currentRevision: error.current.revision,
+            current: error.current,
+          };
+        }
+        throw error;
+      }
+      if (!snoozed || !previousTask) {
+        return { error: 'Task not found' };
+      }
+      syncEmitter.emitTaskUpdated(
+        snoozed.id,
+        { snoozedUntil: snoozed.snoozedUntil },
+        previousTask as unknown as Record<string, unknown>,
+      );
+      return snoozed;
+    }
+
+    case 'unsnooze_task': {
+      const previousTask = await storage.getTask(params.id as string);
+      const woken = await storage.unsnoozeTask(params.id as string, { actor: mcpActor(context) });
+      if (!woken || !previousTask) {
+        return { error: 'Task not found' };
+      }
+      if (previousTask.snoozedUntil) {
+        syncEmitter.emitTaskUpdated(
+          woken.id,
+          { snoozedUntil: null },
+          previousTask as unknown as Record<string, unknown>,
+        );
+      }
+      return woken;
+    }
+
+    case 'update_dependency_settings': {
+      if (params.autoUnblock !== undefined) {
+        return storage.setAutoUnblock(params.autoUnblock as boolean);
+      }
+      return storage.getDependencySettings();
+    }
+
+    case 'get_task_history': {
+      const history = await storage.getTaskHistory(params.id as string, params.limit as number | undefined);
+      if (!history) {
+        return { error: 'No history for this task' };
+      }
+      return { taskId: params.id, history };
+    }
+
+    case 'undo_last_change': {
+      const undone = await storage.undo({ actor: mcpActor(context) });
+      if (!undone) {
+        return { success: false, message: 'Nothing to undo' };
+      }
+      return { success: true, ...undone, history: await storage.getUndoHistory() };
+    }
+
+    case 'redo_change': {
+      const redone = await storage.redo({ actor: mcpActor(context) });
+      if (!redone) {
+        return { success: false, message: 'Nothing to redo' };
+      }
+      return { success: true, ...redone, history: await storage.getUndoHistory() };
+    }
+
+    case 'delete_task': {
+      const deleted = await storage.deleteTask(params.id as string, { actor: mcpActor(context) });
+      if (!deleted) {
+        return { error: 'Task not found' };
+      }
+      return { success: true, message: `Moved task ${params.id} to the trash` };
+    }
+
+    case 'delete_project': {
+      const result = await storage.deleteProject(params.id as string, {
+        mode: params.mode as DeleteProjectMode | undefined,
+        reassignTo: params.reassignTo as string | undefined,
+        actor: mcpActor(context),
+      });
+      if (!result) {
+        return { error: 'Project not found' };
+      }
+      return { success: true, ...result };
+    }
+
+    case 'move_task': {
+      const result = await storage.moveTask(params.id as string, {
+        targetWorkspaceId: params.targetWorkspaceId as string,
+      });
+      if (!result) {
+        return { error: 'Task not found' };
+      }
+      return { success: true, ...result };
+    }
+
+    case 'move_project': {
+      const result = await storage.moveProject(params.id as string, {
+        targetWorkspaceId: params.targetWorkspaceId as string,
+      });
+      if (!result) {
+        return { error: 'Project not found' };
+      }
+      return { success: true, ...result };
+    }
+
+    case 'list_trash': {
+      return storage.getTrash();
+    }
+
+    case 'restore_from_trash': {
+      const result = await storage.restoreFromTrash(params.id as string, { actor: mcpActor(context) });
+      if (!result) {
+        return { error: `Not found in trash: ${params.id}` };
+      }
+      return { success: true, ...result };
+    }
+
+    case 'purge_trash': {
+      if (params.retentionDays !== undefined) {
+        return storage.setTrashRetention(params.retentionDays as number);
+      }
+      return storage.purgeTrash({
+        ids: params.ids as string[] | undefined,
+        olderThanDays: params.olderThanDays as number | undefined,
+      });
+    }
+
+    case 'search_archive': {
+      if (params.archiveAfterDays !== undefined) {
+        return storage.setArchiveAfterDays(params.archiveAfterDays as number);
+      }
+      return storage.getArchive({
+        q: params.q as string | undefined,
+        project: params.project as string | undefined,
+        page: params.page as number | undefined,
+        pageSize: params.pageSize as number | undefined,
+      });
+    }
+
+    case 'get_tags':
+      return { tags: await storage.getTags() };
+
+    case 'update_tag': {
+      const { name, delete: remove, ...update } = params;
+      if (remove === true) {
+        try {
+          const deleted = await storage.deleteTag(name as string);
+          return deleted ? { success: true } : { error: 'Tag not found' };
+        } catch (error) {
+          if (error instanceof TagInUseError) {
+            return { error: error.message, taskIds: error.taskIds };
+          }
+          throw error;
+        }
+      }
+      return storage.updateTag(name as string, update as UpdateTagDTO);
+    }
+
+    case 'get_custom_fields':
+      return { fields: await storage.getCustomFields() };
+
+    case 'define_custom_field': {
+      const { key, delete: remove, ...definition } = params;
+      if (remove === true) {
+        const deleted = await storage.deleteCustomField(key as string, { actor: mcpActor(context) });
+        return deleted ? { success: true } : { error: 'Custom field not found' };
+      }
+      return storage.defineCustomField(key as string, definition as unknown as CustomFieldInput);
+    }
+
+    case 'unarchive_task': {
+      const task = await storage.unarchiveTask(params.id as string);
+      if (!task) {
+        return { error: 'Task not found in archive' };
+      }
+      return { success: true, task };
+    }
+
     case 'log_context_switch': {
       const switchTask = await storage.getTask(params.taskId as string);
-      await storage.logContextSwitch(params.taskId as string);
+      const event = await storage.logContextSwitch(params.taskId as string, {
+        toTaskId: params.toTaskId as string | undefined,
+        sessionId: context.sessionId,
+        actor: mcpActor(context),
+      });
       if (switchTask) {
         syncEmitter.emitContextSwitch(
           switchTask.id,
@@ -1076,7 +1830,8 @@ async function handleToolCall(name: string, params: Record<string, unknown>): Pr
           switchTask.project,
         );
       }
-      return { success: true, taskId: params.taskId };
+      const switches = await storage.getContextSwitchEvents(params.taskId as string);
+      return { success: true, taskId: params.taskId, event, contextSwitchCount: switches.length };
     }
 
     case 'get_data_gaps': {
@@ -1227,6 +1982,63 @@ async function handleToolCall(name: string, params: Record<string, unknown>): Pr
       return storage.backfillSkipDecisions(dryRun);
     }
 
+    case 'get_migration_status': {
+      const status = await storage.getMigrationStatus();
+      if (params.dry_run === true) {
+        return { ...status, dryRun: await storage.runMigrations({ dryRun: true }) };
+      }
+      return status;
+    }
+
+    case 'get_retention_policy': {
+      const config = await storage.getRetentionConfig();
+      const data = await storage.exportTrainingData();
+      return { ...config, compacted: data.summary.compacted };
+    }
+
+    case 'update_retention_policy': {
+      return storage.updateRetentionConfig({
+        policies: params.policies as UpdateRetentionDTO['policies'],
+        scheduleHours: params.scheduleHours as number | undefined,
+      });
+    }
+
+    case 'compact_ml_events': {
+      return storage.compactMLEvents({ dryRun: params.dry_run === true });
+    }
+
+    case 'check_integrity': {
+      const workspaceId = params.workspace_id as string | undefined;
+      const report = await storage.checkIntegrity({ workspaceId, repair: params.repair === true });
+      if (!report) {
+        return { error: `Workspace not found: ${workspaceId}` };
+      }
+      return report;
+    }
+
+    case 'list_backups': {
+      return storage.getBackups();
+    }
+
+    case 'create_backup': {
+      return storage.createBackup('manual', params.note as string | undefined);
+    }
+
+    case 'restore_backup': {
+      const result = await storage.restoreBackup(params.id as string);
+      if (!result) {
+        return { error: `Backup not found: ${params.id}` };
+      }
+      return { success: true, ...result };
+    }
+
+    case 'update_backup_settings': {
+      return storage.updateBackupConfig({
+        scheduleHours: params.scheduleHours as number | undefined,
+        retention: params.retention as UpdateBackupConfigDTO['retention'],
+      });
+    }
+
     // ====== V3.2: Online Learning Tools ======
     case 'log_drag_reorder': {
       const event = await storage.logDragReorder({
@@ -1343,6 +2155,59 @@ async function handleToolCall(name: string, params: Record<string, unknown>): Pr
       };
     }
 
+    case 'export_workspace': {
+      const archive = await storage.exportWorkspace(params.workspaceId as string, { includeML: params.includeML === true });
+      if (!archive) {
+        return { error: `Workspace not found: ${params.workspaceId}` };
+      }
+      if (!params.file) {
+        return archive;
+      }
+      const file = path.resolve(params.file as string);
+      fs.writeFileSync(file, JSON.stringify(archive, null, 2));
+      return {
+        success: true,
+        file,
+        workspace: archive.workspace,
+        tasks: archive.database.tasks.length,
+        projects: archive.database.projects.length,
+        mlEvents: Object.values(archive.mlEvents ?? {}).reduce((sum, events) => sum + events.length, 0),
+      };
+    }
+
+    case 'import_workspace': {
+      const archive = params.file
+        ? JSON.parse(fs.readFileSync(path.resolve(params.file as string), 'utf-8'))
+        : params.archive;
+      const result = await storage.importWorkspace(archive, {
+        onConflict: params.onConflict as ImportWorkspaceOptions['onConflict'],
+        name: params.name as string | undefined,
+        switchTo: params.switchTo === true,
+      });
+      return { success: true, ...result };
+    }
+
+    case 'clone_workspace': {
+      const result = await storage.cloneWorkspace(params.workspaceId as string, {
+        name: params.name as string,
+        description: params.description as string | undefined,
+        switchTo: params.switchTo === true,
+      });
+      if (!result) {
+        return { error: `Workspace ${params.workspaceId} not found` };
+      }
+      return { success: true, ...result };
+    }
+
+    case 'merge_workspaces': {
+      const report = await storage.mergeWorkspaces({
+        sourceId: params.sourceId as string,
+        targetId: params.targetId as string,
+        dryRun: params.dryRun === true,
+      });
+      return { success: true, ...report };
+    }
+
     // ====== Team Pulse Sync Tools ======
     case 'enable_team_sync': {
       const newConfig = updateTeamPulseConfig({
@@ -1431,9 +2296,36 @@ async function handleToolCall(name: string, params: Record<string, unknown>): Pr
   }
 }
 
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: { type: string; properties: Record<string, unknown>; required: string[] };
+}
+
+/**
+ * V4.3: Add the current workspace's custom fields to a tool's input schema
+ */
+function withCustomFields(tool: ToolDefinition, schema: Record<string, unknown>): ToolDefinition {
+  return {
+    ...tool,
+    inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, customFields: schema } },
+  };
+}
+
 // Export getters for the processor
-export function getTools() {
-  return tools;
+// V4.3: create_task/update_task describe the current workspace's custom fields
+export async function getTools(): Promise<ToolDefinition[]> {
+  const fields = await storage.getCustomFields();
+  if (fields.length === 0) return tools;
+  return tools.map((tool: ToolDefinition) => {
+    if (tool.name === 'create_task') {
+      return withCustomFields(tool, { ...customFieldsJsonSchema(fields), description: 'V4.3: Custom field values' });
+    }
+    if (tool.name === 'update_task') {
+      return withCustomFields(tool, { ...customFieldsJsonSchema(fields, true), description: 'V4.3: Custom field values to set (null clears one)' });
+    }
+    return tool;
+  });
 }
 
 export function getResources() {
@@ -1512,7 +2404,7 @@ This enables ML to learn actual work duration vs queue time. Without this, we lo
 
       // ====== TOOLS ======
       case 'tools/list':
-        response.result = { tools };
+        response.result = { tools: await getTools() };
         break;
 
       case 'tools/call': {
@@ -1520,7 +2412,9 @@ This enables ML to learn actual work duration vs queue time. Without this, we lo
           name: string;
           arguments: Record<string, unknown>;
         };
-        const result = await handleToolCall(name, args || {});
+        const result = await handleToolCall(name, args || {}, {
+          sessionId: req.headers['mcp-session-id'] as string | undefined,
+        });
         
         // Include protocol reminder in every tool response
         const protocolReminder = `\n\n---\n📋 Remember: Update task status when done. Call complete_task with outcome.`;
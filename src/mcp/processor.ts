@@ -17,21 +17,22 @@
 
 import { JsonRpcMessage, McpProcessor } from './streamableHandler';
 import { VERSION, VERSION_TAG } from '../version';
+import type { ToolCallContext } from './handler';
 
 // Import the existing handlers from handler.ts
 // We'll need to export these functions from handler.ts
-let handleToolCall: (name: string, args: Record<string, unknown>) => Promise<unknown>;
+let handleToolCall: (name: string, args: Record<string, unknown>, context?: ToolCallContext) => Promise<unknown>;
 let handleResourceRead: (uri: string) => Promise<string>;
 let handlePromptGet: (name: string, args: Record<string, string>) => Promise<unknown>;
-let getTools: () => unknown[];
+let getTools: () => Promise<unknown[]>;
 let getResources: () => unknown[];
 let getPrompts: () => unknown[];
 
 export function setHandlers(handlers: {
-  handleToolCall: (name: string, args: Record<string, unknown>) => Promise<unknown>;
+  handleToolCall: (name: string, args: Record<string, unknown>, context?: ToolCallContext) => Promise<unknown>;
   handleResourceRead: (uri: string) => Promise<string>;
   handlePromptGet: (name: string, args: Record<string, string>) => Promise<unknown>;
-  getTools: () => unknown[];
+  getTools: () => Promise<unknown[]>;
   getResources: () => unknown[];
   getPrompts: () => unknown[];
 }) {
@@ -100,7 +101,7 @@ This enables ML to learn actual work duration vs queue time. Without this, we lo
           break;
 
         case 'tools/list':
-          response.result = { tools: getTools() };
+          response.result = { tools: await getTools() };
           break;
 
         case 'tools/call': {
@@ -108,7 +109,7 @@ This enables ML to learn actual work duration vs queue time. Without this, we lo
             name: string;
             arguments: Record<string, unknown>;
           };
-          const result = await handleToolCall(name, args || {});
+          const result = await handleToolCall(name, args || {}, { sessionId });
 
           const protocolReminder = `\n\n---\n📋 Remember: Update task status when done. Call complete_task with outcome.`;
 
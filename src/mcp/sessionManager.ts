@@ -22,6 +22,7 @@ interface Session {
   createdAt: Date;
   lastActivity: Date;
   initialized: boolean;
+  clientName?: string;   // V4.3: clientInfo.name from initialize (used as the actor)
 }
 
 class SessionManager {
@@ -59,6 +60,17 @@ class SessionManager {
     }
   }
 
+  setClientName(sessionId: string, clientName: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.clientName = clientName;
+    }
+  }
+
+  getClientName(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.clientName;
+  }
+
   isValid(sessionId: string): boolean {
     const session = this.sessions.get(sessionId);
     if (!session) return false;
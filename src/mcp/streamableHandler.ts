@@ -149,6 +149,10 @@ export function createStreamableHandler(processor: McpProcessor) {
           if (message.method === 'initialize' && !sessionId) {
             sessionId = sessionManager.createSession();
             sessionManager.markInitialized(sessionId);
+            const clientName = (message.params?.clientInfo as { name?: unknown } | undefined)?.name;
+            if (typeof clientName === 'string' && clientName.trim()) {
+              sessionManager.setClientName(sessionId, clientName.trim().slice(0, 100));
+            }
           }
 
           responses.push(response);
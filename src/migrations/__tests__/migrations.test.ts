@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMigrations,
+  getMigrationStatus,
+  getPendingMigrations,
+  LATEST_SCHEMA_REVISION,
+  MIGRATIONS,
+  MigrationDataset,
+} from '..';
+import {
+  DEFAULT_GLOBAL_ML_DATABASE,
+  ProgressDatabase,
+  TaskCompletionRecord,
+  TaskSelectionEvent,
+  WeightedTask,
+} from '../../types/schema';
+
+function makeDataset(): MigrationDataset {
+  const workspace: ProgressDatabase = {
+    version: 'v4',
+    lastUpdated: '2026-01-01T00:00:00Z',
+    projects: [],
+    tasks: [
+      { id: 'T1', status: 'complete', effort: 'medium', createdAt: '2026-01-01T00:00:00Z' } as WeightedTask,
+      { id: 'T2', status: 'completed', createdAt: '2026-01-01T00:00:00Z' } as unknown as WeightedTask,
+    ],
+    dataGaps: [],
+    decisions: [],
+    heuristicWeights: { ...DEFAULT_GLOBAL_ML_DATABASE.heuristicWeights },
+  };
+  const globalML = structuredClone(DEFAULT_GLOBAL_ML_DATABASE);
+  delete globalML.schemaRevision;
+  globalML.completionRecords = [
+    { id: 'C1', taskId: 'T1', actualCompletionTime: 1, completedAt: '2026-01-01T01:00:00Z' } as TaskCompletionRecord,
+  ];
+  globalML.taskSelectionEvents = [
+    {
+      id: 'S1', selectedTaskId: 'T2', selectedTaskScore: 40, topTaskId: 'T1', topTaskScore: 10,
+      wasTopSelected: false,
+    } as TaskSelectionEvent,
+  ];
+  return { workspaces: new Map([['ws-1', workspace]]), globalML };
+}
+
+describe('schema migrations', () => {
+  it('registers revisions in strictly increasing order', () => {
+    const revisions = MIGRATIONS.map(m => m.revision);
+    expect(revisions).toEqual([...revisions].sort((a, b) => a - b));
+    expect(new Set(revisions).size).toBe(revisions.length);
+    expect(LATEST_SCHEMA_REVISION).toBe(revisions[revisions.length - 1]);
+  });
+
+  it('applies all pending migrations and stamps every store', () => {
+    const dataset = makeDataset();
+    expect(getPendingMigrations(dataset)).toHaveLength(MIGRATIONS.length);
+
+    const results = applyMigrations(dataset);
+    const workspace = dataset.workspaces.get('ws-1')!;
+
+    expect(results.map(r => r.name)).toEqual(MIGRATIONS.map(m => m.name));
+    expect(dataset.globalML.schemaRevision).toBe(LATEST_SCHEMA_REVISION);
+    expect(workspace.schemaRevision).toBe(LATEST_SCHEMA_REVISION);
+
+    // v40: work time imputed and copied onto the task
+    const record = dataset.globalML.completionRecords[0];
+    expect(record._imputed).toBe(true);
+    expect(record.actualWorkTime).toBeGreaterThan(0);
+    expect(workspace.tasks[0].startedAt).toBe(record.startedAt);
+
+    // v41: single selected > top preference
+    expect(dataset.globalML.taskSelectionEvents[0].implicitPreferences).toEqual([
+      { preferredTaskId: 'T2', skippedTaskId: 'T1', scoreDiff: 30 },
+    ]);
+
+    // status normalize
+    expect(workspace.tasks[1].status).toBe('complete');
+
+    // revision counters
+    expect(workspace.tasks.map(t => t.revision)).toEqual([1, 1]);
+  });
+
+  it('does nothing once every store is at the latest revision', () => {
+    const dataset = makeDataset();
+    applyMigrations(dataset);
+    expect(getPendingMigrations(dataset)).toHaveLength(0);
+    expect(applyMigrations(dataset)).toEqual([]);
+    expect(getMigrationStatus(dataset).pending).toEqual([]);
+  });
+
+  it('only migrates stores that are behind', () => {
+    const dataset = makeDataset();
+    dataset.globalML.schemaRevision = LATEST_SCHEMA_REVISION;
+
+    const results = applyMigrations(dataset);
+    for (const result of results) {
+      expect(result.stores).toEqual(['workspace:ws-1']);
+    }
+    expect(dataset.globalML.completionRecords[0]._imputed).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Migration } from './types';
+import { v40WorkDuration } from './v40WorkDuration';
+import { v41SelectionPairwise } from './v41SelectionPairwise';
+import { statusNormalize } from './statusNormalize';
+import { revisionCounters } from './revisionCounters';
+
+/**
+ * All schema migrations, in revision order.
+ * Append new migrations here with the next revision number; never renumber.
+ */
+export const MIGRATIONS: Migration[] = [
+  v40WorkDuration,
+  v41SelectionPairwise,
+  statusNormalize,
+  revisionCounters,
+];
+
+export const LATEST_SCHEMA_REVISION = MIGRATIONS[MIGRATIONS.length - 1].revision;
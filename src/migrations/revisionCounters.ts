@@ -0,0 +1,39 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Migration } from './types';
+
+/**
+ * Start every existing task and project at revision 1 so optimistic
+ * concurrency checks (If-Match / expectedRevision) have a baseline.
+ */
+export const revisionCounters: Migration = {
+  revision: 4,
+  name: 'revision-counters',
+  description: 'Initialize revision counters on tasks and projects',
+
+  migrateWorkspace(db) {
+    let changes = 0;
+    for (const item of [...db.tasks, ...db.projects]) {
+      if (typeof item.revision !== 'number') {
+        item.revision = 1;
+        changes++;
+      }
+    }
+    return changes;
+  },
+};
@@ -0,0 +1,87 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Migration, MigrationDataset, MigrationResult, MigrationStatus } from './types';
+import { MIGRATIONS, LATEST_SCHEMA_REVISION } from './registry';
+
+export function getRevision(store: { schemaRevision?: number }): number {
+  return store.schemaRevision ?? 0;
+}
+
+/**
+ * Lowest revision across the global ML data and every workspace
+ */
+export function getLowestRevision(dataset: MigrationDataset): number {
+  let lowest = getRevision(dataset.globalML);
+  for (const db of dataset.workspaces.values()) {
+    lowest = Math.min(lowest, getRevision(db));
+  }
+  return lowest;
+}
+
+export function getPendingMigrations(dataset: MigrationDataset): Migration[] {
+  const lowest = getLowestRevision(dataset);
+  return MIGRATIONS.filter(m => m.revision > lowest);
+}
+
+export function getMigrationStatus(dataset: MigrationDataset): MigrationStatus {
+  return {
+    latestRevision: LATEST_SCHEMA_REVISION,
+    globalMLRevision: getRevision(dataset.globalML),
+    workspaces: [...dataset.workspaces.entries()].map(([id, db]) => ({ id, revision: getRevision(db) })),
+    pending: getPendingMigrations(dataset).map(m => ({
+      revision: m.revision,
+      name: m.name,
+      description: m.description,
+    })),
+  };
+}
+
+/**
+ * Apply pending migrations to the dataset in place and stamp each store's revision.
+ * Global ML data is migrated before workspaces so workspace steps can rely on it.
+ */
+export function applyMigrations(dataset: MigrationDataset): MigrationResult[] {
+  const results: MigrationResult[] = [];
+
+  for (const migration of getPendingMigrations(dataset)) {
+    const result: MigrationResult = {
+      revision: migration.revision,
+      name: migration.name,
+      changes: 0,
+      stores: [],
+    };
+
+    if (getRevision(dataset.globalML) < migration.revision) {
+      result.changes += migration.migrateGlobalML?.(dataset.globalML, dataset) ?? 0;
+      dataset.globalML.schemaRevision = migration.revision;
+      result.stores.push('globalML');
+    }
+
+    for (const [id, db] of dataset.workspaces) {
+      if (getRevision(db) < migration.revision) {
+        result.changes += migration.migrateWorkspace?.(db, dataset) ?? 0;
+        db.schemaRevision = migration.revision;
+        result.stores.push(`workspace:${id}`);
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,40 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Migration } from './types';
+
+/**
+ * Normalize task status 'completed' → 'complete' (was scripts/migrate-status-normalize.ts).
+ *
+ * TaskOutcome keeps 'completed' (what happened); TaskStatus uses 'complete' (current state).
+ */
+export const statusNormalize: Migration = {
+  revision: 3,
+  name: 'status-normalize',
+  description: "Normalize task status 'completed' to 'complete'",
+
+  migrateWorkspace(db) {
+    let changes = 0;
+    for (const task of db.tasks) {
+      if ((task.status as string) === 'completed') {
+        task.status = 'complete';
+        changes++;
+      }
+    }
+    return changes;
+  },
+};
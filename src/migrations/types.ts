@@ -0,0 +1,64 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ProgressDatabase, GlobalMLDatabase } from '../types/schema';
+
+/**
+ * Everything a migration can see: every workspace database plus the global ML data.
+ * Cross-store migrations (e.g. completion records → workspace tasks) need both.
+ */
+export interface MigrationDataset {
+  workspaces: Map<string, ProgressDatabase>;
+  globalML: GlobalMLDatabase;
+}
+
+/**
+ * A registered schema migration.
+ *
+ * Revisions are applied in ascending order. Each store records the last revision
+ * it has seen in `schemaRevision`, so a migration runs at most once per store.
+ * Handlers return the number of records they changed and must be idempotent.
+ */
+export interface Migration {
+  revision: number;
+  name: string;
+  description: string;
+  migrateGlobalML?(globalML: GlobalMLDatabase, dataset: MigrationDataset): number;
+  migrateWorkspace?(db: ProgressDatabase, dataset: MigrationDataset): number;
+}
+
+export interface MigrationResult {
+  revision: number;
+  name: string;
+  changes: number;
+  stores: string[];            // 'globalML' and/or 'workspace:<id>'
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  fromRevision: number;        // Lowest revision across all stores before running
+  toRevision: number;
+  applied: MigrationResult[];
+  backupPath?: string;
+}
+
+export interface MigrationStatus {
+  latestRevision: number;
+  globalMLRevision: number;
+  workspaces: Array<{ id: string; revision: number }>;
+  pending: Array<{ revision: number; name: string; description: string }>;
+}
@@ -0,0 +1,96 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Effort, WeightedTask } from '../types/schema';
+import { Migration } from './types';
+
+/**
+ * V4.0: Impute startedAt and actualWorkTime for completion records created
+ * before work duration tracking existed (was scripts/migrate-v40-work-duration.ts).
+ *
+ * - Short tasks (< 2h total): mostly work time; long tasks (> 8h): mostly queue time
+ * - Effort adjusts the ratio: low=0.8x, medium=1x, high=1.2x
+ * - Imputed records are flagged with `_imputed` so ML can weight them down
+ */
+function estimateWorkRatio(totalHours: number, effort?: Effort): number {
+  let workRatio: number;
+  if (totalHours < 0.5) {
+    workRatio = 0.9;
+  } else if (totalHours < 2) {
+    workRatio = 0.8;
+  } else if (totalHours < 8) {
+    workRatio = 0.5;
+  } else if (totalHours < 24) {
+    workRatio = 0.3;
+  } else {
+    workRatio = 0.2;
+  }
+  const effortMultiplier = effort === 'low' ? 0.8 : effort === 'high' ? 1.2 : 1.0;
+  return Math.min(0.95, workRatio * effortMultiplier);
+}
+
+export const v40WorkDuration: Migration = {
+  revision: 1,
+  name: 'v40-work-duration',
+  description: 'Impute startedAt/actualWorkTime for historical completion records',
+
+  migrateGlobalML(globalML, dataset) {
+    const tasks = new Map<string, WeightedTask>();
+    for (const db of dataset.workspaces.values()) {
+      for (const task of db.tasks) {
+        tasks.set(task.id, task);
+      }
+    }
+
+    let changes = 0;
+    for (const record of globalML.completionRecords) {
+      if (record.startedAt && record.actualWorkTime !== undefined) continue;
+      const task = tasks.get(record.taskId);
+      if (!task) continue;
+
+      const workTime = Math.max(0.01, Math.round(
+        record.actualCompletionTime * estimateWorkRatio(record.actualCompletionTime, task.effort) * 100
+      ) / 100);
+      const completedAt = new Date(record.completedAt);
+      const createdAt = new Date(task.createdAt);
+      let startedAt = new Date(completedAt.getTime() - workTime * 60 * 60 * 1000);
+      // Never start before the task existed
+      if (startedAt < createdAt) startedAt = createdAt;
+
+      record.startedAt = startedAt.toISOString();
+      record.actualWorkTime = Math.round(
+        ((completedAt.getTime() - startedAt.getTime()) / (1000 * 60 * 60)) * 100
+      ) / 100;
+      record._imputed = true;
+      changes++;
+    }
+    return changes;
+  },
+
+  migrateWorkspace(db, dataset) {
+    let changes = 0;
+    for (const task of db.tasks) {
+      if (task.status !== 'complete' || task.startedAt) continue;
+      const record = dataset.globalML.completionRecords.find(r => r.taskId === task.id);
+      if (record?.startedAt) {
+        task.startedAt = record.startedAt;
+        changes++;
+      }
+    }
+    return changes;
+  },
+};
@@ -0,0 +1,53 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Migration } from './types';
+
+/**
+ * V4.1: Impute skippedTaskIds and implicitPreferences for historical
+ * TaskSelectionEvents (was scripts/migrate-v41-selection-pairwise.ts).
+ *
+ * Historical events only know the top recommendation, so a non-top selection
+ * yields a single "selected > top" preference.
+ */
+export const v41SelectionPairwise: Migration = {
+  revision: 2,
+  name: 'v41-selection-pairwise',
+  description: 'Impute pairwise preferences for historical task selection events',
+
+  migrateGlobalML(globalML) {
+    let changes = 0;
+    for (const event of globalML.taskSelectionEvents) {
+      if (event.implicitPreferences !== undefined) continue;
+
+      if (event.wasTopSelected) {
+        event.skippedTaskIds = [];
+        event.implicitPreferences = [];
+      } else {
+        event.skippedTaskIds = [event.topTaskId];
+        event.implicitPreferences = [{
+          preferredTaskId: event.selectedTaskId,
+          skippedTaskId: event.topTaskId,
+          // Positive scoreDiff means heuristics got it wrong
+          scoreDiff: event.selectedTaskScore - event.topTaskScore,
+        }];
+      }
+      changes++;
+    }
+    return changes;
+  },
+};
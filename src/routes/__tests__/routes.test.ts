@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+// The routers use the shared storage instance: make it the in-memory backend
+vi.hoisted(() => {
+  process.env.PRIORITY_FORGE_STORAGE = 'memory';
+});
+
+import { storage } from '../../storage';
+import { InMemoryStorage } from '../../storage/memoryStorage';
+import projectsRouter from '../projects';
+import tasksRouter from '../tasks';
+import trashRouter from '../trash';
+import tagsRouter from '../tags';
+import dependenciesRouter from '../dependencies';
+
+describe('REST routes (in-memory storage)', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (method: string, url: string, body?: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+  };
+
+  beforeAll(async () => {
+    const workspace = await storage.createWorkspace({ name: 'Routes' });
+    await storage.switchWorkspace(workspace.id);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/projects', projectsRouter);
+    app.use('/tasks', tasksRouter);
+    app.use('/trash', trashRouter);
+    app.use('/tags', tagsRouter);
+    app.use('/dependencies', dependenciesRouter);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    (storage as InMemoryStorage).dispose();
+  });
+
+  it('runs on the in-memory backend', () => {
+    expect(storage).toBeInstanceOf(InMemoryStorage);
+  });
+
+  it('creates tasks, validates input and serves them in priority order', async () => {
+    expect((await request('POST', '/projects', { name: 'api', path: '/api', primaryFocus: 'Routes' })).status).toBe(201);
+    expect((await request('POST', '/tasks', { task: 'No priority', project: 'api' })).status).toBe(400);
+
+    await request('POST', '/tasks', { task: 'Later', project: 'api', priority: 'P2' });
+    const urgent = await request('POST', '/tasks', { task: 'Urgent', project: 'api', priority: 'P0' });
+    expect(urgent.status).toBe(201);
+
+    const list = await request('GET', '/tasks');
+    expect(list.body.map((t: { task: string }) => t.task)).toEqual(['Urgent', 'Later']);
+    expect((await request('GET', '/tasks/top')).body.id).toBe(urgent.body.id);
+  });
+
+  it('answers stale If-Match writes with 409 and the current copy', async () => {
+    const created = (await request('POST', '/tasks', { task: 'Edit', project: 'api', priority: 'P1' })).body;
+    const etag = (await request('GET', `/tasks/${created.id}`)).headers.get('etag')!;
+
+    expect((await request('PUT', `/tasks/${created.id}`, { notes: 'one' }, { 'If-Match': etag })).status).toBe(200);
+    const stale = await request('PUT', `/tasks/${created.id}`, { notes: 'two' }, { 'If-Match': etag });
+    expect(stale.status).toBe(409);
+    expect(stale.body.current.notes).toBe('one');
+  });
+
+  it('completes, deletes and restores tasks', async () => {
+    const created = (await request('POST', '/tasks', { task: 'Finish', project: 'api', priority: 'P1' })).body;
+    expect((await request('POST', `/tasks/${created.id}/complete`, { outcome: 'done' })).status).toBe(400);
+    expect((await request('POST', `/tasks/${created.id}/complete`, { outcome: 'completed' })).body.taskId).toBe(created.id);
+
+    expect((await request('DELETE', `/tasks/${created.id}`)).status).toBe(204);
+    expect((await request('GET', `/tasks/${created.id}`)).status).toBe(404);
+    expect((await request('POST', `/trash/${created.id}/restore`)).status).toBe(200);
+    expect((await request('GET', `/tasks/${created.id}`)).body.task).toBe('Finish');
+  });
+
+  it('serves a task history attributed to the caller', async () => {
+    const created = (await request('POST', '/tasks', { task: 'Audit', project: 'api', priority: 'P2' }, { 'User-Agent': 'script/1.0' })).body;
+    await request('PUT', `/tasks/${created.id}`, { priority: 'P0', notes: 'urgent' }, { 'X-Actor': 'dashboard' });
+
+    const history = await request('GET', `/tasks/${created.id}/history`);
+    expect(history.body.map((e: { operation: string; actor: string }) => [e.operation, e.actor])).toEqual([
+      ['update', 'dashboard'],
+      ['create', 'rest:script/1.0'],
+    ]);
+    expect(history.body[0].changes).toContainEqual({ field: 'priority', before: 'P2', after: 'P0' });
+    expect(history.body[0].changes).toContainEqual({ field: 'notes', after: 'urgent' });
+    expect((await request('GET', '/tasks/missing/history')).status).toBe(404);
+  });
+
+  it('logs context switches with the caller as actor', async () => {
+    const created = (await request('POST', '/tasks', { task: 'Interrupted', project: 'api', priority: 'P2' })).body;
+    const logged = await request('POST', `/tasks/${created.id}/context-switch`, {}, { 'X-Actor': 'dashboard' });
+    expect(logged.body.event).toMatchObject({ fromTaskId: created.id, actor: 'dashboard' });
+    expect(await storage.getContextSwitchEvents(created.id)).toHaveLength(1);
+    expect((await request('POST', '/tasks/missing/context-switch')).status).toBe(404);
+  });
+
+  it('filters tasks by tag and keeps tags in use in the registry', async () => {
+    const bug = (await request('POST', '/tasks', { task: 'Fix crash', project: 'api', priority: 'P1', tags: ['bug', 'infra'] })).body;
+    await request('POST', '/tasks', { task: 'Upgrade CI', project: 'api', priority: 'P1', tags: ['infra'] });
+
+    expect((await request('GET', '/tasks?tags=bug')).body.map((t: { id: string }) => t.id)).toEqual([bug.id]);
+    expect((await request('GET', '/tasks?tags=bug,infra&tagMatch=all')).body).toHaveLength(1);
+    expect((await request('GET', '/tasks?tags=infra')).body).toHaveLength(2);
+    expect((await request('GET', '/tasks?tags=not%20a%20tag')).status).toBe(400);
+
+    expect((await request('PUT', '/tags/bug', { scoreMultiplier: 2 })).body).toMatchObject({ name: 'bug', scoreMultiplier: 2, taskCount: 1 });
+    const inUse = await request('DELETE', '/tags/bug');
+    expect(inUse.status).toBe(409);
+    expect(inUse.body.taskIds).toEqual([bug.id]);
+    expect((await request('DELETE', '/tags/unknown')).status).toBe(404);
+  });
+
+  it('rejects dependency cycles with the cycle path', async () => {
+    const schema = (await request('POST', '/tasks', { task: 'Design schema', project: 'api', priority: 'P1' })).body;
+    const api = (await request('POST', '/tasks', { task: 'Build API', project: 'api', priority: 'P1', dependencies: [schema.id] })).body;
+
+    const loop = await request('PUT', `/tasks/${schema.id}`, { dependencies: [api.id] });
+    expect(loop.status).toBe(400);
+    expect(loop.body.cycle.path).toEqual([schema.id, api.id, schema.id]);
+    expect((await request('GET', `/tasks/${schema.id}`)).body.dependencies).toBeUndefined();
+    expect((await request('GET', '/dependencies/cycles')).body.cycles).toEqual([]);
+  });
+});
@@ -0,0 +1,31 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Request } from 'express';
+
+const MAX_ACTOR_LENGTH = 100;
+
+/**
+ * V4.3: Who is making a REST call: the X-Actor header if set, otherwise
+ * 'rest:<user agent>' ('rest' when the client sends none)
+ */
+export function getActor(req: Request): string {
+  const actor = req.get('X-Actor')?.trim();
+  if (actor) return actor.slice(0, MAX_ACTOR_LENGTH);
+  const userAgent = req.get('User-Agent')?.trim();
+  return userAgent ? `rest:${userAgent}`.slice(0, MAX_ACTOR_LENGTH) : 'rest';
+}
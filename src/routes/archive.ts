@@ -0,0 +1,71 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { sendStorageError } from './errors';
+
+const router = Router();
+
+// GET /archive - Archived tasks in the current workspace (V4.3)
+// Query: q=<text>, project=<id or name>, page=1, pageSize=50
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { q, project, page, pageSize } = req.query;
+    res.json(await storage.getArchive({
+      q: q as string | undefined,
+      project: project as string | undefined,
+      page: page !== undefined ? Number(page) : undefined,
+      pageSize: pageSize !== undefined ? Number(pageSize) : undefined,
+    }));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to fetch archive');
+  }
+});
+
+// PUT /archive/settings - { archiveAfterDays } (0 = never archive automatically)
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.setArchiveAfterDays(req.body?.archiveAfterDays));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to update archive settings');
+  }
+});
+
+// POST /archive/run - Archive finished tasks past each workspace's threshold now
+router.post('/run', async (_req: Request, res: Response) => {
+  try {
+    res.json({ archived: await storage.archiveCompletedTasks() });
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to archive tasks');
+  }
+});
+
+// POST /archive/:id/unarchive - Move an archived task back into the queue
+router.post('/:id/unarchive', async (req: Request, res: Response) => {
+  try {
+    const task = await storage.unarchiveTask(req.params.id);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found in archive' });
+    }
+    res.json(task);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to unarchive task');
+  }
+});
+
+export default router;
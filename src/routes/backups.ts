@@ -0,0 +1,68 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { sendStorageError } from './errors';
+
+const router = Router();
+
+// GET /backups - Backups (newest first) and the schedule/rotation settings (V4.3)
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getBackups());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to list backups' });
+  }
+});
+
+// POST /backups - Take a manual backup now ({ note? }); manual backups are never rotated out
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const note = req.body?.note;
+    if (note !== undefined && typeof note !== 'string') {
+      return res.status(400).json({ error: 'note must be a string' });
+    }
+    res.status(201).json(await storage.createBackup('manual', note));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to create backup');
+  }
+});
+
+// PUT /backups/settings - { scheduleHours?, retention?: { hourly?, daily?, weekly?, preOperation? } }
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.updateBackupConfig(req.body ?? {}));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to update backup settings');
+  }
+});
+
+// POST /backups/:id/restore - Validate, then replace all data with the backup (takes a safety backup first)
+router.post('/:id/restore', async (req: Request, res: Response) => {
+  try {
+    const result = await storage.restoreBackup(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    res.json(result);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to restore backup');
+  }
+});
+
+export default router;
@@ -0,0 +1,56 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { sendStorageError } from './errors';
+import { getActor } from './actor';
+
+const router = Router();
+
+// GET /custom-fields - Custom field schema of the current workspace (V4.3)
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getCustomFields());
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to fetch custom fields');
+  }
+});
+
+// PUT /custom-fields/:key - Add or redefine a field: { type, label, options, required, description }
+router.put('/:key', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.defineCustomField(req.params.key, req.body ?? {}));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to define custom field');
+  }
+});
+
+// DELETE /custom-fields/:key - Remove a field and clear its values from tasks
+router.delete('/:key', async (req: Request, res: Response) => {
+  try {
+    const deleted = await storage.deleteCustomField(req.params.key, { actor: getActor(req) });
+    if (!deleted) {
+      return res.status(404).json({ error: 'Custom field not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to delete custom field');
+  }
+});
+
+export default router;
@@ -16,8 +16,9 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { storage } from '../storage/jsonStorage';
+import { storage } from '../storage';
 import { CreateDataGapDTO, UpdateDataGapDTO } from '../types/schema';
+import { sendStorageError } from './errors';
 
 const router = Router();
 
@@ -62,7 +63,7 @@ router.post('/', async (req: Request, res: Response) => {
     const gap = await storage.createDataGap(data);
     res.status(201).json(gap);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create data gap' });
+    sendStorageError(res, error, 'Failed to create data gap');
   }
 });
 
@@ -82,7 +83,7 @@ router.put('/:id', async (req: Request, res: Response) => {
     }
     res.json(gap);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update data gap' });
+    sendStorageError(res, error, 'Failed to update data gap');
   }
 });
 
@@ -95,7 +96,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
     }
     res.status(204).send();
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete data gap' });
+    sendStorageError(res, error, 'Failed to delete data gap');
   }
 });
 
@@ -16,8 +16,9 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { storage } from '../storage/jsonStorage';
+import { storage } from '../storage';
 import { CreateDecisionDTO } from '../types/schema';
+import { sendStorageError } from './errors';
 
 const router = Router();
 
@@ -41,7 +42,7 @@ router.post('/', async (req: Request, res: Response) => {
     const decision = await storage.createDecision(data);
     res.status(201).json(decision);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create decision' });
+    sendStorageError(res, error, 'Failed to create decision');
   }
 });
 
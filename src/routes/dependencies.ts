@@ -0,0 +1,53 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { sendStorageError } from './errors';
+
+const router = Router();
+
+// GET /dependencies/cycles - Dependency cycles in the current workspace's tasks (V4.3)
+// Each cycle lists the task IDs around the loop and which field (dependencies/blocking) links each step
+router.get('/cycles', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getDependencyCycles());
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to check dependency cycles');
+  }
+});
+
+// GET /dependencies/settings - { autoUnblock } for the current workspace (V4.3)
+router.get('/settings', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getDependencySettings());
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to fetch dependency settings');
+  }
+});
+
+// PUT /dependencies/settings - { autoUnblock }: completing a task moves blocked dependents
+// whose prerequisites are all finished to not_started (on by default)
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.setAutoUnblock(req.body?.autoUnblock));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to update dependency settings');
+  }
+});
+
+export default router;
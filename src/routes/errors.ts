@@ -0,0 +1,58 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Response } from 'express';
+import {
+  DependencyCycleError,
+  ExternalModificationError,
+  OpenSubtasksError,
+  ProjectNotEmptyError,
+  RevisionConflictError,
+  StorageLockedError,
+  StorageValidationError,
+  TagInUseError,
+  WorkspaceConflictError,
+} from '../storage/errors';
+import { sendRevisionConflict } from './etag';
+
+/**
+ * V4.3: Respond to a failed write. Storage errors the client can act on keep
+ * their message (400 invalid, 423 locked, 409 conflicts); anything else is a plain 500.
+ */
+export function sendStorageError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof RevisionConflictError) {
+    sendRevisionConflict(res, error);
+  } else if (error instanceof StorageLockedError) {
+    res.status(423).json({ error: error.message, lockFile: error.lockFile, owner: error.owner });
+  } else if (error instanceof ExternalModificationError) {
+    res.status(409).json({ error: error.message });
+  } else if (error instanceof ProjectNotEmptyError) {
+    res.status(409).json({ error: error.message, projectId: error.projectId, taskIds: error.taskIds });
+  } else if (error instanceof OpenSubtasksError) {
+    res.status(409).json({ error: error.message, taskId: error.taskId, openSubtaskIds: error.openSubtaskIds });
+  } else if (error instanceof TagInUseError) {
+    res.status(409).json({ error: error.message, tag: error.tag, taskIds: error.taskIds });
+  } else if (error instanceof WorkspaceConflictError) {
+    res.status(409).json({ error: error.message, workspaceId: error.workspaceId });
+  } else if (error instanceof DependencyCycleError) {
+    res.status(400).json({ error: error.message, taskId: error.taskId, cycle: error.cycle });
+  } else if (error instanceof StorageValidationError) {
+    res.status(400).json({ error: error.message });
+  } else {
+    res.status(500).json({ error: fallback });
+  }
+}
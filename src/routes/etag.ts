@@ -0,0 +1,49 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Request, Response } from 'express';
+import { RevisionConflictError } from '../storage/errors';
+
+/**
+ * V4.3: ETags are the entity revision, e.g. ETag: "3"
+ */
+export function setETag(res: Response, entity: { revision?: number }): void {
+  res.set('ETag', `"${entity.revision ?? 0}"`);
+}
+
+/**
+ * Expected revision from If-Match (undefined when absent or "*", null when malformed)
+ */
+export function parseIfMatch(req: Request): number | undefined | null {
+  const header = req.get('If-Match');
+  if (!header || header.trim() === '*') return undefined;
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * 409 with the current server copy so the client can merge and retry
+ */
+export function sendRevisionConflict(res: Response, error: RevisionConflictError): void {
+  setETag(res, error.current);
+  res.status(409).json({
+    error: error.message,
+    expectedRevision: error.expectedRevision,
+    currentRevision: error.current.revision,
+    current: error.current,
+  });
+}
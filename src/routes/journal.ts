@@ -0,0 +1,83 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { JournalEntity, JournalQuery } from '../types/schema';
+
+const router = Router();
+
+const ENTITIES: JournalEntity[] = ['task', 'project', 'decision', 'dataGap'];
+
+/**
+ * Normalize a timestamp query/body value to ISO, or null if it is not a date
+ */
+function parseTimestamp(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// GET /journal - Operation journal for the current workspace (V4.3)
+// Query: entity, entityId, since, until, limit
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { entity, entityId, since, until, limit } = req.query;
+    if (entity && !ENTITIES.includes(entity as JournalEntity)) {
+      return res.status(400).json({ error: `entity must be one of: ${ENTITIES.join(', ')}` });
+    }
+    const query: JournalQuery = {
+      entity: entity as JournalEntity | undefined,
+      entityId: entityId as string | undefined,
+      since: since ? parseTimestamp(since) ?? undefined : undefined,
+      until: until ? parseTimestamp(until) ?? undefined : undefined,
+      limit: limit ? parseInt(limit as string, 10) || undefined : undefined,
+    };
+    res.json(await storage.getJournal(query));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch journal' });
+  }
+});
+
+// GET /journal/snapshot?at=<timestamp> - Rebuild the current workspace as of a point in time (V4.3)
+router.get('/snapshot', async (req: Request, res: Response) => {
+  try {
+    const at = parseTimestamp(req.query.at);
+    if (!at) {
+      return res.status(400).json({ error: 'at must be a valid timestamp' });
+    }
+    res.json(await storage.getWorkspaceAt(at));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to rebuild workspace' });
+  }
+});
+
+// POST /journal/restore - Restore the current workspace to a point in time (V4.3)
+// Body: { at: "<timestamp>" }
+router.post('/restore', async (req: Request, res: Response) => {
+  try {
+    const at = parseTimestamp(req.body?.at);
+    if (!at) {
+      return res.status(400).json({ error: 'at must be a valid timestamp' });
+    }
+    res.json(await storage.restoreWorkspaceTo(at));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to restore workspace' });
+  }
+});
+
+export default router;
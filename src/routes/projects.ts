@@ -16,8 +16,11 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { storage } from '../storage/jsonStorage';
-import { CreateProjectDTO, UpdateProjectDTO } from '../types/schema';
+import { storage } from '../storage';
+import { CreateProjectDTO, DeleteProjectMode, UpdateProjectDTO } from '../types/schema';
+import { parseIfMatch, setETag } from './etag';
+import { sendStorageError } from './errors';
+import { getActor } from './actor';
 
 const router = Router();
 
@@ -38,6 +41,7 @@ router.get('/:id', async (req: Request, res: Response) => {
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
+    setETag(res, project);
     res.json(project);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch project' });
@@ -54,34 +58,58 @@ router.post('/', async (req: Request, res: Response) => {
     const project = await storage.createProject(data);
     res.status(201).json(project);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create project' });
+    sendStorageError(res, error, 'Failed to create project');
   }
 });
 
-// PUT /projects/:id - Update project
+// PUT /projects/:id - Update project (V4.3: honors If-Match like PUT /tasks/:id)
 router.put('/:id', async (req: Request, res: Response) => {
   try {
     const data: UpdateProjectDTO = req.body;
-    const project = await storage.updateProject(req.params.id, data);
+    const expectedRevision = parseIfMatch(req);
+    if (expectedRevision === null) {
+      return res.status(400).json({ error: 'If-Match must be a project revision, e.g. "3"' });
+    }
+    const project = await storage.updateProject(req.params.id, data, { expectedRevision });
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
+    setETag(res, project);
     res.json(project);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update project' });
+    sendStorageError(res, error, 'Failed to update project');
   }
 });
 
-// DELETE /projects/:id - Delete project
+// DELETE /projects/:id - Move project to the trash (V4.3)
+// Query: mode=refuse|cascade|reassign (default cascade), reassignTo=<project ID or name>
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
-    const deleted = await storage.deleteProject(req.params.id);
-    if (!deleted) {
+    const result = await storage.deleteProject(req.params.id, {
+      mode: req.query.mode as DeleteProjectMode | undefined,
+      reassignTo: req.query.reassignTo as string | undefined,
+      actor: getActor(req),
+    });
+    if (!result) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(result);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to delete project');
+  }
+});
+
+// POST /projects/:id/move - Move a project and its tasks to another workspace (V4.3)
+// Body: { targetWorkspaceId }
+router.post('/:id/move', async (req: Request, res: Response) => {
+  try {
+    const result = await storage.moveProject(req.params.id, req.body);
+    if (!result) {
       return res.status(404).json({ error: 'Project not found' });
     }
-    res.status(204).send();
+    res.json(result);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete project' });
+    sendStorageError(res, error, 'Failed to move project');
   }
 });
 
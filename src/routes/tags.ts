@@ -0,0 +1,55 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { sendStorageError } from './errors';
+
+const router = Router();
+
+// GET /tags - Tag registry of the current workspace with task counts (V4.3)
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getTags());
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to fetch tags');
+  }
+});
+
+// PUT /tags/:name - Create or update a tag: { description, color, scoreMultiplier } (null removes the multiplier)
+router.put('/:name', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.updateTag(req.params.name, req.body ?? {}));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to update tag');
+  }
+});
+
+// DELETE /tags/:name - Remove a tag from the registry (409 while tasks still carry it)
+router.delete('/:name', async (req: Request, res: Response) => {
+  try {
+    const deleted = await storage.deleteTag(req.params.name);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to delete tag');
+  }
+});
+
+export default router;
@@ -16,20 +16,31 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { storage } from '../storage/jsonStorage';
+import { storage } from '../storage';
 import { CreateTaskDTO, UpdateTaskDTO, Priority } from '../types/schema';
+import { parseIfMatch, setETag } from './etag';
+import { sendStorageError } from './errors';
+import { getActor } from './actor';
+import { parseTagFilter } from '../storage/tags';
 
 const router = Router();
 
 // GET /tasks - List active tasks (sorted by priority score in V2)
 // Use ?all=true to include completed tasks
+// V4.3: ?tree=true nests subtasks under their parents (with rollup progress);
+// the flat list leaves out parents whose subtasks are still open
+// V4.3: ?tags=bug,infra keeps tasks with any of the tags (&tagMatch=all: every tag)
 router.get('/', async (req: Request, res: Response) => {
   try {
     const includeCompleted = req.query.all === 'true';
-    const tasks = await storage.getTasks(includeCompleted);
+    const tagFilter = parseTagFilter(req.query.tags, req.query.tagMatch);
+    if (req.query.tree === 'true') {
+      return res.json(await storage.getTaskTree(includeCompleted, tagFilter));
+    }
+    const tasks = await storage.getTasks(includeCompleted, tagFilter);
     res.json(tasks);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch tasks' });
+    sendStorageError(res, error, 'Failed to fetch tasks');
   }
 });
 
@@ -67,6 +78,28 @@ router.get('/project/:projectId', async (req: Request, res: Response) => {
   }
 });
 
+// GET /tasks/series/:seriesId - Every instance of a recurring task, oldest first (V4.3)
+router.get('/series/:seriesId', async (req: Request, res: Response) => {
+  try {
+    const tasks = await storage.getSeries(req.params.seriesId);
+    if (tasks.length === 0) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+    res.json(tasks);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
+
+// GET /tasks/snoozed - Tasks hidden from the queue until they wake, soonest first (V4.3)
+router.get('/snoozed', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getSnoozedTasks());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch snoozed tasks' });
+  }
+});
+
 // GET /tasks/top - V2: Get top priority task
 router.get('/top', async (_req: Request, res: Response) => {
   try {
@@ -87,87 +120,159 @@ router.get('/:id', async (req: Request, res: Response) => {
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
+    setETag(res, task);
     res.json(task);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch task' });
   }
 });
 
+// GET /tasks/:id/history - Field-level change history with actors, newest first (V4.3)
+// Query: limit (most recent N)
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) || undefined : undefined;
+    const history = await storage.getTaskHistory(req.params.id, limit);
+    if (!history) {
+      return res.status(404).json({ error: 'No history for this task' });
+    }
+    res.json(history);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to fetch task history');
+  }
+});
+
 // POST /tasks - Create task
 router.post('/', async (req: Request, res: Response) => {
   try {
     const data: CreateTaskDTO = req.body;
-    if (!data.priority || !data.task || !data.project) {
-      return res.status(400).json({ error: 'priority, task, and project are required' });
+    if (!data.task || (!data.parentId && (!data.priority || !data.project))) {
+      return res.status(400).json({ error: 'priority, task, and project are required (subtasks inherit priority and project from parentId)' });
     }
-    if (!['P0', 'P1', 'P2', 'P3'].includes(data.priority)) {
+    if (data.priority && !['P0', 'P1', 'P2', 'P3'].includes(data.priority)) {
       return res.status(400).json({ error: 'Invalid priority. Use P0, P1, P2, or P3' });
     }
-    const task = await storage.createTask(data);
+    const task = await storage.createTask(data, { actor: getActor(req) });
+    setETag(res, task);
     res.status(201).json(task);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create task' });
+    sendStorageError(res, error, 'Failed to create task');
   }
 });
 
 // PUT /tasks/:id - Update task
+// V4.3: Send If-Match: "<revision>" to fail with 409 (and the current copy) on concurrent edits
 router.put('/:id', async (req: Request, res: Response) => {
   try {
     const data: UpdateTaskDTO = req.body;
     if (data.priority && !['P0', 'P1', 'P2', 'P3'].includes(data.priority)) {
       return res.status(400).json({ error: 'Invalid priority. Use P0, P1, P2, or P3' });
     }
-    const task = await storage.updateTask(req.params.id, data);
+    const expectedRevision = parseIfMatch(req);
+    if (expectedRevision === null) {
+      return res.status(400).json({ error: 'If-Match must be a task revision, e.g. "3"' });
+    }
+    const task = await storage.updateTask(req.params.id, data, { expectedRevision, actor: getActor(req) });
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
+    setETag(res, task);
     res.json(task);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to update task' });
+    sendStorageError(res, error, 'Failed to update task');
   }
 });
 
-// DELETE /tasks/:id - Delete task
+// DELETE /tasks/:id - Move task to the trash (V4.3)
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
-    const deleted = await storage.deleteTask(req.params.id);
+    const deleted = await storage.deleteTask(req.params.id, { actor: getActor(req) });
     if (!deleted) {
       return res.status(404).json({ error: 'Task not found' });
     }
     res.status(204).send();
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete task' });
+    sendStorageError(res, error, 'Failed to delete task');
   }
 });
 
 // POST /tasks/:id/context-switch - Log context switch (V3 prep)
+// V4.3: Recorded with the caller's actor (REST calls have no MCP session)
 router.post('/:id/context-switch', async (req: Request, res: Response) => {
   try {
     const task = await storage.getTask(req.params.id);
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
     }
-    await storage.logContextSwitch(req.params.id);
-    res.json({ message: 'Context switch logged', taskId: req.params.id });
+    const event = await storage.logContextSwitch(req.params.id, { toTaskId: req.body?.toTaskId, actor: getActor(req) });
+    res.json({ message: 'Context switch logged', taskId: req.params.id, event });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to log context switch' });
+    sendStorageError(res, error, 'Failed to log context switch');
   }
 });
 
 // POST /tasks/:id/complete - Complete task with outcome (V3 prep)
+// V4.3: 409 while subtasks are open, unless { "force": true }
 router.post('/:id/complete', async (req: Request, res: Response) => {
   try {
-    const { outcome } = req.body;
+    const { outcome, force } = req.body;
     if (!outcome || !['completed', 'cancelled', 'deferred'].includes(outcome)) {
       return res.status(400).json({ error: 'outcome must be completed, cancelled, or deferred' });
     }
-    const record = await storage.completeTask(req.params.id, outcome);
+    const record = await storage.completeTask(req.params.id, outcome, { actor: getActor(req), force: force === true });
     if (!record) {
       return res.status(404).json({ error: 'Task not found' });
     }
     res.json(record);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to complete task' });
+    sendStorageError(res, error, 'Failed to complete task');
+  }
+});
+
+// POST /tasks/:id/snooze - Hide a task from the queue until a time (V4.3)
+// Body: { until } (ISO date or timestamp in the future). Honors If-Match like PUT.
+router.post('/:id/snooze', async (req: Request, res: Response) => {
+  try {
+    const expectedRevision = parseIfMatch(req);
+    if (expectedRevision === null) {
+      return res.status(400).json({ error: 'If-Match must be a task revision, e.g. "3"' });
+    }
+    const task = await storage.snoozeTask(req.params.id, req.body?.until, { expectedRevision, actor: getActor(req) });
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    setETag(res, task);
+    res.json(task);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to snooze task');
+  }
+});
+
+// POST /tasks/:id/unsnooze - Put a snoozed task back in the queue now (V4.3)
+router.post('/:id/unsnooze', async (req: Request, res: Response) => {
+  try {
+    const task = await storage.unsnoozeTask(req.params.id, { actor: getActor(req) });
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    setETag(res, task);
+    res.json(task);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to unsnooze task');
+  }
+});
+
+// POST /tasks/:id/move - Move a task to another workspace (V4.3)
+// Body: { targetWorkspaceId }. IDs and timestamps are kept; cross-workspace dependencies come back as warnings.
+router.post('/:id/move', async (req: Request, res: Response) => {
+  try {
+    const result = await storage.moveTask(req.params.id, req.body);
+    if (!result) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    res.json(result);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to move task');
   }
 });
 
@@ -0,0 +1,82 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { sendStorageError } from './errors';
+import { getActor } from './actor';
+
+const router = Router();
+
+// GET /trash - Soft-deleted tasks and projects in the current workspace (V4.3)
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getTrash());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch trash' });
+  }
+});
+
+// PUT /trash/settings - { retentionDays } (0 = never purge automatically)
+router.put('/settings', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.setTrashRetention(req.body?.retentionDays));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to update trash settings');
+  }
+});
+
+// POST /trash/purge - Permanently delete { ids?, olderThanDays? } (no body = everything)
+router.post('/purge', async (req: Request, res: Response) => {
+  try {
+    const { ids, olderThanDays } = req.body ?? {};
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({ error: 'ids must be an array of trash entry IDs' });
+    }
+    res.json(await storage.purgeTrash({ ids, olderThanDays }));
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to purge trash');
+  }
+});
+
+// POST /trash/:id/restore - Restore by trash entry ID or task/project ID
+router.post('/:id/restore', async (req: Request, res: Response) => {
+  try {
+    const result = await storage.restoreFromTrash(req.params.id, { actor: getActor(req) });
+    if (!result) {
+      return res.status(404).json({ error: 'Not found in trash' });
+    }
+    res.json(result);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to restore from trash');
+  }
+});
+
+// DELETE /trash/:id - Permanently delete one trash entry
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const result = await storage.purgeTrash({ ids: [req.params.id] });
+    if (result.purged === 0) {
+      return res.status(404).json({ error: 'Not found in trash' });
+    }
+    res.json(result);
+  } catch (error) {
+    sendStorageError(res, error, 'Failed to purge trash entry');
+  }
+});
+
+export default router;
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { searchArchive, selectArchivable } from '../archive';
+import { StorageValidationError } from '../errors';
+import { InMemoryStorage } from '../memoryStorage';
+import { ArchivedTask, WeightedTask } from '../../types/schema';
+
+function task(id: string, status: WeightedTask['status'], updatedAt: string, extra: Partial<WeightedTask> = {}): WeightedTask {
+  return { id, task: `Task ${id}`, project: 'app', status, updatedAt, ...extra } as WeightedTask;
+}
+
+describe('task archive', () => {
+  const now = new Date('2026-05-31T00:00:00.000Z');
+
+  it('selects finished tasks past the threshold only', () => {
+    const tasks = [
+      task('old-done', 'complete', '2026-04-01T00:00:00.000Z'),
+      task('old-cancelled', 'cancelled' as WeightedTask['status'], '2026-04-01T00:00:00.000Z'),  // Legacy status
+      task('recent-done', 'complete', '2026-05-20T00:00:00.000Z'),
+      task('old-open', 'in_progress', '2026-01-01T00:00:00.000Z'),
+    ];
+
+    expect(selectArchivable(tasks, 30, now).map(t => t.id)).toEqual(['old-done', 'old-cancelled']);
+    expect(selectArchivable(tasks, 0, now)).toEqual([]);
+  });
+
+  it('searches, sorts newest first and paginates', () => {
+    const archive = [
+      task('A', 'complete', '2026-03-01', { notes: 'Invoice for Acme' }),
+      task('B', 'complete', '2026-03-03', { task: 'ACME onboarding' }),
+      task('C', 'complete', '2026-03-02', { project: 'ops' }),
+    ].map(t => ({ ...t, archivedAt: '2026-04-01' }) as ArchivedTask);
+
+    expect(searchArchive(archive, { q: 'acme' }).items.map(t => t.id)).toEqual(['B', 'A']);
+    expect(searchArchive(archive, { project: 'ops' }).total).toBe(1);
+    const page = searchArchive(archive, { page: 2, pageSize: 2 });
+    expect([page.total, page.items.map(t => t.id)]).toEqual([3, ['A']]);
+    expect(() => searchArchive(archive, { pageSize: 0 })).toThrow(StorageValidationError);
+  });
+});
+
+describe('task archive in storage', () => {
+  it('keeps archived task IDs from being reused', async () => {
+    const storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+    await storage.createTask({ id: 'T1', task: 'Ship', priority: 'P1', project: 'app' });
+    await storage.completeTask('T1', 'completed');
+    expect(await storage.archiveCompletedTasks(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toBe(1);
+
+    await expect(storage.createTask({ id: 'T1', task: 'Again', priority: 'P1', project: 'app' }))
+      .rejects.toThrow(StorageValidationError);
+    expect((await storage.getCompletedTasks()).map(t => t.id)).toEqual(['T1']);
+    expect((await storage.unarchiveTask('T1'))?.task).toBe('Ship');
+    storage.dispose();
+  });
+});
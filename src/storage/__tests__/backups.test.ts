@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BACKUP_DIR_ENV, BackupDataset, selectBackupsToPrune, validateBackupDataset } from '../backups';
+import { JsonStorage } from '../jsonStorage';
+import { getEmptyDatabase, getEmptyGlobalML } from '../baseStorage';
+import { BackupInfo, BackupTrigger, WeightedTask } from '../../types/schema';
+import { LATEST_SCHEMA_REVISION } from '../../migrations';
+
+function backup(id: string, createdAt: string, trigger: BackupTrigger = 'scheduled'): BackupInfo {
+  return { id, trigger, createdAt, backend: 'json', schemaRevision: 4, workspaces: 1, tasks: 0, path: id, sizeBytes: 0 };
+}
+
+function dataset(): BackupDataset {
+  const db = getEmptyDatabase();
+  db.tasks = [{ id: 'T1', task: 'Ship it', project: 'app', priority: 'P1', status: 'not_started' } as WeightedTask];
+  return {
+    metadata: { workspaces: [{ id: 'ws', name: 'Work', createdAt: '', updatedAt: '' }], currentWorkspaceId: 'ws' },
+    workspaces: new Map([['ws', db]]),
+    globalML: getEmptyGlobalML(),
+  };
+}
+
+describe('backups', () => {
+  it('rotates scheduled backups by hour, day and week, and never manual ones', () => {
+    const backups = [
+      backup('h1', '2026-03-04T10:30:00.000Z'),
+      backup('h2', '2026-03-04T10:00:00.000Z'),   // Same hour as h1
+      backup('h3', '2026-03-04T09:00:00.000Z'),
+      backup('d1', '2026-03-03T09:00:00.000Z'),
+      backup('d2', '2026-03-02T09:00:00.000Z'),   // Same week as h1, older than the 2 kept days
+      backup('w1', '2026-02-25T09:00:00.000Z'),
+      backup('m1', '2026-01-01T00:00:00.000Z', 'manual'),
+      backup('p1', '2026-03-04T08:00:00.000Z', 'pre-migration'),
+      backup('p2', '2026-03-01T08:00:00.000Z', 'pre-workspace-delete'),
+    ];
+
+    const pruned = selectBackupsToPrune(backups, { hourly: 2, daily: 2, weekly: 2, preOperation: 1 });
+    expect(pruned.map(b => b.id)).toEqual(['h2', 'd2', 'p2']);
+  });
+
+  it('accepts a well-formed dataset and names each problem otherwise', () => {
+    expect(validateBackupDataset(dataset())).toEqual([]);
+
+    const broken = dataset();
+    const db = broken.workspaces.get('ws')!;
+    db.tasks.push({ ...db.tasks[0], status: 'finished' as WeightedTask['status'] });
+    (db as { decisions: unknown }).decisions = null;
+    broken.workspaces.set('orphan', getEmptyDatabase());
+    broken.globalML.schemaRevision = 999;
+
+    expect(validateBackupDataset(broken)).toEqual([
+      'workspace orphan: data without a workspaces.json entry',
+      'workspace ws: decisions is not an array',
+      'workspace ws: duplicate task id T1',
+      'workspace ws: task T1 has invalid status finished',
+      `ML data: schema revision 999 is newer than this server supports (${LATEST_SCHEMA_REVISION})`,
+    ]);
+  });
+});
+
+describe('backups in storage', () => {
+  const dirs: string[] = [];
+  const instances: JsonStorage[] = [];
+
+  afterEach(() => {
+    delete process.env[BACKUP_DIR_ENV];
+    instances.splice(0).forEach(s => s.dispose());
+    dirs.splice(0).forEach(d => fs.rmSync(d, { recursive: true, force: true }));
+  });
+
+  it('keeps backups and the ML archive outside a lost data directory', async () => {
+    const [dataDir, backupDir] = ['data', 'backups'].map(name => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), `pf-${name}-`));
+      dirs.push(dir);
+      return dir;
+    });
+    process.env[BACKUP_DIR_ENV] = backupDir;
+
+    const storage = new JsonStorage(dataDir);
+    instances.push(storage);
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+    const task = await storage.createTask({ task: 'Survive', priority: 'P1', project: 'app' });
+    fs.writeFileSync(path.join(dataDir, 'ml-archive.jsonl'), '{"id":"E1"}\n');
+    const backup = await storage.createBackup('manual');
+    expect(path.dirname(backup.path)).toBe(backupDir);
+    expect(fs.existsSync(path.join(backup.path, 'ml-archive.jsonl'))).toBe(true);
+
+    storage.dispose();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    const recovered = new JsonStorage(dataDir);
+    instances.push(recovered);
+    await recovered.restoreBackup(backup.id);
+    expect((await recovered.getTask(task.id))?.task).toBe('Survive');
+    expect(fs.readFileSync(path.join(dataDir, 'ml-archive.jsonl'), 'utf-8')).toBe('{"id":"E1"}\n');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StorageInterface } from '../interface';
+import { RevisionConflictError } from '../errors';
+import { CreateTaskDTO, Priority } from '../../types/schema';
+
+/**
+ * How the conformance suite gets at a backend
+ */
+export interface ConformanceBackend<S extends StorageInterface = StorageInterface> {
+  create(): S;                     // A new, empty store
+  reopen?(storage: S): S;          // A second instance over the same persisted data (a restart)
+  dispose?(storage: S): void;
+}
+
+/**
+ * Behaviour every StorageInterface backend must share. Call it from a test
+ * file with the backend's factory; new backends should pass it unchanged.
+ */
+export function describeStorageConformance<S extends StorageInterface>(name: string, backend: ConformanceBackend<S>): void {
+  describe(`${name} storage conformance`, () => {
+    let storage: S;
+
+    const task = (text: string, priority: Priority, extra: Partial<CreateTaskDTO> = {}) =>
+      storage.createTask({ task: text, priority, project: 'app', ...extra });
+
+    beforeEach(async () => {
+      storage = backend.create();
+      const workspace = await storage.createWorkspace({ name: 'Main' });
+      await storage.switchWorkspace(workspace.id);
+      await storage.createProject({ name: 'app', path: '/app', primaryFocus: 'Conformance' });
+    });
+
+    afterEach(() => {
+      backend.dispose?.(storage);
+    });
+
+    it('creates, updates and deletes projects with increasing revisions', async () => {
+      const [project] = await storage.getProjects();
+      expect(project.revision).toBe(1);
+
+      const updated = await storage.updateProject(project.id, { primaryFocus: 'Changed' });
+      expect(updated).toMatchObject({ primaryFocus: 'Changed', revision: 2 });
+      expect(await storage.getProject(project.id)).toMatchObject({ primaryFocus: 'Changed' });
+
+      const open = await task('Still open', 'P1');
+      expect(await storage.deleteProject(project.id)).toMatchObject({ mode: 'cascade', trashedTaskIds: [open.id] });
+      expect(await storage.getProjects()).toEqual([]);
+      expect(await storage.getTask(open.id)).toBeNull();
+      expect(await storage.updateProject('missing', { name: 'x' })).toBeNull();
+    });
+
+    it('orders the queue by priority score and serves the top task', async () => {
+      await task('Later', 'P2');
+      const urgent = await task('Urgent', 'P0');
+      await task('Soon', 'P1');
+
+      expect((await storage.getTasks()).map(t => t.priority)).toEqual(['P0', 'P1', 'P2']);
+      expect((await storage.getTopPriority())?.id).toBe(urgent.id);
+      expect((await storage.getTasksByPriority('P1')).map(t => t.task)).toEqual(['Soon']);
+
+      await storage.updateTask(urgent.id, { priority: 'P3' });
+      expect((await storage.getTasks()).map(t => t.task)).toEqual(['Soon', 'Later', 'Urgent']);
+    });
+
+    it('rejects writes against a stale revision', async () => {
+      const created = await task('Edit me', 'P1');
+      await storage.updateTask(created.id, { notes: 'first' }, { expectedRevision: created.revision });
+
+      await expect(
+        storage.updateTask(created.id, { notes: 'second' }, { expectedRevision: created.revision })
+      ).rejects.toBeInstanceOf(RevisionConflictError);
+      expect((await storage.getTask(created.id))?.notes).toBe('first');
+    });
+
+    it('records completions and keeps finished tasks out of the live queue', async () => {
+      const done = await task('Ship', 'P1');
+      await task('Next', 'P2');
+
+      const record = await storage.completeTask(done.id, 'completed');
+      expect(record).toMatchObject({ taskId: done.id, outcome: 'completed' });
+      expect((await storage.getTasks()).map(t => t.task)).toEqual(['Next']);
+      expect((await storage.getCompletedTasks()).map(t => t.id)).toEqual([done.id]);
+      expect((await storage.getCompletionRecords()).map(r => r.taskId)).toEqual([done.id]);
+      expect(await storage.completeTask('missing', 'completed')).toBeNull();
+    });
+
+    it('logs selections, priority changes and drags, and trains the online learner', async () => {
+      const first = await task('First', 'P0');
+      const second = await task('Second', 'P1');
+      await task('Third', 'P2');
+
+      const selection = await storage.logTaskSelection(second.id);
+      expect(selection).toMatchObject({ selectedTaskId: second.id, topTaskId: first.id, wasTopSelected: false });
+
+      await storage.updateTask(second.id, { priority: 'P0' });
+      expect((await storage.getPriorityChangeEvents()).map(e => e.taskId)).toEqual([second.id]);
+
+      const queue = await storage.getTasks();
+      const last = queue[queue.length - 1];
+      const drag = await storage.logDragReorder({ taskId: last.id, fromRank: queue.length - 1, toRank: 0 });
+      expect(drag.implicitPreferences.length).toBe(queue.length - 1);
+      expect(await storage.getDragReorderEvents()).toHaveLength(1);
+      expect((await storage.getOnlineLearnerState()).totalUpdates).toBe(1);
+    });
+
+    it('keeps workspaces apart while sharing the ML data', async () => {
+      const shipped = await task('Ship', 'P1');
+      await storage.completeTask(shipped.id, 'completed');
+      const main = await storage.getCurrentWorkspaceId();
+
+      const other = await storage.createWorkspace({ name: 'Other' });
+      await storage.switchWorkspace(other.id);
+      expect(await storage.getTasks(true)).toEqual([]);
+      expect(await storage.getProjects()).toEqual([]);
+      expect(await storage.getCompletionRecords()).toHaveLength(1);
+
+      await storage.switchWorkspace(main!);
+      expect((await storage.getTasks(true)).map(t => t.id)).toEqual([shipped.id]);
+      expect((await storage.getWorkspaces()).map(w => w.name)).toEqual(['Main', 'Other']);
+    });
+
+    it('journals changes and restores deleted tasks from the trash', async () => {
+      const created = await task('Keep me', 'P1');
+      await storage.deleteTask(created.id);
+      expect(await storage.getTask(created.id)).toBeNull();
+
+      const journal = await storage.getJournal({ entityId: created.id });
+      expect(journal.map(e => e.operation)).toEqual(['create', 'delete']);
+
+      await storage.restoreFromTrash(created.id);
+      expect((await storage.getTask(created.id))?.task).toBe('Keep me');
+    });
+
+    it.runIf(backend.reopen !== undefined)('persists everything across a reopen', async () => {
+      const created = await task('Durable', 'P0');
+      await storage.completeTask((await task('Done', 'P1')).id, 'completed');
+      const workspaceId = await storage.getCurrentWorkspaceId();
+
+      const reopened = backend.reopen!(storage);
+      expect(await reopened.getCurrentWorkspaceId()).toBe(workspaceId);
+      expect((await reopened.getTasks()).map(t => t.id)).toEqual([created.id]);
+      expect(await reopened.getCompletionRecords()).toHaveLength(1);
+      expect(await reopened.getJournal()).not.toHaveLength(0);
+    });
+
+    it.runIf(backend.reopen !== undefined)('persists ML events changed in place across a reopen', async () => {
+      const moved = await task('Moves', 'P1');
+      await storage.logTaskSelection(moved.id);
+      const target = await storage.createWorkspace({ name: 'Target' });
+      expect((await storage.moveTask(moved.id, { targetWorkspaceId: target.id }))?.mlEventsRetagged).toBe(1);
+
+      const reopened = backend.reopen!(storage);
+      expect((await reopened.getTaskSelectionEvents()).map(e => e.workspaceId)).toEqual([target.id]);
+    });
+
+    it.runIf(backend.reopen !== undefined)('keeps context switch counts across a reopen', async () => {
+      const switched = await task('Interrupted', 'P1');
+      await storage.logContextSwitch(switched.id, { sessionId: 'session-1', actor: 'alice' });
+      await storage.logContextSwitch(switched.id);
+
+      const reopened = backend.reopen!(storage);
+      expect((await reopened.getContextSwitchEvents(switched.id))[0]).toMatchObject({ sessionId: 'session-1', actor: 'alice' });
+      expect((await reopened.completeTask(switched.id, 'completed'))?.contextSwitchCount).toBe(2);
+    });
+  });
+}
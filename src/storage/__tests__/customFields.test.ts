@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { applyCustomFields, customFieldFeatures, customFieldsJsonSchema, validateFieldDefinition } from '../customFields';
+import { InMemoryStorage } from '../memoryStorage';
+import { StorageValidationError } from '../errors';
+import { CustomFieldDefinition } from '../../types/schema';
+
+const now = '2026-01-01T00:00:00.000Z';
+const schema: CustomFieldDefinition[] = [
+  { key: 'billable', type: 'boolean', required: true, createdAt: now, updatedAt: now },
+  { key: 'ticket', type: 'url', createdAt: now, updatedAt: now },
+  { key: 'tier', type: 'enum', options: ['gold', 'silver'], createdAt: now, updatedAt: now },
+  { key: 'estimate', type: 'number', createdAt: now, updatedAt: now },
+];
+
+describe('custom field helpers', () => {
+  it('validates definitions', () => {
+    expect(validateFieldDefinition('tier', { type: 'enum', options: ['a', 'a', 'b'] })).toEqual({ key: 'tier', type: 'enum', options: ['a', 'b'] });
+    expect(() => validateFieldDefinition('1st', { type: 'string' })).toThrow(StorageValidationError);
+    expect(() => validateFieldDefinition('tier', { type: 'enum' })).toThrow(/options/);
+    expect(() => validateFieldDefinition('due', { type: 'time' })).toThrow(/type/);
+  });
+
+  it('checks values, merges changes and enforces required fields', () => {
+    const values = applyCustomFields(schema, undefined, { billable: true, ticket: 'https://jira.example.com/T-1' }, { creating: true });
+    expect(values).toEqual({ billable: true, ticket: 'https://jira.example.com/T-1' });
+    expect(applyCustomFields(schema, values, { ticket: null, estimate: 3 })).toEqual({ billable: true, estimate: 3 });
+
+    expect(() => applyCustomFields(schema, undefined, {}, { creating: true })).toThrow(/billable/);
+    expect(() => applyCustomFields(schema, values, { billable: null })).toThrow(/required/);
+    expect(() => applyCustomFields(schema, values, { ticket: 'javascript:alert(1)' })).toThrow(/URL/);
+    expect(() => applyCustomFields(schema, values, { tier: 'bronze' })).toThrow(/gold, silver/);
+    expect(() => applyCustomFields(schema, values, { owner: 'sam' })).toThrow(/Unknown/);
+  });
+
+  it('encodes values as ML features and describes them as JSON schema', () => {
+    expect(customFieldFeatures(schema, { billable: false, tier: 'silver' })).toEqual({ billable: 0, ticket: 0, tier: 1, estimate: null });
+    const json = customFieldsJsonSchema(schema) as { properties: Record<string, unknown>; required: string[] };
+    expect(json.required).toEqual(['billable']);
+    expect(json.properties.tier).toEqual({ type: 'string', enum: ['gold', 'silver'] });
+    expect((customFieldsJsonSchema(schema, true) as { properties: Record<string, { type: unknown }> }).properties.estimate.type).toEqual(['number', 'null']);
+  });
+});
+
+describe('custom fields in storage', () => {
+  let storage: InMemoryStorage;
+
+  afterEach(() => storage.dispose());
+
+  it('validates task values against the workspace schema and exports them as features', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Client' })).id);
+    await storage.defineCustomField('billable', { type: 'boolean' });
+    await storage.defineCustomField('tier', { type: 'enum', options: ['gold', 'silver'] });
+
+    const task = await storage.createTask({ task: 'Invoice', priority: 'P1', project: 'acme', customFields: { billable: true, tier: 'gold' } });
+    await expect(storage.createTask({ task: 'Bad', priority: 'P1', project: 'acme', customFields: { billable: 'yes' } }))
+      .rejects.toThrow(StorageValidationError);
+    expect((await storage.updateTask(task.id, { customFields: { tier: null } }))?.customFields).toEqual({ billable: true });
+
+    const exported = await storage.exportTrainingData();
+    expect(exported.customFieldSchema.map(f => f.key)).toEqual(['billable', 'tier']);
+    expect(exported.mlReady.tasks[0].customFields).toEqual({ billable: 1, tier: null });
+
+    await storage.updateTask(task.id, { customFields: { tier: 'silver' } });
+    await expect(storage.defineCustomField('tier', { type: 'enum', options: ['gold'] })).rejects.toThrow(/rejects/);
+    expect(await storage.deleteCustomField('tier')).toBe(true);
+    expect((await storage.getTask(task.id))?.customFields).toEqual({ billable: true });
+    expect(await storage.deleteCustomField('tier')).toBe(false);
+  });
+});
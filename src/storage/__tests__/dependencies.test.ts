@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { findCycleThrough, findCycles } from '../dependencies';
+import { InMemoryStorage } from '../memoryStorage';
+import { DependencyCycleError } from '../errors';
+
+describe('dependency cycle helpers', () => {
+  it('follows both dependencies and blocking links', () => {
+    const tasks = [
+      { id: 'a', dependencies: ['b'] },
+      { id: 'b', dependencies: ['missing'] },
+      { id: 'c', blocking: 'b' },
+    ];
+    expect(findCycleThrough('a', tasks)).toBeNull();
+
+    const cycle = findCycleThrough('c', [...tasks.slice(0, 2), { id: 'c', blocking: 'b', dependencies: ['a'] }]);
+    expect(cycle?.path).toEqual(['c', 'a', 'b', 'c']);
+    expect(cycle?.links.map(l => l.via)).toEqual(['dependencies', 'dependencies', 'blocking']);
+    expect(findCycleThrough('x', [{ id: 'x', dependencies: ['x'] }])?.path).toEqual(['x', 'x']);
+  });
+
+  it('reports each existing cycle once, starting at its smallest ID', () => {
+    const cycles = findCycles([
+      { id: 'b', dependencies: ['a'] },
+      { id: 'a', dependencies: ['b'] },
+      { id: 'z', dependencies: ['y'] },
+      { id: 'y' },
+      { id: 'x', blocking: 'y', dependencies: ['z', 'a'] },
+    ]);
+    expect(cycles.map(c => c.path)).toEqual([['a', 'b', 'a'], ['x', 'z', 'y', 'x']]);
+  });
+});
+
+describe('dependency cycles in storage', () => {
+  let storage: InMemoryStorage;
+
+  afterEach(() => storage.dispose());
+
+  it('rejects creates and updates that would close a cycle', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    const schema = await storage.createTask({ id: 'schema', task: 'Design schema', priority: 'P1', project: 'app' });
+    await storage.createTask({ id: 'api', task: 'Build API', priority: 'P1', project: 'app', dependencies: [schema.id] });
+
+    const error = await storage.updateTask('schema', { blocking: 'api', dependencies: ['api'] }).catch(e => e);
+    expect(error).toBeInstanceOf(DependencyCycleError);
+    expect(error.message).toContain('schema → api → schema');
+    await expect(
+      storage.createTask({ id: 'ui', task: 'Build UI', priority: 'P1', project: 'app', blocking: 'schema', dependencies: ['api'] })
+    ).rejects.toThrow(DependencyCycleError);
+
+    expect((await storage.getTask('schema'))?.revision).toBe(1);
+    expect(await storage.updateTask('schema', { blocking: 'api' })).toMatchObject({ blocking: 'api' });
+    expect((await storage.getDependencyCycles()).cycles).toEqual([]);
+  });
+});
+
+describe('unblocking dependents on completion', () => {
+  let storage: InMemoryStorage;
+
+  afterEach(() => storage.dispose());
+
+  it('moves dependents to not_started once every prerequisite is finished', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    await storage.createTask({ id: 'schema', task: 'Design schema', priority: 'P1', project: 'app' });
+    await storage.createTask({ id: 'auth', task: 'Set up auth', priority: 'P1', project: 'app', blocking: 'api' });
+    await storage.createTask({ id: 'api', task: 'Build API', priority: 'P1', project: 'app', status: 'blocked', dependencies: ['schema'] });
+
+    expect((await storage.completeTask('schema', 'completed', { actor: 'alice' }))?.unblockedTaskIds).toBeUndefined();
+    expect((await storage.getTask('api'))?.status).toBe('blocked');
+
+    const record = await storage.completeTask('auth', 'completed', { actor: 'alice' });
+    expect(record?.unblockedTaskIds).toEqual(['api']);
+    expect((await storage.getCompletionRecords()).find(r => r.id === record?.id)).not.toHaveProperty('unblockedTaskIds');
+    expect(await storage.getTask('api')).toMatchObject({ status: 'not_started', unblockedBy: 'auth' });
+    expect((await storage.getTaskHistory('api'))?.[0]).toMatchObject({ actor: 'alice', source: 'auto_unblock' });
+
+    await storage.undo();
+    const undone = await storage.getTask('api');
+    expect(undone?.status).toBe('blocked');
+    expect(undone?.unblockedBy).toBeUndefined();
+  });
+
+  it('leaves dependents blocked when a prerequisite is cancelled or deferred', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    await storage.createTask({ id: 'schema', task: 'Design schema', priority: 'P1', project: 'app' });
+    await storage.createTask({ id: 'auth', task: 'Set up auth', priority: 'P1', project: 'app' });
+    await storage.createTask({ id: 'api', task: 'Build API', priority: 'P1', project: 'app', status: 'blocked', dependencies: ['schema', 'auth'] });
+
+    expect((await storage.completeTask('schema', 'cancelled'))?.unblockedTaskIds).toBeUndefined();
+    expect((await storage.getTask('api'))?.status).toBe('blocked');
+    expect((await storage.completeTask('auth', 'completed'))?.unblockedTaskIds).toBeUndefined();
+    expect((await storage.getTask('api'))?.status).toBe('blocked');
+  });
+
+  it('can be turned off per workspace', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+    expect(await storage.setAutoUnblock(false)).toEqual({ autoUnblock: false });
+    await expect(storage.setAutoUnblock('no' as unknown as boolean)).rejects.toThrow(/autoUnblock/);
+
+    await storage.createTask({ id: 'schema', task: 'Design schema', priority: 'P1', project: 'app' });
+    await storage.createTask({ id: 'api', task: 'Build API', priority: 'P1', project: 'app', status: 'blocked', dependencies: ['schema'] });
+    await storage.completeTask('schema', 'completed');
+    expect((await storage.getTask('api'))?.status).toBe('blocked');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DataFileCodec,
+  decryptText,
+  encryptText,
+  generateEncryptionKey,
+  isEncrypted,
+  parseEncryptionKey,
+  transcodeDataset,
+} from '../encryption';
+import { EncryptionKeyError } from '../errors';
+
+describe('encryption at rest', () => {
+  const key = parseEncryptionKey(generateEncryptionKey());
+  const otherKey = parseEncryptionKey(generateEncryptionKey());
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pf-crypt-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips through an envelope and passes plaintext through', () => {
+    const sealed = encryptText('{"client":"Acme"}', key);
+    expect(isEncrypted(sealed)).toBe(true);
+    expect(sealed).not.toContain('Acme');
+    expect(decryptText(sealed, key, 'file')).toBe('{"client":"Acme"}');
+    expect(decryptText('{"plain":true}', null, 'file')).toBe('{"plain":true}');
+  });
+
+  it('names the problem when the key is missing or wrong', () => {
+    const sealed = encryptText('{}', key);
+    expect(() => decryptText(sealed, null, 'ml-training.json')).toThrow(EncryptionKeyError);
+    expect(() => decryptText(sealed, otherKey, 'ml-training.json')).toThrow(/encrypted with key/);
+    expect(() => parseEncryptionKey('too-short')).toThrow(EncryptionKeyError);
+  });
+
+  it('encrypts, rotates and decrypts a dataset without touching it on a wrong key', () => {
+    const journal = path.join(dir, 'workspaces', 'ws', 'journal.jsonl');
+    fs.mkdirSync(path.dirname(journal), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'workspaces', 'ws', 'progress.json'), '{"tasks":[]}');
+    fs.writeFileSync(journal, '{"id":"j1"}\n{"id":"j2"}\n');
+
+    transcodeDataset({ dataDir: dir, from: key, to: key });
+    const codec = new DataFileCodec(key);
+    expect(codec.decodeLines(fs.readFileSync(journal, 'utf-8'), journal)).toEqual(['{"id":"j1"}', '{"id":"j2"}']);
+
+    expect(() => transcodeDataset({ dataDir: dir, from: otherKey, to: null })).toThrow(EncryptionKeyError);
+
+    transcodeDataset({ dataDir: dir, from: key, to: otherKey });
+    const out = path.join(dir, 'export');
+    transcodeDataset({ dataDir: dir, from: otherKey, to: null, outDir: out });
+    expect(fs.readFileSync(path.join(out, 'workspaces', 'ws', 'progress.json'), 'utf-8')).toBe('{"tasks":[]}');
+    expect(fs.readFileSync(path.join(out, 'workspaces', 'ws', 'journal.jsonl'), 'utf-8')).toBe('{"id":"j1"}\n{"id":"j2"}\n');
+  });
+});
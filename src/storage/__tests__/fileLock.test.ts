@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getLockFile, withFileLock, withFileLockSync } from '../fileLock';
+import { StorageLockedError } from '../errors';
+
+describe('advisory file locks', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pf-lock-'));
+    file = path.join(dir, 'progress.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('holds the lock file only while the callback runs', async () => {
+    const seen = await withFileLock(file, () => fs.existsSync(getLockFile(file)));
+    expect(seen).toBe(true);
+    expect(fs.existsSync(getLockFile(file))).toBe(false);
+  });
+
+  it('serializes writers in the same process', async () => {
+    const order: string[] = [];
+    await Promise.all([
+      withFileLock(file, async () => {
+        order.push('a:start');
+        await new Promise(resolve => setTimeout(resolve, 30));
+        order.push('a:end');
+      }),
+      withFileLock(file, () => { order.push('b'); }),
+    ]);
+    expect(order).toEqual(['a:start', 'a:end', 'b']);
+  });
+
+  it('reports the owner of a live lock and takes over a stale one', () => {
+    const owner = { pid: process.ppid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+    fs.writeFileSync(getLockFile(file), JSON.stringify(owner));
+    expect(() => withFileLockSync(file, () => 'x', { timeoutMs: 100 })).toThrow(StorageLockedError);
+
+    fs.writeFileSync(getLockFile(file), JSON.stringify({ ...owner, acquiredAt: '2020-01-01T00:00:00.000Z' }));
+    expect(withFileLockSync(file, () => 'x', { timeoutMs: 100 })).toBe('x');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { createJournalEntry, diffFields, filterJournal, rollbackTo } from '../journal';
+import { InMemoryStorage } from '../memoryStorage';
+import { ExternalModificationError } from '../errors';
+import { JournalEntry, ProgressDatabase, WeightedTask } from '../../types/schema';
+
+/**
+ * Rejects workspace writes on demand, as the JSON backend does after an external edit
+ */
+class ConflictingStorage extends InMemoryStorage {
+  conflict = false;
+
+  protected async writeWorkspaceDb(workspaceId: string, db: ProgressDatabase): Promise<void> {
+    if (this.conflict) {
+      this.conflict = false;
+      this.reloadWorkspace();
+      throw new ExternalModificationError('progress.json');
+    }
+    await super.writeWorkspaceDb(workspaceId, db);
+  }
+}
+
+function task(id: string, fields: Partial<WeightedTask> = {}): WeightedTask {
+  return { id, task: id, project: 'p', priority: 'P1', status: 'not_started', ...fields } as WeightedTask;
+}
+
+function emptyDb(tasks: WeightedTask[]): ProgressDatabase {
+  return {
+    version: 'v4',
+    lastUpdated: '',
+    projects: [],
+    tasks,
+    dataGaps: [],
+    decisions: [],
+    heuristicWeights: {} as ProgressDatabase['heuristicWeights'],
+  };
+}
+
+function at(entry: JournalEntry | null, timestamp: string): JournalEntry {
+  return { ...entry!, timestamp };
+}
+
+describe('operation journal', () => {
+  it('records field-level changes and ignores derived score fields', () => {
+    const changes = diffFields(
+      'task',
+      task('T1', { notes: 'a', priorityScore: 1 }),
+      task('T1', { notes: 'b', priorityScore: 2 })
+    );
+    expect(changes).toEqual([{ field: 'notes', before: 'a', after: 'b' }]);
+    expect(createJournalEntry('task', 'update', task('T1'), task('T1'), null)).toBeNull();
+  });
+
+  it('rolls creates, updates and deletes back to a point in time', () => {
+    const original = task('T1', { notes: 'original' });
+    const entries = [
+      at(createJournalEntry('task', 'update', original, task('T1', { notes: 'clobbered', owner: 'x' } as Partial<WeightedTask>), null), '2026-01-02T00:00:00.000Z'),
+      at(createJournalEntry('task', 'delete', task('T2'), null, null), '2026-01-03T00:00:00.000Z'),
+      at(createJournalEntry('task', 'create', null, task('T3'), null), '2026-01-04T00:00:00.000Z'),
+    ];
+    const current = emptyDb([task('T1', { notes: 'clobbered', owner: 'x' } as Partial<WeightedTask>), task('T3')]);
+
+    const rebuilt = rollbackTo(current, entries, '2026-01-01T00:00:00.000Z');
+    expect(rebuilt.tasks.map(t => t.id).sort()).toEqual(['T1', 'T2']);
+    expect(rebuilt.tasks.find(t => t.id === 'T1')).toEqual(original);
+    // Current state is untouched
+    expect(current.tasks).toHaveLength(2);
+
+    const partial = rollbackTo(current, entries, '2026-01-03T12:00:00.000Z');
+    expect(partial.tasks.map(t => t.id).sort()).toEqual(['T1']);
+  });
+
+  it('filters by entity, time range and limit', () => {
+    const entries = [
+      at(createJournalEntry('task', 'create', null, task('T1'), null), '2026-01-01T00:00:00.000Z'),
+      at(createJournalEntry('project', 'create', null, { id: 'P1' }, null), '2026-01-02T00:00:00.000Z'),
+      at(createJournalEntry('task', 'create', null, task('T2'), null), '2026-01-03T00:00:00.000Z'),
+    ];
+    expect(filterJournal(entries, { entity: 'task' }).map(e => e.entityId)).toEqual(['T1', 'T2']);
+    expect(filterJournal(entries, { since: '2026-01-02T00:00:00.000Z' })).toHaveLength(2);
+    expect(filterJournal(entries, { limit: 1 })[0].entityId).toBe('T2');
+  });
+});
+
+describe('operation journal in storage', () => {
+  it('only records changes whose write succeeded', async () => {
+    const storage = new ConflictingStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+    const task = await storage.createTask({ task: 'Keep', priority: 'P1', project: 'app' });
+
+    storage.conflict = true;
+    await expect(storage.updateTask(task.id, { notes: 'lost' })).rejects.toBeInstanceOf(ExternalModificationError);
+
+    expect((await storage.getJournal({ entityId: task.id })).map(e => e.operation)).toEqual(['create']);
+    expect((await storage.getUndoHistory()).undo.map(e => e.action)).toEqual(['createTask']);
+    expect((await storage.getTask(task.id))?.notes).toBeUndefined();
+    storage.dispose();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonStorage } from '../jsonStorage';
+import { EncryptionKeyError, ExternalModificationError } from '../errors';
+import { encryptText, generateEncryptionKey, parseEncryptionKey } from '../encryption';
+import { ProgressDatabase } from '../../types/schema';
+import { describeStorageConformance } from './conformance';
+
+const dirs = new Map<JsonStorage, string>();
+const reopened = new Map<string, JsonStorage[]>();
+
+describeStorageConformance('JsonStorage', {
+  create: () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pf-json-'));
+    const storage = new JsonStorage(dir);
+    dirs.set(storage, dir);
+    return storage;
+  },
+  reopen: storage => {
+    const dir = dirs.get(storage)!;
+    const instance = new JsonStorage(dir);
+    reopened.set(dir, [...(reopened.get(dir) ?? []), instance]);
+    return instance;
+  },
+  dispose: storage => {
+    const dir = dirs.get(storage)!;
+    for (const instance of [storage, ...(reopened.get(dir) ?? [])]) {
+      instance.dispose();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+    dirs.delete(storage);
+    reopened.delete(dir);
+  },
+});
+
+describe('JsonStorage external edits', () => {
+  let dir: string;
+  let storage: JsonStorage;
+
+  afterEach(() => {
+    storage.dispose();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('still detects an external edit after a snapshot read', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pf-json-'));
+    storage = new JsonStorage(dir);
+    const workspace = await storage.createWorkspace({ name: 'Main' });
+    await storage.switchWorkspace(workspace.id);
+    const task = await storage.createTask({ task: 'Mine', priority: 'P1', project: 'app' });
+
+    const dbFile = path.join(dir, 'workspaces', workspace.id, 'progress.json');
+    const onDisk = JSON.parse(fs.readFileSync(dbFile, 'utf-8')) as ProgressDatabase;
+    onDisk.tasks.push({ ...onDisk.tasks[0], id: 'external', task: 'Theirs' });
+    fs.writeFileSync(dbFile, JSON.stringify(onDisk, null, 2));
+
+    await storage.getMigrationStatus();
+    await expect(storage.updateTask(task.id, { notes: 'mine' })).rejects.toBeInstanceOf(ExternalModificationError);
+    const after = JSON.parse(fs.readFileSync(dbFile, 'utf-8')) as ProgressDatabase;
+    expect(after.tasks.map(t => t.id)).toContain('external');
+  });
+});
+
+describe('JsonStorage encrypted files without the key', () => {
+  let dir: string;
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(['workspaces.json', 'ml-training.json'])('fails on %s instead of replacing it with defaults', file => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pf-json-'));
+    const sealed = encryptText(JSON.stringify({ workspaces: [], currentWorkspaceId: null }), parseEncryptionKey(generateEncryptionKey()));
+    fs.writeFileSync(path.join(dir, file), sealed);
+
+    expect(() => new JsonStorage(dir)).toThrow(EncryptionKeyError);
+    expect(fs.readFileSync(path.join(dir, file), 'utf-8')).toBe(sealed);
+  });
+});
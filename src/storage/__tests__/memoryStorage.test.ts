@@ -0,0 +1,8 @@
+import { InMemoryStorage } from '../memoryStorage';
+import { describeStorageConformance } from './conformance';
+
+describeStorageConformance('InMemoryStorage', {
+  create: () => new InMemoryStorage(),
+  reopen: storage => new InMemoryStorage({ store: storage.store }),
+  dispose: storage => storage.dispose(),
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { nextDeadline, validateRecurrence } from '../recurrence';
+import { InMemoryStorage } from '../memoryStorage';
+import { StorageValidationError } from '../errors';
+
+describe('recurrence rules', () => {
+  const completedAt = new Date('2026-03-04T10:00:00.000Z');  // A Wednesday
+
+  it('steps calendar schedules from the deadline past the completion time', () => {
+    expect(nextDeadline({ frequency: 'daily' }, '2026-03-04', completedAt)).toBe('2026-03-05');
+    expect(nextDeadline({ frequency: 'weekly', interval: 2 }, '2026-02-02', completedAt)).toBe('2026-03-16');
+    expect(nextDeadline({ frequency: 'monthly' }, '2026-01-31', completedAt)).toBe('2026-03-31');
+    expect(nextDeadline({ frequency: 'monthly' }, '2026-01-31T09:00:00.000Z', new Date('2026-02-01'))).toBe('2026-02-28T09:00:00.000Z');
+  });
+
+  it('picks the next listed weekday, skipping weeks for intervals', () => {
+    expect(nextDeadline({ frequency: 'weekly', weekdays: ['MO', 'TH'] }, '2026-03-02', completedAt)).toBe('2026-03-05');
+    expect(nextDeadline({ frequency: 'weekly', weekdays: ['MO', 'TU'], interval: 2 }, '2026-03-03', completedAt)).toBe('2026-03-16');
+  });
+
+  it('counts after_completion from the completion and stops after until', () => {
+    expect(nextDeadline({ frequency: 'after_completion', interval: 3 }, '2026-01-01', completedAt)).toBe('2026-03-07');
+    expect(nextDeadline({ frequency: 'daily', until: '2026-03-04' }, '2026-03-04', completedAt)).toBeNull();
+  });
+
+  it('validates and normalizes rules', () => {
+    expect(validateRecurrence({ frequency: 'weekly', weekdays: ['FR', 'MO', 'FR'] })).toEqual({ frequency: 'weekly', weekdays: ['MO', 'FR'] });
+    expect(() => validateRecurrence({ frequency: 'hourly' })).toThrow(StorageValidationError);
+    expect(() => validateRecurrence({ frequency: 'daily', interval: 0 })).toThrow(/interval/);
+    expect(() => validateRecurrence({ frequency: 'daily', weekdays: ['MO'] })).toThrow(/weekly/);
+  });
+});
+
+describe('recurring tasks in storage', () => {
+  let storage: InMemoryStorage;
+
+  afterEach(() => storage.dispose());
+
+  it('creates the next instance on completion and takes it back on undo', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    const review = await storage.createTask({
+      task: 'Weekly review', priority: 'P1', project: 'ops', deadline: '2020-01-06',
+      recurrence: { frequency: 'weekly' },
+    });
+    expect(review.seriesId).toBeDefined();
+
+    const record = await storage.completeTask(review.id, 'completed');
+    const next = await storage.getTask(record!.nextInstanceId!);
+    expect(record!.seriesId).toBe(review.seriesId);
+    expect(next).toMatchObject({ task: 'Weekly review', status: 'not_started', seriesId: review.seriesId, recurrence: { frequency: 'weekly' } });
+    expect(new Date(next!.deadline!).getUTCDay()).toBe(1);  // Still a Monday
+    expect(next!.deadline! > record!.completedAt.slice(0, 10)).toBe(true);
+    expect((await storage.getSeries(review.seriesId!)).map(t => t.id)).toEqual([review.id, next!.id]);
+
+    await storage.undo();
+    expect(await storage.getTask(next!.id)).toBeNull();
+    expect((await storage.getTask(review.id))?.status).toBe('not_started');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { compactEvents, selectEvictions } from '../retention';
+import { InMemoryStorage } from '../memoryStorage';
+import { ArchivedMLEvent, DEFAULT_GLOBAL_ML_DATABASE, GlobalMLDatabase, TaskSelectionEvent } from '../../types/schema';
+
+/**
+ * Fails every archive write, like a full disk
+ */
+class FailingArchiveStorage extends InMemoryStorage {
+  protected archiveMLEvents(_entries: ArchivedMLEvent[]): string {
+    throw new Error('disk full');
+  }
+}
+
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function selection(id: string, days: number, wasTopSelected: boolean): TaskSelectionEvent {
+  return {
+    id,
+    timestamp: daysAgo(days),
+    selectedTaskId: 'T1',
+    selectedTaskRank: wasTopSelected ? 1 : 2,
+    selectedTaskScore: 10,
+    topTaskId: 'T1',
+    topTaskScore: 10,
+    queueSize: 3,
+    wasTopSelected,
+  };
+}
+
+describe('ML event retention', () => {
+  it('evicts by age first, then the oldest events beyond maxCount', () => {
+    const events = [
+      { id: 'a', timestamp: daysAgo(40) },
+      { id: 'b', timestamp: daysAgo(3) },
+      { id: 'c', timestamp: daysAgo(2) },
+      { id: 'd', timestamp: daysAgo(1) },
+    ];
+    const { keep, evict } = selectEvictions(events, { maxAgeDays: 30, maxCount: 2 }, NOW);
+    expect(keep.map(e => e.id)).toEqual(['c', 'd']);
+    expect(evict.map(e => e.id)).toEqual(['a', 'b']);
+
+    expect(selectEvictions(events, undefined, NOW).evict).toEqual([]);
+  });
+
+  it('rolls evicted events into summaries that accumulate across runs', () => {
+    const globalML: GlobalMLDatabase = structuredClone(DEFAULT_GLOBAL_ML_DATABASE);
+    globalML.taskSelectionEvents = [
+      selection('s1', 10, true),
+      selection('s2', 9, false),
+      selection('s3', 1, true),
+    ];
+
+    const evicted = compactEvents(globalML, { taskSelectionEvents: { maxCount: 2 } }, NOW);
+    expect(evicted.taskSelectionEvents?.map(e => e.id)).toEqual(['s1']);
+    compactEvents(globalML, { taskSelectionEvents: { maxCount: 1 } }, NOW);
+
+    expect(globalML.taskSelectionEvents.map(e => e.id)).toEqual(['s3']);
+    expect(globalML.compactedSummaries?.taskSelectionEvents).toEqual({
+      count: 2,
+      oldestTimestamp: daysAgo(10),
+      newestTimestamp: daysAgo(9),
+      tallies: { topSelected: 1, notTopSelected: 1, implicitPreferences: 0 },
+    });
+  });
+
+  it('keeps the live events when the archive write fails', async () => {
+    const storage = new FailingArchiveStorage();
+    try {
+      await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+      const task = await storage.createTask({ task: 'Pick me', priority: 'P1', project: 'app' });
+      await storage.logTaskSelection(task.id);
+      await storage.logTaskSelection(task.id);
+      await storage.updateRetentionConfig({ policies: { taskSelectionEvents: { maxCount: 1 } } });
+
+      await expect(storage.compactMLEvents()).rejects.toThrow('disk full');
+      const data = await storage.exportTrainingData();
+      expect(data.taskSelectionEvents).toHaveLength(2);
+      expect(data.compactedSummaries?.taskSelectionEvents).toBeUndefined();
+    } finally {
+      storage.dispose();
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { InMemoryStorage } from '../memoryStorage';
+import { StorageValidationError } from '../errors';
+
+describe('snoozed tasks', () => {
+  let storage: InMemoryStorage;
+
+  afterEach(() => storage.dispose());
+
+  it('leaves the queue until woken by the scheduler, which logs a rebalance', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    const urgent = await storage.createTask({ task: 'Ship hotfix', priority: 'P0', project: 'app' });
+    const later = await storage.createTask({ task: 'Tidy docs', priority: 'P2', project: 'app' });
+    const until = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+    const snoozed = await storage.snoozeTask(urgent.id, until, { actor: 'alice' });
+    expect(snoozed).toMatchObject({ snoozedUntil: until, revision: 2 });
+    expect((await storage.getTopPriority())?.id).toBe(later.id);
+    expect((await storage.getTasks()).map(t => t.id)).toEqual([later.id]);
+    expect((await storage.getSnoozedTasks()).map(t => t.id)).toEqual([urgent.id]);
+    expect(await storage.getAllTasks()).toHaveLength(2);
+
+    // Not due yet
+    expect(await storage.wakeSnoozedTasks()).toBe(0);
+    expect(await storage.wakeSnoozedTasks(new Date(Date.now() + 2 * 60 * 60 * 1000))).toBe(1);
+    expect((await storage.getTopPriority())?.id).toBe(urgent.id);
+    expect((await storage.getTask(urgent.id))?.snoozedUntil).toBeUndefined();
+    expect((await storage.getQueueRebalanceEvents()).at(-1)).toMatchObject({
+      trigger: 'tasks_woken',
+      triggerTaskId: urgent.id,
+      queueSizeBefore: 1,
+      queueSizeAfter: 2,
+    });
+    const history = await storage.getTaskHistory(urgent.id);
+    expect(history?.map(h => h.actor)).toContain('alice');
+  });
+
+  it('unsnoozes on demand and rejects past or finished snoozes', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    const task = await storage.createTask({ task: 'Review PR', priority: 'P1', project: 'app' });
+    await expect(storage.snoozeTask(task.id, '2000-01-01')).rejects.toThrow(StorageValidationError);
+    await expect(storage.snoozeTask(task.id, 'soon')).rejects.toThrow(StorageValidationError);
+    expect(await storage.snoozeTask('missing', '2999-01-01')).toBeNull();
+
+    await storage.snoozeTask(task.id, '2999-01-01');
+    expect(await storage.getTopPriority()).toBeNull();
+    const woken = await storage.unsnoozeTask(task.id);
+    expect(woken?.snoozedUntil).toBeUndefined();
+    expect((await storage.getTopPriority())?.id).toBe(task.id);
+
+    await storage.completeTask(task.id, 'completed');
+    await expect(storage.snoozeTask(task.id, '2999-01-01')).rejects.toThrow(/finished/);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteStorage, SqliteStore } from '../sqliteStorage';
+import { getEmptyGlobalML } from '../baseStorage';
+import { ENCRYPTION_KEY_ENV, generateEncryptionKey } from '../encryption';
+import { EncryptionKeyError } from '../errors';
+import { TaskSelectionEvent } from '../../types/schema';
+import { describeStorageConformance } from './conformance';
+
+const files = new Map<SqliteStorage, string>();
+
+describeStorageConformance('SqliteStorage', {
+  create: () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pf-sqlite-')), 'priority-forge.db');
+    const storage = new SqliteStorage(file);
+    files.set(storage, file);
+    return storage;
+  },
+  reopen: storage => new SqliteStorage(files.get(storage)!),
+  dispose: storage => {
+    fs.rmSync(path.dirname(files.get(storage)!), { recursive: true, force: true });
+    files.delete(storage);
+  },
+});
+
+describe('SqliteStorage ML events', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pf-sqlite-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes back events that migrations change in place', async () => {
+    const file = path.join(dir, 'priority-forge.db');
+    const legacy = getEmptyGlobalML();
+    delete legacy.schemaRevision;
+    legacy.taskSelectionEvents = [{
+      id: 'S1', selectedTaskId: 'T2', selectedTaskScore: 40, topTaskId: 'T1', topTaskScore: 10,
+      wasTopSelected: false,
+    } as TaskSelectionEvent];
+    const store = new SqliteStore(file);
+    store.writeGlobalML(legacy);
+    store.close();
+
+    await new SqliteStorage(file).runMigrations();
+
+    const reopened = new SqliteStorage(file);
+    expect((await reopened.getMigrationStatus()).pending).toEqual([]);
+    expect((await reopened.getTaskSelectionEvents())[0].implicitPreferences).toEqual([
+      { preferredTaskId: 'T2', skippedTaskId: 'T1', scoreDiff: 30 },
+    ]);
+  });
+
+  it('refuses to start while an encryption key is configured', () => {
+    const previous = process.env[ENCRYPTION_KEY_ENV];
+    process.env[ENCRYPTION_KEY_ENV] = generateEncryptionKey();
+    try {
+      expect(() => new SqliteStorage(path.join(dir, 'priority-forge.db'))).toThrow(EncryptionKeyError);
+      expect(fs.existsSync(path.join(dir, 'priority-forge.db'))).toBe(false);
+    } finally {
+      if (previous === undefined) delete process.env[ENCRYPTION_KEY_ENV];
+      else process.env[ENCRYPTION_KEY_ENV] = previous;
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { buildTaskTree, containerIds, validateParent } from '../subtasks';
+import { InMemoryStorage } from '../memoryStorage';
+import { OpenSubtasksError, StorageValidationError } from '../errors';
+import { WeightedTask } from '../../types/schema';
+
+function task(id: string, parentId?: string, status: WeightedTask['status'] = 'not_started'): WeightedTask {
+  return { id, task: `Task ${id}`, project: 'app', priority: 'P1', status, parentId } as WeightedTask;
+}
+
+describe('subtask helpers', () => {
+  const tasks = [task('launch'), task('docs', 'launch', 'complete'), task('code', 'launch'), task('api', 'code'), task('ui', 'code', 'complete')];
+
+  it('nests children and rolls up progress over leaf subtasks', () => {
+    const [root] = buildTaskTree(tasks);
+    expect(root.id).toBe('launch');
+    expect(root.children.map(c => c.id)).toEqual(['docs', 'code']);
+    expect(root.progress).toEqual({ total: 3, finished: 2, percent: 67, complete: false });
+    expect(root.children[1].progress).toMatchObject({ total: 2, finished: 1 });
+    expect(root.children[0].progress).toBeUndefined();
+  });
+
+  it('treats parents with open children as containers', () => {
+    expect([...containerIds(tasks)].sort()).toEqual(['code', 'launch']);
+    expect(containerIds([task('p'), task('c', 'p', 'complete')]).size).toBe(0);
+  });
+
+  it('rejects missing, finished and circular parents', () => {
+    const map = new Map(tasks.map(t => [t.id, t]));
+    expect(validateParent('new', 'code', map).id).toBe('code');
+    expect(() => validateParent('new', 'nope', map)).toThrow(StorageValidationError);
+    expect(() => validateParent('new', 'docs', map)).toThrow(/finished/);
+    expect(() => validateParent('launch', 'api', map)).toThrow(/ancestor/);
+  });
+});
+
+describe('subtasks in storage', () => {
+  let storage: InMemoryStorage;
+
+  afterEach(() => storage.dispose());
+
+  it('inherits from the parent, queues leaves only and guards parent completion', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    const parent = await storage.createTask({ task: 'Launch v2', priority: 'P0', project: 'app' });
+    const child = await storage.createTask({ task: 'Write docs', parentId: parent.id });
+    expect(child).toMatchObject({ priority: 'P0', project: 'app', parentId: parent.id });
+    await expect(storage.createTask({ task: 'Orphan' })).rejects.toThrow(StorageValidationError);
+
+    expect((await storage.getTasks()).map(t => t.id)).toEqual([child.id]);
+    expect((await storage.getTopPriority())?.id).toBe(child.id);
+
+    await expect(storage.completeTask(parent.id, 'completed')).rejects.toBeInstanceOf(OpenSubtasksError);
+    await storage.completeTask(child.id, 'completed');
+    expect((await storage.getTaskTree(true))[0].progress).toMatchObject({ percent: 100, complete: true });
+    expect(await storage.completeTask(parent.id, 'completed')).toMatchObject({ taskId: parent.id });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { matchesTags, normalizeTags, parseTagFilter, validateTagUpdate } from '../tags';
+import { InMemoryStorage } from '../memoryStorage';
+import { StorageValidationError, TagInUseError } from '../errors';
+import { calculatePriorityScore, getDefaultWeights } from '../../heap';
+
+describe('tag helpers', () => {
+  it('normalizes and validates tag names', () => {
+    expect(normalizeTags([' Bug', 'infra', 'bug', 'team:web'])).toEqual(['bug', 'infra', 'team:web']);
+    expect(() => normalizeTags(['two words'])).toThrow(StorageValidationError);
+    expect(() => normalizeTags('bug')).toThrow(/array/);
+    expect(() => validateTagUpdate({ scoreMultiplier: 0 })).toThrow(/scoreMultiplier/);
+    expect(validateTagUpdate({ color: '#EF4444', scoreMultiplier: null })).toEqual({ color: '#ef4444', scoreMultiplier: null });
+  });
+
+  it('filters by any or all of the tags', () => {
+    const task = { tags: ['bug', 'infra'] };
+    expect(matchesTags(task, parseTagFilter('bug,security')!)).toBe(true);
+    expect(matchesTags(task, parseTagFilter(['bug', 'security'], 'all')!)).toBe(false);
+    expect(parseTagFilter('')).toBeUndefined();
+    expect(() => parseTagFilter('bug', 'some')).toThrow(/tagMatch/);
+  });
+
+  it('scales the heuristic adjustment but not the priority base', () => {
+    const weights = { ...getDefaultWeights(), blockingCount: 2 };
+    const plain = calculatePriorityScore(weights, 'P1');
+    expect(calculatePriorityScore(weights, 'P1', undefined, 2) - 100).toBeCloseTo(2 * (plain - 100));
+  });
+});
+
+describe('tags in storage', () => {
+  let storage: InMemoryStorage;
+
+  afterEach(() => storage.dispose());
+
+  it('registers tags on use, boosts tagged tasks and guards registry deletes', async () => {
+    storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+
+    const plain = await storage.createTask({ task: 'Refactor', priority: 'P1', project: 'app' });
+    const audit = await storage.createTask({ task: 'Audit deps', priority: 'P1', project: 'app', tags: ['Security'] });
+    expect(audit.tags).toEqual(['security']);
+    expect(audit.priorityScore).toBe(plain.priorityScore);
+    expect((await storage.getTags()).map(t => [t.name, t.taskCount])).toEqual([['security', 1]]);
+
+    await storage.updateTag('security', { scoreMultiplier: 3, color: '#ef4444' });
+    expect((await storage.getTopPriority())?.id).toBe(audit.id);
+    expect((await storage.getTasks(false, { tags: ['security'] })).map(t => t.id)).toEqual([audit.id]);
+
+    await expect(storage.deleteTag('security')).rejects.toBeInstanceOf(TagInUseError);
+    await storage.updateTask(audit.id, { tags: [] });
+    expect((await storage.getTask(audit.id))?.priorityScore).toBe(plain.priorityScore);
+    expect(await storage.deleteTag('security')).toBe(true);
+    expect(await storage.deleteTag('security')).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { UndoStacks } from '../undo';
+import { InMemoryStorage } from '../memoryStorage';
+import { StorageValidationError } from '../errors';
+import { UndoEntry, WeightedTask } from '../../types/schema';
+
+function change(taskId: string): Omit<UndoEntry, 'id' | 'timestamp'> {
+  return {
+    action: 'updateTask',
+    taskId,
+    description: `Update ${taskId}`,
+    taskBefore: { id: taskId } as WeightedTask,
+    taskAfter: { id: taskId } as WeightedTask,
+  };
+}
+
+describe('undo stacks', () => {
+  it('keeps separate history per workspace and moves entries between undo and redo', () => {
+    const stacks = new UndoStacks();
+    stacks.record('ws-a', change('T1'));
+    stacks.record('ws-a', change('T2'));
+    stacks.record('ws-b', change('T3'));
+
+    expect(stacks.peekUndo('ws-a')?.taskId).toBe('T2');
+    stacks.commitUndo('ws-a');
+    expect(stacks.history('ws-a').undo.map(e => e.taskId)).toEqual(['T1']);
+    expect(stacks.history('ws-a').redo.map(e => e.taskId)).toEqual(['T2']);
+    expect(stacks.history('ws-b').undo.map(e => e.taskId)).toEqual(['T3']);
+
+    stacks.commitRedo('ws-a');
+    expect(stacks.history('ws-a').undo.map(e => e.taskId)).toEqual(['T2', 'T1']);
+    expect(stacks.peekRedo('ws-a')).toBeUndefined();
+  });
+
+  it('clears redo on a new change and drops the oldest entries past the limit', () => {
+    const stacks = new UndoStacks(2);
+    stacks.record('ws', change('T1'));
+    stacks.record('ws', change('T2'));
+    stacks.commitUndo('ws');
+    stacks.record('ws', change('T3'));
+    expect(stacks.history('ws').redo).toEqual([]);
+
+    stacks.record('ws', change('T4'));
+    expect(stacks.history('ws').undo.map(e => e.taskId)).toEqual(['T4', 'T3']);
+  });
+
+  it('drops entries about tasks that left the workspace', () => {
+    const stacks = new UndoStacks();
+    stacks.record('ws', change('T1'));
+    stacks.record('ws', { ...change('T2'), nextInstance: { id: 'T3' } as WeightedTask });
+    stacks.record('ws', change('T4'));
+    stacks.commitUndo('ws');
+
+    stacks.dropTasks('ws', new Set(['T3', 'T4']));
+    expect(stacks.history('ws').undo.map(e => e.taskId)).toEqual(['T1']);
+    expect(stacks.history('ws').redo).toEqual([]);
+  });
+
+  it('drops drag reorders whose event was compacted, in every workspace', () => {
+    const stacks = new UndoStacks();
+    const drag = (taskId: string, eventId: string) =>
+      ({ ...change(taskId), action: 'logDragReorder', dragEvent: { id: eventId } } as Omit<UndoEntry, 'id' | 'timestamp'>);
+    stacks.record('ws-a', drag('T1', 'D1'));
+    stacks.record('ws-a', change('T2'));
+    stacks.record('ws-b', drag('T3', 'D2'));
+    stacks.commitUndo('ws-b');
+
+    stacks.dropDragEvents(new Set(['D1', 'D2']));
+    expect(stacks.history('ws-a').undo.map(e => e.taskId)).toEqual(['T2']);
+    expect(stacks.history('ws-b').redo).toEqual([]);
+  });
+});
+
+describe('undo in storage', () => {
+  it('refuses to recreate a task that is in the trash and drops the stale change', async () => {
+    const storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+    const project = await storage.createProject({ name: 'app', path: '/app', primaryFocus: 'Undo' });
+    const task = await storage.createTask({ task: 'Edit me', priority: 'P1', project: 'app' });
+    await storage.updateTask(task.id, { notes: 'edited' });
+    await storage.deleteProject(project.id, { mode: 'cascade' });
+
+    await expect(storage.undo()).rejects.toThrow(StorageValidationError);
+    expect(await storage.getTask(task.id)).toBeNull();
+    expect((await storage.getUndoHistory()).undo.map(e => e.action)).toEqual(['createTask']);
+    storage.dispose();
+  });
+
+  it('cannot undo or redo a drag reorder once its event is compacted', async () => {
+    const storage = new InMemoryStorage();
+    await storage.switchWorkspace((await storage.createWorkspace({ name: 'Main' })).id);
+    await storage.createTask({ task: 'First', priority: 'P1', project: 'app' });
+    const second = await storage.createTask({ task: 'Second', priority: 'P2', project: 'app' });
+    await storage.logDragReorder({ taskId: second.id, fromRank: 1, toRank: 0 });
+    await storage.updateRetentionConfig({ policies: { dragReorderEvents: { maxCount: 0 } } });
+
+    expect((await storage.compactMLEvents()).evicted.dragReorderEvents).toBe(1);
+    expect((await storage.getUndoHistory()).undo.map(e => e.action)).toEqual(['createTask', 'createTask']);
+    expect(await storage.getDragReorderEvents()).toEqual([]);
+    storage.dispose();
+  });
+});
@@ -0,0 +1,64 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ArchiveQuery, ArchivedTask, WeightedTask } from '../types/schema';
+import { StorageValidationError } from './errors';
+
+export const FINISHED_STATUSES = ['complete', 'completed', 'cancelled'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Finished tasks whose last update is more than `days` old (none when days is 0)
+ */
+export function selectArchivable(tasks: WeightedTask[], days: number, now: Date = new Date()): WeightedTask[] {
+  if (days <= 0) return [];
+  const cutoff = new Date(now.getTime() - days * DAY_MS).toISOString();
+  return tasks.filter(t => FINISHED_STATUSES.includes(t.status) && (t.updatedAt ?? '') < cutoff);
+}
+
+/**
+ * One page of the archive matching `query`, most recently finished first
+ */
+export function searchArchive(
+  archive: ArchivedTask[],
+  query: ArchiveQuery = {}
+): { total: number; page: number; pageSize: number; items: ArchivedTask[] } {
+  const page = query.page ?? 1;
+  const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new StorageValidationError('page must be a positive integer');
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new StorageValidationError(`pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const needle = query.q?.trim().toLowerCase();
+  const matches = archive
+    .filter(t => !query.project || t.project === query.project)
+    .filter(t => !needle || [t.id, t.task, t.notes, t.project].some(field => field?.toLowerCase().includes(needle)))
+    .sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''));
+
+  return {
+    total: matches.length,
+    page,
+    pageSize,
+    items: matches.slice((page - 1) * pageSize, page * pageSize),
+  };
+}
@@ -0,0 +1,291 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BackupConfig,
+  BackupInfo,
+  BackupManifest,
+  BackupRetention,
+  BackupTrigger,
+  WorkspaceMetadata,
+} from '../types/schema';
+import { LATEST_SCHEMA_REVISION, MigrationDataset } from '../migrations';
+
+export const BACKUP_MANIFEST_FILE = 'backup.json';
+
+export const BACKUP_DIR_ENV = 'PRIORITY_FORGE_BACKUP_DIR';
+
+/**
+ * Directory holding backup-* directories: PRIORITY_FORGE_BACKUP_DIR, else
+ * `fallback` (beside the data). Point it at another disk so a lost data
+ * directory does not take its backups with it.
+ */
+export function getBackupRoot(fallback: string): string {
+  return process.env[BACKUP_DIR_ENV] || fallback;
+}
+
+export const BACKUP_TRIGGERS: BackupTrigger[] = [
+  'scheduled',
+  'manual',
+  'pre-migration',
+  'pre-workspace-delete',
+  'pre-restore',
+  'pre-import',
+  'pre-merge',
+];
+
+/**
+ * Everything a backup holds, read back into memory (what a restore applies)
+ */
+export interface BackupDataset extends MigrationDataset {
+  metadata: WorkspaceMetadata;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Directory name (and ID) of a backup: backup-{trigger}-{timestamp}
+ */
+export function backupDirName(trigger: BackupTrigger, date: Date = new Date()): string {
+  return `backup-${trigger}-${date.toISOString().replace(/[:.]/g, '-')}`;
+}
+
+export function writeBackupManifest(dir: string, manifest: BackupManifest): void {
+  fs.writeFileSync(path.join(dir, BACKUP_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+function directorySize(target: string): number {
+  const stat = fs.statSync(target);
+  if (!stat.isDirectory()) return stat.size;
+  return fs.readdirSync(target).reduce((sum, name) => sum + directorySize(path.join(target, name)), 0);
+}
+
+/**
+ * Manifest of a backup directory. Backups taken before manifests existed
+ * (pre-migration copies) are described from their directory name.
+ */
+function readManifest(dir: string): BackupManifest | null {
+  const manifestFile = path.join(dir, BACKUP_MANIFEST_FILE);
+  if (fs.existsSync(manifestFile)) {
+    try {
+      return JSON.parse(fs.readFileSync(manifestFile, 'utf-8')) as BackupManifest;
+    } catch {
+      return null;
+    }
+  }
+
+  const match = path.basename(dir).match(/^backup-(.+)-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/);
+  if (!match || !BACKUP_TRIGGERS.includes(match[1] as BackupTrigger)) return null;
+  const [, trigger, day, hours, minutes, seconds, millis] = match;
+  return {
+    id: path.basename(dir),
+    trigger: trigger as BackupTrigger,
+    createdAt: `${day}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    backend: fs.readdirSync(dir).some(name => name.endsWith('.db')) ? 'sqlite' : 'json',
+    schemaRevision: 0,
+    workspaces: 0,
+    tasks: 0,
+  };
+}
+
+/**
+ * Backups of one backend found in `root`, newest first
+ */
+export function listBackups(root: string, backend: BackupManifest['backend']): BackupInfo[] {
+  if (!fs.existsSync(root)) return [];
+
+  const backups: BackupInfo[] = [];
+  for (const name of fs.readdirSync(root)) {
+    const dir = path.join(root, name);
+    if (!name.startsWith('backup-') || !fs.statSync(dir).isDirectory()) continue;
+    const manifest = readManifest(dir);
+    if (!manifest || manifest.backend !== backend) continue;
+    backups.push({ ...manifest, id: name, path: dir, sizeBytes: directorySize(dir) });
+  }
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function removeBackup(backup: BackupInfo): void {
+  fs.rmSync(backup.path, { recursive: true, force: true });
+}
+
+/**
+ * Start of the UTC week (Monday) containing `date`, as YYYY-MM-DD
+ */
+function weekKey(date: Date): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+const BUCKETS: Array<{ tier: 'hourly' | 'daily' | 'weekly'; key: (date: Date) => string }> = [
+  { tier: 'hourly', key: date => date.toISOString().slice(0, 13) },
+  { tier: 'daily', key: date => date.toISOString().slice(0, 10) },
+  { tier: 'weekly', key: weekKey },
+];
+
+/**
+ * Backups the retention policy no longer keeps.
+ *
+ * Scheduled backups are rotated grandfather-father-son style: the newest backup
+ * of each of the last `hourly` hours, `daily` days and `weekly` weeks is kept
+ * (a backup may count for several tiers). Backups taken before an operation
+ * keep the newest `preOperation`. Manual backups are never pruned.
+ */
+export function selectBackupsToPrune(backups: BackupInfo[], retention: BackupRetention): BackupInfo[] {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = new Set<string>();
+
+  const scheduled = newestFirst.filter(b => b.trigger === 'scheduled');
+  for (const { tier, key } of BUCKETS) {
+    const seen = new Set<string>();
+    for (const backup of scheduled) {
+      const bucket = key(new Date(backup.createdAt));
+      if (seen.has(bucket)) continue;
+      if (seen.size >= retention[tier]) break;
+      seen.add(bucket);
+      keep.add(backup.id);
+    }
+  }
+
+  newestFirst
+    .filter(b => b.trigger !== 'scheduled' && b.trigger !== 'manual')
+    .slice(0, retention.preOperation)
+    .forEach(b => keep.add(b.id));
+
+  return newestFirst.filter(b => b.trigger !== 'manual' && !keep.has(b.id));
+}
+
+/**
+ * Whether a scheduled backup is due (the newest one is at least scheduleHours old)
+ */
+export function isBackupDue(backups: BackupInfo[], config: BackupConfig, now: Date = new Date()): boolean {
+  if (config.scheduleHours <= 0) return false;
+  const latest = backups.find(b => b.trigger === 'scheduled');
+  if (!latest) return true;
+  // A minute of slack so an hourly timer never skips a slot by a few milliseconds
+  return now.getTime() - new Date(latest.createdAt).getTime() >= config.scheduleHours * HOUR_MS - 60 * 1000;
+}
+
+const PRIORITIES = ['P0', 'P1', 'P2', 'P3'];
+const TASK_STATUSES = ['not_started', 'in_progress', 'complete', 'blocked', 'waiting'];
+const GLOBAL_ML_ARRAYS = [
+  'completionRecords',
+  'priorityChangeEvents',
+  'taskSelectionEvents',
+  'queueRebalanceEvents',
+  'dragReorderEvents',
+] as const;
+const WORKSPACE_ARRAYS = ['projects', 'tasks', 'dataGaps', 'decisions'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkRevision(problems: string[], store: string, revision: unknown): void {
+  if (revision !== undefined && (typeof revision !== 'number' || revision > LATEST_SCHEMA_REVISION)) {
+    problems.push(`${store}: schema revision ${revision} is newer than this server supports (${LATEST_SCHEMA_REVISION})`);
+  }
+}
+
+/**
+ * Problems in one workspace database (shape, task/project fields, duplicate IDs)
+ */
+export function validateWorkspaceDatabase(store: string, db: unknown): string[] {
+  const problems: string[] = [];
+  if (!isRecord(db)) return [`${store}: not an object`];
+
+  checkRevision(problems, store, db.schemaRevision);
+  for (const key of WORKSPACE_ARRAYS) {
+    if (!Array.isArray(db[key])) problems.push(`${store}: ${key} is not an array`);
+  }
+  if (!Array.isArray(db.tasks) || !Array.isArray(db.projects)) return problems;
+
+  const taskIds = new Set<string>();
+  for (const task of db.tasks as unknown[]) {
+    if (!isRecord(task) || typeof task.id !== 'string') {
+      problems.push(`${store}: task without an id`);
+      continue;
+    }
+    if (taskIds.has(task.id)) problems.push(`${store}: duplicate task id ${task.id}`);
+    taskIds.add(task.id);
+    if (typeof task.task !== 'string' || typeof task.project !== 'string') {
+      problems.push(`${store}: task ${task.id} is missing its description or project`);
+    }
+    if (!PRIORITIES.includes(task.priority as string)) {
+      problems.push(`${store}: task ${task.id} has invalid priority ${String(task.priority)}`);
+    }
+    if (!TASK_STATUSES.includes(task.status as string)) {
+      problems.push(`${store}: task ${task.id} has invalid status ${String(task.status)}`);
+    }
+  }
+  for (const project of db.projects as unknown[]) {
+    if (!isRecord(project) || typeof project.id !== 'string' || typeof project.name !== 'string') {
+      problems.push(`${store}: project without an id or name`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Problems that make a backup unsafe to restore (empty = valid). Run after
+ * migrations, so older backups are checked against the current schema.
+ */
+export function validateBackupDataset(dataset: BackupDataset): string[] {
+  const problems: string[] = [];
+  const { metadata, globalML } = dataset;
+
+  if (!isRecord(metadata) || !Array.isArray(metadata.workspaces)) {
+    problems.push('workspaces.json: missing workspace list');
+  } else {
+    const ids = new Set<string>();
+    for (const workspace of metadata.workspaces) {
+      if (!isRecord(workspace) || typeof workspace.id !== 'string' || typeof workspace.name !== 'string') {
+        problems.push('workspaces.json: workspace without an id or name');
+      } else {
+        ids.add(workspace.id);
+      }
+    }
+    const current = metadata.currentWorkspaceId;
+    if (current !== null && current !== undefined && !ids.has(current)) {
+      problems.push(`workspaces.json: current workspace ${current} is not in the workspace list`);
+    }
+    for (const id of dataset.workspaces.keys()) {
+      if (!ids.has(id) && id !== 'default') {
+        problems.push(`workspace ${id}: data without a workspaces.json entry`);
+      }
+    }
+  }
+
+  for (const [id, db] of dataset.workspaces) {
+    problems.push(...validateWorkspaceDatabase(`workspace ${id}`, db));
+  }
+
+  if (!isRecord(globalML)) {
+    problems.push('ML data: not an object');
+  } else {
+    checkRevision(problems, 'ML data', globalML.schemaRevision);
+    for (const key of GLOBAL_ML_ARRAYS) {
+      if (!Array.isArray(globalML[key])) problems.push(`ML data: ${key} is not an array`);
+    }
+    if (!isRecord(globalML.heuristicWeights)) problems.push('ML data: missing heuristic weights');
+  }
+
+  return problems;
+}
@@ -0,0 +1,4055 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Project,
+  Task,
+  WeightedTask,
+  DataGap,
+  Decision,
+  TaskCompletionRecord,
+  TaskCompletionResult,
+  ContextSwitchEvent,
+  PriorityChangeEvent,
+  TaskSelectionEvent,
+  QueueRebalanceEvent,
+  DragReorderEvent,
+  OnlineLearnerState,
+  ProgressDatabase,
+  GlobalMLDatabase,
+  CreateProjectDTO,
+  UpdateProjectDTO,
+  CreateTaskDTO,
+  UpdateTaskDTO,
+  CreateDataGapDTO,
+  UpdateDataGapDTO,
+  CreateDecisionDTO,
+  Priority,
+  HeuristicWeights,
+  DEFAULT_HEURISTIC_WEIGHTS,
+  DEFAULT_GLOBAL_ML_DATABASE,
+  DEFAULT_ONLINE_LEARNER_STATE,
+  UpdateHeuristicWeightsDTO,
+  LogDragReorderDTO,
+  UpdateOnlineLearnerDTO,
+  TaskWeights,
+  Effort,
+  Workspace,
+  CreateWorkspaceDTO,
+  WorkspaceMetadata,
+  JournalEntity,
+  JournalEntry,
+  JournalOperation,
+  JournalQuery,
+  TaskHistoryEntry,
+  UndoEntry,
+  UndoHistory,
+  UndoResult,
+  RetainedEventType,
+  RetentionConfig,
+  UpdateRetentionDTO,
+  CompactedEventSummary,
+  CompactionReport,
+  ArchivedMLEvent,
+  DEFAULT_RETENTION_CONFIG,
+  TrashEntity,
+  TrashEntry,
+  TrashListing,
+  RestoreFromTrashResult,
+  PurgeTrashOptions,
+  PurgeTrashResult,
+  DeleteProjectOptions,
+  DeleteProjectResult,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  ArchivedTask,
+  ArchiveListing,
+  ArchiveQuery,
+  DEFAULT_ARCHIVE_AFTER_DAYS,
+  BackupConfig,
+  BackupInfo,
+  BackupListing,
+  BackupManifest,
+  BackupRestoreResult,
+  BackupTrigger,
+  UpdateBackupConfigDTO,
+  DEFAULT_BACKUP_CONFIG,
+  WorkspaceArchive,
+  ImportWorkspaceOptions,
+  ImportWorkspaceResult,
+  CloneWorkspaceDTO,
+  CloneWorkspaceResult,
+  MergeWorkspacesDTO,
+  WorkspaceMergeReport,
+  MoveToWorkspaceDTO,
+  MoveToWorkspaceResult,
+  TaskTreeNode,
+  TagFilter,
+  TagSummary,
+  UpdateTagDTO,
+  CustomFieldDefinition,
+  CustomFieldInput,
+  DependencyCycleReport,
+  DependencySettings,
+} from '../types/schema';
+import { StorageInterface } from './interface';
+import {
+  createJournalEntry,
+  filterJournal,
+  toTaskHistory,
+  rollbackTo,
+  diffWorkspace,
+} from './journal';
+import { UndoStacks, summarizeUndoEntry } from './undo';
+import {
+  ProjectNotEmptyError,
+  RevisionConflictError,
+  StorageValidationError,
+  OpenSubtasksError,
+  TagInUseError,
+  DependencyCycleError,
+  WorkspaceConflictError,
+} from './errors';
+import { RETAINED_EVENT_TYPES, compactEvents } from './retention';
+import { FINISHED_STATUSES, searchArchive, selectArchivable } from './archive';
+import { buildTaskTree, containerIds, descendantsOf, openDescendantsOf, validateParent } from './subtasks';
+import { nextDeadline, validateRecurrence } from './recurrence';
+import { awakeTasks, dueToWake, validateSnooze } from './snooze';
+import { findCycleThrough, findCycles, unblockableDependents } from './dependencies';
+import {
+  copyTagDefinitions,
+  matchesTags,
+  normalizeTag,
+  normalizeTags,
+  registerTags,
+  tagMultipliers,
+  validateTagUpdate,
+} from './tags';
+import {
+  applyCustomFields,
+  checkFieldValue,
+  customFieldFeatures,
+  validateFieldDefinition,
+} from './customFields';
+import {
+  BackupDataset,
+  backupDirName,
+  isBackupDue,
+  listBackups,
+  removeBackup,
+  selectBackupsToPrune,
+  validateBackupDataset,
+  validateWorkspaceDatabase,
+  writeBackupManifest,
+} from './backups';
+import {
+  addWorkspaceMLEvents,
+  buildWorkspaceArchive,
+  collectWorkspaceMLEvents,
+  findCrossWorkspaceDependencies,
+  parseWorkspaceArchive,
+  planWorkspaceMerge,
+  retagTaskMLEvents,
+} from '../workspaces';
+import {
+  IntegrityReport,
+  checkWorkspace,
+  checkCompletionRecords,
+  countByCategory,
+  repairWorkspace,
+} from '../integrity';
+import { MinHeap, toWeightedTask, recalculateAllScores, getDefaultWeights } from '../heap';
+import {
+  LATEST_SCHEMA_REVISION,
+  MigrationDataset,
+  MigrationReport,
+  MigrationStatus,
+  applyMigrations,
+  getLowestRevision,
+  getMigrationStatus,
+  getPendingMigrations,
+} from '../migrations';
+
+export function getEmptyDatabase(): ProgressDatabase {
+  return {
+    version: 'v4',
+    lastUpdated: new Date().toISOString(),
+    projects: [],
+    tasks: [],
+    dataGaps: [],
+    decisions: [],
+    heuristicWeights: { ...DEFAULT_HEURISTIC_WEIGHTS },
+    schemaRevision: LATEST_SCHEMA_REVISION,
+  };
+}
+
+/**
+ * V4.3: Fresh global ML data (deep copy, already at the latest schema revision)
+ */
+export function getEmptyGlobalML(): GlobalMLDatabase {
+  return {
+    ...structuredClone(DEFAULT_GLOBAL_ML_DATABASE),
+    lastUpdated: new Date().toISOString(),
+    schemaRevision: LATEST_SCHEMA_REVISION,
+  };
+}
+
+/**
+ * Backend-agnostic storage core.
+ *
+ * Owns the task Map, the min-heap, priority scoring, ML event logging and the
+ * online learner. Concrete backends (JSON files, SQLite) only decide where the
+ * workspace database, the global ML database and the workspace metadata live,
+ * by implementing the abstract persistence hooks below.
+ */
+export abstract class BaseStorage implements StorageInterface {
+  protected db!: ProgressDatabase;
+  protected globalML!: GlobalMLDatabase;  // V4: Global ML training data (shared across workspaces)
+  protected currentWorkspaceId: string | null = null;
+  
+  /**
+   * V3.1: Map-based task storage for O(1) lookups and guaranteed uniqueness
+   * The Map is the source of truth; db.tasks is only used for serialization
+   */
+  protected taskMap: Map<string, WeightedTask> = new Map();
+  
+  protected taskHeap!: MinHeap<WeightedTask>;
+  private onWrite: (() => Promise<void>) | null = null;
+
+  /**
+   * V4.3: Undo/redo history per workspace (in memory only)
+   */
+  private undoStacks = new UndoStacks();
+
+  /**
+   * V4.3: Journal and undo entries of the current workspace waiting for the next
+   * save; they are only recorded once the write succeeds
+   */
+  private pendingJournal: JournalEntry[] = [];
+  private pendingUndo: Array<Omit<UndoEntry, 'id' | 'timestamp'>> = [];
+
+  // ========== Persistence hooks (implemented per backend) ==========
+
+  /**
+   * Load global ML training data, creating an empty store if none exists
+   */
+  protected abstract loadGlobalML(): GlobalMLDatabase;
+
+  /**
+   * Persist global ML training data
+   */
+  protected abstract writeGlobalML(globalML: GlobalMLDatabase): Promise<void>;
+
+  /**
+   * Load workspace metadata (workspace list + current workspace)
+   */
+  protected abstract loadWorkspaceMetadata(): WorkspaceMetadata;
+
+  /**
+   * Persist workspace metadata
+   */
+  protected abstract saveWorkspaceMetadata(metadata: WorkspaceMetadata): void;
+
+  /**
+   * V4.3: Read-modify-write of workspace metadata. Backends whose files other
+   * processes may write (JSON) override this to hold a lock across it.
+   */
+  protected updateWorkspaceMetadata<T>(mutate: (metadata: WorkspaceMetadata) => T): T {
+    const metadata = this.loadWorkspaceMetadata();
+    const result = mutate(metadata);
+    this.saveWorkspaceMetadata(metadata);
+    return result;
+  }
+
+  /**
+   * Read a workspace database, or null if the workspace has no data yet
+   */
+  protected abstract readWorkspaceDb(workspaceId: string): ProgressDatabase | null;
+
+  /**
+   * Persist a workspace database (called after every mutation)
+   */
+  protected abstract writeWorkspaceDb(workspaceId: string, db: ProgressDatabase): Promise<void>;
+
+  /**
+   * Synchronously initialize a workspace database (workspace creation, seeding)
+   */
+  protected abstract initWorkspaceDb(workspaceId: string, db: ProgressDatabase): void;
+
+  /**
+   * Remove all persisted data for a workspace
+   */
+  protected abstract removeWorkspaceDb(workspaceId: string): void;
+
+  /**
+   * V4.3: IDs of every workspace that has persisted data
+   */
+  protected abstract listWorkspaceDbIds(): string[];
+
+  /**
+   * V4.3: Backend name recorded in backup manifests (a backup restores into the same backend)
+   */
+  protected abstract readonly backend: BackupManifest['backend'];
+
+  /**
+   * V4.3: Directory holding backup-* directories
+   */
+  protected abstract backupRoot(): string;
+
+  /**
+   * V4.3: Copy all persisted data into a new backup directory
+   */
+  protected abstract backupData(backupDir: string): void;
+
+  /**
+   * V4.3: Read a backup directory back into memory (nothing is applied)
+   */
+  protected abstract readBackup(backupDir: string): BackupDataset;
+
+  /**
+   * V4.3: Replace the ML archive with a backup's copy (kept as is if the backup has none)
+   */
+  protected abstract restoreMLArchive(backupDir: string): void;
+
+  /**
+   * V4.3: Append entries to a workspace's operation journal (never rewritten)
+   */
+  protected abstract appendJournal(workspaceId: string, entries: JournalEntry[]): void;
+
+  /**
+   * V4.3: Read a workspace's operation journal, oldest first
+   */
+  protected abstract readJournal(workspaceId: string): JournalEntry[];
+
+  /**
+   * V4.3: Append ML events evicted by compaction to the archive; returns its location
+   */
+  protected abstract archiveMLEvents(entries: ArchivedMLEvent[]): string;
+
+  /**
+   * Called after the active workspace changed (e.g. to re-point file watchers)
+   */
+  protected onWorkspaceSwitched(): void {}
+
+  /**
+   * Load global ML data and the current workspace into memory.
+   * Backends call this at the end of their constructor, once their own
+   * persistence (directories, database handles) is ready.
+   */
+  protected initialize(): void {
+    // Load global ML training data
+    this.globalML = this.loadGlobalML();
+    // Load current workspace
+    this.currentWorkspaceId = this.loadWorkspaceMetadata().currentWorkspaceId || null;
+    this.reloadWorkspace();
+  }
+
+  /**
+   * Reload the current workspace database and rebuild the Map and heap
+   */
+  protected reloadWorkspace(): void {
+    this.db = this.load();
+    // Initialize Map from loaded tasks (with deduplication)
+    this.initializeTaskMap();
+    this.taskHeap = new MinHeap(awakeTasks(this.getTaskArray()));
+  }
+
+  /**
+   * V4: Key of the workspace currently loaded ('default' before any workspace exists)
+   */
+  protected getWorkspaceKey(): string {
+    return this.currentWorkspaceId || 'default';
+  }
+
+  /**
+   * V4: Save global ML training data
+   */
+  protected async saveGlobalML(): Promise<void> {
+    this.globalML.lastUpdated = new Date().toISOString();
+    await this.writeGlobalML(this.globalML);
+  }
+
+  /**
+   * Initialize the task Map from db.tasks array
+   * Deduplicates by keeping the most "complete" version of each task
+   */
+  protected initializeTaskMap(): void {
+    this.taskMap.clear();
+    let duplicatesFound = 0;
+    
+    for (const task of this.db.tasks) {
+      const existing = this.taskMap.get(task.id);
+      if (!existing) {
+        this.taskMap.set(task.id, task);
+      } else {
+        duplicatesFound++;
+        // Keep the completed one, or the newer one if same status
+        if (task.status === 'complete' && existing.status !== 'complete') {
+          this.taskMap.set(task.id, task);
+        } else if (existing.status !== 'complete' && new Date(task.updatedAt) > new Date(existing.updatedAt)) {
+          this.taskMap.set(task.id, task);
+        }
+        // Otherwise keep existing (first one wins)
+      }
+    }
+    
+    if (duplicatesFound > 0) {
+      console.log(`🔧 V3.1: Deduplicated ${duplicatesFound} tasks during load`);
+      // Sync db.tasks with deduplicated Map
+      this.syncTasksArray();
+    }
+  }
+
+  /**
+   * Sync db.tasks array from taskMap (for JSON serialization)
+   */
+  protected syncTasksArray(): void {
+    this.db.tasks = Array.from(this.taskMap.values());
+  }
+
+  /**
+   * Get tasks as array (from Map)
+   */
+  protected getTaskArray(): WeightedTask[] {
+    return Array.from(this.taskMap.values());
+  }
+
+  /**
+   * V4.3: Every task (snoozed ones included) sorted by priority score
+   */
+  protected getSortedTaskArray(): WeightedTask[] {
+    return this.getTaskArray().sort((a, b) => a.priorityScore - b.priorityScore);
+  }
+
+  setOnWriteCallback(callback: () => Promise<void>) {
+    this.onWrite = callback;
+  }
+
+  /**
+   * V3: Log a queue rebalance event for ML training
+   * Captures before/after state when dependency graph changes
+   */
+  protected logRebalanceEvent(
+    trigger: QueueRebalanceEvent['trigger'],
+    tasksBefore: WeightedTask[],
+    tasksAfter: WeightedTask[],
+    triggerTaskId?: string,
+    workspaceId: string | null = this.currentWorkspaceId
+  ): void {
+    // Build rank maps
+    const rankBefore = new Map<string, { rank: number; score: number }>();
+    const rankAfter = new Map<string, { rank: number; score: number }>();
+    
+    tasksBefore
+      .filter(t => t.status !== 'complete')
+      .sort((a, b) => a.priorityScore - b.priorityScore)
+      .forEach((t, idx) => rankBefore.set(t.id, { rank: idx, score: t.priorityScore }));
+    
+    tasksAfter
+      .filter(t => t.status !== 'complete')
+      .sort((a, b) => a.priorityScore - b.priorityScore)
+      .forEach((t, idx) => rankAfter.set(t.id, { rank: idx, score: t.priorityScore }));
+
+    // Find significant changes (rank changed by more than 2)
+    const significantChanges: QueueRebalanceEvent['significantChanges'] = [];
+    for (const [taskId, before] of rankBefore) {
+      const after = rankAfter.get(taskId);
+      if (after && Math.abs(before.rank - after.rank) > 2) {
+        significantChanges.push({
+          taskId,
+          rankBefore: before.rank,
+          rankAfter: after.rank,
+          scoreBefore: before.score,
+          scoreAfter: after.score,
+        });
+      }
+    }
+
+    // Only log if there were significant changes (V4.3: woken tasks always re-enter the queue)
+    if (significantChanges.length === 0 && trigger !== 'weights_changed' && trigger !== 'tasks_woken') {
+      return;
+    }
+
+    const topBefore = [...rankBefore.entries()]
+      .sort((a, b) => a[1].rank - b[1].rank)
+      .slice(0, 3)
+      .map(([id]) => id);
+    
+    const topAfter = [...rankAfter.entries()]
+      .sort((a, b) => a[1].rank - b[1].rank)
+      .slice(0, 3)
+      .map(([id]) => id);
+
+    const event: QueueRebalanceEvent = {
+      id: uuidv4(),
+      trigger,
+      triggerTaskId,
+      timestamp: new Date().toISOString(),
+      queueSizeBefore: rankBefore.size,
+      queueSizeAfter: rankAfter.size,
+      significantChanges,
+      topTasksBefore: topBefore,
+      topTasksAfter: topAfter,
+      // V4: Tag with workspace for ML filtering
+      workspaceId: workspaceId || undefined,
+    };
+
+    // V4: Write to global ML file
+    this.globalML.queueRebalanceEvents.push(event);
+    
+    console.log(`📊 V3: Logged rebalance event (${trigger}): ${significantChanges.length} significant changes`);
+  }
+
+  protected load(): ProgressDatabase {
+    const workspaceKey = this.getWorkspaceKey();
+    const existing = this.readWorkspaceDb(workspaceKey);
+    if (!existing) {
+      const empty = getEmptyDatabase();
+      this.initWorkspaceDb(workspaceKey, empty);
+      return empty;
+    }
+    return existing;
+  }
+
+  protected async save(): Promise<void> {
+    // Sync array from Map before saving
+    this.syncTasksArray();
+    this.db.lastUpdated = new Date().toISOString();
+
+    // V4.3: A failed write (e.g. ExternalModificationError) drops the staged entries
+    const workspaceKey = this.getWorkspaceKey();
+    const journal = this.pendingJournal;
+    const undo = this.pendingUndo;
+    this.pendingJournal = [];
+    this.pendingUndo = [];
+    await this.writeWorkspaceDb(workspaceKey, this.db);
+    if (journal.length > 0) {
+      this.appendJournal(workspaceKey, journal);
+    }
+    for (const entry of undo) {
+      this.undoStacks.record(workspaceKey, entry);
+    }
+    if (this.onWrite) {
+      await this.onWrite();
+    }
+  }
+
+  /**
+   * V4.3: Journal a mutation of the current workspace on the next save
+   * (no-op for updates that changed nothing)
+   */
+  protected recordOperation(
+    entity: JournalEntity,
+    operation: JournalOperation,
+    before: { id: string } | null,
+    after: { id: string } | null,
+    source?: JournalEntry['source'],
+    actor: string = 'system'
+  ): void {
+    const entry = createJournalEntry(entity, operation, before, after, this.currentWorkspaceId, source, actor);
+    if (entry) {
+      this.pendingJournal.push(entry);
+    }
+  }
+
+  /**
+   * V4.3: Push a change onto the current workspace's undo stack (clears redo) on the next save
+   */
+  protected recordUndo(entry: Omit<UndoEntry, 'id' | 'timestamp'>): void {
+    this.pendingUndo.push(structuredClone(entry));
+  }
+
+  /**
+   * V4.3: Optimistic concurrency check (no-op when the caller sent no expected revision)
+   */
+  protected assertRevision(
+    entity: 'task' | 'project',
+    current: WeightedTask | Project,
+    expectedRevision?: number
+  ): void {
+    if (expectedRevision !== undefined && expectedRevision !== (current.revision ?? 0)) {
+      throw new RevisionConflictError(entity, expectedRevision, current);
+    }
+  }
+
+  /**
+   * Rebuild heap from current task Map (use after bulk operations)
+   * V4.3: Snoozed tasks stay out of the heap
+   */
+  protected rebuildHeap(): void {
+    this.taskHeap = new MinHeap(awakeTasks(this.getTaskArray()));
+  }
+
+  /**
+   * V4.3: Recalculate every score from the current task graph and rebuild the heap
+   */
+  protected recalculateScores(): void {
+    const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+    this.taskMap.clear();
+    for (const task of recalculated) {
+      this.taskMap.set(task.id, task);
+    }
+    this.rebuildHeap();
+  }
+
+  async getAll(): Promise<ProgressDatabase> {
+    // Sync before returning
+    this.syncTasksArray();
+    return this.db;
+  }
+
+  // Projects
+  async getProjects(): Promise<Project[]> {
+    return this.db.projects;
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    return this.db.projects.find(p => p.id === id) || null;
+  }
+
+  async createProject(data: CreateProjectDTO): Promise<Project> {
+    const now = new Date().toISOString();
+    const project: Project = {
+      id: uuidv4(),
+      name: data.name,
+      path: data.path,
+      status: data.status || 'active',
+      primaryFocus: data.primaryFocus,
+      createdAt: now,
+      updatedAt: now,
+      revision: 1,
+    };
+    this.db.projects.push(project);
+    this.recordOperation('project', 'create', null, project);
+    await this.save();
+    return project;
+  }
+
+  async updateProject(
+    id: string,
+    data: UpdateProjectDTO,
+    options: { expectedRevision?: number } = {}
+  ): Promise<Project | null> {
+    const idx = this.db.projects.findIndex(p => p.id === id);
+    if (idx === -1) return null;
+    
+    const before = this.db.projects[idx];
+    this.assertRevision('project', before, options.expectedRevision);
+    this.db.projects[idx] = {
+      ...before,
+      ...data,
+      updatedAt: new Date().toISOString(),
+      revision: (before.revision ?? 0) + 1,
+    };
+    this.recordOperation('project', 'update', before, this.db.projects[idx]);
+    await this.save();
+    return this.db.projects[idx];
+  }
+
+  /**
+   * V4.3: Move a project to the trash. Its tasks (matched by project ID or name) go
+   * to the trash with it in 'cascade' mode (the default), make the delete fail in
+   * 'refuse' mode, or move to `reassignTo` in 'reassign' mode.
+   * Returns null if the project does not exist.
+   */
+  async deleteProject(id: string, options: DeleteProjectOptions = {}): Promise<DeleteProjectResult | null> {
+    const idx = this.db.projects.findIndex(p => p.id === id);
+    if (idx === -1) return null;
+
+    const project = this.db.projects[idx];
+    const mode = options.mode ?? 'cascade';
+    const actor = options.actor ?? 'system';
+    if (!['refuse', 'cascade', 'reassign'].includes(mode)) {
+      throw new StorageValidationError(`mode must be 'refuse', 'cascade' or 'reassign'`);
+    }
+
+    const tasks = this.getTaskArray().filter(t => t.project === project.id || t.project === project.name);
+    const result: DeleteProjectResult = { project, mode, trashedTaskIds: [], reassignedTaskIds: [] };
+
+    if (tasks.length > 0) {
+      if (mode === 'refuse') {
+        throw new ProjectNotEmptyError(id, tasks.map(t => t.id));
+      }
+
+      const tasksBefore = this.getTaskArray();
+      if (mode === 'reassign') {
+        const target = this.db.projects.find(
+          p => p.id !== id && (p.id === options.reassignTo || p.name === options.reassignTo)
+        );
+        if (!target) {
+          throw new StorageValidationError(`reassignTo must name another project in this workspace`);
+        }
+        const now = new Date().toISOString();
+        for (const task of tasks) {
+          // Keep the task's reference style (projects are referenced by ID or by name)
+          const after: WeightedTask = {
+            ...task,
+            project: task.project === project.name ? target.name : target.id,
+            updatedAt: now,
+            revision: task.revision + 1,
+          };
+          this.taskMap.set(task.id, after);
+          this.recordOperation('task', 'update', task, after, undefined, actor);
+          result.reassignedTaskIds.push(task.id);
+        }
+      } else {
+        for (const task of tasks) {
+          this.taskMap.delete(task.id);
+          this.moveToTrash('task', task, actor, id);
+          this.recordOperation('task', 'delete', task, null, undefined, actor);
+          result.trashedTaskIds.push(task.id);
+        }
+      }
+
+      this.recalculateScores();
+      if (mode === 'cascade') {
+        this.logRebalanceEvent('task_deleted', tasksBefore, this.getTaskArray());
+        await this.saveGlobalML();
+      }
+    }
+
+    this.db.projects.splice(idx, 1);
+    this.moveToTrash('project', project, actor);
+    this.recordOperation('project', 'delete', project, null, undefined, actor);
+    await this.save();
+    return result;
+  }
+
+  // Tasks - V3.1 with Map-based storage
+  async getTasks(includeCompleted: boolean = false, tagFilter?: TagFilter): Promise<WeightedTask[]> {
+    // Return sorted by priority score (lowest first = highest priority)
+    // V4.3: Optionally only the tasks matching a tag filter; snoozed tasks are not in the heap
+    const all = this.taskHeap.toSortedArray();
+    const tagged = tagFilter ? all.filter(t => matchesTags(t, tagFilter)) : all;
+    if (includeCompleted) {
+      return tagged;
+    }
+    // Filter out completed/cancelled tasks by default
+    // V4.3: ...and containers (tasks with open subtasks): the queue is the actionable leaves
+    const finishedStatuses = ['complete', 'completed', 'cancelled'];
+    const containers = containerIds(this.getTaskArray());
+    return tagged.filter(t => !finishedStatuses.includes(t.status) && !containers.has(t.id));
+  }
+
+  /**
+   * V4.3: Throw DependencyCycleError if giving a task these links would make
+   * it (transitively) wait on itself
+   */
+  private assertNoDependencyCycle(links: Pick<Task, 'id' | 'dependencies' | 'blocking'>): void {
+    const tasks = [...this.getTaskArray().filter(t => t.id !== links.id), links];
+    const cycle = findCycleThrough(links.id, tasks);
+    if (cycle) {
+      throw new DependencyCycleError(links.id, cycle);
+    }
+  }
+
+  /**
+   * V4.3: Dependency settings of the current workspace
+   */
+  async getDependencySettings(): Promise<DependencySettings> {
+    return { autoUnblock: this.db.autoUnblock ?? true };
+  }
+
+  /**
+   * V4.3: Turn automatic unblocking of dependents on completion on or off for the current workspace
+   */
+  async setAutoUnblock(enabled: boolean): Promise<DependencySettings> {
+    if (typeof enabled !== 'boolean') {
+      throw new StorageValidationError('autoUnblock must be true or false');
+    }
+    this.db.autoUnblock = enabled;
+    await this.save();
+    return this.getDependencySettings();
+  }
+
+  /**
+   * V4.3: Dependency cycles already in the current workspace (e.g. from data
+   * written before cycles were rejected, imports or merges)
+   */
+  async getDependencyCycles(): Promise<DependencyCycleReport> {
+    return {
+      workspaceId: this.currentWorkspaceId,
+      taskCount: this.taskMap.size,
+      cycles: findCycles(this.getTaskArray()),
+    };
+  }
+
+  /**
+   * V4.3: Does the task have an unfinished direct child?
+   */
+  private hasOpenSubtasks(id: string): boolean {
+    for (const task of this.taskMap.values()) {
+      if (task.parentId === id && !FINISHED_STATUSES.includes(task.status)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * V4.3: Tasks as parent/child trees, each level sorted by priority score.
+   * Parents carry rollup progress over their leaf subtasks. With a tag filter
+   * only matching tasks are listed (progress still counts every subtask).
+   * Snoozed tasks are left out like they are from the queue.
+   */
+  async getTaskTree(includeCompleted: boolean = false, tagFilter?: TagFilter): Promise<TaskTreeNode[]> {
+    return buildTaskTree(
+      this.getSortedTaskArray(),
+      t => !t.snoozedUntil && (includeCompleted || !FINISHED_STATUSES.includes(t.status)) && (!tagFilter || matchesTags(t, tagFilter))
+    );
+  }
+
+  /**
+   * Get all tasks including completed (for history/archival purposes)
+   * V4.3: ...and snoozed ones
+   */
+  async getAllTasks(): Promise<WeightedTask[]> {
+    return this.getSortedTaskArray();
+  }
+
+  /**
+   * Get completed/cancelled tasks only
+   * V4.3: Followed by the archived ones, most recently finished first
+   */
+  async getCompletedTasks(): Promise<WeightedTask[]> {
+    const finished = this.taskHeap.toSortedArray().filter(t => FINISHED_STATUSES.includes(t.status));
+    const archived = [...(this.db.archive ?? [])].sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''));
+    return [...finished, ...archived];
+  }
+
+  async getTask(id: string): Promise<WeightedTask | null> {
+    // O(1) lookup via Map
+    return this.taskMap.get(id) || null;
+  }
+
+  async getTasksByPriority(priority: Priority): Promise<WeightedTask[]> {
+    return this.getTaskArray()
+      .filter(t => t.priority === priority)
+      .sort((a, b) => a.priorityScore - b.priorityScore);
+  }
+
+  async getTasksByProject(projectId: string): Promise<WeightedTask[]> {
+    return this.getTaskArray()
+      .filter(t => t.project === projectId)
+      .sort((a, b) => a.priorityScore - b.priorityScore);
+  }
+
+  /**
+   * V2: Get the single highest priority task (excludes completed/cancelled tasks)
+   */
+  async getTopPriority(): Promise<WeightedTask | null> {
+    const finishedStatuses = ['complete', 'completed', 'cancelled'];
+    // Fast path: heap top is almost always actionable since completed tasks are removed
+    // V4.3: Containers are not actionable either; their subtasks are (one scan for children)
+    const top = this.taskHeap.peek();
+    if (top && !finishedStatuses.includes(top.status) && !this.hasOpenSubtasks(top.id)) {
+      return top;
+    }
+    // Fallback: stale completed task at heap top, sort to find first actionable
+    const sorted = this.taskHeap.toSortedArray();
+    const containers = containerIds(this.getTaskArray());
+    return sorted.find(t => !finishedStatuses.includes(t.status) && !containers.has(t.id)) || null;
+  }
+
+  /**
+   * V2: Pop the highest priority task (removes from queue)
+   */
+  async popTopPriority(): Promise<WeightedTask | null> {
+    const task = this.taskHeap.pop();
+    if (task) {
+      this.taskMap.delete(task.id);
+      this.recordOperation('task', 'delete', task, null);
+      await this.save();
+    }
+    return task;
+  }
+
+  async createTask(data: CreateTaskDTO, options: { actor?: string } = {}): Promise<WeightedTask> {
+    const now = new Date().toISOString();
+    const taskId = data.id || uuidv4();
+    
+    // V3.1: Check for duplicate ID - Map enforces uniqueness
+    if (this.taskMap.has(taskId)) {
+      throw new Error(`Task with ID "${taskId}" already exists. Use updateTask to modify existing tasks.`);
+    }
+    // V4.3: Archived tasks keep their IDs (unarchiveTask brings them back)
+    if ((this.db.archive ?? []).some(t => t.id === taskId)) {
+      throw new StorageValidationError(`Task with ID "${taskId}" is archived. Use unarchiveTask to bring it back.`);
+    }
+    
+    // V4.3: Subtasks take the parent's priority and project unless given their own
+    let priority = data.priority;
+    let project = data.project;
+    if (data.parentId) {
+      const parent = validateParent(taskId, data.parentId, this.taskMap);
+      priority = priority ?? parent.priority;
+      project = project ?? parent.project;
+    }
+    if (!priority || !project) {
+      throw new StorageValidationError('priority and project are required unless parentId is given');
+    }
+    const recurrence = data.recurrence ? validateRecurrence(data.recurrence) : undefined;
+    this.assertNoDependencyCycle({ id: taskId, dependencies: data.dependencies, blocking: data.blocking });
+    const tags = data.tags !== undefined ? normalizeTags(data.tags) : [];
+    const customFields = applyCustomFields(this.db.customFields, undefined, data.customFields, { creating: true });
+    registerTags(this.db.tags ??= [], tags, now);
+
+    // Snapshot before state for rebalance logging
+    const tasksBefore = this.getTaskArray();
+    
+    // Create base task
+    const baseTask: Task = {
+      id: taskId,
+      priority,
+      task: data.task,
+      project,
+      status: data.status || 'not_started',
+      blocking: data.blocking,
+      dependencies: data.dependencies,
+      notes: data.notes,
+      parentId: data.parentId,
+      ...(tags.length > 0 && { tags }),
+      ...(customFields && { customFields }),
+      createdAt: now,
+      updatedAt: now,
+      revision: 1,
+    };
+
+    // Convert to weighted task with computed scores
+    const weightedTask = toWeightedTask(
+      {
+        ...baseTask,
+        deadline: data.deadline,
+        effort: data.effort,
+        weights: data.weights ? { ...getDefaultWeights(), ...data.weights } : undefined,
+        // V4.3: A recurring task starts its series
+        ...(recurrence && { recurrence, seriesId: uuidv4() }),
+      } as WeightedTask,
+      this.getTaskArray(),
+      this.globalML.heuristicWeights,
+      tagMultipliers(this.db.tags)
+    );
+
+    // Add to Map (guaranteed unique due to check above)
+    this.taskMap.set(weightedTask.id, weightedTask);
+    
+    // IMPORTANT: Recalculate ALL task weights since dependencies/blocking may have changed
+    // e.g., if new task depends on existing task, that task's blockingCount increases
+    if (data.dependencies?.length || data.blocking) {
+      const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+      // Update Map with recalculated tasks
+      for (const task of recalculated) {
+        this.taskMap.set(task.id, task);
+      }
+      this.rebuildHeap();
+      
+      // Log rebalance event
+      this.logRebalanceEvent('task_created', tasksBefore, this.getTaskArray(), weightedTask.id);
+    } else {
+      this.taskHeap.push(weightedTask);
+    }
+    
+    this.recordOperation('task', 'create', null, this.taskMap.get(weightedTask.id)!, undefined, options.actor);
+    this.recordUndo({
+      action: 'createTask',
+      taskId: weightedTask.id,
+      description: `Create "${weightedTask.task}"`,
+      taskBefore: null,
+      taskAfter: this.taskMap.get(weightedTask.id)!,
+    });
+    await this.save();
+    
+    // Return the updated version from Map (may have been recalculated)
+    return this.taskMap.get(weightedTask.id) || weightedTask;
+  }
+
+  async updateTask(
+    id: string,
+    data: UpdateTaskDTO,
+    options: { expectedRevision?: number; actor?: string } = {}
+  ): Promise<WeightedTask | null> {
+    const existingTask = this.taskMap.get(id);
+    if (!existingTask) return null;
+    this.assertRevision('task', existingTask, options.expectedRevision);
+
+    // V4.3: Re-parenting (null detaches); finishing a parent goes through completeTask
+    const { parentId, recurrence, tags, customFields, ...changes } = data;
+    if (parentId) {
+      validateParent(id, parentId, this.taskMap);
+    }
+    if (data.dependencies !== undefined || data.blocking !== undefined) {
+      this.assertNoDependencyCycle({
+        id,
+        dependencies: data.dependencies ?? existingTask.dependencies,
+        blocking: data.blocking !== undefined ? data.blocking : existingTask.blocking,
+      });
+    }
+    // V4.3: The list replaces the task's tags; new ones join the registry
+    const normalizedTags = tags !== undefined ? normalizeTags(tags) : existingTask.tags;
+    // V4.3: Custom field changes merge into the task's values (null clears one)
+    const customFieldValues = customFields !== undefined
+      ? applyCustomFields(this.db.customFields, existingTask.customFields, customFields)
+      : existingTask.customFields;
+    if (tags !== undefined) {
+      registerTags(this.db.tags ??= [], normalizedTags ?? [], new Date().toISOString());
+    }
+    // V4.3: Setting a schedule starts a series (or resumes the task's old one); null stops it
+    const recurrenceFields = recurrence === undefined
+      ? { recurrence: existingTask.recurrence, seriesId: existingTask.seriesId }
+      : recurrence === null
+        ? { recurrence: undefined, seriesId: existingTask.seriesId }
+        : { recurrence: validateRecurrence(recurrence), seriesId: existingTask.seriesId ?? uuidv4() };
+    if (data.status && FINISHED_STATUSES.includes(data.status) && !FINISHED_STATUSES.includes(existingTask.status)) {
+      const open = openDescendantsOf(id, this.getTaskArray());
+      if (open.length > 0) {
+        throw new OpenSubtasksError(id, open.map(t => t.id));
+      }
+    }
+    
+    // Snapshot before state for rebalance logging
+    const tasksBefore = this.getTaskArray();
+    
+    const oldPriority = existingTask.priority;
+    const oldScore = existingTask.priorityScore;
+    const oldDependencies = existingTask.dependencies || [];
+    const oldBlocking = existingTask.blocking;
+    const oldStatus = existingTask.status;
+    
+    // Get queue position before update
+    const sortedBefore = this.taskHeap.toSortedArray();
+    const queuePositionBefore = sortedBefore.findIndex(t => t.id === id);
+    
+    // V4.0: Capture startedAt when transitioning to in_progress
+    let startedAt = existingTask.startedAt;
+    if (data.status === 'in_progress' && oldStatus !== 'in_progress' && !startedAt) {
+      startedAt = new Date().toISOString();
+      console.log(`📊 V4.0: Task ${id} started work at ${startedAt}`);
+      // V4.2: Auto-log task selection when work begins — ensures every started
+      // task is captured as a selection event without relying on the agent to
+      // call log_task_selection separately.
+      const selectionEvent = await this.logTaskSelection(id);
+      // V4.2: Auto-log skip decision when user picks a non-top task
+      if (selectionEvent && !selectionEvent.wasTopSelected) {
+        const topTaskName = this.taskMap.get(selectionEvent.topTaskId)?.task || selectionEvent.topTaskId;
+        const skipDecision: Decision = {
+          id: uuidv4(),
+          date: new Date().toISOString().split('T')[0],
+          decision: `Selected "${existingTask.task}" (rank ${selectionEvent.selectedTaskRank + 1}) over recommended "${topTaskName}" (rank 1)`,
+          rationale: `User chose task ${selectionEvent.selectedTaskRank} positions below top-ranked. Score diff: ${selectionEvent.selectedTaskScore - selectionEvent.topTaskScore}.`,
+          createdAt: new Date().toISOString(),
+          decisionType: 'skip',
+          relatedTaskId: id,
+          skippedTaskId: selectionEvent.topTaskId,
+          selectedTaskId: id,
+          rankDelta: selectionEvent.selectedTaskRank,
+          selectionEventId: selectionEvent.id,
+          workspaceId: this.currentWorkspaceId || undefined,
+        };
+        this.db.decisions.push(skipDecision);
+        this.globalML.decisions.push(skipDecision);
+        this.recordOperation('decision', 'create', null, skipDecision);
+        console.log(`📊 V4.2: Auto-logged skip decision (rank ${selectionEvent.selectedTaskRank + 1}, skipped "${topTaskName}")`);
+      }
+    }
+    
+    // Merge updates
+    const updatedBase: WeightedTask = {
+      ...existingTask,
+      ...changes,
+      parentId: parentId === undefined ? existingTask.parentId : parentId ?? undefined,
+      ...recurrenceFields,
+      tags: normalizedTags?.length ? normalizedTags : undefined,
+      customFields: customFieldValues,
+      // V4.3: A finished task is no longer snoozed
+      snoozedUntil: data.status && FINISHED_STATUSES.includes(data.status) ? undefined : existingTask.snoozedUntil,
+      // V4.3: "Newly unblocked" lasts until the next status change
+      ...(data.status && data.status !== oldStatus && { unblockedBy: undefined, unblockedAt: undefined }),
+      startedAt,  // V4.0: Preserve or set startedAt
+      weights: data.weights 
+        ? { ...existingTask.weights, ...data.weights }
+        : existingTask.weights,
+      updatedAt: new Date().toISOString(),
+      revision: (existingTask.revision ?? 0) + 1,
+    };
+
+    // Check if dependency graph changed (requires full recalculation)
+    const dependenciesChanged = 
+      JSON.stringify(data.dependencies) !== JSON.stringify(oldDependencies) ||
+      data.blocking !== oldBlocking;
+
+    // Update in Map
+    this.taskMap.set(id, updatedBase);
+
+    // Recalculate scores
+    if (dependenciesChanged) {
+      // Full recalculation needed - dependency graph changed
+      const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+      for (const task of recalculated) {
+        this.taskMap.set(task.id, task);
+      }
+      this.rebuildHeap();
+      
+      // Log rebalance event
+      this.logRebalanceEvent('task_updated', tasksBefore, this.getTaskArray(), id);
+    } else {
+      // Just recalculate this task
+      const updatedTask = toWeightedTask(
+        updatedBase,
+        this.getTaskArray(),
+        this.globalML.heuristicWeights,
+        tagMultipliers(this.db.tags)
+      );
+      this.taskMap.set(id, updatedTask);
+      if (!this.taskHeap.update(id, updatedTask) && !updatedTask.snoozedUntil) {
+        this.taskHeap.push(updatedTask);
+      }
+    }
+
+    const finalTask = this.taskMap.get(id)!;
+    
+    // V3: Log priority change event if priority changed
+    if (data.priority && data.priority !== oldPriority) {
+      const sortedAfter = this.taskHeap.toSortedArray();
+      const queuePositionAfter = sortedAfter.findIndex(t => t.id === id);
+      
+      const changeEvent: PriorityChangeEvent = {
+        id: uuidv4(),
+        taskId: id,
+        oldPriority,
+        newPriority: data.priority,
+        oldScore,
+        newScore: finalTask.priorityScore,
+        timestamp: new Date().toISOString(),
+        queuePositionBefore,
+        queuePositionAfter,
+        // V4: Tag with workspace for ML filtering
+        workspaceId: this.currentWorkspaceId || undefined,
+      };
+      
+      // V4: Write to global ML file
+      this.globalML.priorityChangeEvents.push(changeEvent);
+      await this.saveGlobalML();
+      
+      console.log(`📊 V3: Logged priority change for ${id}: ${oldPriority} → ${data.priority}`);
+    }
+    
+    this.recordOperation('task', 'update', existingTask, finalTask, undefined, options.actor);
+    this.recordUndo({
+      action: 'updateTask',
+      taskId: id,
+      description: `Update "${finalTask.task}"`,
+      taskBefore: existingTask,
+      taskAfter: finalTask,
+    });
+    await this.save();
+    return finalTask;
+  }
+
+  /**
+   * V4.3: Move a task to the trash (restorable until purged)
+   */
+  async deleteTask(id: string, options: { actor?: string } = {}): Promise<boolean> {
+    if (!this.taskMap.has(id)) return false;
+    
+    // Snapshot before state for rebalance logging
+    const tasksBefore = this.getTaskArray();
+    
+    const deletedTask = this.taskMap.get(id)!;
+    const hadDependents = this.getTaskArray().some(t => 
+      t.dependencies?.includes(id) || t.blocking === id
+    );
+    
+    // Remove from Map
+    this.taskMap.delete(id);
+    const trashEntry = this.moveToTrash('task', deletedTask, options.actor ?? 'system');
+    
+    // Recalculate if deleted task was blocking others
+    if (hadDependents || deletedTask.blocking || deletedTask.dependencies?.length) {
+      const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+      this.taskMap.clear();
+      for (const task of recalculated) {
+        this.taskMap.set(task.id, task);
+      }
+      this.rebuildHeap();
+      
+      // Log rebalance event
+      this.logRebalanceEvent('task_deleted', tasksBefore, this.getTaskArray(), id);
+    } else {
+      this.taskHeap.remove(id);
+    }
+    
+    this.recordOperation('task', 'delete', deletedTask, null, undefined, options.actor);
+    this.recordUndo({
+      action: 'deleteTask',
+      taskId: id,
+      description: `Delete "${deletedTask.task}"`,
+      taskBefore: deletedTask,
+      taskAfter: null,
+      trashEntry,
+    });
+    await this.save();
+    return true;
+  }
+
+  /**
+   * V2: Recalculate all priority scores
+   * Useful after changing heuristic weights or bulk updates
+   */
+  async recalculateAllPriorities(): Promise<WeightedTask[]> {
+    // Snapshot before state for rebalance logging
+    const tasksBefore = this.getTaskArray();
+    
+    const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+    this.taskMap.clear();
+    for (const task of recalculated) {
+      this.taskMap.set(task.id, task);
+    }
+    this.rebuildHeap();
+    
+    // Log rebalance event
+    this.logRebalanceEvent('weights_changed', tasksBefore, this.getTaskArray());
+    
+    await this.save();
+    return this.taskHeap.toSortedArray();
+  }
+
+  /**
+   * V2: Update heuristic weights and recalculate all scores
+   */
+  async updateHeuristicWeights(weights: UpdateHeuristicWeightsDTO): Promise<HeuristicWeights> {
+    // Snapshot before state for rebalance logging
+    const tasksBefore = this.getTaskArray();
+    
+    this.globalML.heuristicWeights = {
+      ...this.globalML.heuristicWeights,
+      ...weights,
+    };
+    
+    // Recalculate all task scores with new weights
+    const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+    this.taskMap.clear();
+    for (const task of recalculated) {
+      this.taskMap.set(task.id, task);
+    }
+    this.rebuildHeap();
+    
+    // Log rebalance event (weights changed always logs)
+    this.logRebalanceEvent('weights_changed', tasksBefore, this.getTaskArray());
+    
+    // V4: Save global ML data (weights are global)
+    await this.saveGlobalML();
+    await this.save();
+    
+    return this.globalML.heuristicWeights;
+  }
+
+  /**
+   * V2: Get current heuristic weights
+   * V4: Now from global ML data
+   */
+  async getHeuristicWeights(): Promise<HeuristicWeights> {
+    return this.globalML.heuristicWeights;
+  }
+
+  // Data Gaps
+  async getDataGaps(): Promise<DataGap[]> {
+    const priorityOrder: Record<Priority, number> = { P0: 0, P1: 1, P2: 2, P3: 3 };
+    return [...this.db.dataGaps].sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+  }
+
+  async getDataGap(id: string): Promise<DataGap | null> {
+    return this.db.dataGaps.find(d => d.id === id) || null;
+  }
+
+  async createDataGap(data: CreateDataGapDTO): Promise<DataGap> {
+    const now = new Date().toISOString();
+    const gap: DataGap = {
+      id: uuidv4(),
+      element: data.element,
+      coverage: data.coverage,
+      priority: data.priority,
+      impact: data.impact,
+      effort: data.effort,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.db.dataGaps.push(gap);
+    this.recordOperation('dataGap', 'create', null, gap);
+    await this.save();
+    return gap;
+  }
+
+  async updateDataGap(id: string, data: UpdateDataGapDTO): Promise<DataGap | null> {
+    const idx = this.db.dataGaps.findIndex(d => d.id === id);
+    if (idx === -1) return null;
+    
+    const before = this.db.dataGaps[idx];
+    this.db.dataGaps[idx] = {
+      ...before,
+      ...data,
+      updatedAt: new Date().toISOString(),
+    };
+    this.recordOperation('dataGap', 'update', before, this.db.dataGaps[idx]);
+    await this.save();
+    return this.db.dataGaps[idx];
+  }
+
+  async deleteDataGap(id: string): Promise<boolean> {
+    const idx = this.db.dataGaps.findIndex(d => d.id === id);
+    if (idx === -1) return false;
+    const [removed] = this.db.dataGaps.splice(idx, 1);
+    this.recordOperation('dataGap', 'delete', removed, null);
+    await this.save();
+    return true;
+  }
+
+  // Decisions
+  async getDecisions(): Promise<Decision[]> {
+    return [...this.db.decisions].sort((a, b) => 
+      new Date(b.date).getTime() - new Date(a.date).getTime()
+    );
+  }
+
+  async createDecision(data: CreateDecisionDTO): Promise<Decision> {
+    const decision: Decision = {
+      id: uuidv4(),
+      date: data.date,
+      decision: data.decision,
+      rationale: data.rationale,
+      createdAt: new Date().toISOString(),
+      decisionType: data.decisionType || 'other',
+      relatedTaskId: data.relatedTaskId,
+      skippedTaskId: data.skippedTaskId,
+      selectedTaskId: data.selectedTaskId,
+      workspaceId: this.currentWorkspaceId || undefined,
+    };
+    this.db.decisions.push(decision);
+    this.recordOperation('decision', 'create', null, decision);
+    // V4.2: Dual-write to global ML for training data
+    this.globalML.decisions.push(decision);
+    await this.saveGlobalML();
+    await this.save();
+    return decision;
+  }
+
+  // V3 Prep: Context Switch Tracking
+  // V4.3: Persisted to global ML data instead of an in-memory counter
+  async logContextSwitch(
+    taskId: string,
+    options: { toTaskId?: string; sessionId?: string; actor?: string } = {}
+  ): Promise<ContextSwitchEvent> {
+    const event: ContextSwitchEvent = {
+      id: uuidv4(),
+      fromTaskId: taskId,
+      toTaskId: options.toTaskId,
+      timestamp: new Date().toISOString(),
+      workspaceId: this.currentWorkspaceId || undefined,
+      sessionId: options.sessionId,
+      actor: options.actor,
+    };
+    this.globalML.contextSwitchEvents.push(event);
+    await this.saveGlobalML();
+    return event;
+  }
+
+  /**
+   * V4.3: Context switch events, optionally only those away from one task
+   */
+  async getContextSwitchEvents(taskId?: string): Promise<ContextSwitchEvent[]> {
+    const events = this.globalML.contextSwitchEvents;
+    return taskId ? events.filter(e => e.fromTaskId === taskId) : events;
+  }
+
+  async completeTask(
+    taskId: string,
+    outcome: 'completed' | 'cancelled' | 'deferred',
+    options: { actor?: string; force?: boolean } = {}
+  ): Promise<TaskCompletionResult | null> {
+    const task = this.taskMap.get(taskId);
+    if (!task) return null;
+
+    // V4.3: A parent is done when its subtasks are (force completes it anyway, leaving them open)
+    if (!options.force) {
+      const open = openDescendantsOf(taskId, this.getTaskArray());
+      if (open.length > 0) {
+        throw new OpenSubtasksError(taskId, open.map(t => t.id));
+      }
+    }
+
+    // Snapshot before state for rebalance logging
+    const tasksBefore = this.getTaskArray();
+
+    const completedAt = new Date().toISOString();
+    const createdAt = new Date(task.createdAt).getTime();
+    const completedTime = new Date(completedAt).getTime();
+    const hoursElapsed = (completedTime - createdAt) / (1000 * 60 * 60);
+
+    // V4.0: Calculate actual work time (from startedAt, not createdAt)
+    let actualWorkTime: number | undefined;
+    if (task.startedAt) {
+      const startedTime = new Date(task.startedAt).getTime();
+      actualWorkTime = Math.round(((completedTime - startedTime) / (1000 * 60 * 60)) * 100) / 100;
+      console.log(`📊 V4.0: Task ${taskId} work duration: ${actualWorkTime}h (started: ${task.startedAt})`);
+    } else {
+      console.log(`⚠️ V4.0: Task ${taskId} completed without startedAt - using queue time as fallback`);
+    }
+
+    // Count priority changes for this task (from global ML data)
+    const priorityChangeCount = this.globalML.priorityChangeEvents
+      .filter(e => e.taskId === taskId).length;
+
+    const record: TaskCompletionRecord = {
+      id: uuidv4(),
+      taskId,
+      actualCompletionTime: Math.round(hoursElapsed * 100) / 100,
+      wasBlocking: !!task.blocking,
+      userOverrideCount: priorityChangeCount,
+      contextSwitchCount: (await this.getContextSwitchEvents(taskId)).length,
+      outcome,
+      completedAt,
+      // V3: Capture score at completion for training
+      initialPriorityScore: task.priorityScore,
+      finalPriorityScore: task.priorityScore,
+      // V4.0: Actual work duration tracking
+      startedAt: task.startedAt,
+      actualWorkTime,
+      // V4: Tag with workspace for ML filtering
+      workspaceId: this.currentWorkspaceId || undefined,
+      // V4.3: Series the task belongs to (recurring tasks)
+      seriesId: task.seriesId,
+    };
+
+    // Update task status in Map
+    const updatedTask: WeightedTask = {
+      ...task,
+      status: 'complete',
+      snoozedUntil: undefined,
+      updatedAt: new Date().toISOString(),
+      revision: (task.revision ?? 0) + 1,
+    };
+    this.taskMap.set(taskId, updatedTask);
+    this.recordOperation('task', 'complete', task, updatedTask, undefined, options.actor);
+
+    // V4.3: Recurring task - queue the next instance of the series
+    const nextInstance = this.createNextInstance(task, new Date(completedAt));
+    if (nextInstance) {
+      record.nextInstanceId = nextInstance.id;
+      this.recordOperation('task', 'create', null, nextInstance, undefined, options.actor);
+    }
+
+    // V4.3: Blocked dependents with every prerequisite completed can be started now
+    // (cancelling or deferring a prerequisite leaves them blocked)
+    const unblocked = outcome === 'completed' && (this.db.autoUnblock ?? true)
+      ? this.unblockDependents(taskId, completedAt, options.actor)
+      : [];
+
+    // V4: Write to global ML file (not workspace-scoped)
+    this.globalML.completionRecords.push(record);
+
+    // Recalculate all tasks - completing a task changes dependency graph
+    // Tasks that depended on this one now have lower dependencyDepth
+    // Tasks blocked by this one now have different blocking relationships
+    const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+    this.taskMap.clear();
+    for (const t of recalculated) {
+      this.taskMap.set(t.id, t);
+    }
+    this.rebuildHeap();
+    
+    // Log rebalance event
+    this.logRebalanceEvent('task_completed', tasksBefore, this.getTaskArray(), taskId);
+
+    this.recordUndo({
+      action: 'completeTask',
+      taskId,
+      description: `Mark "${task.task}" ${outcome}`,
+      taskBefore: task,
+      taskAfter: this.taskMap.get(taskId)!,
+      completionRecord: record,
+      nextInstance: nextInstance ? this.taskMap.get(nextInstance.id) : undefined,
+      unblocked: unblocked.length > 0 ? unblocked : undefined,
+    });
+    
+    // V4: Save both workspace data and global ML data
+    await this.saveGlobalML();
+    await this.save();
+    return unblocked.length > 0 ? { ...record, unblockedTaskIds: unblocked.map(u => u.after.id) } : record;
+  }
+
+  /**
+   * V4.3: Move the blocked tasks that were only waiting on `taskId` (now completed)
+   * to not_started, journaled with source 'auto_unblock'. Scores are left to the caller.
+   * A prerequisite counts as done when it is complete and its latest outcome was 'completed'.
+   */
+  private unblockDependents(
+    taskId: string,
+    completedAt: string,
+    actor?: string
+  ): Array<{ before: WeightedTask; after: WeightedTask }> {
+    const lastOutcome = new Map(this.globalML.completionRecords.map(r => [r.taskId, r.outcome]));
+    lastOutcome.set(taskId, 'completed');
+    const isDone = (t: WeightedTask) =>
+      t.status === 'complete' && (lastOutcome.get(t.id) ?? 'completed') === 'completed';
+    return unblockableDependents(taskId, this.getTaskArray(), isDone).map(before => {
+      const after: WeightedTask = {
+        ...before,
+        status: 'not_started',
+        unblockedBy: taskId,
+        unblockedAt: completedAt,
+        updatedAt: completedAt,
+        revision: (before.revision ?? 0) + 1,
+      };
+      this.taskMap.set(after.id, after);
+      this.recordOperation('task', 'update', before, after, 'auto_unblock', actor);
+      console.log(`🔓 V4.3: Unblocked ${after.id} (prerequisite ${taskId} completed)`);
+      return { before, after };
+    });
+  }
+
+  /**
+   * V4.3: Add the next instance of a recurring task to the map (null when the
+   * task does not recur or its schedule has ended). Scores are left to the caller.
+   */
+  private createNextInstance(task: WeightedTask, completedAt: Date): WeightedTask | null {
+    if (!task.recurrence) return null;
+    const deadline = nextDeadline(task.recurrence, task.deadline, completedAt);
+    if (!deadline) return null;
+
+    const now = completedAt.toISOString();
+    const parent = task.parentId ? this.taskMap.get(task.parentId) : undefined;
+    const instance = toWeightedTask(
+      {
+        id: uuidv4(),
+        priority: task.priority,
+        task: task.task,
+        project: task.project,
+        status: 'not_started',
+        notes: task.notes,
+        effort: task.effort,
+        tags: task.tags,
+        customFields: task.customFields,
+        deadline,
+        parentId: parent && !FINISHED_STATUSES.includes(parent.status) ? parent.id : undefined,
+        recurrence: task.recurrence,
+        seriesId: task.seriesId,
+        createdAt: now,
+        updatedAt: now,
+        revision: 1,
+      } as WeightedTask,
+      this.getTaskArray(),
+      this.globalML.heuristicWeights,
+      tagMultipliers(this.db.tags)
+    );
+    this.taskMap.set(instance.id, instance);
+    return instance;
+  }
+
+  /**
+   * V4.3: Every instance of a recurring series, live and archived, oldest first
+   */
+  async getSeries(seriesId: string): Promise<WeightedTask[]> {
+    return [...this.taskMap.values(), ...(this.db.archive ?? [])]
+      .filter(t => t.seriesId === seriesId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getCompletionRecords(): Promise<TaskCompletionRecord[]> {
+    // V4: Return from global ML data
+    return this.globalML.completionRecords;
+  }
+
+  // ========== V3: ML Training Data Methods ==========
+
+  /**
+   * V3: Log when user selects a task to work on
+   * This captures user preference signals for training
+   * V4.1: Enhanced with skipped task tracking and pairwise preferences
+   */
+  async logTaskSelection(selectedTaskId: string): Promise<TaskSelectionEvent | null> {
+    const selectedTask = this.taskMap.get(selectedTaskId);
+    if (!selectedTask) return null;
+
+    const sorted = this.taskHeap.toSortedArray().filter(t => t.status !== 'complete');
+    const topTask = sorted[0];
+    const selectedRank = sorted.findIndex(t => t.id === selectedTaskId);
+
+    // V4.1: Collect all skipped task IDs (tasks ranked higher than selected)
+    const skippedTaskIds: string[] = [];
+    for (let i = 0; i < selectedRank; i++) {
+      skippedTaskIds.push(sorted[i].id);
+    }
+
+    // V4.1: Generate pairwise preferences (user prefers selected over all skipped)
+    // This is the ML gold - each skip is an implicit preference signal
+    const implicitPreferences: TaskSelectionEvent['implicitPreferences'] = [];
+    for (let i = 0; i < selectedRank; i++) {
+      const skippedTask = sorted[i];
+      implicitPreferences.push({
+        preferredTaskId: selectedTaskId,
+        skippedTaskId: skippedTask.id,
+        // Positive scoreDiff means heuristics ranked skipped higher but user disagreed
+        scoreDiff: selectedTask.priorityScore - skippedTask.priorityScore,
+      });
+    }
+
+    // V4.1: Capture feature snapshot for offline retraining
+    const selectedTaskFeatures: TaskSelectionEvent['selectedTaskFeatures'] = {
+      priority: selectedTask.priority,
+      priorityScore: selectedTask.priorityScore,
+      weights: selectedTask.weights,
+      effort: selectedTask.effort,
+      hasDeadline: !!selectedTask.deadline,
+      hasBlocking: !!selectedTask.blocking,
+      hasDependencies: !!(selectedTask.dependencies && selectedTask.dependencies.length > 0),
+    };
+
+    const event: TaskSelectionEvent = {
+      id: uuidv4(),
+      selectedTaskId,
+      selectedTaskScore: selectedTask.priorityScore,
+      selectedTaskRank: selectedRank,
+      topTaskId: topTask?.id || selectedTaskId,
+      topTaskScore: topTask?.priorityScore || selectedTask.priorityScore,
+      queueSize: sorted.length,
+      wasTopSelected: selectedTaskId === topTask?.id,
+      timestamp: new Date().toISOString(),
+      // V4: Tag with workspace for ML filtering
+      workspaceId: this.currentWorkspaceId || undefined,
+      // V4.1: Enhanced learning signals
+      skippedTaskIds: skippedTaskIds.length > 0 ? skippedTaskIds : undefined,
+      implicitPreferences: implicitPreferences.length > 0 ? implicitPreferences : undefined,
+      selectedTaskFeatures,
+    };
+
+    // V4: Write to global ML file
+    this.globalML.taskSelectionEvents.push(event);
+    
+    const skippedCount = skippedTaskIds.length;
+    console.log(`📊 V4.1: Logged task selection: ${selectedTaskId} (rank ${selectedRank + 1}/${sorted.length}, skipped ${skippedCount} tasks, was_top: ${event.wasTopSelected})`);
+    if (skippedCount > 0) {
+      console.log(`  ↳ Generated ${implicitPreferences.length} pairwise preferences from skipped tasks`);
+    }
+    
+    // V4: Save global ML data
+    await this.saveGlobalML();
+    return event;
+  }
+
+  /**
+   * V3: Get all priority change events
+   * V4: Now from global ML data
+   */
+  async getPriorityChangeEvents(): Promise<PriorityChangeEvent[]> {
+    return this.globalML.priorityChangeEvents;
+  }
+
+  /**
+   * V3: Get all task selection events
+   * V4: Now from global ML data
+   */
+  async getTaskSelectionEvents(): Promise<TaskSelectionEvent[]> {
+    return this.globalML.taskSelectionEvents;
+  }
+
+  /**
+   * V3: Get all queue rebalance events
+   * V4: Now from global ML data
+   */
+  async getQueueRebalanceEvents(): Promise<QueueRebalanceEvent[]> {
+    return this.globalML.queueRebalanceEvents;
+  }
+
+  /**
+   * V3: Export training data for XGBoost
+   * Returns structured data ready for ML training
+   * Handles null values with sensible defaults for backward compatibility
+   */
+  async exportTrainingData(): Promise<{
+    completionRecords: TaskCompletionRecord[];
+    priorityChangeEvents: PriorityChangeEvent[];
+    taskSelectionEvents: TaskSelectionEvent[];
+    queueRebalanceEvents: QueueRebalanceEvent[];
+    contextSwitchEvents: ContextSwitchEvent[];
+    decisions: Decision[];
+    tasks: WeightedTask[];
+    heuristicWeights: HeuristicWeights;
+    customFieldSchema: CustomFieldDefinition[];  // V4.3: Describes mlReady.tasks[].customFields
+    compactedSummaries: Partial<Record<RetainedEventType, CompactedEventSummary>>;  // V4.3: Events rolled up by retention
+    summary: {
+      totalCompletions: number;
+      totalPriorityChanges: number;
+      totalSelections: number;
+      totalRebalances: number;
+      totalContextSwitches: number;
+      totalDecisions: number;
+      totalSkipDecisions: number;
+      selectionAccuracy: number;
+      compacted: Partial<Record<RetainedEventType, number>>;  // V4.3: Included in the totals above
+      dataQuality: {
+        completionsWithScores: number;
+        completionsWithWorkTime: number;  // V4.0: How many completions have reliable work duration
+        tasksWithEffort: number;
+        tasksWithDependencies: number;
+        rebalancesWithSignificantChanges: number;
+        selectionsWithPairwiseData: number;  // V4.1: How many selections have pairwise preferences
+        totalSelectionPairs: number;  // V4.1: Total pairwise preferences from selections
+        decisionsWithSkipData: number;
+        decisionsLinkedToSelections: number;
+      };
+    };
+    // ML-ready format with nulls handled
+    mlReady: {
+      completions: Array<{
+        taskId: string;
+        completionTimeHours: number;
+        workTimeHours: number;     // V4.0: Actual work time (startedAt → completedAt)
+        queueTimeHours: number;    // V4.0: Queue time (createdAt → startedAt)
+        hasWorkTimeData: number;   // V4.0: 1 if workTimeHours is reliable, 0 if fallback
+        wasBlocking: number;  // 0 or 1
+        contextSwitchCount: number;  // V4.3: From the persisted context switch log
+        outcome: string;
+        initialScore: number;
+        finalScore: number;
+        scoreDelta: number;
+      }>;
+      tasks: Array<{
+        id: string;
+        priority: number;  // P0=0, P1=1, P2=2, P3=3
+        priorityScore: number;
+        effort: number;  // low=1, medium=2, high=3, unknown=2
+        blockingCount: number;
+        crossProjectImpact: number;
+        timeSensitivity: number;
+        effortValueRatio: number;
+        dependencyDepth: number;
+        hasDependencies: number;  // 0 or 1
+        hasBlocking: number;  // 0 or 1
+        customFields?: Record<string, number | null>;  // V4.3: Optional features from the workspace's custom fields
+      }>;
+      // V3: Rebalance trajectory data
+      rebalances: Array<{
+        trigger: string;
+        queueSizeBefore: number;
+        queueSizeAfter: number;
+        significantChangeCount: number;
+        topTaskChanged: number;  // 0 or 1
+      }>;
+      // V4.1: Selection pairwise preferences (combined with drag reorder for training)
+      selectionPairs: Array<{
+        preferredTaskId: string;
+        skippedTaskId: string;
+        scoreDiff: number;  // positive = heuristics got it wrong
+        timestamp: string;
+        queueSize: number;
+      }>;
+      // V4.2: Decision records for ML
+      decisions: Array<{
+        id: string;
+        decisionType: string;
+        relatedTaskId: string | null;
+        skippedTaskId: string | null;
+        selectedTaskId: string | null;
+        rankDelta: number;
+        hasLinkedSelectionEvent: number;
+        timestamp: string;
+      }>;
+    };
+  }> {
+    // V4: Read from global ML data
+    const completionRecords = this.globalML.completionRecords;
+    const priorityChangeEvents = this.globalML.priorityChangeEvents;
+    const taskSelectionEvents = this.globalML.taskSelectionEvents;
+    const queueRebalanceEvents = this.globalML.queueRebalanceEvents;
+    const contextSwitchEvents = this.globalML.contextSwitchEvents;
+    // V4.3: Archived tasks are still training data
+    const tasks = [...this.getTaskArray(), ...(this.db.archive ?? [])];
+    const customFieldSchema = this.db.customFields ?? [];
+
+    // V4.3: Compacted events still count towards totals and accuracy
+    const compactedSummaries = this.globalML.compactedSummaries ?? {};
+    const compacted: Partial<Record<RetainedEventType, number>> = {};
+    for (const [type, summary] of Object.entries(compactedSummaries)) {
+      compacted[type as RetainedEventType] = summary.count;
+    }
+    const compactedSelections = compactedSummaries.taskSelectionEvents;
+
+    const topSelections = taskSelectionEvents.filter(e => e.wasTopSelected).length
+      + (compactedSelections?.tallies.topSelected ?? 0);
+    const totalSelections = taskSelectionEvents.length + (compacted.taskSelectionEvents ?? 0);
+    const selectionAccuracy = totalSelections > 0
+      ? (topSelections / totalSelections) * 100
+      : 0;
+
+    // Data quality metrics
+    const completionsWithScores = completionRecords.filter(
+      r => r.initialPriorityScore !== undefined
+    ).length;
+    // V4.0: Track completions with actual work time data
+    const completionsWithWorkTime = completionRecords.filter(
+      r => r.actualWorkTime !== undefined
+    ).length;
+    const tasksWithEffort = tasks.filter(t => t.effort).length;
+    const tasksWithDependencies = tasks.filter(
+      t => t.dependencies && t.dependencies.length > 0
+    ).length;
+
+    // Priority mapping
+    const priorityMap: Record<string, number> = { P0: 0, P1: 1, P2: 2, P3: 3 };
+    const effortMap: Record<string, number> = { low: 1, medium: 2, high: 3 };
+
+    // V4.3: Count switches per task from the persisted log (up to completion time)
+    const contextSwitchesFor = (taskId: string, until: string) =>
+      contextSwitchEvents.filter(e => e.fromTaskId === taskId && e.timestamp <= until).length;
+
+    // ML-ready completions with defaults for missing values
+    const mlCompletions = completionRecords.map(r => {
+      const task = this.taskMap.get(r.taskId);
+      const initialScore = r.initialPriorityScore ?? task?.priorityScore ?? 0;
+      const finalScore = r.finalPriorityScore ?? task?.priorityScore ?? 0;
+      // V4.0: Include work time and queue time separately
+      const hasWorkTime = r.actualWorkTime !== undefined;
+      const queueTimeHours = hasWorkTime && r.startedAt
+        ? Math.round(((new Date(r.startedAt).getTime() - new Date(task?.createdAt || r.startedAt).getTime()) / (1000 * 60 * 60)) * 100) / 100
+        : r.actualCompletionTime;  // Fallback: use total time as queue time
+      return {
+        taskId: r.taskId,
+        completionTimeHours: r.actualCompletionTime,
+        workTimeHours: r.actualWorkTime ?? r.actualCompletionTime,  // Fallback: use total time
+        queueTimeHours,
+        hasWorkTimeData: hasWorkTime ? 1 : 0,  // Flag for ML to know if data is reliable
+        wasBlocking: r.wasBlocking ? 1 : 0,
+        contextSwitchCount: Math.max(r.contextSwitchCount, contextSwitchesFor(r.taskId, r.completedAt)),
+        outcome: r.outcome,
+        initialScore,
+        finalScore,
+        scoreDelta: finalScore - initialScore,
+      };
+    });
+
+    // ML-ready tasks with defaults for missing values
+    const mlTasks = tasks.map(t => ({
+      id: t.id,
+      priority: priorityMap[t.priority] ?? 1,
+      priorityScore: t.priorityScore,
+      effort: effortMap[t.effort || 'medium'] ?? 2,  // Default: medium
+      blockingCount: t.weights?.blockingCount ?? 0,
+      crossProjectImpact: t.weights?.crossProjectImpact ?? 0,
+      timeSensitivity: t.weights?.timeSensitivity ?? 0,
+      effortValueRatio: t.weights?.effortValueRatio ?? 5,
+      dependencyDepth: t.weights?.dependencyDepth ?? 0,
+      hasDependencies: (t.dependencies && t.dependencies.length > 0) ? 1 : 0,
+      hasBlocking: t.blocking ? 1 : 0,
+      ...(customFieldSchema.length > 0 && { customFields: customFieldFeatures(customFieldSchema, t.customFields) }),
+    }));
+
+    // ML-ready rebalance events
+    const mlRebalances = queueRebalanceEvents.map(r => ({
+      trigger: r.trigger,
+      queueSizeBefore: r.queueSizeBefore,
+      queueSizeAfter: r.queueSizeAfter,
+      significantChangeCount: r.significantChanges.length,
+      topTaskChanged: r.topTasksBefore[0] !== r.topTasksAfter[0] ? 1 : 0,
+    }));
+
+    // Rebalances with significant changes
+    const rebalancesWithSignificantChanges = queueRebalanceEvents.filter(
+      r => r.significantChanges.length > 0
+    ).length;
+
+    // V4.1: Count selections with pairwise data and total pairs
+    const selectionsWithPairwiseData = taskSelectionEvents.filter(
+      e => e.implicitPreferences && e.implicitPreferences.length > 0
+    ).length;
+    const totalSelectionPairs = taskSelectionEvents.reduce(
+      (sum, e) => sum + (e.implicitPreferences?.length || 0), 0
+    );
+
+    // V4.1: ML-ready selection pairwise preferences
+    const mlSelectionPairs: Array<{
+      preferredTaskId: string;
+      skippedTaskId: string;
+      scoreDiff: number;
+      timestamp: string;
+      queueSize: number;
+    }> = [];
+    for (const event of taskSelectionEvents) {
+      if (event.implicitPreferences) {
+        for (const pref of event.implicitPreferences) {
+          mlSelectionPairs.push({
+            preferredTaskId: pref.preferredTaskId,
+            skippedTaskId: pref.skippedTaskId,
+            scoreDiff: pref.scoreDiff,
+            timestamp: event.timestamp,
+            queueSize: event.queueSize,
+          });
+        }
+      }
+    }
+
+    // V4.2: Decision metrics
+    const decisions = this.globalML.decisions;
+    const skipDecisions = decisions.filter(d => d.decisionType === 'skip');
+    const decisionsWithSkipData = decisions.filter(
+      d => d.decisionType === 'skip' && d.skippedTaskId && d.selectedTaskId
+    ).length;
+    const decisionsLinkedToSelections = decisions.filter(d => d.selectionEventId).length;
+
+    const mlDecisions = decisions.map(d => ({
+      id: d.id,
+      decisionType: d.decisionType || 'other',
+      relatedTaskId: d.relatedTaskId || null,
+      skippedTaskId: d.skippedTaskId || null,
+      selectedTaskId: d.selectedTaskId || null,
+      rankDelta: d.rankDelta || 0,
+      hasLinkedSelectionEvent: d.selectionEventId ? 1 : 0,
+      timestamp: d.createdAt,
+    }));
+
+    return {
+      completionRecords,
+      priorityChangeEvents,
+      taskSelectionEvents,
+      queueRebalanceEvents,
+      contextSwitchEvents,
+      decisions,
+      tasks,
+      heuristicWeights: this.globalML.heuristicWeights,
+      customFieldSchema,
+      compactedSummaries,
+      summary: {
+        totalCompletions: completionRecords.length,
+        totalPriorityChanges: priorityChangeEvents.length + (compacted.priorityChangeEvents ?? 0),
+        totalSelections,
+        totalRebalances: queueRebalanceEvents.length + (compacted.queueRebalanceEvents ?? 0),
+        totalContextSwitches: contextSwitchEvents.length,
+        totalDecisions: decisions.length,
+        totalSkipDecisions: skipDecisions.length,
+        selectionAccuracy,
+        compacted,
+        dataQuality: {
+          completionsWithScores,
+          completionsWithWorkTime,  // V4.0: Tracks how many have actual work duration
+          tasksWithEffort,
+          tasksWithDependencies,
+          rebalancesWithSignificantChanges,
+          selectionsWithPairwiseData,  // V4.1: Selections with skipped task data
+          totalSelectionPairs,  // V4.1: Total pairwise preferences from selections
+          decisionsWithSkipData,
+          decisionsLinkedToSelections,
+        },
+      },
+      mlReady: {
+        completions: mlCompletions,
+        tasks: mlTasks,
+        rebalances: mlRebalances,
+        selectionPairs: mlSelectionPairs,  // V4.1: Pairwise preferences from task selections
+        decisions: mlDecisions,
+      },
+    };
+  }
+
+  // ========== V4.2: Backfill Skip Decisions ==========
+
+  async backfillSkipDecisions(dryRun: boolean = false): Promise<{
+    created: number;
+    skipped: number;
+    details: Array<{ selectionEventId: string; selectedTaskId: string; topTaskId: string; rankDelta: number }>;
+  }> {
+    const existingLinkedEventIds = new Set(
+      this.globalML.decisions
+        .filter(d => d.selectionEventId)
+        .map(d => d.selectionEventId)
+    );
+
+    const toCreate: Decision[] = [];
+
+    for (const event of this.globalML.taskSelectionEvents) {
+      if (event.wasTopSelected) continue;
+      if (existingLinkedEventIds.has(event.id)) continue;
+
+      const selectedTask = this.taskMap.get(event.selectedTaskId);
+      const topTask = this.taskMap.get(event.topTaskId);
+
+      const decision: Decision = {
+        id: uuidv4(),
+        date: event.timestamp.split('T')[0],
+        decision: `[Backfilled] Selected "${selectedTask?.task || event.selectedTaskId}" (rank ${event.selectedTaskRank + 1}) over recommended "${topTask?.task || event.topTaskId}" (rank 1)`,
+        rationale: `Reconstructed from TaskSelectionEvent ${event.id}. Rank ${event.selectedTaskRank + 1}/${event.queueSize}, score diff: ${event.selectedTaskScore - event.topTaskScore}.`,
+        createdAt: event.timestamp,
+        decisionType: 'skip',
+        relatedTaskId: event.selectedTaskId,
+        skippedTaskId: event.topTaskId,
+        selectedTaskId: event.selectedTaskId,
+        rankDelta: event.selectedTaskRank,
+        selectionEventId: event.id,
+        workspaceId: event.workspaceId,
+      };
+      toCreate.push(decision);
+    }
+
+    if (!dryRun && toCreate.length > 0) {
+      this.globalML.decisions.push(...toCreate);
+      for (const d of toCreate) {
+        if (d.workspaceId === this.currentWorkspaceId) {
+          this.db.decisions.push(d);
+          this.recordOperation('decision', 'create', null, d);
+        }
+      }
+      await this.saveGlobalML();
+      await this.save();
+      console.log(`📊 V4.2: Backfilled ${toCreate.length} skip decisions from historical selection events`);
+    }
+
+    const alreadyLinked = this.globalML.taskSelectionEvents.filter(
+      e => !e.wasTopSelected && existingLinkedEventIds.has(e.id)
+    ).length;
+
+    return {
+      created: dryRun ? 0 : toCreate.length,
+      skipped: alreadyLinked,
+      details: toCreate.map(d => ({
+        selectionEventId: d.selectionEventId!,
+        selectedTaskId: d.selectedTaskId!,
+        topTaskId: d.skippedTaskId!,
+        rankDelta: d.rankDelta!,
+      })),
+    };
+  }
+
+  // ========== V3.2: Online Learning Methods ==========
+
+  /**
+   * V3.2: Log a drag-and-drop reorder event and optionally update weights
+   * This is the core entry point for the online learning system.
+   * 
+   * @param dto - The drag reorder data from the frontend
+   * @returns The created DragReorderEvent with applied weight updates
+   */
+  async logDragReorder(dto: LogDragReorderDTO): Promise<DragReorderEvent> {
+    const { taskId, fromRank, toRank } = dto;
+    
+    // Get current sorted queue (non-completed tasks only)
+    const sortedTasks = this.taskHeap.toSortedArray().filter(t => t.status !== 'complete');
+    const draggedTask = sortedTasks.find(t => t.id === taskId);
+    
+    if (!draggedTask) {
+      throw new Error(`Task ${taskId} not found in queue`);
+    }
+    
+    const direction = toRank < fromRank ? 'promoted' : 'demoted';
+    
+    // Generate implicit pairwise preferences
+    // If promoted (moved up), we prefer dragged task over tasks it passed
+    // If demoted (moved down), tasks it passed are preferred over it
+    const implicitPreferences: DragReorderEvent['implicitPreferences'] = [];
+    const tasksPassedIds: string[] = [];
+    
+    if (direction === 'promoted') {
+      // Task moved from rank 5 to rank 2 → prefers over tasks at 2, 3, 4
+      for (let i = toRank; i < fromRank; i++) {
+        if (i < sortedTasks.length) {
+          const passedTask = sortedTasks[i];
+          tasksPassedIds.push(passedTask.id);
+          implicitPreferences.push({
+            preferredTaskId: taskId,
+            demotedTaskId: passedTask.id,
+            scoreDiff: draggedTask.priorityScore - passedTask.priorityScore,
+          });
+        }
+      }
+    } else {
+      // Task moved from rank 2 to rank 5 → tasks at 3, 4, 5 preferred over it
+      for (let i = fromRank + 1; i <= toRank; i++) {
+        if (i < sortedTasks.length) {
+          const passedTask = sortedTasks[i];
+          tasksPassedIds.push(passedTask.id);
+          implicitPreferences.push({
+            preferredTaskId: passedTask.id,
+            demotedTaskId: taskId,
+            scoreDiff: passedTask.priorityScore - draggedTask.priorityScore,
+          });
+        }
+      }
+    }
+    
+    // V4.3: Snapshot learner state so the drag can be undone
+    const weightsBefore = { ...this.globalML.heuristicWeights };
+    const learnerStateBefore = structuredClone(this.globalML.onlineLearnerState);
+
+    // Compute weight update if online learning is enabled (from global ML state)
+    let appliedWeightDelta: Partial<HeuristicWeights> | undefined;
+    const learnerState = this.globalML.onlineLearnerState;
+    
+    if (learnerState.enabled && implicitPreferences.length > 0) {
+      appliedWeightDelta = await this.computeOnlineWeightUpdate(
+        implicitPreferences,
+        sortedTasks,
+        learnerState
+      );
+    }
+    
+    // Create the drag event
+    const event: DragReorderEvent = {
+      id: uuidv4(),
+      taskId,
+      fromRank,
+      toRank,
+      direction,
+      timestamp: new Date().toISOString(),
+      implicitPreferences,
+      draggedTaskFeatures: {
+        priority: draggedTask.priority,
+        priorityScore: draggedTask.priorityScore,
+        weights: draggedTask.weights,
+        effort: draggedTask.effort,
+        hasDeadline: !!draggedTask.deadline,
+        hasBlocking: !!draggedTask.blocking,
+        hasDependencies: !!(draggedTask.dependencies && draggedTask.dependencies.length > 0),
+      },
+      appliedWeightDelta,
+      queueSize: sortedTasks.length,
+      tasksPassedIds,
+      // V4: Tag with workspace for ML filtering
+      workspaceId: this.currentWorkspaceId || undefined,
+    };
+    
+    // V4: Store in global ML file
+    this.globalML.dragReorderEvents.push(event);
+    
+    // Update learner state in global ML
+    this.globalML.onlineLearnerState.totalUpdates++;
+    this.globalML.onlineLearnerState.lastUpdateTimestamp = new Date().toISOString();
+    this.globalML.onlineLearnerState.totalPairs += implicitPreferences.length;
+    
+    // Count correct predictions (where heuristics agreed with user)
+    const correctCount = implicitPreferences.filter(p => p.scoreDiff < 0).length;
+    this.globalML.onlineLearnerState.correctPredictions += correctCount;
+    
+    console.log(`📊 V3.2: Logged drag reorder: ${taskId} ${fromRank} → ${toRank} (${direction})`);
+    console.log(`  ↳ Generated ${implicitPreferences.length} pairwise preferences`);
+    if (appliedWeightDelta) {
+      console.log(`  ↳ Applied weight update:`, appliedWeightDelta);
+    }
+
+    this.recordUndo({
+      action: 'logDragReorder',
+      taskId,
+      description: `Move "${draggedTask.task}" from #${fromRank + 1} to #${toRank + 1}`,
+      taskBefore: null,
+      taskAfter: null,
+      dragEvent: event,
+      weightsBefore,
+      weightsAfter: { ...this.globalML.heuristicWeights },
+      learnerStateBefore,
+      learnerStateAfter: structuredClone(this.globalML.onlineLearnerState),
+    });
+    
+    // V4: Save global ML data
+    await this.saveGlobalML();
+    await this.save();
+    return event;
+  }
+
+  /**
+   * V3.2: Compute and apply weight updates using SGD with momentum
+   * 
+   * The loss function is pairwise ranking loss (hinge loss):
+   *   L = Σ max(0, margin - (score_preferred - score_demoted))
+   * 
+   * Gradient update moves weights to increase score of preferred task
+   * relative to demoted task.
+   */
+  private async computeOnlineWeightUpdate(
+    preferences: DragReorderEvent['implicitPreferences'],
+    sortedTasks: WeightedTask[],
+    learnerState: OnlineLearnerState
+  ): Promise<Partial<HeuristicWeights>> {
+    const { learningRate, momentum, maxWeightChange, minWeight, maxWeight } = learnerState;
+    const taskMap = new Map(sortedTasks.map(t => [t.id, t]));
+    
+    // Accumulate gradients across all preferences
+    const gradient: HeuristicWeights = {
+      blocking: 0,
+      crossProject: 0,
+      timeSensitive: 0,
+      effortValue: 0,
+      dependency: 0,
+    };
+    
+    const margin = 1.0; // Hinge loss margin
+    let totalLoss = 0;
+    
+    for (const pref of preferences) {
+      const preferred = taskMap.get(pref.preferredTaskId);
+      const demoted = taskMap.get(pref.demotedTaskId);
+      
+      if (!preferred || !demoted) continue;
+      
+      // Current score difference (should be negative for correct prediction)
+      const scoreDiff = preferred.priorityScore - demoted.priorityScore;
+      
+      // Hinge loss: max(0, margin + scoreDiff)
+      // We want preferred.score < demoted.score (lower score = higher priority)
+      const loss = Math.max(0, margin + scoreDiff);
+      totalLoss += loss;
+      
+      if (loss > 0) {
+        // Gradient: ∂L/∂w_i = (feature_preferred - feature_demoted)
+        // We want to DECREASE score of preferred and INCREASE score of demoted
+        // Since score = base - weighted_sum, we need to INCREASE features of preferred
+        const prefWeights = preferred.weights;
+        const demWeights = demoted.weights;
+        
+        gradient.blocking += (prefWeights.blockingCount - demWeights.blockingCount);
+        gradient.crossProject += (prefWeights.crossProjectImpact - demWeights.crossProjectImpact);
+        gradient.timeSensitive += (prefWeights.timeSensitivity - demWeights.timeSensitivity);
+        gradient.effortValue += (prefWeights.effortValueRatio - demWeights.effortValueRatio);
+        gradient.dependency += (prefWeights.dependencyDepth - demWeights.dependencyDepth);
+      }
+    }
+    
+    // Normalize gradient by number of preferences
+    const n = preferences.length || 1;
+    gradient.blocking /= n;
+    gradient.crossProject /= n;
+    gradient.timeSensitive /= n;
+    gradient.effortValue /= n;
+    gradient.dependency /= n;
+    
+    // Apply momentum
+    const momentumBuffer = learnerState.momentumBuffer;
+    momentumBuffer.blocking = momentum * momentumBuffer.blocking + gradient.blocking;
+    momentumBuffer.crossProject = momentum * momentumBuffer.crossProject + gradient.crossProject;
+    momentumBuffer.timeSensitive = momentum * momentumBuffer.timeSensitive + gradient.timeSensitive;
+    momentumBuffer.effortValue = momentum * momentumBuffer.effortValue + gradient.effortValue;
+    momentumBuffer.dependency = momentum * momentumBuffer.dependency + gradient.dependency;
+    
+    // Compute weight delta (clamped)
+    const clamp = (val: number) => Math.max(-maxWeightChange, Math.min(maxWeightChange, val));
+    const weightDelta: Partial<HeuristicWeights> = {
+      blocking: clamp(learningRate * momentumBuffer.blocking),
+      crossProject: clamp(learningRate * momentumBuffer.crossProject),
+      timeSensitive: clamp(learningRate * momentumBuffer.timeSensitive),
+      effortValue: clamp(learningRate * momentumBuffer.effortValue),
+      dependency: clamp(learningRate * momentumBuffer.dependency),
+    };
+    
+    // Apply to weights (with min/max bounds)
+    const bound = (val: number) => Math.max(minWeight, Math.min(maxWeight, val));
+    const newWeights: HeuristicWeights = {
+      blocking: bound(this.globalML.heuristicWeights.blocking + (weightDelta.blocking || 0)),
+      crossProject: bound(this.globalML.heuristicWeights.crossProject + (weightDelta.crossProject || 0)),
+      timeSensitive: bound(this.globalML.heuristicWeights.timeSensitive + (weightDelta.timeSensitive || 0)),
+      effortValue: bound(this.globalML.heuristicWeights.effortValue + (weightDelta.effortValue || 0)),
+      dependency: bound(this.globalML.heuristicWeights.dependency + (weightDelta.dependency || 0)),
+    };
+    
+    // Only update if there's meaningful change
+    const hasChange = Object.values(weightDelta).some(v => v && Math.abs(v) > 0.001);
+    if (hasChange) {
+      this.globalML.heuristicWeights = newWeights;
+      
+      // Recalculate all task scores with new weights
+      const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+      this.taskMap.clear();
+      for (const task of recalculated) {
+        this.taskMap.set(task.id, task);
+      }
+      this.rebuildHeap();
+      
+      // Track cumulative loss in global ML state
+      this.globalML.onlineLearnerState.cumulativeLoss += totalLoss;
+    }
+    
+    return weightDelta;
+  }
+
+  /**
+   * V3.2: Get current online learner state
+   * V4: Now from global ML data
+   */
+  async getOnlineLearnerState(): Promise<OnlineLearnerState> {
+    return this.globalML.onlineLearnerState;
+  }
+
+  /**
+   * V3.2: Update online learner configuration
+   * V4: Now stored in global ML data
+   */
+  async updateOnlineLearnerConfig(config: UpdateOnlineLearnerDTO): Promise<OnlineLearnerState> {
+    this.globalML.onlineLearnerState = {
+      ...this.globalML.onlineLearnerState,
+      ...config,
+    };
+    
+    await this.saveGlobalML();
+    console.log('📊 V3.2: Updated online learner config:', config);
+    return this.globalML.onlineLearnerState;
+  }
+
+  /**
+   * V3.2: Get all drag reorder events
+   * V4: Now from global ML data
+   */
+  async getDragReorderEvents(): Promise<DragReorderEvent[]> {
+    return this.globalML.dragReorderEvents;
+  }
+
+  /**
+   * V3.2: Get online learning accuracy metrics
+   * V4: Now from global ML data
+   */
+  async getOnlineLearnerMetrics(): Promise<{
+    totalUpdates: number;
+    totalPairs: number;
+    correctPredictions: number;
+    accuracy: number;
+    cumulativeLoss: number;
+    currentWeights: HeuristicWeights;
+    learningRate: number;
+    enabled: boolean;
+  }> {
+    const state = this.globalML.onlineLearnerState;
+    const accuracy = state.totalPairs > 0 
+      ? (state.correctPredictions / state.totalPairs) * 100 
+      : 0;
+    
+    return {
+      totalUpdates: state.totalUpdates,
+      totalPairs: state.totalPairs,
+      correctPredictions: state.correctPredictions,
+      accuracy: Math.round(accuracy * 100) / 100,
+      cumulativeLoss: Math.round(state.cumulativeLoss * 100) / 100,
+      currentWeights: this.globalML.heuristicWeights,
+      learningRate: state.learningRate,
+      enabled: state.enabled,
+    };
+  }
+
+  // ========== V4.3: Operation Journal ==========
+
+  /**
+   * V4.3: Journal entries for the current workspace, oldest first
+   */
+  async getJournal(query: JournalQuery = {}): Promise<JournalEntry[]> {
+    return filterJournal(this.readJournal(this.getWorkspaceKey()), query);
+  }
+
+  /**
+   * V4.3: Field-level history of one task, newest first. Null if the current
+   * workspace has no journal entries for it (never existed here, or predates the journal).
+   */
+  async getTaskHistory(id: string, limit?: number): Promise<TaskHistoryEntry[] | null> {
+    const history = toTaskHistory(this.readJournal(this.getWorkspaceKey()), id, limit);
+    return history.length > 0 || this.taskMap.has(id) ? history : null;
+  }
+
+  /**
+   * V4.3: The current workspace as it was at `timestamp` (read-only, scores recomputed)
+   */
+  async getWorkspaceAt(timestamp: string): Promise<ProgressDatabase> {
+    this.syncTasksArray();
+    const rebuilt = rollbackTo(this.db, this.readJournal(this.getWorkspaceKey()), timestamp);
+    rebuilt.tasks = recalculateAllScores(rebuilt.tasks, this.globalML.heuristicWeights, tagMultipliers(rebuilt.tags));
+    return rebuilt;
+  }
+
+  /**
+   * V4.3: Restore the current workspace to its state at `timestamp`.
+   * The restore itself is journaled (source: 'restore'), so it can be rolled back too.
+   * ML events (completion records, selections, ...) are left untouched.
+   */
+  async restoreWorkspaceTo(timestamp: string): Promise<{
+    restoredTo: string;
+    created: number;
+    updated: number;
+    deleted: number;
+  }> {
+    const rebuilt = await this.getWorkspaceAt(timestamp);
+    const { entries, created, updated, deleted } = diffWorkspace(this.db, rebuilt, this.currentWorkspaceId, 'restore');
+    if (entries.length > 0) {
+      this.appendJournal(this.getWorkspaceKey(), entries);
+    }
+    const summary = { restoredTo: timestamp, created, updated, deleted };
+
+    this.db.projects = rebuilt.projects;
+    this.db.decisions = rebuilt.decisions;
+    this.db.dataGaps = rebuilt.dataGaps;
+    this.taskMap.clear();
+    for (const task of rebuilt.tasks) {
+      this.taskMap.set(task.id, task);
+    }
+    this.rebuildHeap();
+    // Records brought back by the restore are no longer in the trash
+    const liveIds = new Set([...this.taskMap.keys(), ...this.db.projects.map(p => p.id)]);
+    this.db.trash = (this.db.trash ?? []).filter(e => !liveIds.has(e.entityId));
+    // Undo snapshots predate the restore and would no longer line up
+    this.undoStacks.clear(this.getWorkspaceKey());
+    await this.save();
+
+    console.log(`⏪ V4.3: Restored workspace to ${timestamp} (${summary.created} created, ${summary.updated} updated, ${summary.deleted} deleted)`);
+    return summary;
+  }
+
+  // ========== V4.3: Undo / Redo ==========
+
+  /**
+   * V4.3: Why a recorded change can no longer be reverted or re-applied (null if it can).
+   * A task that is gone stays gone, and one that was archived or trashed since is
+   * not recreated beside its archived or trashed copy.
+   */
+  private findUndoConflict(entry: UndoEntry, direction: 'undo' | 'redo'): string | null {
+    if (entry.action === 'logDragReorder') return null;
+    const target = direction === 'undo' ? entry.taskBefore : entry.taskAfter;
+    if (this.taskMap.has(entry.taskId)) return null;
+    if (!target) {
+      return `task ${entry.taskId} no longer exists`;
+    }
+    if ((this.db.archive ?? []).some(t => t.id === entry.taskId)) {
+      return `task ${entry.taskId} has been archived`;
+    }
+    if ((this.db.trash ?? []).some(e => e.entityId === entry.taskId && e.id !== entry.trashEntry?.id)) {
+      return `task ${entry.taskId} is in the trash`;
+    }
+    return null;
+  }
+
+  /**
+   * V4.3: Apply an undo/redo entry, or drop it from the history if it no longer applies
+   */
+  private async applyOrDiscardUndoEntry(
+    entry: UndoEntry,
+    direction: 'undo' | 'redo',
+    actor?: string
+  ): Promise<WeightedTask | null> {
+    const conflict = this.findUndoConflict(entry, direction);
+    if (conflict) {
+      this.undoStacks.discard(this.getWorkspaceKey(), entry.id);
+      throw new StorageValidationError(
+        `Cannot ${direction} ${entry.description}: ${conflict}. The change was dropped from the history.`
+      );
+    }
+    return this.applyUndoEntry(entry, direction, actor);
+  }
+
+  /**
+   * V4.3: Revert (undo) or re-apply (redo) one recorded change.
+   * Task changes restore the stored snapshot; completions also retract or
+   * re-add the TaskCompletionRecord; drags restore weights and learner state.
+   */
+  private async applyUndoEntry(entry: UndoEntry, direction: 'undo' | 'redo', actor?: string): Promise<WeightedTask | null> {
+    const undoing = direction === 'undo';
+
+    if (entry.action === 'logDragReorder') {
+      const weights = undoing ? entry.weightsBefore : entry.weightsAfter;
+      const learnerState = undoing ? entry.learnerStateBefore : entry.learnerStateAfter;
+      if (weights) this.globalML.heuristicWeights = { ...weights };
+      if (learnerState) this.globalML.onlineLearnerState = structuredClone(learnerState);
+      if (entry.dragEvent) {
+        this.globalML.dragReorderEvents = this.globalML.dragReorderEvents.filter(e => e.id !== entry.dragEvent!.id);
+        if (!undoing) this.globalML.dragReorderEvents.push(structuredClone(entry.dragEvent));
+      }
+    } else {
+      const target = undoing ? entry.taskBefore : entry.taskAfter;
+      const current = this.taskMap.get(entry.taskId) ?? null;
+      if (target) {
+        // Snapshots carry old revisions; keep the counter moving forward
+        const revision = Math.max(current?.revision ?? 0, target.revision ?? 0) + 1;
+        this.taskMap.set(entry.taskId, { ...structuredClone(target), revision });
+      } else {
+        this.taskMap.delete(entry.taskId);
+      }
+      const operation: JournalOperation = !current ? 'create' : !target ? 'delete' : 'update';
+      this.recordOperation('task', operation, current, this.taskMap.get(entry.taskId) ?? null, direction, actor);
+
+      if (entry.trashEntry) {
+        const trashId = entry.trashEntry.id;
+        this.db.trash = (this.db.trash ?? []).filter(e => e.id !== trashId);
+        if (!undoing) this.db.trash.push(structuredClone(entry.trashEntry));
+      }
+
+      if (entry.completionRecord) {
+        const recordId = entry.completionRecord.id;
+        this.globalML.completionRecords = this.globalML.completionRecords.filter(r => r.id !== recordId);
+        if (!undoing) this.globalML.completionRecords.push(structuredClone(entry.completionRecord));
+      }
+
+      // Dependents the completion unblocked go back to blocked (and forward again on redo)
+      for (const { before, after } of entry.unblocked ?? []) {
+        const dependent = this.taskMap.get(before.id);
+        if (!dependent) continue;
+        const restored = { ...structuredClone(undoing ? before : after), revision: (dependent.revision ?? 0) + 1 };
+        this.taskMap.set(before.id, restored);
+        this.recordOperation('task', 'update', dependent, restored, direction, actor);
+      }
+
+      if (entry.nextInstance) {
+        const instanceId = entry.nextInstance.id;
+        const instance = this.taskMap.get(instanceId) ?? null;
+        if (undoing && instance) {
+          this.taskMap.delete(instanceId);
+          this.recordOperation('task', 'delete', instance, null, direction, actor);
+        } else if (!undoing && !instance) {
+          this.taskMap.set(instanceId, structuredClone(entry.nextInstance));
+          this.recordOperation('task', 'create', null, entry.nextInstance, direction, actor);
+        }
+      }
+    }
+
+    // Scores depend on the whole graph (and on the weights for drags)
+    const recalculated = recalculateAllScores(this.getTaskArray(), this.globalML.heuristicWeights, tagMultipliers(this.db.tags));
+    this.taskMap.clear();
+    for (const task of recalculated) {
+      this.taskMap.set(task.id, task);
+    }
+    this.rebuildHeap();
+
+    await this.saveGlobalML();
+    await this.save();
+    return this.taskMap.get(entry.taskId) ?? null;
+  }
+
+  /**
+   * V4.3: Undo the most recent change in the current workspace (null if nothing to undo)
+   */
+  async undo(options: { actor?: string } = {}): Promise<UndoResult | null> {
+    const workspaceKey = this.getWorkspaceKey();
+    const entry = this.undoStacks.peekUndo(workspaceKey);
+    if (!entry) return null;
+
+    const task = await this.applyOrDiscardUndoEntry(entry, 'undo', options.actor);
+    this.undoStacks.commitUndo(workspaceKey);
+    console.log(`↩️  V4.3: Undid ${entry.action} (${entry.description})`);
+    return { direction: 'undo', change: summarizeUndoEntry(entry), task };
+  }
+
+  /**
+   * V4.3: Re-apply the most recently undone change (null if nothing to redo)
+   */
+  async redo(options: { actor?: string } = {}): Promise<UndoResult | null> {
+    const workspaceKey = this.getWorkspaceKey();
+    const entry = this.undoStacks.peekRedo(workspaceKey);
+    if (!entry) return null;
+
+    const task = await this.applyOrDiscardUndoEntry(entry, 'redo', options.actor);
+    this.undoStacks.commitRedo(workspaceKey);
+    console.log(`↪️  V4.3: Redid ${entry.action} (${entry.description})`);
+    return { direction: 'redo', change: summarizeUndoEntry(entry), task };
+  }
+
+  async getUndoHistory(): Promise<UndoHistory> {
+    return this.undoStacks.history(this.getWorkspaceKey());
+  }
+
+  // ========== V4.3: ML Event Retention ==========
+
+  async getRetentionConfig(): Promise<RetentionConfig> {
+    return structuredClone(this.globalML.retention ?? DEFAULT_RETENTION_CONFIG);
+  }
+
+  /**
+   * V4.3: Change retention policies; a null policy keeps that event type forever
+   */
+  async updateRetentionConfig(dto: UpdateRetentionDTO): Promise<RetentionConfig> {
+    const config = await this.getRetentionConfig();
+
+    for (const [type, policy] of Object.entries(dto.policies ?? {})) {
+      if (!RETAINED_EVENT_TYPES.includes(type as RetainedEventType)) {
+        throw new StorageValidationError(
+          `Unknown event type '${type}' (expected one of: ${RETAINED_EVENT_TYPES.join(', ')})`
+        );
+      }
+      if (policy === null) {
+        delete config.policies[type as RetainedEventType];
+        continue;
+      }
+      for (const limit of ['maxAgeDays', 'maxCount'] as const) {
+        const value = policy[limit];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          throw new StorageValidationError(`${type}.${limit} must be a non-negative number`);
+        }
+      }
+      config.policies[type as RetainedEventType] = {
+        ...(policy.maxAgeDays !== undefined && { maxAgeDays: policy.maxAgeDays }),
+        ...(policy.maxCount !== undefined && { maxCount: Math.floor(policy.maxCount) }),
+      };
+    }
+
+    if (dto.scheduleHours !== undefined) {
+      if (typeof dto.scheduleHours !== 'number' || !Number.isFinite(dto.scheduleHours) || dto.scheduleHours < 0) {
+        throw new StorageValidationError('scheduleHours must be a non-negative number');
+      }
+      config.scheduleHours = dto.scheduleHours;
+    }
+
+    this.globalML.retention = config;
+    await this.saveGlobalML();
+    return structuredClone(config);
+  }
+
+  /**
+   * V4.3: Apply retention policies to the global ML event logs. Evicted events are
+   * appended to the archive and rolled into compactedSummaries (still reported by
+   * exportTrainingData). With dryRun, reports what would be evicted without writing.
+   */
+  async compactMLEvents(options: { dryRun?: boolean } = {}): Promise<CompactionReport> {
+    const dryRun = options.dryRun ?? false;
+    const config = await this.getRetentionConfig();
+    const now = new Date();
+    // Compact a copy: the live log only loses events once they are archived
+    const target: GlobalMLDatabase = { ...this.globalML };
+
+    const evicted = compactEvents(target, config.policies, now);
+    const report: CompactionReport = {
+      dryRun,
+      compactedAt: now.toISOString(),
+      evicted: {},
+      remaining: {
+        queueRebalanceEvents: target.queueRebalanceEvents.length,
+        dragReorderEvents: target.dragReorderEvents.length,
+        taskSelectionEvents: target.taskSelectionEvents.length,
+        priorityChangeEvents: target.priorityChangeEvents.length,
+      },
+    };
+    for (const [type, events] of Object.entries(evicted)) {
+      report.evicted[type as RetainedEventType] = events.length;
+    }
+    if (dryRun) return report;
+
+    const archived: ArchivedMLEvent[] = Object.entries(evicted).flatMap(([type, events]) =>
+      events.map(event => ({ eventType: type as RetainedEventType, archivedAt: report.compactedAt, event }))
+    );
+    if (archived.length > 0) {
+      // Archive before dropping the events from the live log
+      report.archivePath = this.archiveMLEvents(archived);
+    }
+    Object.assign(this.globalML, target);
+    this.undoStacks.dropDragEvents(new Set((evicted.dragReorderEvents ?? []).map(e => e.id)));
+
+    this.globalML.retention = { ...config, lastCompactedAt: report.compactedAt };
+    await this.saveGlobalML();
+
+    if (archived.length > 0) {
+      console.log(`🗜️  V4.3: Compacted ${archived.length} ML events into summaries (archive: ${report.archivePath})`);
+    }
+    return report;
+  }
+
+  /**
+   * V4.3: Compact if the configured schedule is due; returns null when not due
+   */
+  async runScheduledCompaction(now: Date = new Date()): Promise<CompactionReport | null> {
+    const config = await this.getRetentionConfig();
+    if (config.scheduleHours <= 0) return null;
+    if (config.lastCompactedAt) {
+      const dueAt = new Date(config.lastCompactedAt).getTime() + config.scheduleHours * 60 * 60 * 1000;
+      if (now.getTime() < dueAt) return null;
+    }
+    return this.compactMLEvents();
+  }
+
+  // ========== V4.3: Trash (soft delete) ==========
+
+  /**
+   * V4.3: Put a deleted task/project into the current workspace's trash
+   */
+  private moveToTrash(
+    entity: TrashEntity,
+    record: WeightedTask | Project,
+    actor: string,
+    deletedWithProject?: string
+  ): TrashEntry {
+    const entry: TrashEntry = {
+      id: uuidv4(),
+      entity,
+      entityId: record.id,
+      record: structuredClone(record),
+      deletedAt: new Date().toISOString(),
+      deletedBy: actor,
+      ...(deletedWithProject && { deletedWithProject }),
+    };
+    (this.db.trash ??= []).push(entry);
+    return entry;
+  }
+
+  async getTrash(): Promise<TrashListing> {
+    return {
+      retentionDays: this.db.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+      items: [...(this.db.trash ?? [])].reverse(),
+    };
+  }
+
+  /**
+   * V4.3: Restore a trash entry (by entry ID, or the latest entry for a task/project ID).
+   * Restoring a project also restores the tasks trashed with it. Returns null if not found.
+   */
+  async restoreFromTrash(id: string, options: { actor?: string } = {}): Promise<RestoreFromTrashResult | null> {
+    const trash = this.db.trash ?? [];
+    const entry = trash.find(e => e.id === id) ?? [...trash].reverse().find(e => e.entityId === id);
+    if (!entry) return null;
+
+    const restored = [
+      entry,
+      ...(entry.entity === 'project'
+        ? trash.filter(e => e.entity === 'task' && e.deletedWithProject === entry.entityId)
+        : []),
+    ];
+
+    for (const item of restored) {
+      const exists = item.entity === 'task'
+        ? this.taskMap.has(item.entityId)
+        : this.db.projects.some(p => p.id === item.entityId);
+      if (exists) {
+        throw new StorageValidationError(`A ${item.entity} with ID ${item.entityId} already exists`);
+      }
+    }
+    if (entry.entity === 'task') {
+      const project = (entry.record as WeightedTask).project;
+      const projectTrashed = trash.some(e =>
+        e.entity === 'project' && (e.entityId === project || (e.record as Project).name === project)
+      );
+      if (projectTrashed && !this.db.projects.some(p => p.id === project || p.name === project)) {
+        throw new StorageValidationError(`Project ${project} is in the trash; restore it first`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const item of restored) {
+      // Keep the revision counter moving forward across delete/restore
+      const record = { ...structuredClone(item.record), updatedAt: now, revision: item.record.revision + 1 };
+      if (item.entity === 'task') {
+        this.taskMap.set(record.id, record as WeightedTask);
+      } else {
+        this.db.projects.push(record as Project);
+      }
+      this.recordOperation(item.entity, 'create', null, record, undefined, options.actor);
+    }
+    this.db.trash = trash.filter(e => !restored.includes(e));
+
+    if (restored.some(e => e.entity === 'task')) {
+      this.recalculateScores();
+    }
+    await this.save();
+    return { restored };
+  }
+
+  /**
+   * V4.3: Permanently delete trash entries (all, by ID and/or older than N days).
+   * Purging a project also purges the tasks trashed with it.
+   */
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<PurgeTrashResult> {
+    const trash = this.db.trash ?? [];
+    if (options.olderThanDays !== undefined && !(options.olderThanDays >= 0)) {
+      throw new StorageValidationError('olderThanDays must be a non-negative number');
+    }
+    const cutoff = options.olderThanDays !== undefined
+      ? new Date(Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const selected = trash.filter(e =>
+      (!options.ids || options.ids.includes(e.id)) && (!cutoff || e.deletedAt < cutoff)
+    );
+    const purgedProjects = new Set(selected.filter(e => e.entity === 'project').map(e => e.entityId));
+    const purged = trash.filter(e =>
+      selected.includes(e) || (e.deletedWithProject !== undefined && purgedProjects.has(e.deletedWithProject))
+    );
+
+    if (purged.length > 0) {
+      this.db.trash = trash.filter(e => !purged.includes(e));
+      this.undoStacks.dropTasks(this.getWorkspaceKey(), new Set(purged.map(e => e.entityId)));
+      await this.save();
+    }
+    return { purged: purged.length, ids: purged.map(e => e.id) };
+  }
+
+  async setTrashRetention(days: number): Promise<TrashListing> {
+    if (typeof days !== 'number' || !Number.isFinite(days) || days < 0) {
+      throw new StorageValidationError('retentionDays must be a non-negative number');
+    }
+    this.db.trashRetentionDays = days;
+    await this.save();
+    return this.getTrash();
+  }
+
+  /**
+   * V4.3: Purge trash entries past each workspace's retention period (scheduled)
+   */
+  async purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+    let purged = 0;
+    for (const workspaceId of new Set([...this.listWorkspaceDbIds(), this.getWorkspaceKey()])) {
+      const isCurrent = workspaceId === this.getWorkspaceKey();
+      const db = isCurrent ? this.db : this.readWorkspaceDb(workspaceId);
+      const days = db?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+      if (!db?.trash?.length || days <= 0) continue;
+
+      const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+      const keep = db.trash.filter(e => e.deletedAt >= cutoff);
+      if (keep.length === db.trash.length) continue;
+
+      purged += db.trash.length - keep.length;
+      this.undoStacks.dropTasks(workspaceId, new Set(db.trash.filter(e => !keep.includes(e)).map(e => e.entityId)));
+      db.trash = keep;
+      if (isCurrent) {
+        await this.save();
+      } else {
+        await this.writeWorkspaceDb(workspaceId, db);
+      }
+    }
+    if (purged > 0) {
+      console.log(`🗑️  V4.3: Purged ${purged} expired trash entries`);
+    }
+    return purged;
+  }
+
+  // ========== V4.3: Archive of finished tasks ==========
+
+  /**
+   * V4.3: Search the current workspace's archive (paginated)
+   */
+  async getArchive(query: ArchiveQuery = {}): Promise<ArchiveListing> {
+    let archive = this.db.archive ?? [];
+    const project = query.project && this.db.projects.find(p => p.id === query.project || p.name === query.project);
+    if (project) {
+      // Tasks refer to their project by ID or by name
+      archive = archive.filter(t => t.project === project.id || t.project === project.name);
+    }
+    return {
+      archiveAfterDays: this.db.archiveAfterDays ?? DEFAULT_ARCHIVE_AFTER_DAYS,
+      ...searchArchive(archive, { ...query, project: project ? undefined : query.project }),
+    };
+  }
+
+  /**
+   * V4.3: Move a task from the archive back into the live queue. Its updatedAt is
+   * bumped so it is not archived again right away. Returns null if not archived.
+   */
+  async unarchiveTask(id: string): Promise<WeightedTask | null> {
+    const archive = this.db.archive ?? [];
+    const archived = archive.find(t => t.id === id);
+    if (!archived) return null;
+    if (this.taskMap.has(id)) {
+      throw new StorageValidationError(`A task with ID ${id} already exists`);
+    }
+
+    const { archivedAt: _archivedAt, ...task } = archived;
+    const restored: WeightedTask = { ...task, updatedAt: new Date().toISOString(), revision: task.revision + 1 };
+    this.taskMap.set(id, restored);
+    this.db.archive = archive.filter(t => t !== archived);
+    this.recalculateScores();
+    await this.save();
+    return this.taskMap.get(id) ?? restored;
+  }
+
+  async setArchiveAfterDays(days: number): Promise<ArchiveListing> {
+    if (typeof days !== 'number' || !Number.isFinite(days) || days < 0) {
+      throw new StorageValidationError('archiveAfterDays must be a non-negative number');
+    }
+    this.db.archiveAfterDays = days;
+    await this.save();
+    return this.getArchive();
+  }
+
+  /**
+   * V4.3: Archive the finished tasks older than each workspace's archiveAfterDays
+   * (scheduled). They leave the task map, heap and scoring passes.
+   */
+  async archiveCompletedTasks(now: Date = new Date()): Promise<number> {
+    let archived = 0;
+    for (const workspaceId of new Set([...this.listWorkspaceDbIds(), this.getWorkspaceKey()])) {
+      const isCurrent = workspaceId === this.getWorkspaceKey();
+      const db = isCurrent ? this.db : this.readWorkspaceDb(workspaceId);
+      if (!db) continue;
+      const tasks = isCurrent ? this.getTaskArray() : db.tasks;
+      const due = selectArchivable(tasks, db.archiveAfterDays ?? DEFAULT_ARCHIVE_AFTER_DAYS, now);
+      if (due.length === 0) continue;
+
+      const archivedAt = now.toISOString();
+      db.archive = [...(db.archive ?? []), ...due.map((t): ArchivedTask => ({ ...t, archivedAt }))];
+      archived += due.length;
+      this.undoStacks.dropTasks(workspaceId, new Set(due.map(t => t.id)));
+      if (isCurrent) {
+        for (const task of due) {
+          this.taskMap.delete(task.id);
+        }
+        this.recalculateScores();
+        await this.save();
+      } else {
+        const ids = new Set(due.map(t => t.id));
+        db.tasks = recalculateAllScores(
+          db.tasks.filter(t => !ids.has(t.id)),
+          this.globalML.heuristicWeights,
+          tagMultipliers(db.tags)
+        );
+        await this.writeWorkspaceDb(workspaceId, db);
+      }
+    }
+    if (archived > 0) {
+      console.log(`🗄️  V4.3: Archived ${archived} finished tasks`);
+    }
+    return archived;
+  }
+
+  // ========== V4.3: Snooze ==========
+
+  /**
+   * V4.3: Snoozed tasks of the current workspace, soonest to wake first
+   */
+  async getSnoozedTasks(): Promise<WeightedTask[]> {
+    return this.getTaskArray()
+      .filter(t => t.snoozedUntil)
+      .sort((a, b) => a.snoozedUntil!.localeCompare(b.snoozedUntil!));
+  }
+
+  /**
+   * V4.3: Hide a task from the queue until `until` (snoozing again moves the
+   * wake-up time). Returns null if the task does not exist.
+   */
+  async snoozeTask(
+    id: string,
+    until: string,
+    options: { expectedRevision?: number; actor?: string } = {}
+  ): Promise<WeightedTask | null> {
+    const task = this.taskMap.get(id);
+    if (!task) return null;
+    this.assertRevision('task', task, options.expectedRevision);
+    const snoozedUntil = validateSnooze(task, until, new Date());
+
+    const snoozed: WeightedTask = {
+      ...task,
+      snoozedUntil,
+      updatedAt: new Date().toISOString(),
+      revision: (task.revision ?? 0) + 1,
+    };
+    this.taskMap.set(id, snoozed);
+    this.taskHeap.remove(id);
+
+    this.recordOperation('task', 'update', task, snoozed, undefined, options.actor);
+    this.recordUndo({
+      action: 'updateTask',
+      taskId: id,
+      description: `Snooze "${task.task}" until ${snoozedUntil}`,
+      taskBefore: task,
+      taskAfter: snoozed,
+    });
+    await this.save();
+    return snoozed;
+  }
+
+  /**
+   * V4.3: Wake a snoozed task now (a task that is not snoozed is returned as is).
+   * Returns null if the task does not exist.
+   */
+  async unsnoozeTask(id: string, options: { actor?: string } = {}): Promise<WeightedTask | null> {
+    const task = this.taskMap.get(id);
+    if (!task) return null;
+    if (!task.snoozedUntil) return task;
+
+    const [woken] = this.wakeTasks([task], options.actor);
+    this.recordUndo({
+      action: 'updateTask',
+      taskId: id,
+      description: `Unsnooze "${task.task}"`,
+      taskBefore: task,
+      taskAfter: woken,
+    });
+    await this.saveGlobalML();
+    await this.save();
+    return woken;
+  }
+
+  /**
+   * V4.3: Clear the snooze of tasks in the current workspace, re-score them
+   * (deadlines moved closer while they slept) and put them back in the heap.
+   * Logs a 'tasks_woken' rebalance event; the caller saves.
+   */
+  private wakeTasks(tasks: WeightedTask[], actor?: string): WeightedTask[] {
+    const queueBefore = this.taskHeap.toSortedArray();
+    const now = new Date().toISOString();
+    const woken = tasks.map(task => {
+      const { snoozedUntil: _snoozedUntil, ...rest } = task;
+      const awake = toWeightedTask(
+        { ...rest, updatedAt: now, revision: (task.revision ?? 0) + 1 },
+        this.getTaskArray(),
+        this.globalML.heuristicWeights,
+        tagMultipliers(this.db.tags)
+      );
+      this.taskMap.set(task.id, awake);
+      this.taskHeap.push(awake);
+      this.recordOperation('task', 'update', task, awake, undefined, actor);
+      return awake;
+    });
+    this.logRebalanceEvent(
+      'tasks_woken',
+      queueBefore,
+      this.taskHeap.toSortedArray(),
+      woken.length === 1 ? woken[0].id : undefined
+    );
+    return woken;
+  }
+
+  /**
+   * V4.3: Wake every task whose snooze has ended, in every workspace (scheduled).
+   * Returns how many tasks re-entered a queue.
+   */
+  async wakeSnoozedTasks(now: Date = new Date()): Promise<number> {
+    let woken = 0;
+    for (const workspaceId of new Set([...this.listWorkspaceDbIds(), this.getWorkspaceKey()])) {
+      const isCurrent = workspaceId === this.getWorkspaceKey();
+      const db = isCurrent ? this.db : this.readWorkspaceDb(workspaceId);
+      if (!db) continue;
+      const due = dueToWake(isCurrent ? this.getTaskArray() : db.tasks, now);
+      if (due.length === 0) continue;
+
+      woken += due.length;
+      if (isCurrent) {
+        this.wakeTasks(due);
+        await this.save();
+      } else {
+        const queueBefore = awakeTasks(db.tasks);
+        const ids = new Set(due.map(t => t.id));
+        const updatedAt = now.toISOString();
+        db.tasks = recalculateAllScores(
+          db.tasks.map(t => {
+            if (!ids.has(t.id)) return t;
+            const { snoozedUntil: _snoozedUntil, ...rest } = t;
+            return { ...rest, updatedAt, revision: (t.revision ?? 0) + 1 };
+          }),
+          this.globalML.heuristicWeights,
+          tagMultipliers(db.tags)
+        );
+        this.logRebalanceEvent(
+          'tasks_woken',
+          queueBefore,
+          awakeTasks(db.tasks),
+          due.length === 1 ? due[0].id : undefined,
+          workspaceId === 'default' ? null : workspaceId
+        );
+        await this.writeWorkspaceDb(workspaceId, db);
+      }
+    }
+    if (woken > 0) {
+      await this.saveGlobalML();
+      console.log(`⏰ V4.3: Woke ${woken} snoozed tasks`);
+    }
+    return woken;
+  }
+
+  // ========== V4.3: Tags ==========
+
+  /**
+   * V4.3: The current workspace's tag registry with live usage counts, by name
+   */
+  async getTags(): Promise<TagSummary[]> {
+    const counts = new Map<string, number>();
+    for (const task of this.taskMap.values()) {
+      for (const tag of task.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return (this.db.tags ?? [])
+      .map(tag => ({ ...tag, taskCount: counts.get(tag.name) ?? 0 }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * V4.3: Create or update a registry entry. Changing a score multiplier
+   * rescores the queue and logs a rebalance event.
+   */
+  async updateTag(name: string, data: UpdateTagDTO): Promise<TagSummary> {
+    const tagName = normalizeTag(name);
+    const update = validateTagUpdate(data);
+    const now = new Date().toISOString();
+    const registry = this.db.tags ??= [];
+    registerTags(registry, [tagName], now);
+    const tag = registry.find(t => t.name === tagName)!;
+    const multiplierBefore = tag.scoreMultiplier;
+
+    if (update.description !== undefined) tag.description = update.description || undefined;
+    if (update.color !== undefined) tag.color = update.color;
+    if (update.scoreMultiplier !== undefined) tag.scoreMultiplier = update.scoreMultiplier ?? undefined;
+    tag.updatedAt = now;
+
+    if (tag.scoreMultiplier !== multiplierBefore) {
+      const tasksBefore = this.getTaskArray();
+      this.recalculateScores();
+      this.logRebalanceEvent('weights_changed', tasksBefore, this.getTaskArray());
+    }
+    await this.save();
+    return (await this.getTags()).find(t => t.name === tagName)!;
+  }
+
+  /**
+   * V4.3: Remove a tag from the registry; refused while live tasks carry it.
+   * Returns false if the tag is not registered.
+   */
+  async deleteTag(name: string): Promise<boolean> {
+    const tagName = normalizeTag(name);
+    const registry = this.db.tags ?? [];
+    const tag = registry.find(t => t.name === tagName);
+    if (!tag) return false;
+    const taskIds = this.getTaskArray().filter(t => t.tags?.includes(tagName)).map(t => t.id);
+    if (taskIds.length > 0) {
+      throw new TagInUseError(tagName, taskIds);
+    }
+    this.db.tags = registry.filter(t => t !== tag);
+    if (tag.scoreMultiplier !== undefined) this.recalculateScores();
+    await this.save();
+    return true;
+  }
+
+  // ========== V4.3: Custom fields ==========
+
+  /**
+   * V4.3: The current workspace's custom field schema
+   */
+  async getCustomFields(): Promise<CustomFieldDefinition[]> {
+    return this.db.customFields ?? [];
+  }
+
+  /**
+   * V4.3: Add or redefine a custom field. A redefinition must still accept
+   * every value live tasks already have (e.g. an enum cannot drop an option in use).
+   */
+  async defineCustomField(key: string, data: CustomFieldInput): Promise<CustomFieldDefinition> {
+    const definition = validateFieldDefinition(key, data);
+    const fields = this.db.customFields ??= [];
+    const existing = fields.find(f => f.key === key);
+    if (existing) {
+      const invalid = this.getTaskArray().filter(t => {
+        const value = t.customFields?.[key];
+        if (value === undefined) return false;
+        try {
+          checkFieldValue(definition, value);
+          return false;
+        } catch {
+          return true;
+        }
+      });
+      if (invalid.length > 0) {
+        throw new StorageValidationError(
+          `${invalid.length} task(s) have ${key} values the new definition rejects: ${invalid.map(t => t.id).join(', ')}`
+        );
+      }
+    }
+
+    const now = new Date().toISOString();
+    const field: CustomFieldDefinition = { ...definition, createdAt: existing?.createdAt ?? now, updatedAt: now };
+    this.db.customFields = existing ? fields.map(f => (f === existing ? field : f)) : [...fields, field];
+    await this.save();
+    return field;
+  }
+
+  /**
+   * V4.3: Remove a custom field and clear its values from live tasks (each
+   * cleared value is journaled as a task update). False if the field does not exist.
+   */
+  async deleteCustomField(key: string, options: { actor?: string } = {}): Promise<boolean> {
+    const fields = this.db.customFields ?? [];
+    if (!fields.some(f => f.key === key)) return false;
+    this.db.customFields = fields.filter(f => f.key !== key);
+
+    const now = new Date().toISOString();
+    for (const task of this.getTaskArray()) {
+      if (task.customFields?.[key] === undefined) continue;
+      const { [key]: _removed, ...rest } = task.customFields;
+      const updated: WeightedTask = {
+        ...task,
+        customFields: Object.keys(rest).length > 0 ? rest : undefined,
+        updatedAt: now,
+        revision: (task.revision ?? 0) + 1,
+      };
+      this.taskMap.set(task.id, updated);
+      this.taskHeap.update(task.id, updated);
+      this.recordOperation('task', 'update', task, updated, undefined, options.actor);
+    }
+    await this.save();
+    return true;
+  }
+
+  // ========== V4.3: Integrity Checks ==========
+
+  /**
+   * V4.3: Report dangling references in a workspace (default: current) and in the
+   * global ML data. With repair, drops references that point nowhere (journaled as
+   * source 'repair'). Returns null if the workspace does not exist.
+   */
+  async checkIntegrity(options: { workspaceId?: string; repair?: boolean } = {}): Promise<IntegrityReport | null> {
+    const workspaceId = options.workspaceId ?? this.getWorkspaceKey();
+    const isCurrent = workspaceId === this.getWorkspaceKey();
+    const repair = options.repair ?? false;
+    // Only known workspaces: the ID names a directory on the JSON backend
+    if (!isCurrent && !this.loadWorkspaceMetadata().workspaces.some(w => w.id === workspaceId)) {
+      return null;
+    }
+
+    if (isCurrent) this.syncTasksArray();
+    const db = isCurrent ? structuredClone(this.db) : this.readWorkspaceDb(workspaceId);
+    if (!db) return null;
+
+    const taskIdsByWorkspace = new Map<string, Set<string>>();
+    for (const id of new Set([...this.listWorkspaceDbIds(), this.getWorkspaceKey()])) {
+      const other = id === this.getWorkspaceKey() ? this.db : this.readWorkspaceDb(id);
+      const trashed = (other?.trash ?? []).filter(e => e.entity === 'task').map(e => e.entityId);
+      const archived = (other?.archive ?? []).map(t => t.id);
+      taskIdsByWorkspace.set(id, new Set([...(other?.tasks ?? []).map(t => t.id), ...trashed, ...archived]));
+    }
+
+    const violations = [
+      ...checkWorkspace(workspaceId, db),
+      ...checkCompletionRecords(this.globalML, taskIdsByWorkspace),
+    ];
+
+    let repaired = 0;
+    if (repair) {
+      const changes = repairWorkspace(db, violations);
+      repaired = violations.filter(v => v.repaired).length;
+
+      if (isCurrent && repaired > 0) {
+        for (const { before, after } of changes.tasks) {
+          this.taskMap.set(after.id, after);
+          this.recordOperation('task', 'update', before, after, 'repair');
+        }
+        this.db.objectives = db.objectives;
+        // Dependency depth feeds the scores
+        this.recalculateScores();
+        await this.save();
+      } else if (repaired > 0) {
+        await this.writeWorkspaceDb(workspaceId, db);
+        const entries = changes.tasks
+          .map(({ before, after }) => createJournalEntry('task', 'update', before, after, workspaceId, 'repair'))
+          .filter((e): e is JournalEntry => e !== null);
+        if (entries.length > 0) this.appendJournal(workspaceId, entries);
+      }
+
+      if (repaired > 0) {
+        console.log(`🩹 V4.3: Repaired ${repaired} dangling references in workspace ${workspaceId}`);
+      }
+    }
+
+    return {
+      workspaceId,
+      checkedAt: new Date().toISOString(),
+      repair,
+      ok: violations.every(v => v.repaired),
+      counts: countByCategory(violations),
+      repaired,
+      violations,
+    };
+  }
+
+  // ========== V4.3: Schema Migrations ==========
+
+  /**
+   * V4.3: Copy of every workspace and the global ML data. The current workspace
+   * and the ML data come from memory: re-reading them would make a backend take
+   * an external edit on disk as already seen, and the next save would overwrite it.
+   */
+  private loadMigrationDataset(): MigrationDataset {
+    const workspaces = new Map<string, ProgressDatabase>();
+    for (const id of this.listWorkspaceDbIds()) {
+      workspaces.set(id, this.readWorkspaceSnapshot(id));
+    }
+    return { workspaces, globalML: structuredClone(this.globalML) };
+  }
+
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    return getMigrationStatus(this.loadMigrationDataset());
+  }
+
+  /**
+   * V4.3: Apply pending schema migrations to every workspace and the global ML data.
+   * Takes a backup first; with dryRun, reports what would change without writing.
+   */
+  async runMigrations(options: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+    const dryRun = options.dryRun ?? false;
+    const dataset = this.loadMigrationDataset();
+    const report: MigrationReport = {
+      dryRun,
+      fromRevision: getLowestRevision(dataset),
+      toRevision: LATEST_SCHEMA_REVISION,
+      applied: [],
+    };
+
+    if (getPendingMigrations(dataset).length === 0) {
+      return report;
+    }
+
+    if (dryRun) {
+      // Run against a copy so nothing in memory or on disk changes
+      report.applied = applyMigrations(structuredClone(dataset));
+      return report;
+    }
+
+    report.backupPath = (await this.createBackup('pre-migration')).path;
+
+    report.applied = applyMigrations(dataset);
+    for (const [id, db] of dataset.workspaces) {
+      await this.writeWorkspaceDb(id, db);
+    }
+    await this.writeGlobalML(dataset.globalML);
+
+    // Pick up migrated data in memory
+    this.globalML = dataset.globalML;
+    this.reloadWorkspace();
+
+    for (const result of report.applied) {
+      console.log(`🔄 V4.3: Migration ${result.revision} (${result.name}): ${result.changes} changes`);
+    }
+    return report;
+  }
+
+  // ========== V4.3: Backups ==========
+
+  async getBackupConfig(): Promise<BackupConfig> {
+    return structuredClone(this.globalML.backups ?? DEFAULT_BACKUP_CONFIG);
+  }
+
+  /**
+   * V4.3: Change the backup schedule and/or rotation counts
+   */
+  async updateBackupConfig(dto: UpdateBackupConfigDTO): Promise<BackupConfig> {
+    const config = await this.getBackupConfig();
+    const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    if (dto.scheduleHours !== undefined) {
+      if (!isCount(dto.scheduleHours)) {
+        throw new StorageValidationError('scheduleHours must be a non-negative number');
+      }
+      config.scheduleHours = dto.scheduleHours;
+    }
+    for (const [tier, value] of Object.entries(dto.retention ?? {})) {
+      if (!(tier in config.retention)) {
+        throw new StorageValidationError(
+          `Unknown retention tier '${tier}' (expected one of: ${Object.keys(config.retention).join(', ')})`
+        );
+      }
+      if (!isCount(value)) {
+        throw new StorageValidationError(`retention.${tier} must be a non-negative number`);
+      }
+      config.retention[tier as keyof BackupConfig['retention']] = Math.floor(value);
+    }
+
+    this.globalML.backups = config;
+    await this.saveGlobalML();
+    return structuredClone(config);
+  }
+
+  async getBackups(): Promise<BackupListing> {
+    return {
+      config: await this.getBackupConfig(),
+      backups: listBackups(this.backupRoot(), this.backend),
+    };
+  }
+
+  /**
+   * V4.3: Snapshot every workspace and the global ML data, then rotate out
+   * backups the retention policy no longer keeps
+   */
+  async createBackup(trigger: BackupTrigger = 'manual', note?: string): Promise<BackupInfo> {
+    const id = backupDirName(trigger);
+    const backupDir = path.join(this.backupRoot(), id);
+    this.backupData(backupDir);
+
+    const dataset = this.loadMigrationDataset();
+    const manifest: BackupManifest = {
+      id,
+      trigger,
+      createdAt: new Date().toISOString(),
+      backend: this.backend,
+      schemaRevision: getLowestRevision(dataset),
+      workspaces: this.loadWorkspaceMetadata().workspaces.length,
+      tasks: [...dataset.workspaces.values()].reduce((sum, db) => sum + db.tasks.length, 0),
+      ...(note && { note }),
+    };
+    writeBackupManifest(backupDir, manifest);
+    console.log(`📦 V4.3: Backup (${trigger}): ${backupDir}`);
+
+    const { config, backups } = await this.getBackups();
+    for (const stale of selectBackupsToPrune(backups, config.retention)) {
+      if (stale.id === id) continue;  // Even with a zero count, keep the backup just taken
+      removeBackup(stale);
+      console.log(`🗑️  V4.3: Rotated out backup ${stale.id}`);
+    }
+    return backups.find(b => b.id === id)!;
+  }
+
+  /**
+   * V4.3: Take a scheduled backup if one is due; returns null when not due
+   */
+  async runScheduledBackup(now: Date = new Date()): Promise<BackupInfo | null> {
+    const { config, backups } = await this.getBackups();
+    if (!isBackupDue(backups, config, now)) return null;
+    return this.createBackup('scheduled');
+  }
+
+  /**
+   * V4.3: Replace every workspace and the global ML data with a backup.
+   *
+   * The backup is migrated to the current schema and validated before anything
+   * is written, and a 'pre-restore' backup is taken first. Each workspace's
+   * changes are journaled (source: 'restore'), so point-in-time restores keep
+   * working across it. The backup schedule itself is not rolled back.
+   */
+  async restoreBackup(id: string): Promise<BackupRestoreResult | null> {
+    const backup = (await this.getBackups()).backups.find(b => b.id === id);
+    if (!backup) return null;
+
+    let dataset: BackupDataset;
+    let migrated: number;
+    try {
+      dataset = this.readBackup(backup.path);
+      migrated = applyMigrations(dataset).length;
+    } catch (err) {
+      if (err instanceof StorageValidationError) throw err;
+      throw new StorageValidationError(`Backup ${id} could not be read: ${(err as Error).message}`);
+    }
+    const problems = validateBackupDataset(dataset);
+    if (problems.length > 0) {
+      throw new StorageValidationError(
+        `Backup ${id} failed validation: ${problems.slice(0, 5).join('; ')}` +
+        (problems.length > 5 ? ` (and ${problems.length - 5} more)` : '')
+      );
+    }
+
+    const safetyBackup = await this.createBackup('pre-restore', `Before restoring ${id}`);
+    const result: BackupRestoreResult = {
+      backup,
+      safetyBackup,
+      currentWorkspaceId: dataset.metadata.currentWorkspaceId || null,
+      workspaces: [],
+      removedWorkspaces: [],
+      migrated,
+    };
+
+    for (const [workspaceId, target] of dataset.workspaces) {
+      const current = this.readWorkspaceDb(workspaceId);
+      const { entries, created, updated, deleted } = diffWorkspace(
+        current ?? getEmptyDatabase(),
+        target,
+        workspaceId === 'default' ? null : workspaceId,
+        'restore'
+      );
+      target.lastUpdated = new Date().toISOString();
+      if (current) {
+        await this.writeWorkspaceDb(workspaceId, target);
+      } else {
+        this.initWorkspaceDb(workspaceId, target);
+      }
+      if (entries.length > 0) {
+        this.appendJournal(workspaceId, entries);
+      }
+      this.undoStacks.clear(workspaceId);
+      result.workspaces.push({ workspaceId, created, updated, deleted });
+    }
+    for (const workspaceId of this.listWorkspaceDbIds()) {
+      if (!dataset.workspaces.has(workspaceId)) {
+        this.removeWorkspaceDb(workspaceId);
+        this.undoStacks.clear(workspaceId);
+        result.removedWorkspaces.push(workspaceId);
+      }
+    }
+    this.updateWorkspaceMetadata(latest => {
+      latest.workspaces = dataset.metadata.workspaces;
+      latest.currentWorkspaceId = result.currentWorkspaceId;
+    });
+
+    dataset.globalML.decisions = dataset.globalML.decisions || [];
+    dataset.globalML.contextSwitchEvents = dataset.globalML.contextSwitchEvents || [];
+    dataset.globalML.backups = this.globalML.backups;
+    this.globalML = dataset.globalML;
+    await this.saveGlobalML();
+    this.restoreMLArchive(backup.path);
+
+    const switched = this.currentWorkspaceId !== result.currentWorkspaceId;
+    this.currentWorkspaceId = result.currentWorkspaceId;
+    this.reloadWorkspace();
+    this.recalculateScores();
+    await this.save();
+    if (switched) {
+      this.onWorkspaceSwitched();
+    }
+
+    console.log(`♻️  V4.3: Restored backup ${id} (safety backup: ${safetyBackup.id})`);
+    return result;
+  }
+
+  // ========== V4: Workspace Management Methods ==========
+
+  /**
+   * V4: Get all workspaces
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    const metadata = this.loadWorkspaceMetadata();
+    return metadata.workspaces;
+  }
+
+  /**
+   * V4: Get current workspace ID
+   */
+  async getCurrentWorkspaceId(): Promise<string | null> {
+    return this.currentWorkspaceId;
+  }
+
+  /**
+   * V4: Get workspace by ID
+   */
+  async getWorkspace(id: string): Promise<Workspace | null> {
+    const metadata = this.loadWorkspaceMetadata();
+    return metadata.workspaces.find(w => w.id === id) || null;
+  }
+
+  /**
+   * V4: Create a new workspace
+   */
+  async createWorkspace(data: CreateWorkspaceDTO): Promise<Workspace> {
+    const now = new Date().toISOString();
+    const workspace: Workspace = {
+      id: uuidv4(),
+      name: data.name,
+      description: data.description,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    this.updateWorkspaceMetadata(metadata => {
+      metadata.workspaces.push(workspace);
+      
+      // If no current workspace, set this as current
+      if (!metadata.currentWorkspaceId) {
+        metadata.currentWorkspaceId = workspace.id;
+        this.currentWorkspaceId = workspace.id;
+      }
+    });
+    
+    // Initialize workspace database (empty)
+    if (!this.readWorkspaceDb(workspace.id)) {
+      this.initWorkspaceDb(workspace.id, getEmptyDatabase());
+    }
+    
+    console.log(`📁 V4: Created workspace "${workspace.name}" (${workspace.id})`);
+    return workspace;
+  }
+
+  /**
+   * V4: Get a seeded database with example data
+   */
+  private getSeededDatabase(): ProgressDatabase {
+    const exampleProjectId = uuidv4();
+    return {
+      ...getEmptyDatabase(),
+      projects: [
+        {
+          id: exampleProjectId,
+          name: 'example-project',
+          path: '~/projects/example',
+          status: 'active',
+          primaryFocus: 'Example project - replace with your own',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          revision: 1,
+        },
+      ],
+      tasks: [
+        {
+          id: 'EXAMPLE-001',
+          priority: 'P1',
+          task: 'Replace this with your first task',
+          project: 'example-project',
+          status: 'not_started',
+          notes: 'Delete this example and add your own tasks',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          revision: 1,
+          priorityScore: 82,
+          weights: {
+            blockingCount: 0,
+            crossProjectImpact: 0,
+            timeSensitivity: 0,
+            effortValueRatio: 6,
+            dependencyDepth: 0,
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * V4: Seed the current workspace with example data (if empty)
+   */
+  async seedCurrentWorkspace(): Promise<void> {
+    if (!this.currentWorkspaceId) {
+      throw new Error('No workspace is currently active');
+    }
+
+    // Only seed if database is empty
+    const existing = this.readWorkspaceDb(this.currentWorkspaceId);
+    if (existing && (existing.tasks.length > 0 || existing.projects.length > 0)) {
+      throw new Error('Workspace already has data. Cannot seed non-empty workspace.');
+    }
+
+    const seeded = this.getSeededDatabase();
+    this.initWorkspaceDb(this.currentWorkspaceId, seeded);
+    
+    // Reload the database
+    this.reloadWorkspace();
+    
+    console.log(`📁 V4: Seeded workspace ${this.currentWorkspaceId} with example data`);
+  }
+
+  /**
+   * V4: Switch to a different workspace
+   */
+  async switchWorkspace(workspaceId: string): Promise<void> {
+    const metadata = this.loadWorkspaceMetadata();
+    const workspace = metadata.workspaces.find(w => w.id === workspaceId);
+    
+    if (!workspace) {
+      throw new Error(`Workspace ${workspaceId} not found`);
+    }
+    
+    // Save current workspace state before switching
+    await this.save();
+    
+    // Switch workspace
+    this.currentWorkspaceId = workspaceId;
+    this.updateWorkspaceMetadata(latest => {
+      latest.currentWorkspaceId = workspaceId;
+    });
+    
+    // Reload database for new workspace
+    this.reloadWorkspace();
+    
+    // V4.1: Let the backend re-point anything tied to the old workspace
+    this.onWorkspaceSwitched();
+    
+    console.log(`📁 V4: Switched to workspace "${workspace.name}" (${workspaceId})`);
+  }
+
+  /**
+   * V4: Delete a workspace
+   */
+  async deleteWorkspace(workspaceId: string): Promise<boolean> {
+    // V4.3: Keep a copy of the workspace before its data is gone
+    const existing = this.loadWorkspaceMetadata();
+    if (existing.workspaces.some(w => w.id === workspaceId) && existing.currentWorkspaceId !== workspaceId) {
+      await this.createBackup('pre-workspace-delete', `Before deleting workspace ${workspaceId}`);
+    }
+
+    const removed = this.updateWorkspaceMetadata(metadata => {
+      const idx = metadata.workspaces.findIndex(w => w.id === workspaceId);
+      
+      if (idx === -1) {
+        return false;
+      }
+      
+      // Don't allow deleting the current workspace
+      if (metadata.currentWorkspaceId === workspaceId) {
+        throw new Error('Cannot delete the current workspace. Switch to another workspace first.');
+      }
+      
+      // Remove workspace from metadata
+      metadata.workspaces.splice(idx, 1);
+      return true;
+    });
+    if (!removed) {
+      return false;
+    }
+    
+    // Delete workspace data
+    this.removeWorkspaceDb(workspaceId);
+    this.undoStacks.clear(workspaceId);
+    
+    console.log(`📁 V4: Deleted workspace ${workspaceId}`);
+    return true;
+  }
+
+  // ========== V4.3: Workspace export / import ==========
+
+  /**
+   * V4.3: Single-file archive of a workspace, optionally with the ML events
+   * tagged with it. Returns null if the workspace does not exist.
+   */
+  async exportWorkspace(workspaceId: string, options: { includeML?: boolean } = {}): Promise<WorkspaceArchive | null> {
+    const workspace = this.loadWorkspaceMetadata().workspaces.find(w => w.id === workspaceId);
+    if (!workspace) return null;
+
+    let db: ProgressDatabase;
+    if (workspaceId === this.currentWorkspaceId) {
+      this.syncTasksArray();
+      db = this.db;
+    } else {
+      db = this.readWorkspaceDb(workspaceId) ?? getEmptyDatabase();
+    }
+    return buildWorkspaceArchive(
+      workspace,
+      db,
+      options.includeML ? collectWorkspaceMLEvents(this.globalML, workspaceId) : undefined
+    );
+  }
+
+  /**
+   * V4.3: Import a workspace archive. The database is migrated to the current
+   * schema and validated before anything is written. If the workspace ID already
+   * exists, onConflict decides: 'copy' (default) imports under a new ID,
+   * 'replace' overwrites it (after a backup), 'fail' throws WorkspaceConflictError.
+   * Task and project IDs are kept, so imported ML events still line up.
+   */
+  async importWorkspace(input: unknown, options: ImportWorkspaceOptions = {}): Promise<ImportWorkspaceResult> {
+    const archive = parseWorkspaceArchive(input);
+    const onConflict = options.onConflict ?? 'copy';
+    if (!['copy', 'replace', 'fail'].includes(onConflict)) {
+      throw new StorageValidationError(`onConflict must be 'copy', 'replace' or 'fail'`);
+    }
+    if (options.name !== undefined && (typeof options.name !== 'string' || !options.name.trim())) {
+      throw new StorageValidationError('name must be a non-empty string');
+    }
+
+    // Migrate the archive on its own, with its ML events standing in for the global data
+    const db = structuredClone(archive.database);
+    const dataset: MigrationDataset = {
+      workspaces: new Map([[archive.workspace.id, db]]),
+      globalML: { ...getEmptyGlobalML(), ...structuredClone(archive.mlEvents), schemaRevision: archive.schemaRevision },
+    };
+    let migrated: number;
+    try {
+      migrated = applyMigrations(dataset).length;
+    } catch (err) {
+      throw new StorageValidationError(`Workspace archive could not be migrated: ${(err as Error).message}`);
+    }
+    const problems = validateWorkspaceDatabase('archive', db);
+    if (problems.length > 0) {
+      throw new StorageValidationError(
+        `Workspace archive failed validation: ${problems.slice(0, 5).join('; ')}` +
+        (problems.length > 5 ? ` (and ${problems.length - 5} more)` : '')
+      );
+    }
+
+    const metadata = this.loadWorkspaceMetadata();
+    const sourceId = archive.workspace.id;
+    const exists = metadata.workspaces.some(w => w.id === sourceId);
+    if (exists && onConflict === 'fail') {
+      throw new WorkspaceConflictError(sourceId);
+    }
+    const outcome: ImportWorkspaceResult['outcome'] = !exists ? 'created' : onConflict === 'replace' ? 'replaced' : 'copied';
+    const safetyBackup = outcome === 'replaced'
+      ? await this.createBackup('pre-import', `Before replacing workspace ${sourceId} from an archive`)
+      : undefined;
+
+    const now = new Date().toISOString();
+    let name = options.name?.trim() ?? archive.workspace.name;
+    if (outcome === 'copied' && options.name === undefined && metadata.workspaces.some(w => w.name === name)) {
+      name = `${name} (imported)`;
+    }
+    const workspace: Workspace = {
+      id: outcome === 'copied' ? uuidv4() : sourceId,
+      name,
+      ...(archive.workspace.description && { description: archive.workspace.description }),
+      createdAt: archive.workspace.createdAt || now,
+      updatedAt: now,
+    };
+
+    db.tasks = recalculateAllScores(db.tasks, this.globalML.heuristicWeights, tagMultipliers(db.tags));
+    db.lastUpdated = now;
+    const current = this.readWorkspaceDb(workspace.id);
+    const { entries } = diffWorkspace(current ?? getEmptyDatabase(), db, workspace.id, 'import');
+    if (current) {
+      await this.writeWorkspaceDb(workspace.id, db);
+    } else {
+      this.initWorkspaceDb(workspace.id, db);
+    }
+    if (entries.length > 0) {
+      this.appendJournal(workspace.id, entries);
+    }
+    this.undoStacks.clear(workspace.id);
+
+    this.updateWorkspaceMetadata(latest => {
+      latest.workspaces = latest.workspaces.filter(w => w.id !== workspace.id);
+      latest.workspaces.push(workspace);
+      if (!latest.currentWorkspaceId) {
+        latest.currentWorkspaceId = workspace.id;
+        this.currentWorkspaceId = workspace.id;
+      }
+    });
+    if (workspace.id === this.currentWorkspaceId) {
+      this.reloadWorkspace();
+    }
+
+    const mlEvents = addWorkspaceMLEvents(this.globalML, dataset.globalML, workspace.id);
+    if (mlEvents.imported > 0) {
+      await this.saveGlobalML();
+    }
+    if (options.switchTo && workspace.id !== this.currentWorkspaceId) {
+      await this.switchWorkspace(workspace.id);
+    }
+
+    console.log(`📥 V4.3: Imported workspace "${workspace.name}" (${workspace.id}, ${outcome})`);
+    return {
+      workspace,
+      sourceWorkspaceId: sourceId,
+      outcome,
+      tasks: db.tasks.length,
+      projects: db.projects.length,
+      migrated,
+      mlEvents,
+      ...(safetyBackup && { safetyBackup }),
+    };
+  }
+
+  // ========== V4.3: Workspace clone / merge ==========
+
+  /**
+   * Database of a workspace, synced from memory if it is the current one
+   */
+  private readWorkspaceSnapshot(workspaceId: string): ProgressDatabase {
+    if (workspaceId === this.getWorkspaceKey()) {
+      this.syncTasksArray();
+      return structuredClone(this.db);
+    }
+    return this.readWorkspaceDb(workspaceId) ?? getEmptyDatabase();
+  }
+
+  /**
+   * V4.3: Fork a workspace. Tasks, projects and everything else keep their IDs
+   * and timestamps; ML events stay with the original workspace.
+   * Returns null if the workspace does not exist.
+   */
+  async cloneWorkspace(workspaceId: string, data: CloneWorkspaceDTO): Promise<CloneWorkspaceResult | null> {
+    if (typeof data?.name !== 'string' || !data.name.trim()) {
+      throw new StorageValidationError('name must be a non-empty string');
+    }
+    if (!this.loadWorkspaceMetadata().workspaces.some(w => w.id === workspaceId)) return null;
+
+    const db = this.readWorkspaceSnapshot(workspaceId);
+    const now = new Date().toISOString();
+    const workspace: Workspace = {
+      id: uuidv4(),
+      name: data.name.trim(),
+      ...(data.description && { description: data.description }),
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.lastUpdated = now;
+    this.initWorkspaceDb(workspace.id, db);
+    this.updateWorkspaceMetadata(metadata => {
+      metadata.workspaces.push(workspace);
+    });
+    if (data.switchTo) {
+      await this.switchWorkspace(workspace.id);
+    }
+
+    console.log(`📁 V4.3: Cloned workspace ${workspaceId} as "${workspace.name}" (${workspace.id})`);
+    return {
+      workspace,
+      sourceWorkspaceId: workspaceId,
+      tasks: db.tasks.length,
+      projects: db.projects.length,
+    };
+  }
+
+  /**
+   * V4.3: Merge the projects, tasks, decisions, data gaps and objectives of one
+   * workspace into another (see planWorkspaceMerge for the conflict rules).
+   * The source workspace is left as it is. A dry run only reports.
+   */
+  async mergeWorkspaces(data: MergeWorkspacesDTO): Promise<WorkspaceMergeReport> {
+    const { sourceId, targetId } = data ?? {};
+    if (typeof sourceId !== 'string' || typeof targetId !== 'string') {
+      throw new StorageValidationError('sourceId and targetId are required');
+    }
+    if (sourceId === targetId) {
+      throw new StorageValidationError('Cannot merge a workspace into itself');
+    }
+    const known = new Set(this.loadWorkspaceMetadata().workspaces.map(w => w.id));
+    for (const id of [sourceId, targetId]) {
+      if (!known.has(id)) throw new StorageValidationError(`Workspace ${id} not found`);
+    }
+
+    const source = this.readWorkspaceSnapshot(sourceId);
+    const target = this.readWorkspaceSnapshot(targetId);
+    const { merged, report } = planWorkspaceMerge(source, target, sourceId, targetId);
+    if (data.dryRun) {
+      return { ...report, dryRun: true };
+    }
+
+    const safetyBackup = await this.createBackup('pre-merge', `Before merging workspace ${sourceId} into ${targetId}`);
+    merged.tags = copyTagDefinitions(merged.tags, source.tags);
+    merged.tasks = recalculateAllScores(merged.tasks, this.globalML.heuristicWeights, tagMultipliers(merged.tags));
+    merged.lastUpdated = new Date().toISOString();
+    const { entries } = diffWorkspace(target, merged, targetId, 'merge');
+    await this.writeWorkspaceDb(targetId, merged);
+    if (entries.length > 0) {
+      this.appendJournal(targetId, entries);
+    }
+    this.undoStacks.clear(targetId);
+    if (targetId === this.currentWorkspaceId) {
+      this.reloadWorkspace();
+    }
+
+    console.log(
+      `📁 V4.3: Merged workspace ${sourceId} into ${targetId} ` +
+      `(${report.tasks.added.length} tasks added, ${report.tasks.updated.length} updated)`
+    );
+    return { ...report, dryRun: false, safetyBackup };
+  }
+
+  // ========== V4.3: Move tasks / projects between workspaces ==========
+
+  /**
+   * V4.3: Move a task of the current workspace to another workspace, keeping its
+   * ID and timestamps. Its project is matched in the target by ID or name, or
+   * copied there. Its subtasks move with it. Returns null if the task does not exist.
+   */
+  async moveTask(id: string, data: MoveToWorkspaceDTO): Promise<MoveToWorkspaceResult | null> {
+    const task = this.taskMap.get(id);
+    if (!task) return null;
+    const project = this.db.projects.find(p => p.id === task.project || p.name === task.project) ?? null;
+    return this.moveToWorkspace(data, this.withSubtasks([task]), project, false);
+  }
+
+  /**
+   * V4.3: Move a project of the current workspace and all its tasks to another
+   * workspace. If the target already has the project (same ID or name), the
+   * tasks join it. Subtasks in other projects move with their parents.
+   * Returns null if the project does not exist.
+   */
+  async moveProject(id: string, data: MoveToWorkspaceDTO): Promise<MoveToWorkspaceResult | null> {
+    const project = this.db.projects.find(p => p.id === id);
+    if (!project) return null;
+    const tasks = this.getTaskArray().filter(t => t.project === project.id || t.project === project.name);
+    return this.moveToWorkspace(data, this.withSubtasks(tasks), project, true);
+  }
+
+  /**
+   * V4.3: `tasks` followed by their descendants that are not already among them
+   */
+  private withSubtasks(tasks: WeightedTask[]): WeightedTask[] {
+    const all = this.getTaskArray();
+    const ids = new Set(tasks.map(t => t.id));
+    const descendants = tasks.flatMap(t => descendantsOf(t.id, all)).filter(t => !ids.has(t.id) && ids.add(t.id));
+    return [...tasks, ...descendants];
+  }
+
+  private async moveToWorkspace(
+    data: MoveToWorkspaceDTO,
+    tasks: WeightedTask[],
+    project: Project | null,
+    moveProject: boolean
+  ): Promise<MoveToWorkspaceResult> {
+    const sourceId = this.currentWorkspaceId;
+    const targetId = data?.targetWorkspaceId;
+    if (!sourceId) {
+      throw new StorageValidationError('No workspace is currently active');
+    }
+    if (typeof targetId !== 'string' || !targetId) {
+      throw new StorageValidationError('targetWorkspaceId is required');
+    }
+    if (targetId === sourceId) {
+      throw new StorageValidationError(`Already in workspace ${targetId}`);
+    }
+    if (!this.loadWorkspaceMetadata().workspaces.some(w => w.id === targetId)) {
+      throw new StorageValidationError(`Workspace ${targetId} not found`);
+    }
+
+    const existing = this.readWorkspaceDb(targetId);
+    const target = existing ?? getEmptyDatabase();
+    // Archived and trashed tasks keep their IDs (they can be unarchived or restored)
+    const takenIds = new Set([
+      ...[...target.tasks, ...(target.archive ?? [])].map(t => t.id),
+      ...(target.trash ?? []).filter(e => e.entity === 'task').map(e => e.entityId),
+    ]);
+    const clashes = tasks.filter(t => takenIds.has(t.id)).map(t => t.id);
+    if (clashes.length > 0) {
+      throw new StorageValidationError(`Workspace ${targetId} already has task ${clashes.join(', ')}`);
+    }
+
+    // Resolve the project in the target: same ID, then same name, else bring it along
+    const entries: JournalEntry[] = [];
+    const moved = structuredClone(tasks);
+    const reference = project?.id ?? tasks[0].project;
+    const match = target.projects.find(p => p.id === reference)
+      ?? target.projects.find(p => p.name === (project?.name ?? reference));
+    let projectOutcome: MoveToWorkspaceResult['projectOutcome'];
+    let projectId: string;
+    if (match) {
+      projectOutcome = 'matched';
+      projectId = match.id;
+      // Subtasks from other projects keep their own reference
+      for (const task of moved.filter(t => t.project === reference || t.project === project?.name)) {
+        // Keep the task's reference style (projects are referenced by ID or by name)
+        task.project = project && task.project === project.name ? match.name : match.id;
+      }
+    } else if (project) {
+      projectOutcome = moveProject ? 'moved' : 'copied';
+      projectId = project.id;
+      target.projects.push(structuredClone(project));
+      entries.push(createJournalEntry('project', 'create', null, project, targetId)!);
+    } else {
+      projectOutcome = 'missing';
+      projectId = reference;
+    }
+
+    const movingIds = new Set(tasks.map(t => t.id));
+    const tasksBefore = this.getTaskArray();
+    const warnings = findCrossWorkspaceDependencies(tasksBefore, movingIds, targetId);
+    // A subtask moved without its parent becomes a top-level task in the target
+    for (const task of moved) {
+      if (task.parentId && !movingIds.has(task.parentId)) delete task.parentId;
+    }
+
+    // Write the target first: an interrupted move leaves a copy, never a loss
+    target.tags = copyTagDefinitions(target.tags, this.db.tags, new Set(moved.flatMap(t => t.tags ?? [])));
+    target.tasks = recalculateAllScores(
+      [...target.tasks, ...moved],
+      this.globalML.heuristicWeights,
+      tagMultipliers(target.tags)
+    );
+    target.lastUpdated = new Date().toISOString();
+    for (const task of moved) {
+      entries.push(createJournalEntry('task', 'create', null, task, targetId)!);
+    }
+    if (existing) {
+      await this.writeWorkspaceDb(targetId, target);
+    } else {
+      this.initWorkspaceDb(targetId, target);
+    }
+    this.appendJournal(targetId, entries);
+
+    for (const task of tasks) {
+      this.taskMap.delete(task.id);
+      this.recordOperation('task', 'delete', task, null);
+    }
+    this.undoStacks.dropTasks(sourceId, movingIds);
+    if (moveProject && project) {
+      this.db.projects = this.db.projects.filter(p => p.id !== project.id);
+      this.recordOperation('project', 'delete', project, null);
+    }
+    this.recalculateScores();
+
+    const mlEventsRetagged = retagTaskMLEvents(this.globalML, movingIds, sourceId, targetId);
+    this.logRebalanceEvent('task_deleted', tasksBefore, this.getTaskArray(), tasks.length === 1 ? tasks[0].id : undefined);
+    await this.saveGlobalML();
+    await this.save();
+
+    console.log(`📁 V4.3: Moved ${tasks.length} task(s) from workspace ${sourceId} to ${targetId}`);
+    return {
+      sourceWorkspaceId: sourceId,
+      targetWorkspaceId: targetId,
+      taskIds: tasks.map(t => t.id),
+      projectId,
+      projectOutcome,
+      mlEventsRetagged,
+      warnings,
+    };
+  }
+}
@@ -0,0 +1,201 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CustomFieldDefinition, CustomFieldInput, CustomFieldType, CustomFieldValue } from '../types/schema';
+import { StorageValidationError } from './errors';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['string', 'number', 'enum', 'date', 'boolean', 'url'];
+
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+const MAX_STRING_LENGTH = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check a field definition from a request; returns the normalized definition
+ * (without timestamps)
+ */
+export function validateFieldDefinition(key: unknown, input: unknown): CustomFieldInput & { key: string } {
+  if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+    throw new StorageValidationError(
+      'Custom field key must start with a letter and use up to 40 letters, digits or underscores'
+    );
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new StorageValidationError('Custom field definition must be an object');
+  }
+  const { label, type, options, required, description } = input as Record<string, unknown>;
+  if (!CUSTOM_FIELD_TYPES.includes(type as CustomFieldType)) {
+    throw new StorageValidationError(`Custom field type must be one of ${CUSTOM_FIELD_TYPES.join(', ')}`);
+  }
+  if (type === 'enum') {
+    if (!Array.isArray(options) || options.length === 0 || !options.every(o => typeof o === 'string' && o.length > 0)) {
+      throw new StorageValidationError('Enum fields need a non-empty list of string options');
+    }
+  } else if (options !== undefined) {
+    throw new StorageValidationError('options only applies to enum fields');
+  }
+  for (const [name, value] of Object.entries({ label, description })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new StorageValidationError(`${name} must be a string`);
+    }
+  }
+  if (required !== undefined && typeof required !== 'boolean') {
+    throw new StorageValidationError('required must be a boolean');
+  }
+
+  const definition: CustomFieldInput & { key: string } = { key, type: type as CustomFieldType };
+  if (label) definition.label = label as string;
+  if (type === 'enum') definition.options = [...new Set(options as string[])];
+  if (required) definition.required = true;
+  if (description) definition.description = description as string;
+  return definition;
+}
+
+/**
+ * Check one value against its field; returns the value to store
+ */
+export function checkFieldValue(field: Pick<CustomFieldDefinition, 'key' | 'type' | 'options'>, value: unknown): CustomFieldValue {
+  const fail = (expected: string): never => {
+    throw new StorageValidationError(`Custom field ${field.key} must be ${expected}`);
+  };
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string' || value.length > MAX_STRING_LENGTH) fail(`a string of at most ${MAX_STRING_LENGTH} characters`);
+      return value as string;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail('a number');
+      return value as number;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('true or false');
+      return value as boolean;
+    case 'enum':
+      if (typeof value !== 'string' || !field.options?.includes(value)) fail(`one of ${(field.options ?? []).join(', ')}`);
+      return value as string;
+    case 'date':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) fail('an ISO date');
+      return value as string;
+    case 'url': {
+      let protocol = '';
+      try {
+        protocol = new URL(value as string).protocol;
+      } catch {
+        // Reported below
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') fail('an http(s) URL');
+      return value as string;
+    }
+  }
+}
+
+/**
+ * Apply custom field changes to a task's current values. Unknown keys and
+ * invalid values are rejected; null clears a value. When creating, required
+ * fields must be set. Returns undefined once no values are left.
+ */
+export function applyCustomFields(
+  schema: CustomFieldDefinition[] | undefined,
+  current: Record<string, CustomFieldValue> | undefined,
+  changes: unknown,
+  options: { creating?: boolean } = {}
+): Record<string, CustomFieldValue> | undefined {
+  if (changes !== undefined && (!changes || typeof changes !== 'object' || Array.isArray(changes))) {
+    throw new StorageValidationError('customFields must be an object');
+  }
+  const fields = new Map((schema ?? []).map(f => [f.key, f]));
+  const values = { ...current };
+  for (const [key, value] of Object.entries((changes ?? {}) as Record<string, unknown>)) {
+    const field = fields.get(key);
+    if (!field) {
+      throw new StorageValidationError(`Unknown custom field ${key}`);
+    }
+    if (value === null) {
+      if (field.required) throw new StorageValidationError(`Custom field ${key} is required`);
+      delete values[key];
+    } else {
+      values[key] = checkFieldValue(field, value);
+    }
+  }
+  if (options.creating) {
+    const missing = [...fields.values()].filter(f => f.required && values[f.key] === undefined).map(f => f.key);
+    if (missing.length > 0) {
+      throw new StorageValidationError(`Missing required custom field(s): ${missing.join(', ')}`);
+    }
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * Numeric features for ML export: numbers as is, booleans 0/1, enums as the
+ * option index, dates as days since the epoch; strings and URLs as 0/1 for
+ * "is set". Unset numeric/boolean/enum/date fields are null.
+ */
+export function customFieldFeatures(
+  schema: CustomFieldDefinition[] | undefined,
+  values: Record<string, CustomFieldValue> | undefined
+): Record<string, number | null> {
+  const features: Record<string, number | null> = {};
+  for (const field of schema ?? []) {
+    const value = values?.[field.key];
+    switch (field.type) {
+      case 'number':
+        features[field.key] = typeof value === 'number' ? value : null;
+        break;
+      case 'boolean':
+        features[field.key] = typeof value === 'boolean' ? (value ? 1 : 0) : null;
+        break;
+      case 'enum': {
+        const index = field.options?.indexOf(value as string) ?? -1;
+        features[field.key] = index >= 0 ? index : null;
+        break;
+      }
+      case 'date':
+        features[field.key] = typeof value === 'string' ? Math.floor(Date.parse(value) / DAY_MS) : null;
+        break;
+      default:
+        features[field.key] = value !== undefined && value !== '' ? 1 : 0;
+    }
+  }
+  return features;
+}
+
+/**
+ * JSON schema of a workspace's custom fields (for MCP tool input schemas).
+ * With `nullable`, each field also accepts null (clearing it on update).
+ */
+export function customFieldsJsonSchema(
+  schema: CustomFieldDefinition[] | undefined,
+  nullable: boolean = false
+): Record<string, unknown> {
+  const properties: Record<string, Record<string, unknown>> = {};
+  for (const field of schema ?? []) {
+    const type = field.type === 'enum' || field.type === 'date' || field.type === 'url' ? 'string' : field.type;
+    const property: Record<string, unknown> = { type: nullable ? [type, 'null'] : type };
+    if (field.type === 'enum') property.enum = nullable ? [...field.options!, null] : field.options;
+    if (field.type === 'date') property.format = 'date';
+    if (field.type === 'url') property.format = 'uri';
+    const description = [field.label, field.description].filter(Boolean).join(' - ');
+    if (description) property.description = description;
+    properties[field.key] = property;
+  }
+  const required = nullable ? [] : (schema ?? []).filter(f => f.required).map(f => f.key);
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false,
+  };
+}
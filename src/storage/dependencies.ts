@@ -0,0 +1,132 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { DependencyCycle, DependencyLink, Task, TaskStatus } from '../types/schema';
+import { FINISHED_STATUSES } from './archive';
+
+type DependencyNode = Pick<Task, 'id' | 'dependencies' | 'blocking'>;
+
+/**
+ * Task ID → what it waits on. Links to tasks that do not exist are left out
+ * (they cannot close a loop; the integrity checker reports them).
+ */
+export function dependencyGraph(tasks: DependencyNode[]): Map<string, DependencyLink[]> {
+  const ids = new Set(tasks.map(t => t.id));
+  const graph = new Map<string, DependencyLink[]>();
+  const add = (link: DependencyLink) => {
+    const links = graph.get(link.taskId) ?? [];
+    links.push(link);
+    graph.set(link.taskId, links);
+  };
+  for (const task of tasks) {
+    for (const dependsOn of task.dependencies ?? []) {
+      if (ids.has(dependsOn)) add({ taskId: task.id, dependsOn, via: 'dependencies' });
+    }
+    if (task.blocking && ids.has(task.blocking)) {
+      add({ taskId: task.blocking, dependsOn: task.id, via: 'blocking' });
+    }
+  }
+  return graph;
+}
+
+function toCycle(links: DependencyLink[]): DependencyCycle {
+  return { path: [...links.map(l => l.taskId), links[0].taskId], links };
+}
+
+/**
+ * A cycle that starts and ends at `taskId`, or null. Used to check a task
+ * right after its links changed: any new cycle has to pass through it.
+ */
+export function findCycleThrough(taskId: string, tasks: DependencyNode[]): DependencyCycle | null {
+  const graph = dependencyGraph(tasks);
+  const visited = new Set<string>();
+  const trail: DependencyLink[] = [];
+
+  const visit = (id: string): boolean => {
+    for (const link of graph.get(id) ?? []) {
+      trail.push(link);
+      if (link.dependsOn === taskId) return true;
+      if (!visited.has(link.dependsOn)) {
+        visited.add(link.dependsOn);
+        if (visit(link.dependsOn)) return true;
+      }
+      trail.pop();
+    }
+    return false;
+  };
+
+  return visit(taskId) ? toCycle(trail) : null;
+}
+
+/**
+ * Cycles in existing data, one per loop-closing link found by a depth-first
+ * walk (every task in a loop shows up in at least one). Each cycle is rotated
+ * to start at its smallest task ID, and duplicates are dropped.
+ */
+export function findCycles(tasks: DependencyNode[]): DependencyCycle[] {
+  const graph = dependencyGraph(tasks);
+  const done = new Set<string>();
+  const onTrail = new Map<string, number>();  // Task ID → index in trail of the link leaving it
+  const trail: DependencyLink[] = [];
+  const cycles = new Map<string, DependencyCycle>();
+
+  const visit = (id: string) => {
+    onTrail.set(id, trail.length);
+    for (const link of graph.get(id) ?? []) {
+      trail.push(link);
+      const start = onTrail.get(link.dependsOn);
+      if (start !== undefined) {
+        const loop = trail.slice(start);
+        const first = loop.reduce((min, l, i) => (l.taskId < loop[min].taskId ? i : min), 0);
+        const cycle = toCycle([...loop.slice(first), ...loop.slice(0, first)]);
+        cycles.set(cycle.path.join(' '), cycle);
+      } else if (!done.has(link.dependsOn)) {
+        visit(link.dependsOn);
+      }
+      trail.pop();
+    }
+    onTrail.delete(id);
+    done.add(id);
+  };
+
+  for (const task of [...tasks].sort((a, b) => a.id.localeCompare(b.id))) {
+    if (!done.has(task.id)) visit(task.id);
+  }
+  return [...cycles.values()];
+}
+
+/**
+ * Blocked tasks that wait on `taskId` and on nothing unfinished besides it.
+ * Run after `taskId` is marked finished: these can move to not_started.
+ * `isDone` decides whether a prerequisite counts as finished (any finished status by default).
+ */
+export function unblockableDependents<T extends DependencyNode & { status: TaskStatus }>(
+  taskId: string,
+  tasks: T[],
+  isDone: (task: T) => boolean = t => FINISHED_STATUSES.includes(t.status)
+): T[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const result: T[] = [];
+  for (const [id, links] of dependencyGraph(tasks)) {
+    const task = byId.get(id)!;
+    if (task.status !== 'blocked' || !links.some(l => l.dependsOn === taskId)) continue;
+    if (links.every(l => isDone(byId.get(l.dependsOn)!))) {
+      result.push(task);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,236 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EncryptionKeyError } from './errors';
+
+/**
+ * V4.3: Optional encryption at rest for the JSON backend.
+ *
+ * Encrypted files hold a one-line JSON envelope (AES-256-GCM). Journal and
+ * archive files are encrypted line by line so they stay append-only. Reads
+ * accept plaintext too, so a dataset can be encrypted gradually (every save
+ * encrypts) or all at once with `npm run encryption -- encrypt`.
+ */
+
+export const ENCRYPTION_KEY_ENV = 'PRIORITY_FORGE_ENCRYPTION_KEY';
+export const ENCRYPTION_KEY_FILE_ENV = 'PRIORITY_FORGE_ENCRYPTION_KEY_FILE';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const ENVELOPE_MARKER = '{"priorityForgeEncrypted":1,';
+
+export interface EncryptionKey {
+  key: Buffer;
+  id: string;                    // Fingerprint stored in each envelope (not secret)
+}
+
+interface EncryptedEnvelope {
+  priorityForgeEncrypted: 1;
+  alg: typeof ALGORITHM;
+  keyId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Parse a 32-byte key given as 64 hex characters or base64
+ */
+export function parseEncryptionKey(text: string): EncryptionKey {
+  const trimmed = text.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new EncryptionKeyError(`Encryption key must be ${KEY_BYTES} bytes, given as 64 hex characters or base64`);
+  }
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return { key, id };
+}
+
+export function generateEncryptionKey(): string {
+  return crypto.randomBytes(KEY_BYTES).toString('base64');
+}
+
+/**
+ * The configured key: PRIORITY_FORGE_ENCRYPTION_KEY, else the file named by
+ * PRIORITY_FORGE_ENCRYPTION_KEY_FILE, else null (encryption off)
+ */
+export function loadEncryptionKey(env: NodeJS.ProcessEnv = process.env): EncryptionKey | null {
+  if (env[ENCRYPTION_KEY_ENV]) {
+    return parseEncryptionKey(env[ENCRYPTION_KEY_ENV]!);
+  }
+  const keyFile = env[ENCRYPTION_KEY_FILE_ENV];
+  if (keyFile) {
+    if (!fs.existsSync(keyFile)) {
+      throw new EncryptionKeyError(`Key file not found: ${keyFile}`);
+    }
+    return parseEncryptionKey(fs.readFileSync(keyFile, 'utf-8'));
+  }
+  return null;
+}
+
+export function isEncrypted(content: string): boolean {
+  return content.startsWith(ENVELOPE_MARKER);
+}
+
+export function encryptText(plain: string, key: EncryptionKey): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key.key, iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()]);
+  const envelope: EncryptedEnvelope = {
+    priorityForgeEncrypted: 1,
+    alg: ALGORITHM,
+    keyId: key.id,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Decrypt an envelope; plaintext is returned unchanged. `source` names the file in errors.
+ */
+export function decryptText(content: string, key: EncryptionKey | null, source: string): string {
+  if (!isEncrypted(content)) return content;
+
+  const envelope = JSON.parse(content) as EncryptedEnvelope;
+  if (!key) {
+    throw new EncryptionKeyError(
+      `${source} is encrypted; set ${ENCRYPTION_KEY_ENV} or ${ENCRYPTION_KEY_FILE_ENV}`
+    );
+  }
+  if (envelope.keyId !== key.id) {
+    throw new EncryptionKeyError(
+      `${source} was encrypted with key ${envelope.keyId}, but the configured key is ${key.id}`
+    );
+  }
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key.key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new EncryptionKeyError(`${source} failed to decrypt (corrupted or tampered)`);
+  }
+}
+
+/**
+ * Encodes data files for disk: encrypted when a key is configured, plain JSON otherwise
+ */
+export class DataFileCodec {
+  constructor(readonly key: EncryptionKey | null) {}
+
+  encode(plain: string): string {
+    return this.key ? encryptText(plain, this.key) : plain;
+  }
+
+  decode(content: string, source: string): string {
+    return decryptText(content, this.key, source);
+  }
+
+  /**
+   * One record per line (journal, archive)
+   */
+  encodeLines(lines: string[]): string {
+    return lines.map(line => this.encode(line) + '\n').join('');
+  }
+
+  decodeLines(content: string, source: string): string[] {
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => this.decode(line, source));
+  }
+}
+
+// ========== Dataset commands (encrypt / rotate / decrypt) ==========
+
+const LINE_FILES = new Set(['journal.jsonl', 'ml-archive.jsonl']);
+
+/**
+ * Every data file the JSON backend may encrypt, relative to the data directory
+ */
+export function listDataFiles(dataDir: string): string[] {
+  const files = ['workspaces.json', 'ml-training.json', 'ml-archive.jsonl'];
+  const workspacesDir = path.join(dataDir, 'workspaces');
+  if (fs.existsSync(workspacesDir)) {
+    for (const id of fs.readdirSync(workspacesDir)) {
+      files.push(path.join('workspaces', id, 'progress.json'), path.join('workspaces', id, 'journal.jsonl'));
+    }
+  }
+  return files.filter(file => fs.existsSync(path.join(dataDir, file)));
+}
+
+/**
+ * Re-encode one file's content from one codec to another. Lines of the
+ * journal/archive are decoded individually (a torn last line is dropped).
+ */
+export function transcodeContent(source: string, from: DataFileCodec, to: DataFileCodec): string {
+  const content = fs.readFileSync(source, 'utf-8');
+  if (!LINE_FILES.has(path.basename(source))) {
+    return to.encode(from.decode(content, source));
+  }
+
+  const lines = content.split('\n').filter(line => line.trim());
+  const decoded: string[] = [];
+  for (const [i, line] of lines.entries()) {
+    try {
+      decoded.push(from.decode(line, source));
+    } catch (err) {
+      if (i === lines.length - 1 && !(err instanceof EncryptionKeyError)) continue;
+      throw err;
+    }
+  }
+  return to.encodeLines(decoded);
+}
+
+/**
+ * Re-encode every data file. `outDir` defaults to rewriting in place.
+ * Everything is decoded before anything is written, so a wrong key changes nothing.
+ * Returns the files written (relative to the data directory).
+ */
+export function transcodeDataset(options: {
+  dataDir: string;
+  from: EncryptionKey | null;
+  to: EncryptionKey | null;
+  outDir?: string;
+}): string[] {
+  const from = new DataFileCodec(options.from);
+  const to = new DataFileCodec(options.to);
+  const outDir = options.outDir ?? options.dataDir;
+
+  const outputs = listDataFiles(options.dataDir).map(file => ({
+    file,
+    content: transcodeContent(path.join(options.dataDir, file), from, to),
+  }));
+
+  for (const { file, content } of outputs) {
+    const target = path.join(outDir, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target + '.tmp', content);
+    fs.renameSync(target + '.tmp', target);
+  }
+  return outputs.map(o => o.file);
+}
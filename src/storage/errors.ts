@@ -0,0 +1,144 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { DependencyCycle, Project, WeightedTask } from '../types/schema';
+
+/**
+ * V4.3: A write carried an expected revision that no longer matches the stored copy.
+ * `current` is the server copy, so the caller can merge and retry.
+ */
+export class RevisionConflictError extends Error {
+  constructor(
+    readonly entity: 'task' | 'project',
+    readonly expectedRevision: number,
+    readonly current: WeightedTask | Project
+  ) {
+    super(
+      `Revision conflict: ${entity} ${current.id} is at revision ${current.revision}, expected ${expectedRevision}`
+    );
+    this.name = 'RevisionConflictError';
+  }
+}
+
+/**
+ * V4.3: Another process holds the advisory lock on a data file
+ */
+export class StorageLockedError extends Error {
+  constructor(
+    readonly file: string,
+    readonly lockFile: string,
+    readonly owner: { pid: number; hostname: string; acquiredAt: string } | null
+  ) {
+    super(
+      owner
+        ? `${file} is locked by pid ${owner.pid} on ${owner.hostname} since ${owner.acquiredAt}. ` +
+          `If that process is gone, delete ${lockFile}.`
+        : `${file} is locked by another process (${lockFile})`
+    );
+    this.name = 'StorageLockedError';
+  }
+}
+
+/**
+ * V4.3: A data file changed on disk since we last read or wrote it.
+ * The in-memory copy has been reloaded; the write was not applied.
+ */
+export class ExternalModificationError extends Error {
+  constructor(readonly file: string) {
+    super(`${file} was modified by another process; reloaded the latest copy, retry the change`);
+    this.name = 'ExternalModificationError';
+  }
+}
+
+/**
+ * V4.3: A request was well-formed JSON but its values are not acceptable
+ */
+export class StorageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageValidationError';
+  }
+}
+
+/**
+ * V4.3: A create/update would make tasks wait on each other in a loop
+ */
+export class DependencyCycleError extends StorageValidationError {
+  constructor(readonly taskId: string, readonly cycle: DependencyCycle) {
+    super(`Dependency cycle through task ${taskId}: ${cycle.path.join(' → ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * V4.3: deleteProject in 'refuse' mode while the project still has tasks
+ */
+export class ProjectNotEmptyError extends Error {
+  constructor(readonly projectId: string, readonly taskIds: string[]) {
+    super(
+      `Project ${projectId} still has ${taskIds.length} task(s); ` +
+        `delete with mode 'cascade' to trash them or 'reassign' to move them to another project`
+    );
+    this.name = 'ProjectNotEmptyError';
+  }
+}
+
+/**
+ * V4.3: Completing a parent task while some of its subtasks are still open
+ */
+export class OpenSubtasksError extends Error {
+  constructor(readonly taskId: string, readonly openSubtaskIds: string[]) {
+    super(
+      `Task ${taskId} still has ${openSubtaskIds.length} open subtask(s); ` +
+        `finish them first or complete with force`
+    );
+    this.name = 'OpenSubtasksError';
+  }
+}
+
+/**
+ * V4.3: Removing a tag from the registry while tasks still carry it
+ */
+export class TagInUseError extends Error {
+  constructor(readonly tag: string, readonly taskIds: string[]) {
+    super(`Tag ${tag} is still on ${taskIds.length} task(s); remove it from them first`);
+    this.name = 'TagInUseError';
+  }
+}
+
+/**
+ * V4.3: Encrypted data without the right key, or a malformed key
+ */
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+/**
+ * V4.3: Importing a workspace whose ID already exists, with onConflict 'fail'
+ */
+export class WorkspaceConflictError extends Error {
+  constructor(readonly workspaceId: string) {
+    super(
+      `Workspace ${workspaceId} already exists; import with onConflict 'copy' to add it under a new ID ` +
+        `or 'replace' to overwrite it`
+    );
+    this.name = 'WorkspaceConflictError';
+  }
+}
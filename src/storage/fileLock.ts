@@ -0,0 +1,157 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import { StorageLockedError } from './errors';
+
+/**
+ * V4.3: Advisory lock files for data shared between processes
+ *
+ * A lock on `file` is `file.lock`, created exclusively and holding the owner's
+ * pid, hostname and acquisition time. A lock is stale (and taken over) when its
+ * owner process no longer exists on this host, or when it is older than
+ * LOCK_STALE_MS - no write holds a lock for anywhere near that long.
+ */
+
+export const LOCK_STALE_MS = 30_000;
+export const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_RETRY_MS = 50;
+
+export interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+export interface LockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+}
+
+// Lock files held by this process (a second acquisition here would wait on itself)
+const heldLocks = new Set<string>();
+
+export function getLockFile(file: string): string {
+  return `${file}.lock`;
+}
+
+function readOwner(lockFile: string): LockOwner | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockFile, 'utf-8')) as LockOwner;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export function isLockStale(lockFile: string, staleMs: number = LOCK_STALE_MS): boolean {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(lockFile).mtimeMs;
+  } catch {
+    return false;  // Already gone
+  }
+  const owner = readOwner(lockFile);
+  const acquiredAt = owner ? new Date(owner.acquiredAt).getTime() : mtimeMs;
+  if (Date.now() - (Number.isNaN(acquiredAt) ? mtimeMs : acquiredAt) > staleMs) {
+    return true;
+  }
+  return !!owner && owner.hostname === os.hostname() && owner.pid !== process.pid && !isProcessAlive(owner.pid);
+}
+
+/**
+ * One attempt: true if we now hold the lock
+ */
+function tryAcquire(lockFile: string, staleMs: number): boolean {
+  const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+  try {
+    fs.writeFileSync(lockFile, JSON.stringify(owner), { flag: 'wx' });
+    heldLocks.add(lockFile);
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+  }
+  if (!heldLocks.has(lockFile) && isLockStale(lockFile, staleMs)) {
+    console.warn(`🔓 V4.3: Removing stale lock ${lockFile} (owner: ${JSON.stringify(readOwner(lockFile))})`);
+    fs.rmSync(lockFile, { force: true });
+    return tryAcquire(lockFile, Infinity);
+  }
+  return false;
+}
+
+function release(lockFile: string): void {
+  heldLocks.delete(lockFile);
+  fs.rmSync(lockFile, { force: true });
+}
+
+function lockedError(file: string, lockFile: string): StorageLockedError {
+  return new StorageLockedError(file, lockFile, readOwner(lockFile));
+}
+
+/**
+ * Run `fn` while holding the lock on `file`, waiting up to timeoutMs for other holders
+ */
+export async function withFileLock<T>(
+  file: string,
+  fn: () => Promise<T> | T,
+  options: LockOptions = {}
+): Promise<T> {
+  const lockFile = getLockFile(file);
+  const deadline = Date.now() + (options.timeoutMs ?? LOCK_TIMEOUT_MS);
+  const staleMs = options.staleMs ?? LOCK_STALE_MS;
+
+  while (!tryAcquire(lockFile, staleMs)) {
+    if (Date.now() >= deadline) throw lockedError(file, lockFile);
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  try {
+    return await fn();
+  } finally {
+    release(lockFile);
+  }
+}
+
+/**
+ * Synchronous variant for sync read-modify-write paths (workspace metadata, seeding).
+ * Fails immediately if this process already holds the lock, since blocking would never see it released.
+ */
+export function withFileLockSync<T>(file: string, fn: () => T, options: LockOptions = {}): T {
+  const lockFile = getLockFile(file);
+  const deadline = Date.now() + (options.timeoutMs ?? LOCK_TIMEOUT_MS);
+  const staleMs = options.staleMs ?? LOCK_STALE_MS;
+  const sleeper = new Int32Array(new SharedArrayBuffer(4));
+
+  while (!tryAcquire(lockFile, staleMs)) {
+    if (heldLocks.has(lockFile) || Date.now() >= deadline) throw lockedError(file, lockFile);
+    Atomics.wait(sleeper, 0, 0, LOCK_RETRY_MS);
+  }
+  try {
+    return fn();
+  } finally {
+    release(lockFile);
+  }
+}
@@ -0,0 +1,47 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BaseStorage } from './baseStorage';
+import { JsonStorage } from './jsonStorage';
+import { SqliteStorage } from './sqliteStorage';
+import { InMemoryStorage } from './memoryStorage';
+
+export type StorageBackend = 'json' | 'sqlite' | 'memory';
+
+/**
+ * Backend is chosen with PRIORITY_FORGE_STORAGE (json | sqlite | memory, default json)
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.PRIORITY_FORGE_STORAGE || 'json').toLowerCase();
+  if (backend !== 'json' && backend !== 'sqlite' && backend !== 'memory') {
+    throw new Error(`Unknown PRIORITY_FORGE_STORAGE "${backend}" (expected "json", "sqlite" or "memory")`);
+  }
+  return backend;
+}
+
+export function createStorage(backend: StorageBackend = getStorageBackend()): BaseStorage {
+  switch (backend) {
+    case 'sqlite':
+      return new SqliteStorage();
+    case 'memory':
+      return new InMemoryStorage();
+    default:
+      return new JsonStorage();
+  }
+}
+
+export const storage = createStorage();
@@ -21,6 +21,8 @@ import {
   DataGap,
   Decision,
   TaskCompletionRecord,
+  TaskCompletionResult,
+  ContextSwitchEvent,
   PriorityChangeEvent,
   TaskSelectionEvent,
   QueueRebalanceEvent,
@@ -37,11 +39,52 @@ import {
   Priority,
   HeuristicWeights,
   UpdateHeuristicWeightsDTO,
+  TagFilter,
+  TagSummary,
+  UpdateTagDTO,
+  CustomFieldDefinition,
+  CustomFieldInput,
+  DependencyCycleReport,
+  DependencySettings,
   LogDragReorderDTO,
   UpdateOnlineLearnerDTO,
   Workspace,
   CreateWorkspaceDTO,
+  JournalEntry,
+  JournalQuery,
+  TaskHistoryEntry,
+  TaskTreeNode,
+  UndoHistory,
+  UndoResult,
+  RetentionConfig,
+  UpdateRetentionDTO,
+  CompactionReport,
+  DeleteProjectOptions,
+  DeleteProjectResult,
+  TrashListing,
+  ArchiveListing,
+  ArchiveQuery,
+  RestoreFromTrashResult,
+  PurgeTrashOptions,
+  PurgeTrashResult,
+  BackupConfig,
+  BackupInfo,
+  BackupListing,
+  BackupRestoreResult,
+  BackupTrigger,
+  UpdateBackupConfigDTO,
+  WorkspaceArchive,
+  ImportWorkspaceOptions,
+  ImportWorkspaceResult,
+  CloneWorkspaceDTO,
+  CloneWorkspaceResult,
+  MergeWorkspacesDTO,
+  WorkspaceMergeReport,
+  MoveToWorkspaceDTO,
+  MoveToWorkspaceResult,
 } from '../types/schema';
+import { MigrationReport, MigrationStatus } from '../migrations';
+import { IntegrityReport } from '../integrity';
 
 export interface StorageInterface {
   // Database
@@ -51,19 +94,22 @@ export interface StorageInterface {
   getProjects(): Promise<Project[]>;
   getProject(id: string): Promise<Project | null>;
   createProject(data: CreateProjectDTO): Promise<Project>;
-  updateProject(id: string, data: UpdateProjectDTO): Promise<Project | null>;
-  deleteProject(id: string): Promise<boolean>;
+  // V4.3: expectedRevision → RevisionConflictError when the stored revision differs
+  updateProject(id: string, data: UpdateProjectDTO, options?: { expectedRevision?: number }): Promise<Project | null>;
+  deleteProject(id: string, options?: DeleteProjectOptions): Promise<DeleteProjectResult | null>;
   
   // Tasks - V2 with heap-based ordering
-  getTasks(includeCompleted?: boolean): Promise<WeightedTask[]>;
+  getTasks(includeCompleted?: boolean, tagFilter?: TagFilter): Promise<WeightedTask[]>;  // V4.3: open tasks exclude containers
+  getTaskTree(includeCompleted?: boolean, tagFilter?: TagFilter): Promise<TaskTreeNode[]>;
   getAllTasks(): Promise<WeightedTask[]>;
   getCompletedTasks(): Promise<WeightedTask[]>;
   getTask(id: string): Promise<WeightedTask | null>;
   getTasksByPriority(priority: Priority): Promise<WeightedTask[]>;
   getTasksByProject(projectId: string): Promise<WeightedTask[]>;
-  createTask(data: CreateTaskDTO): Promise<WeightedTask>;
-  updateTask(id: string, data: UpdateTaskDTO): Promise<WeightedTask | null>;
-  deleteTask(id: string): Promise<boolean>;
+  // V4.3: actor is recorded in the journal (default 'system')
+  createTask(data: CreateTaskDTO, options?: { actor?: string }): Promise<WeightedTask>;
+  updateTask(id: string, data: UpdateTaskDTO, options?: { expectedRevision?: number; actor?: string }): Promise<WeightedTask | null>;
+  deleteTask(id: string, options?: { actor?: string }): Promise<boolean>;
   
   // V2: Heap operations
   getTopPriority(): Promise<WeightedTask | null>;
@@ -91,9 +137,20 @@ export interface StorageInterface {
   }>;
   
   // V3 Prep: Completion Records
-  logContextSwitch(taskId: string): Promise<void>;
-  completeTask(taskId: string, outcome: 'completed' | 'cancelled' | 'deferred'): Promise<TaskCompletionRecord | null>;
+  // V4.3: Context switches are persisted as ContextSwitchEvent records
+  logContextSwitch(taskId: string, options?: { toTaskId?: string; sessionId?: string; actor?: string }): Promise<ContextSwitchEvent>;
+  getContextSwitchEvents(taskId?: string): Promise<ContextSwitchEvent[]>;
+  // V4.3: OpenSubtasksError while subtasks are open, unless force
+  completeTask(
+    taskId: string,
+    outcome: 'completed' | 'cancelled' | 'deferred',
+    options?: { actor?: string; force?: boolean }
+  ): Promise<TaskCompletionResult | null>;
   getCompletionRecords(): Promise<TaskCompletionRecord[]>;
+  getSeries(seriesId: string): Promise<WeightedTask[]>;  // V4.3: Instances of a recurring task
+  getDependencyCycles(): Promise<DependencyCycleReport>;  // V4.3: Creates/updates reject new cycles
+  getDependencySettings(): Promise<DependencySettings>;
+  setAutoUnblock(enabled: boolean): Promise<DependencySettings>;  // V4.3: Completing a task unblocks ready dependents
   
   // V3: ML Training Data
   logTaskSelection(selectedTaskId: string): Promise<TaskSelectionEvent | null>;
@@ -105,14 +162,17 @@ export interface StorageInterface {
     priorityChangeEvents: PriorityChangeEvent[];
     taskSelectionEvents: TaskSelectionEvent[];
     queueRebalanceEvents: QueueRebalanceEvent[];
+    contextSwitchEvents: ContextSwitchEvent[];
     decisions: Decision[];
     tasks: WeightedTask[];
     heuristicWeights: HeuristicWeights;
+    customFieldSchema: CustomFieldDefinition[];
     summary: {
       totalCompletions: number;
       totalPriorityChanges: number;
       totalSelections: number;
       totalRebalances: number;
+      totalContextSwitches: number;
       totalDecisions: number;
       totalSkipDecisions: number;
       selectionAccuracy: number;
@@ -147,6 +207,7 @@ export interface StorageInterface {
         dependencyDepth: number;
         hasDependencies: number;
         hasBlocking: number;
+        customFields?: Record<string, number | null>;
       }>;
       rebalances: Array<{
         trigger: string;
@@ -184,6 +245,71 @@ export interface StorageInterface {
     enabled: boolean;
   }>;
   
+  // V4.3: Operation journal + point-in-time restore (current workspace)
+  getJournal(query?: JournalQuery): Promise<JournalEntry[]>;
+  getTaskHistory(id: string, limit?: number): Promise<TaskHistoryEntry[] | null>;
+  getWorkspaceAt(timestamp: string): Promise<ProgressDatabase>;
+  restoreWorkspaceTo(timestamp: string): Promise<{
+    restoredTo: string;
+    created: number;
+    updated: number;
+    deleted: number;
+  }>;
+
+  // V4.3: Undo/redo of task mutations and drag reorders (current workspace)
+  undo(options?: { actor?: string }): Promise<UndoResult | null>;
+  redo(options?: { actor?: string }): Promise<UndoResult | null>;
+  getUndoHistory(): Promise<UndoHistory>;
+
+  // V4.3: Retention / compaction of the global ML event logs
+  getRetentionConfig(): Promise<RetentionConfig>;
+  updateRetentionConfig(data: UpdateRetentionDTO): Promise<RetentionConfig>;
+  compactMLEvents(options?: { dryRun?: boolean }): Promise<CompactionReport>;
+  runScheduledCompaction(now?: Date): Promise<CompactionReport | null>;
+
+  // V4.3: Trash (soft-deleted tasks/projects, current workspace)
+  getTrash(): Promise<TrashListing>;
+  restoreFromTrash(id: string, options?: { actor?: string }): Promise<RestoreFromTrashResult | null>;
+  purgeTrash(options?: PurgeTrashOptions): Promise<PurgeTrashResult>;
+  setTrashRetention(days: number): Promise<TrashListing>;
+  purgeExpiredTrash(now?: Date): Promise<number>;
+
+  // V4.3: Archive of finished tasks (current workspace; unarchive: null if not archived)
+  getArchive(query?: ArchiveQuery): Promise<ArchiveListing>;
+  unarchiveTask(id: string): Promise<WeightedTask | null>;
+  setArchiveAfterDays(days: number): Promise<ArchiveListing>;
+  archiveCompletedTasks(now?: Date): Promise<number>;
+
+  // V4.3: Snoozed tasks are out of the queue until they wake (null if the task does not exist)
+  getSnoozedTasks(): Promise<WeightedTask[]>;
+  snoozeTask(id: string, until: string, options?: { expectedRevision?: number; actor?: string }): Promise<WeightedTask | null>;
+  unsnoozeTask(id: string, options?: { actor?: string }): Promise<WeightedTask | null>;
+  wakeSnoozedTasks(now?: Date): Promise<number>;
+
+  // V4.3: Tag registry (current workspace; delete: false if not registered)
+  getTags(): Promise<TagSummary[]>;
+  updateTag(name: string, data: UpdateTagDTO): Promise<TagSummary>;
+  deleteTag(name: string): Promise<boolean>;
+
+  // V4.3: Custom field schema (current workspace; delete: false if not defined)
+  getCustomFields(): Promise<CustomFieldDefinition[]>;
+  defineCustomField(key: string, data: CustomFieldInput): Promise<CustomFieldDefinition>;
+  deleteCustomField(key: string, options?: { actor?: string }): Promise<boolean>;
+
+  // V4.3: Integrity checks (null if the workspace does not exist)
+  checkIntegrity(options?: { workspaceId?: string; repair?: boolean }): Promise<IntegrityReport | null>;
+
+  // V4.3: Schema migrations
+  getMigrationStatus(): Promise<MigrationStatus>;
+  runMigrations(options?: { dryRun?: boolean }): Promise<MigrationReport>;
+
+  // V4.3: Backups of every workspace and the global ML data (restore: null if not found)
+  getBackups(): Promise<BackupListing>;
+  createBackup(trigger?: BackupTrigger, note?: string): Promise<BackupInfo>;
+  restoreBackup(id: string): Promise<BackupRestoreResult | null>;
+  updateBackupConfig(data: UpdateBackupConfigDTO): Promise<BackupConfig>;
+  runScheduledBackup(now?: Date): Promise<BackupInfo | null>;
+
   // V4: Workspace Management
   getWorkspaces(): Promise<Workspace[]>;
   getCurrentWorkspaceId(): Promise<string | null>;
@@ -192,4 +318,16 @@ export interface StorageInterface {
   switchWorkspace(workspaceId: string): Promise<void>;
   deleteWorkspace(workspaceId: string): Promise<boolean>;
   seedCurrentWorkspace(): Promise<void>;
+
+  // V4.3: Portable workspace archives (export: null if the workspace does not exist)
+  exportWorkspace(workspaceId: string, options?: { includeML?: boolean }): Promise<WorkspaceArchive | null>;
+  importWorkspace(archive: unknown, options?: ImportWorkspaceOptions): Promise<ImportWorkspaceResult>;
+
+  // V4.3: Fork a workspace (null if it does not exist) or merge one into another
+  cloneWorkspace(workspaceId: string, data: CloneWorkspaceDTO): Promise<CloneWorkspaceResult | null>;
+  mergeWorkspaces(data: MergeWorkspacesDTO): Promise<WorkspaceMergeReport>;
+
+  // V4.3: Move a task or project of the current workspace to another one (null if not found)
+  moveTask(id: string, data: MoveToWorkspaceDTO): Promise<MoveToWorkspaceResult | null>;
+  moveProject(id: string, data: MoveToWorkspaceDTO): Promise<MoveToWorkspaceResult | null>;
 }
@@ -0,0 +1,227 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  FieldChange,
+  JournalEntity,
+  JournalEntry,
+  JournalOperation,
+  JournalQuery,
+  ProgressDatabase,
+  TaskHistoryEntry,
+} from '../types/schema';
+
+type Entity = { id: string };
+export type JournalCollection = 'tasks' | 'projects' | 'decisions' | 'dataGaps';
+
+/**
+ * Journal entity → ProgressDatabase collection
+ */
+export const JOURNAL_COLLECTIONS: Record<JournalEntity, JournalCollection> = {
+  task: 'tasks',
+  project: 'projects',
+  decision: 'decisions',
+  dataGap: 'dataGaps',
+};
+
+/**
+ * Derived fields that change on every rebalance (or every write, for revision);
+ * recomputed after a rebuild, so journaling them would only add noise.
+ */
+const IGNORED_FIELDS: Record<JournalEntity, string[]> = {
+  task: ['priorityScore', 'weights', 'revision'],
+  project: ['revision'],
+  decision: [],
+  dataGap: [],
+};
+
+/**
+ * Field-level differences between two versions of an entity
+ */
+export function diffFields(
+  entity: JournalEntity,
+  before: object,
+  after: object
+): FieldChange[] {
+  const prev = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS[entity].includes(field)) continue;
+    if (JSON.stringify(prev[field]) !== JSON.stringify(next[field])) {
+      changes.push({ field, before: prev[field], after: next[field] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Build a journal entry, or null if an update changed nothing worth recording
+ */
+export function createJournalEntry(
+  entity: JournalEntity,
+  operation: JournalOperation,
+  before: Entity | null,
+  after: Entity | null,
+  workspaceId: string | null,
+  source?: JournalEntry['source'],
+  actor?: string
+): JournalEntry | null {
+  const entityId = (after ?? before)!.id;
+  const entry: JournalEntry = {
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    workspaceId: workspaceId || undefined,
+    entity,
+    entityId,
+    operation,
+    changes: [],
+    source,
+    actor,
+  };
+
+  if (operation === 'create') {
+    entry.snapshot = structuredClone(after) as unknown as Record<string, unknown>;
+  } else if (operation === 'delete') {
+    entry.snapshot = structuredClone(before) as unknown as Record<string, unknown>;
+  } else {
+    entry.changes = structuredClone(diffFields(entity, before!, after!));
+    if (entry.changes.length === 0) return null;
+  }
+  return entry;
+}
+
+export function filterJournal(entries: JournalEntry[], query: JournalQuery = {}): JournalEntry[] {
+  const filtered = entries.filter(e =>
+    (!query.entity || e.entity === query.entity) &&
+    (!query.entityId || e.entityId === query.entityId) &&
+    (!query.since || e.timestamp >= query.since) &&
+    (!query.until || e.timestamp <= query.until)
+  );
+  return query.limit ? filtered.slice(-query.limit) : filtered;
+}
+
+/**
+ * One task's journal entries as a history, newest first
+ */
+export function toTaskHistory(entries: JournalEntry[], taskId: string, limit?: number): TaskHistoryEntry[] {
+  const history = filterJournal(entries, { entity: 'task', entityId: taskId, limit })
+    .map(entry => ({
+      timestamp: entry.timestamp,
+      operation: entry.operation,
+      actor: entry.actor ?? 'unknown',
+      source: entry.source,
+      changes: entry.changes,
+      snapshot: entry.snapshot,
+    }));
+  return history.reverse();
+}
+
+/**
+ * Rebuild a workspace as it was at `timestamp` by rolling the current state
+ * back through every journal entry recorded after it (newest first).
+ *
+ * Entities that predate the journal are left as they are unless a later
+ * entry touched them. Task scores are not recomputed here.
+ */
+export function rollbackTo(
+  db: ProgressDatabase,
+  entries: JournalEntry[],
+  timestamp: string
+): ProgressDatabase {
+  const rebuilt = structuredClone(db);
+  const later = entries.filter(e => e.timestamp > timestamp);
+
+  for (let i = later.length - 1; i >= 0; i--) {
+    const entry = later[i];
+    const collection = rebuilt[JOURNAL_COLLECTIONS[entry.entity]] as Entity[];
+    const idx = collection.findIndex(item => item.id === entry.entityId);
+
+    if (entry.operation === 'create') {
+      if (idx !== -1) collection.splice(idx, 1);
+    } else if (entry.operation === 'delete') {
+      if (idx === -1 && entry.snapshot) collection.push(structuredClone(entry.snapshot) as unknown as Entity);
+    } else if (idx !== -1) {
+      const item = collection[idx] as unknown as Record<string, unknown>;
+      for (const change of entry.changes) {
+        if (change.before === undefined) {
+          delete item[change.field];
+        } else {
+          item[change.field] = structuredClone(change.before);
+        }
+      }
+    }
+  }
+
+  return rebuilt;
+}
+
+export interface WorkspaceDiff {
+  entries: JournalEntry[];
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+/**
+ * Journal entries that turn `current` into `target`, one per changed record.
+ * Changed records in `target` get a revision above both copies, so restored
+ * (older) copies keep the counter moving forward.
+ */
+export function diffWorkspace(
+  current: ProgressDatabase,
+  target: ProgressDatabase,
+  workspaceId: string | null,
+  source: JournalEntry['source']
+): WorkspaceDiff {
+  const diff: WorkspaceDiff = { entries: [], created: 0, updated: 0, deleted: 0 };
+  const record = (entity: JournalEntity, operation: JournalOperation, before: Entity | null, after: Entity | null) => {
+    const entry = createJournalEntry(entity, operation, before, after, workspaceId, source);
+    if (entry) diff.entries.push(entry);
+  };
+
+  for (const [entity, key] of Object.entries(JOURNAL_COLLECTIONS) as [JournalEntity, JournalCollection][]) {
+    const before = new Map((current[key] as Entity[]).map(item => [item.id, item]));
+    const after = new Map((target[key] as Entity[]).map(item => [item.id, item]));
+
+    for (const [id, item] of before) {
+      if (!after.has(id)) {
+        record(entity, 'delete', item, null);
+        diff.deleted++;
+      }
+    }
+    for (const [id, item] of after) {
+      const existing = before.get(id);
+      const changed = !existing || diffFields(entity, existing, item).length > 0;
+      if (changed && 'revision' in item) {
+        const restored = item as { revision: number };
+        restored.revision = Math.max((existing as { revision?: number } | undefined)?.revision ?? 0, restored.revision) + 1;
+      }
+      if (!existing) {
+        record(entity, 'create', null, item);
+        diff.created++;
+      } else if (changed) {
+        record(entity, 'update', existing, item);
+        diff.updated++;
+      }
+    }
+  }
+
+  return diff;
+}
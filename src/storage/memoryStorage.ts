@@ -0,0 +1,185 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ProgressDatabase,
+  GlobalMLDatabase,
+  WorkspaceMetadata,
+  JournalEntry,
+  ArchivedMLEvent,
+} from '../types/schema';
+import { BaseStorage, getEmptyGlobalML } from './baseStorage';
+import { BackupDataset } from './backups';
+import { StorageValidationError } from './errors';
+
+const SNAPSHOT_FILE = 'snapshot.json';
+
+/**
+ * Everything an InMemoryStorage persists. Pass the same store to a new
+ * InMemoryStorage to "reopen" it, as a restart would with a file backend.
+ */
+export interface InMemoryStore {
+  metadata: WorkspaceMetadata;
+  workspaces: Map<string, ProgressDatabase>;
+  journals: Map<string, JournalEntry[]>;
+  globalML: GlobalMLDatabase | null;
+  archivedMLEvents: ArchivedMLEvent[];
+}
+
+export function createInMemoryStore(): InMemoryStore {
+  return {
+    metadata: { workspaces: [], currentWorkspaceId: null },
+    workspaces: new Map(),
+    journals: new Map(),
+    globalML: null,
+    archivedMLEvents: [],
+  };
+}
+
+/**
+ * In-memory backend (PRIORITY_FORGE_STORAGE=memory)
+ *
+ * Nothing touches the data directory, which makes it the backend for tests
+ * and throwaway servers. Reads and writes go through structuredClone, so
+ * callers never share objects with the store - the same isolation a
+ * serializing backend gives. Backups are the one exception: they are real
+ * directories, kept in a temporary directory until dispose().
+ */
+export class InMemoryStorage extends BaseStorage {
+  readonly store: InMemoryStore;
+  private backupDir: string | null;
+  private ownsBackupDir: boolean;
+  protected readonly backend = 'memory';
+
+  constructor(options: { store?: InMemoryStore; backupDir?: string } = {}) {
+    super();
+    this.store = options.store ?? createInMemoryStore();
+    this.backupDir = options.backupDir ?? null;
+    this.ownsBackupDir = !options.backupDir;
+    this.initialize();
+  }
+
+  /**
+   * Remove the temporary backup directory (if one was created)
+   */
+  dispose(): void {
+    if (this.ownsBackupDir && this.backupDir) {
+      fs.rmSync(this.backupDir, { recursive: true, force: true });
+      this.backupDir = null;
+    }
+  }
+
+  protected loadGlobalML(): GlobalMLDatabase {
+    if (!this.store.globalML) {
+      this.store.globalML = getEmptyGlobalML();
+    }
+    return structuredClone(this.store.globalML);
+  }
+
+  protected async writeGlobalML(globalML: GlobalMLDatabase): Promise<void> {
+    this.store.globalML = structuredClone(globalML);
+  }
+
+  protected loadWorkspaceMetadata(): WorkspaceMetadata {
+    return structuredClone(this.store.metadata);
+  }
+
+  protected saveWorkspaceMetadata(metadata: WorkspaceMetadata): void {
+    this.store.metadata = structuredClone(metadata);
+  }
+
+  protected readWorkspaceDb(workspaceId: string): ProgressDatabase | null {
+    const db = this.store.workspaces.get(workspaceId);
+    return db ? structuredClone(db) : null;
+  }
+
+  protected async writeWorkspaceDb(workspaceId: string, db: ProgressDatabase): Promise<void> {
+    this.store.workspaces.set(workspaceId, structuredClone(db));
+  }
+
+  protected initWorkspaceDb(workspaceId: string, db: ProgressDatabase): void {
+    this.store.workspaces.set(workspaceId, structuredClone(db));
+  }
+
+  protected removeWorkspaceDb(workspaceId: string): void {
+    this.store.workspaces.delete(workspaceId);
+    this.store.journals.delete(workspaceId);
+  }
+
+  protected listWorkspaceDbIds(): string[] {
+    return [...this.store.workspaces.keys()];
+  }
+
+  protected appendJournal(workspaceId: string, entries: JournalEntry[]): void {
+    const journal = this.store.journals.get(workspaceId) ?? [];
+    journal.push(...structuredClone(entries));
+    this.store.journals.set(workspaceId, journal);
+  }
+
+  protected readJournal(workspaceId: string): JournalEntry[] {
+    return structuredClone(this.store.journals.get(workspaceId) ?? []);
+  }
+
+  protected archiveMLEvents(entries: ArchivedMLEvent[]): string {
+    this.store.archivedMLEvents.push(...structuredClone(entries));
+    return 'memory';
+  }
+
+  protected backupRoot(): string {
+    if (!this.backupDir) {
+      this.backupDir = fs.mkdtempSync(path.join(os.tmpdir(), 'priority-forge-memory-'));
+    }
+    return this.backupDir;
+  }
+
+  /**
+   * V4.3: One JSON snapshot of the whole store
+   */
+  protected backupData(backupDir: string): void {
+    fs.mkdirSync(backupDir, { recursive: true });
+    const snapshot = {
+      metadata: this.store.metadata,
+      workspaces: Object.fromEntries(this.store.workspaces),
+      globalML: this.store.globalML,
+      archivedMLEvents: this.store.archivedMLEvents,
+    };
+    fs.writeFileSync(path.join(backupDir, SNAPSHOT_FILE), JSON.stringify(snapshot));
+  }
+
+  protected restoreMLArchive(backupDir: string): void {
+    const snapshot = JSON.parse(fs.readFileSync(path.join(backupDir, SNAPSHOT_FILE), 'utf-8'));
+    if (snapshot.archivedMLEvents) {
+      this.store.archivedMLEvents = snapshot.archivedMLEvents;
+    }
+  }
+
+  protected readBackup(backupDir: string): BackupDataset {
+    const file = path.join(backupDir, SNAPSHOT_FILE);
+    if (!fs.existsSync(file)) {
+      throw new StorageValidationError(`No snapshot in backup ${path.basename(backupDir)}`);
+    }
+    const snapshot = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return {
+      metadata: snapshot.metadata,
+      workspaces: new Map(Object.entries(snapshot.workspaces ?? {})),
+      globalML: snapshot.globalML,
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '../types/schema';
+import { StorageValidationError } from './errors';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'after_completion'];
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL = 366;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a recurrence rule from a request; returns a normalized copy
+ */
+export function validateRecurrence(input: unknown): RecurrenceRule {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new StorageValidationError('recurrence must be an object');
+  }
+  const { frequency, interval, weekdays, until } = input as Record<string, unknown>;
+  if (!RECURRENCE_FREQUENCIES.includes(frequency as RecurrenceFrequency)) {
+    throw new StorageValidationError(`recurrence.frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+  if (interval !== undefined && (!Number.isInteger(interval) || (interval as number) < 1 || (interval as number) > MAX_INTERVAL)) {
+    throw new StorageValidationError(`recurrence.interval must be an integer between 1 and ${MAX_INTERVAL}`);
+  }
+  if (weekdays !== undefined) {
+    if (frequency !== 'weekly') {
+      throw new StorageValidationError('recurrence.weekdays only applies to weekly schedules');
+    }
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || !weekdays.every(d => WEEKDAYS.includes(d))) {
+      throw new StorageValidationError(`recurrence.weekdays must be a non-empty list of ${WEEKDAYS.join(', ')}`);
+    }
+  }
+  if (until !== undefined && (typeof until !== 'string' || Number.isNaN(Date.parse(until)))) {
+    throw new StorageValidationError('recurrence.until must be an ISO date');
+  }
+
+  const rule: RecurrenceRule = { frequency: frequency as RecurrenceFrequency };
+  if (interval !== undefined) rule.interval = interval as number;
+  if (weekdays !== undefined) rule.weekdays = WEEKDAYS.filter(d => (weekdays as Weekday[]).includes(d));
+  if (until !== undefined) rule.until = until as string;
+  return rule;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[(date.getUTCDay() + 6) % 7];
+}
+
+// Weeks start on Monday (RRULE's default WKST)
+function weekStart(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS) - ((date.getUTCDay() + 6) % 7);
+}
+
+// Same day of month N months later, clamped to the month's last day (Jan 31 → Feb 28)
+function addMonths(date: Date, months: number, dayOfMonth: number): Date {
+  const next = new Date(date.getTime());
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(dayOfMonth, lastDay));
+  return next;
+}
+
+function step(rule: RecurrenceRule, from: Date, dayOfMonth: number): Date {
+  const interval = rule.interval ?? 1;
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, interval);
+    case 'monthly':
+      return addMonths(from, interval, dayOfMonth);
+    default: {
+      if (!rule.weekdays?.length) return addDays(from, 7 * interval);
+      // Next listed weekday; moving into a new week skips interval - 1 weeks
+      for (let i = 1; i <= 7; i++) {
+        const candidate = addDays(from, i);
+        if (rule.weekdays.includes(weekdayOf(candidate))) {
+          return weekStart(candidate) === weekStart(from) ? candidate : addDays(candidate, 7 * (interval - 1));
+        }
+      }
+      return addDays(from, 7 * interval);
+    }
+  }
+}
+
+/**
+ * When the instance after one due at `deadline` (completed at `completedAt`)
+ * is due, formatted like the deadline. Calendar schedules step from the
+ * deadline (or the completion time if there was none) and skip occurrences
+ * that are already past, so a late completion does not create overdue work.
+ * Null once the schedule's `until` has passed.
+ */
+export function nextDeadline(rule: RecurrenceRule, deadline: string | undefined, completedAt: Date): string | null {
+  const parsed = deadline ? new Date(deadline) : null;
+  const anchor = parsed && !Number.isNaN(parsed.getTime()) ? parsed : completedAt;
+  const dateOnly = !deadline || DATE_ONLY.test(deadline);
+
+  let next: Date;
+  if (rule.frequency === 'after_completion') {
+    next = addDays(completedAt, rule.interval ?? 1);
+  } else {
+    const dayOfMonth = anchor.getUTCDate();
+    next = step(rule, anchor, dayOfMonth);
+    while (next.getTime() <= completedAt.getTime()) {
+      next = step(rule, next, dayOfMonth);
+    }
+  }
+
+  const formatted = dateOnly ? next.toISOString().slice(0, 10) : next.toISOString();
+  if (rule.until) {
+    const until = DATE_ONLY.test(rule.until) ? `${rule.until}T23:59:59.999Z` : rule.until;
+    if (new Date(formatted).getTime() > new Date(until).getTime()) return null;
+  }
+  return formatted;
+}
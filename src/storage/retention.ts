@@ -0,0 +1,170 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  CompactedEventSummary,
+  DragReorderEvent,
+  GlobalMLDatabase,
+  PriorityChangeEvent,
+  QueueRebalanceEvent,
+  RetainedEventType,
+  RetentionPolicy,
+  TaskSelectionEvent,
+} from '../types/schema';
+
+export const RETAINED_EVENT_TYPES: RetainedEventType[] = [
+  'queueRebalanceEvents',
+  'dragReorderEvents',
+  'taskSelectionEvents',
+  'priorityChangeEvents',
+];
+
+type TimedEvent = { id: string; timestamp: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Split events into kept and evicted: first by age, then the oldest beyond maxCount
+ */
+export function selectEvictions<T extends TimedEvent>(
+  events: T[],
+  policy: RetentionPolicy | undefined,
+  now: Date = new Date()
+): { keep: T[]; evict: T[] } {
+  if (!policy || (policy.maxAgeDays === undefined && policy.maxCount === undefined)) {
+    return { keep: events, evict: [] };
+  }
+
+  const cutoff = policy.maxAgeDays !== undefined
+    ? new Date(now.getTime() - policy.maxAgeDays * DAY_MS).toISOString()
+    : null;
+  const evicted = new Set<string>();
+
+  if (cutoff) {
+    for (const event of events) {
+      if (event.timestamp < cutoff) evicted.add(event.id);
+    }
+  }
+  if (policy.maxCount !== undefined) {
+    const survivors = events
+      .filter(e => !evicted.has(e.id))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    for (const event of survivors.slice(0, Math.max(0, survivors.length - policy.maxCount))) {
+      evicted.add(event.id);
+    }
+  }
+
+  return {
+    keep: events.filter(e => !evicted.has(e.id)),
+    evict: events.filter(e => evicted.has(e.id)),
+  };
+}
+
+function tally(tallies: Record<string, number>, key: string, amount: number = 1): void {
+  tallies[key] = (tallies[key] || 0) + amount;
+}
+
+/**
+ * Type-specific counts that survive compaction (what exportTrainingData still reports)
+ */
+export function summarizeEvents(type: RetainedEventType, events: TimedEvent[]): CompactedEventSummary | null {
+  if (events.length === 0) return null;
+
+  const tallies: Record<string, number> = {};
+  for (const event of events) {
+    switch (type) {
+      case 'queueRebalanceEvents': {
+        const e = event as unknown as QueueRebalanceEvent;
+        tally(tallies, `trigger:${e.trigger}`);
+        tally(tallies, 'significantChanges', e.significantChanges.length);
+        if (e.topTasksBefore[0] !== e.topTasksAfter[0]) tally(tallies, 'topTaskChanged');
+        break;
+      }
+      case 'dragReorderEvents': {
+        const e = event as unknown as DragReorderEvent;
+        tally(tallies, `direction:${e.direction}`);
+        tally(tallies, 'implicitPreferences', e.implicitPreferences.length);
+        if (e.appliedWeightDelta) tally(tallies, 'weightUpdates');
+        break;
+      }
+      case 'taskSelectionEvents': {
+        const e = event as unknown as TaskSelectionEvent;
+        tally(tallies, e.wasTopSelected ? 'topSelected' : 'notTopSelected');
+        tally(tallies, 'implicitPreferences', e.implicitPreferences?.length || 0);
+        break;
+      }
+      case 'priorityChangeEvents': {
+        const e = event as unknown as PriorityChangeEvent;
+        tally(tallies, `${e.oldPriority}->${e.newPriority}`);
+        break;
+      }
+    }
+  }
+
+  const timestamps = events.map(e => e.timestamp).sort();
+  return {
+    count: events.length,
+    oldestTimestamp: timestamps[0],
+    newestTimestamp: timestamps[timestamps.length - 1],
+    tallies,
+  };
+}
+
+export function mergeSummaries(
+  existing: CompactedEventSummary | undefined,
+  added: CompactedEventSummary
+): CompactedEventSummary {
+  if (!existing) return added;
+  const tallies = { ...existing.tallies };
+  for (const [key, value] of Object.entries(added.tallies)) {
+    tally(tallies, key, value);
+  }
+  return {
+    count: existing.count + added.count,
+    oldestTimestamp: existing.oldestTimestamp < added.oldestTimestamp ? existing.oldestTimestamp : added.oldestTimestamp,
+    newestTimestamp: existing.newestTimestamp > added.newestTimestamp ? existing.newestTimestamp : added.newestTimestamp,
+    tallies,
+  };
+}
+
+/**
+ * Apply retention policies in place: evicted events leave the arrays and are
+ * folded into globalML.compactedSummaries. Returns the evicted raw events.
+ */
+export function compactEvents(
+  globalML: GlobalMLDatabase,
+  policies: Partial<Record<RetainedEventType, RetentionPolicy>>,
+  now: Date = new Date()
+): Partial<Record<RetainedEventType, TimedEvent[]>> {
+  const evicted: Partial<Record<RetainedEventType, TimedEvent[]>> = {};
+
+  for (const type of RETAINED_EVENT_TYPES) {
+    const events = globalML[type] as TimedEvent[];
+    const { keep, evict } = selectEvictions(events, policies[type], now);
+    if (evict.length === 0) continue;
+
+    (globalML[type] as TimedEvent[]) = keep;
+    const summary = summarizeEvents(type, evict)!;
+    globalML.compactedSummaries = {
+      ...globalML.compactedSummaries,
+      [type]: mergeSummaries(globalML.compactedSummaries?.[type], summary),
+    };
+    evicted[type] = evict;
+  }
+
+  return evicted;
+}
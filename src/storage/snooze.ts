@@ -0,0 +1,52 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { WeightedTask } from '../types/schema';
+import { FINISHED_STATUSES } from './archive';
+import { StorageValidationError } from './errors';
+
+/**
+ * Tasks the heap serves: everything that is not snoozed. A snoozed task stays
+ * out until the scheduler (or an unsnooze) clears its snoozedUntil.
+ */
+export function awakeTasks(tasks: WeightedTask[]): WeightedTask[] {
+  return tasks.filter(t => !t.snoozedUntil);
+}
+
+/**
+ * Snoozed tasks whose snoozedUntil has passed (ready to be woken)
+ */
+export function dueToWake(tasks: WeightedTask[], now: Date): WeightedTask[] {
+  return tasks.filter(t => t.snoozedUntil && new Date(t.snoozedUntil).getTime() <= now.getTime());
+}
+
+/**
+ * Check a snooze request; returns the wake-up time as an ISO timestamp
+ */
+export function validateSnooze(task: WeightedTask, until: unknown, now: Date): string {
+  if (FINISHED_STATUSES.includes(task.status)) {
+    throw new StorageValidationError(`Task ${task.id} is already finished`);
+  }
+  const time = typeof until === 'string' ? Date.parse(until) : NaN;
+  if (Number.isNaN(time)) {
+    throw new StorageValidationError('until must be an ISO date or timestamp');
+  }
+  if (time <= now.getTime()) {
+    throw new StorageValidationError('until must be in the future');
+  }
+  return new Date(time).toISOString();
+}
@@ -0,0 +1,638 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  ProgressDatabase,
+  GlobalMLDatabase,
+  DEFAULT_GLOBAL_ML_DATABASE,
+  WorkspaceMetadata,
+  Workspace,
+  JournalEntry,
+  ArchivedMLEvent,
+} from '../types/schema';
+import { BaseStorage, getEmptyGlobalML } from './baseStorage';
+import { DATA_DIR } from './jsonStorage';
+import { DataFileCodec, ENCRYPTION_KEY_ENV, ENCRYPTION_KEY_FILE_ENV, loadEncryptionKey } from './encryption';
+import { BackupDataset, getBackupRoot } from './backups';
+import { EncryptionKeyError, StorageValidationError } from './errors';
+
+export const SQLITE_FILE = process.env.PRIORITY_FORGE_SQLITE_PATH || path.join(DATA_DIR, 'priority-forge.db');
+
+/**
+ * Per-workspace collections: ProgressDatabase key → table.
+ * Rows are stored as JSON with generated columns for the fields we filter on.
+ */
+const WORKSPACE_TABLES = {
+  projects: 'projects',
+  tasks: 'tasks',
+  dataGaps: 'data_gaps',
+  decisions: 'decisions',
+} as const;
+
+/**
+ * Global ML event arrays: GlobalMLDatabase key → table.
+ * Events are mostly appended, but migrations and workspace moves rewrite
+ * existing ones, so they are diffed by content like the workspace collections.
+ */
+const ML_EVENT_TABLES = {
+  completionRecords: 'completion_records',
+  priorityChangeEvents: 'priority_change_events',
+  taskSelectionEvents: 'task_selection_events',
+  queueRebalanceEvents: 'queue_rebalance_events',
+  dragReorderEvents: 'drag_reorder_events',
+  decisions: 'ml_decisions',
+  contextSwitchEvents: 'context_switch_events',
+} as const;
+
+type WorkspaceCollection = keyof typeof WORKSPACE_TABLES;
+type MLEventCollection = keyof typeof ML_EVENT_TABLES;
+
+interface Row {
+  id: string;
+  data: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS workspace_state (
+    workspace_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS projects (
+    workspace_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    name TEXT GENERATED ALWAYS AS (json_extract(data, '$.name')) VIRTUAL,
+    status TEXT GENERATED ALWAYS AS (json_extract(data, '$.status')) VIRTUAL,
+    PRIMARY KEY (workspace_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_projects_name ON projects (workspace_id, name);
+
+  CREATE TABLE IF NOT EXISTS tasks (
+    workspace_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    status TEXT GENERATED ALWAYS AS (json_extract(data, '$.status')) VIRTUAL,
+    priority TEXT GENERATED ALWAYS AS (json_extract(data, '$.priority')) VIRTUAL,
+    project TEXT GENERATED ALWAYS AS (json_extract(data, '$.project')) VIRTUAL,
+    priority_score REAL GENERATED ALWAYS AS (json_extract(data, '$.priorityScore')) VIRTUAL,
+    PRIMARY KEY (workspace_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks (workspace_id, status);
+  CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks (workspace_id, priority);
+  CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks (workspace_id, project);
+  CREATE INDEX IF NOT EXISTS idx_tasks_score ON tasks (workspace_id, priority_score);
+
+  CREATE TABLE IF NOT EXISTS data_gaps (
+    workspace_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    priority TEXT GENERATED ALWAYS AS (json_extract(data, '$.priority')) VIRTUAL,
+    PRIMARY KEY (workspace_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_data_gaps_priority ON data_gaps (workspace_id, priority);
+
+  CREATE TABLE IF NOT EXISTS decisions (
+    workspace_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    date TEXT GENERATED ALWAYS AS (json_extract(data, '$.date')) VIRTUAL,
+    decision_type TEXT GENERATED ALWAYS AS (json_extract(data, '$.decisionType')) VIRTUAL,
+    PRIMARY KEY (workspace_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_decisions_date ON decisions (workspace_id, date);
+
+  CREATE TABLE IF NOT EXISTS journal (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    timestamp TEXT GENERATED ALWAYS AS (json_extract(data, '$.timestamp')) VIRTUAL,
+    entity TEXT GENERATED ALWAYS AS (json_extract(data, '$.entity')) VIRTUAL,
+    entity_id TEXT GENERATED ALWAYS AS (json_extract(data, '$.entityId')) VIRTUAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_journal_timestamp ON journal (workspace_id, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_journal_entity ON journal (workspace_id, entity, entity_id);
+
+  CREATE TABLE IF NOT EXISTS ml_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    data TEXT NOT NULL
+  );
+${Object.values(ML_EVENT_TABLES).map(table => `
+  CREATE TABLE IF NOT EXISTS ${table} (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    workspace_id TEXT GENERATED ALWAYS AS (json_extract(data, '$.workspaceId')) VIRTUAL,
+    task_id TEXT GENERATED ALWAYS AS (coalesce(
+      json_extract(data, '$.taskId'),
+      json_extract(data, '$.fromTaskId'),
+      json_extract(data, '$.selectedTaskId'),
+      json_extract(data, '$.triggerTaskId'),
+      json_extract(data, '$.relatedTaskId')
+    )) VIRTUAL,
+    timestamp TEXT GENERATED ALWAYS AS (coalesce(
+      json_extract(data, '$.timestamp'),
+      json_extract(data, '$.completedAt'),
+      json_extract(data, '$.createdAt')
+    )) VIRTUAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_${table}_workspace ON ${table} (workspace_id);
+  CREATE INDEX IF NOT EXISTS idx_${table}_task ON ${table} (task_id);
+  CREATE INDEX IF NOT EXISTS idx_${table}_timestamp ON ${table} (timestamp);
+`).join('')}
+`;
+
+/**
+ * Thin data-access layer over the SQLite file.
+ *
+ * Keeps a cache of what was last written so saves only touch rows that
+ * actually changed, instead of rewriting the whole workspace like the JSON backend.
+ */
+export class SqliteStore {
+  private db: Database.Database;
+  private persistedRows: Map<string, Map<string, string>> = new Map();
+  private persistedEvents: Map<string, Map<string, string>> = new Map();
+
+  constructor(file: string) {
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * True if nothing has been written yet (used by the importer)
+   */
+  isEmpty(): boolean {
+    const row = this.db.prepare(
+      `SELECT (SELECT count(*) FROM workspaces) + (SELECT count(*) FROM workspace_state) + (SELECT count(*) FROM ml_state) AS n`
+    ).get() as { n: number };
+    return row.n === 0;
+  }
+
+  /**
+   * Drop every row (used by the importer with --force)
+   */
+  clear(): void {
+    const tables = ['settings', 'workspaces', 'workspace_state', 'ml_state', 'journal',
+      ...Object.values(WORKSPACE_TABLES), ...Object.values(ML_EVENT_TABLES)];
+    this.db.transaction(() => {
+      for (const table of tables) {
+        this.db.prepare(`DELETE FROM ${table}`).run();
+      }
+    })();
+    this.persistedRows.clear();
+    this.persistedEvents.clear();
+  }
+
+  // ========== Workspace metadata ==========
+
+  readMetadata(): WorkspaceMetadata {
+    const workspaces = (this.db.prepare('SELECT data FROM workspaces ORDER BY rowid').all() as Row[])
+      .map(r => JSON.parse(r.data) as Workspace);
+    const current = this.db.prepare(`SELECT value FROM settings WHERE key = 'currentWorkspaceId'`)
+      .get() as { value: string | null } | undefined;
+    return {
+      workspaces,
+      currentWorkspaceId: current?.value ?? null,
+    };
+  }
+
+  writeMetadata(metadata: WorkspaceMetadata): void {
+    const upsert = this.db.prepare(
+      'INSERT INTO workspaces (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data'
+    );
+    this.db.transaction(() => {
+      const ids = metadata.workspaces.map(w => w.id);
+      this.db.prepare(
+        `DELETE FROM workspaces WHERE id NOT IN (${ids.map(() => '?').join(', ')})`
+      ).run(...ids);
+      for (const workspace of metadata.workspaces) {
+        upsert.run(workspace.id, JSON.stringify(workspace));
+      }
+      this.db.prepare(
+        `INSERT INTO settings (key, value) VALUES ('currentWorkspaceId', ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+      ).run(metadata.currentWorkspaceId);
+    })();
+  }
+
+  // ========== Workspace databases ==========
+
+  readWorkspace(workspaceId: string): ProgressDatabase | null {
+    const state = this.db.prepare('SELECT data FROM workspace_state WHERE workspace_id = ?')
+      .get(workspaceId) as { data: string } | undefined;
+    if (!state) return null;
+
+    const db = JSON.parse(state.data) as ProgressDatabase;
+    for (const [key, table] of Object.entries(WORKSPACE_TABLES) as [WorkspaceCollection, string][]) {
+      const rows = this.db.prepare(`SELECT id, data FROM ${table} WHERE workspace_id = ? ORDER BY rowid`)
+        .all(workspaceId) as Row[];
+      this.persistedRows.set(this.cacheKey(table, workspaceId), new Map(rows.map(r => [r.id, r.data])));
+      (db[key] as unknown[]) = rows.map(r => JSON.parse(r.data));
+    }
+    return db;
+  }
+
+  writeWorkspace(workspaceId: string, db: ProgressDatabase): void {
+    const state: Record<string, unknown> = { ...db };
+    for (const key of Object.keys(WORKSPACE_TABLES)) {
+      delete state[key];
+    }
+
+    this.db.transaction(() => {
+      this.db.prepare(
+        `INSERT INTO workspace_state (workspace_id, data) VALUES (?, ?)
+         ON CONFLICT (workspace_id) DO UPDATE SET data = excluded.data`
+      ).run(workspaceId, JSON.stringify(state));
+
+      for (const [key, table] of Object.entries(WORKSPACE_TABLES) as [WorkspaceCollection, string][]) {
+        this.writeCollection(table, workspaceId, db[key] as Array<{ id: string }>);
+      }
+    })();
+  }
+
+  // ========== Operation journal ==========
+
+  appendJournal(workspaceId: string, entries: JournalEntry[]): void {
+    const insert = this.db.prepare('INSERT INTO journal (id, workspace_id, data) VALUES (?, ?, ?)');
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        insert.run(entry.id, workspaceId, JSON.stringify(entry));
+      }
+    })();
+  }
+
+  readJournal(workspaceId: string): JournalEntry[] {
+    return (this.db.prepare('SELECT data FROM journal WHERE workspace_id = ? ORDER BY rowid').all(workspaceId) as Row[])
+      .map(r => JSON.parse(r.data) as JournalEntry);
+  }
+
+  listWorkspaceIds(): string[] {
+    return (this.db.prepare('SELECT workspace_id FROM workspace_state ORDER BY rowid').all() as Array<{ workspace_id: string }>)
+      .map(r => r.workspace_id);
+  }
+
+  /**
+   * Consistent copy of the whole database file (safe while in use)
+   */
+  backupTo(file: string): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db.prepare('VACUUM INTO ?').run(file);
+  }
+
+  deleteWorkspace(workspaceId: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM workspace_state WHERE workspace_id = ?').run(workspaceId);
+      this.db.prepare('DELETE FROM journal WHERE workspace_id = ?').run(workspaceId);
+      for (const table of Object.values(WORKSPACE_TABLES)) {
+        this.db.prepare(`DELETE FROM ${table} WHERE workspace_id = ?`).run(workspaceId);
+        this.persistedRows.delete(this.cacheKey(table, workspaceId));
+      }
+    })();
+  }
+
+  /**
+   * Upsert changed rows and delete removed ones, comparing against the last write
+   */
+  private writeCollection(table: string, workspaceId: string, items: Array<{ id: string }>): void {
+    const key = this.cacheKey(table, workspaceId);
+    const previous = this.persistedRows.get(key) ?? new Map<string, string>();
+    const next = new Map<string, string>();
+
+    const upsert = this.db.prepare(
+      `INSERT INTO ${table} (workspace_id, id, data) VALUES (?, ?, ?)
+       ON CONFLICT (workspace_id, id) DO UPDATE SET data = excluded.data`
+    );
+    for (const item of items) {
+      const serialized = JSON.stringify(item);
+      next.set(item.id, serialized);
+      if (previous.get(item.id) !== serialized) {
+        upsert.run(workspaceId, item.id, serialized);
+      }
+    }
+
+    const remove = this.db.prepare(`DELETE FROM ${table} WHERE workspace_id = ? AND id = ?`);
+    for (const id of previous.keys()) {
+      if (!next.has(id)) {
+        remove.run(workspaceId, id);
+      }
+    }
+
+    this.persistedRows.set(key, next);
+  }
+
+  // ========== Global ML database ==========
+
+  readGlobalML(): GlobalMLDatabase | null {
+    const state = this.db.prepare('SELECT data FROM ml_state WHERE id = 1').get() as { data: string } | undefined;
+    if (!state) return null;
+
+    const globalML = JSON.parse(state.data) as GlobalMLDatabase;
+    for (const [key, table] of Object.entries(ML_EVENT_TABLES) as [MLEventCollection, string][]) {
+      const rows = this.db.prepare(`SELECT id, data FROM ${table} ORDER BY rowid`).all() as Row[];
+      this.persistedEvents.set(table, new Map(rows.map(r => [r.id, r.data])));
+      (globalML[key] as unknown[]) = rows.map(r => JSON.parse(r.data));
+    }
+    return globalML;
+  }
+
+  writeGlobalML(globalML: GlobalMLDatabase): void {
+    const state: Record<string, unknown> = { ...globalML };
+    for (const key of Object.keys(ML_EVENT_TABLES)) {
+      delete state[key];
+    }
+
+    this.db.transaction(() => {
+      this.db.prepare(
+        `INSERT INTO ml_state (id, data) VALUES (1, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+      ).run(JSON.stringify(state));
+
+      for (const [key, table] of Object.entries(ML_EVENT_TABLES) as [MLEventCollection, string][]) {
+        this.writeEvents(table, (globalML[key] || []) as Array<{ id: string }>);
+      }
+    })();
+  }
+
+  /**
+   * Upsert new or changed events and drop events no longer in memory
+   */
+  private writeEvents(table: string, events: Array<{ id: string }>): void {
+    const previous = this.persistedEvents.get(table) ?? new Map<string, string>();
+    const next = new Map<string, string>();
+
+    const upsert = this.db.prepare(
+      `INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data`
+    );
+    for (const event of events) {
+      const serialized = JSON.stringify(event);
+      next.set(event.id, serialized);
+      if (previous.get(event.id) !== serialized) {
+        upsert.run(event.id, serialized);
+      }
+    }
+
+    const remove = this.db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    for (const id of previous.keys()) {
+      if (!next.has(id)) {
+        remove.run(id);
+      }
+    }
+
+    this.persistedEvents.set(table, next);
+  }
+
+  private cacheKey(table: string, workspaceId: string): string {
+    return `${table}:${workspaceId}`;
+  }
+}
+
+/**
+ * SQLite backend (PRIORITY_FORGE_STORAGE=sqlite)
+ *
+ * Single embedded database file holding every workspace plus the global ML
+ * data in indexed tables. Saves are incremental: only changed rows are written.
+ */
+export class SqliteStorage extends BaseStorage {
+  private store: SqliteStore;
+  private file: string;
+  protected readonly backend = 'sqlite';
+
+  constructor(file: string = SQLITE_FILE) {
+    super();
+    // V4.3: The database is not encrypted, so a configured key is an error rather than silently ignored
+    if (loadEncryptionKey()) {
+      throw new EncryptionKeyError(
+        `Encryption at rest is not supported by the SQLite backend: unset ${ENCRYPTION_KEY_ENV} ` +
+        `and ${ENCRYPTION_KEY_FILE_ENV}, or use PRIORITY_FORGE_STORAGE=json`
+      );
+    }
+    this.file = file;
+    this.store = new SqliteStore(file);
+    this.initialize();
+    console.log(`🗄️  SQLite storage: ${file}`);
+  }
+
+  protected loadGlobalML(): GlobalMLDatabase {
+    const loaded = this.store.readGlobalML();
+    if (!loaded) {
+      const empty = getEmptyGlobalML();
+      this.store.writeGlobalML(empty);
+      return empty;
+    }
+    return loaded;
+  }
+
+  protected async writeGlobalML(globalML: GlobalMLDatabase): Promise<void> {
+    this.store.writeGlobalML(globalML);
+  }
+
+  protected loadWorkspaceMetadata(): WorkspaceMetadata {
+    return this.store.readMetadata();
+  }
+
+  protected saveWorkspaceMetadata(metadata: WorkspaceMetadata): void {
+    this.store.writeMetadata(metadata);
+  }
+
+  protected readWorkspaceDb(workspaceId: string): ProgressDatabase | null {
+    return this.store.readWorkspace(workspaceId);
+  }
+
+  protected async writeWorkspaceDb(workspaceId: string, db: ProgressDatabase): Promise<void> {
+    this.store.writeWorkspace(workspaceId, db);
+  }
+
+  protected initWorkspaceDb(workspaceId: string, db: ProgressDatabase): void {
+    this.store.writeWorkspace(workspaceId, db);
+  }
+
+  protected removeWorkspaceDb(workspaceId: string): void {
+    this.store.deleteWorkspace(workspaceId);
+  }
+
+  protected listWorkspaceDbIds(): string[] {
+    return this.store.listWorkspaceIds();
+  }
+
+  protected appendJournal(workspaceId: string, entries: JournalEntry[]): void {
+    this.store.appendJournal(workspaceId, entries);
+  }
+
+  protected readJournal(workspaceId: string): JournalEntry[] {
+    return this.store.readJournal(workspaceId);
+  }
+
+  /**
+   * V4.3: Evicted raw events go to a JSONL file beside the database, keeping the database small
+   */
+  protected archiveMLEvents(entries: ArchivedMLEvent[]): string {
+    fs.appendFileSync(this.archiveFile(), entries.map(e => JSON.stringify(e) + '\n').join(''));
+    return this.archiveFile();
+  }
+
+  private archiveFile(): string {
+    return path.join(path.dirname(this.file), 'ml-archive.jsonl');
+  }
+
+  protected backupRoot(): string {
+    return getBackupRoot(path.dirname(this.file));
+  }
+
+  /**
+   * V4.3: Consistent snapshot of the database file (VACUUM INTO, safe while in use)
+   * plus a copy of the ML archive
+   */
+  protected backupData(backupDir: string): void {
+    this.store.backupTo(path.join(backupDir, path.basename(this.file)));
+    if (fs.existsSync(this.archiveFile())) {
+      fs.copyFileSync(this.archiveFile(), path.join(backupDir, path.basename(this.archiveFile())));
+    }
+  }
+
+  protected restoreMLArchive(backupDir: string): void {
+    const archive = path.join(backupDir, path.basename(this.archiveFile()));
+    if (fs.existsSync(archive)) {
+      fs.copyFileSync(archive, this.archiveFile());
+    }
+  }
+
+  protected readBackup(backupDir: string): BackupDataset {
+    const dbFile = fs.readdirSync(backupDir).find(name => name.endsWith('.db'));
+    if (!dbFile) {
+      throw new StorageValidationError(`No database file in backup ${path.basename(backupDir)}`);
+    }
+    const snapshot = new SqliteStore(path.join(backupDir, dbFile));
+    try {
+      const workspaces = new Map<string, ProgressDatabase>();
+      for (const id of snapshot.listWorkspaceIds()) {
+        const db = snapshot.readWorkspace(id);
+        if (db) workspaces.set(id, db);
+      }
+      const globalML = snapshot.readGlobalML();
+      if (!globalML) {
+        throw new StorageValidationError(`Backup ${path.basename(backupDir)} has no ML data`);
+      }
+      return { metadata: snapshot.readMetadata(), workspaces, globalML };
+    } finally {
+      snapshot.close();
+    }
+  }
+}
+
+export interface SqliteImportSummary {
+  workspaces: number;
+  tasks: number;
+  projects: number;
+  mlEvents: number;
+}
+
+/**
+ * One-shot import of the JSON data directory into a SQLite file.
+ *
+ * Reads data/workspaces.json, every data/workspaces/{id}/progress.json (and journal.jsonl),
+ * data/ml-training.json and (if there are no workspaces) the legacy
+ * data/progress.json, which becomes the 'default' workspace.
+ */
+export function importJsonIntoSqlite(options: {
+  dataDir: string;
+  sqliteFile: string;
+  force?: boolean;
+}): SqliteImportSummary {
+  const { dataDir, sqliteFile, force = false } = options;
+  // V4.3: JSON files may be encrypted (the SQLite file itself is not)
+  const codec = new DataFileCodec(loadEncryptionKey());
+  const readJson = <T>(file: string): T | null =>
+    fs.existsSync(file) ? JSON.parse(codec.decode(fs.readFileSync(file, 'utf-8'), file)) as T : null;
+
+  const store = new SqliteStore(sqliteFile);
+  try {
+    if (!store.isEmpty() && !force) {
+      throw new Error(`${sqliteFile} already contains data. Re-run with --force to overwrite it.`);
+    }
+    store.clear();
+
+    const summary: SqliteImportSummary = { workspaces: 0, tasks: 0, projects: 0, mlEvents: 0 };
+
+    const metadata = readJson<WorkspaceMetadata>(path.join(dataDir, 'workspaces.json'))
+      ?? { workspaces: [], currentWorkspaceId: null };
+    store.writeMetadata(metadata);
+
+    const workspaceDbs = new Map<string, ProgressDatabase>();
+    const workspacesDir = path.join(dataDir, 'workspaces');
+    if (fs.existsSync(workspacesDir)) {
+      for (const workspaceId of fs.readdirSync(workspacesDir)) {
+        const db = readJson<ProgressDatabase>(path.join(workspacesDir, workspaceId, 'progress.json'));
+        if (db) workspaceDbs.set(workspaceId, db);
+      }
+    }
+    if (workspaceDbs.size === 0) {
+      const legacy = readJson<ProgressDatabase>(path.join(dataDir, 'progress.json'));
+      if (legacy) workspaceDbs.set('default', legacy);
+    }
+
+    for (const [workspaceId, db] of workspaceDbs) {
+      const journalFile = path.join(workspacesDir, workspaceId, 'journal.jsonl');
+      if (fs.existsSync(journalFile)) {
+        store.appendJournal(workspaceId, codec.decodeLines(fs.readFileSync(journalFile, 'utf-8'), journalFile)
+          .map(line => JSON.parse(line) as JournalEntry));
+      }
+      store.writeWorkspace(workspaceId, {
+        ...db,
+        projects: db.projects || [],
+        tasks: db.tasks || [],
+        dataGaps: db.dataGaps || [],
+        decisions: db.decisions || [],
+      });
+      summary.workspaces++;
+      summary.tasks += (db.tasks || []).length;
+      summary.projects += (db.projects || []).length;
+    }
+
+    const globalML = readJson<GlobalMLDatabase>(path.join(dataDir, 'ml-training.json'));
+    if (globalML) {
+      store.writeGlobalML({ ...DEFAULT_GLOBAL_ML_DATABASE, ...globalML });
+      for (const key of Object.keys(ML_EVENT_TABLES) as MLEventCollection[]) {
+        summary.mlEvents += (globalML[key] || []).length;
+      }
+    }
+
+    return summary;
+  } finally {
+    store.close();
+  }
+}
@@ -0,0 +1,150 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { SubtaskProgress, TaskTreeNode, WeightedTask } from '../types/schema';
+import { FINISHED_STATUSES } from './archive';
+import { StorageValidationError } from './errors';
+
+/**
+ * Parent ID → child tasks. A parentId that names no task is ignored, so a
+ * child whose parent was deleted shows up as a root (and re-attaches on restore).
+ */
+export function groupChildren(tasks: WeightedTask[]): Map<string, WeightedTask[]> {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = new Map<string, WeightedTask[]>();
+  for (const task of tasks) {
+    if (!task.parentId || !ids.has(task.parentId)) continue;
+    const siblings = children.get(task.parentId) ?? [];
+    siblings.push(task);
+    children.set(task.parentId, siblings);
+  }
+  return children;
+}
+
+/**
+ * IDs of containers: tasks with at least one unfinished child. The queue only
+ * serves the leaves; a container's work is done through its subtasks.
+ */
+export function containerIds(tasks: WeightedTask[]): Set<string> {
+  const ids = new Set<string>();
+  for (const [parentId, children] of groupChildren(tasks)) {
+    if (children.some(c => !FINISHED_STATUSES.includes(c.status))) ids.add(parentId);
+  }
+  return ids;
+}
+
+/**
+ * Every descendant of `id` (children first, then theirs)
+ */
+export function descendantsOf(id: string, tasks: WeightedTask[]): WeightedTask[] {
+  const children = groupChildren(tasks);
+  const result: WeightedTask[] = [];
+  const queue = [...(children.get(id) ?? [])];
+  while (queue.length > 0) {
+    const task = queue.shift()!;
+    result.push(task);
+    queue.push(...(children.get(task.id) ?? []));
+  }
+  return result;
+}
+
+/**
+ * Unfinished descendants of `id` (what blocks its completion)
+ */
+export function openDescendantsOf(id: string, tasks: WeightedTask[]): WeightedTask[] {
+  return descendantsOf(id, tasks).filter(t => !FINISHED_STATUSES.includes(t.status));
+}
+
+/**
+ * Check that `parentId` can be the parent of `taskId`: it exists, is not
+ * finished, and is neither the task itself nor one of its descendants.
+ */
+export function validateParent(taskId: string, parentId: string, tasks: Map<string, WeightedTask>): WeightedTask {
+  const parent = tasks.get(parentId);
+  if (!parent) {
+    throw new StorageValidationError(`Parent task ${parentId} not found`);
+  }
+  if (FINISHED_STATUSES.includes(parent.status)) {
+    throw new StorageValidationError(`Parent task ${parentId} is already finished`);
+  }
+  const seen = new Set<string>();
+  for (let current: WeightedTask | undefined = parent; current; current = current.parentId ? tasks.get(current.parentId) : undefined) {
+    if (current.id === taskId) {
+      throw new StorageValidationError(`Task ${taskId} cannot be its own ancestor (parent ${parentId})`);
+    }
+    if (seen.has(current.id)) break;  // Pre-existing loop in stored data; nothing new to detect
+    seen.add(current.id);
+  }
+  return parent;
+}
+
+/**
+ * Rollup over the leaf descendants of a task (null if it has no children)
+ */
+export function subtaskProgress(id: string, children: Map<string, WeightedTask[]>): SubtaskProgress | null {
+  if (!children.has(id)) return null;
+  let total = 0;
+  let finished = 0;
+  const visit = (taskId: string, seen: Set<string>) => {
+    for (const child of children.get(taskId) ?? []) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      if (children.has(child.id)) {
+        visit(child.id, seen);
+      } else {
+        total++;
+        if (FINISHED_STATUSES.includes(child.status)) finished++;
+      }
+    }
+  };
+  visit(id, new Set([id]));
+  return {
+    total,
+    finished,
+    percent: total === 0 ? 0 : Math.round((finished / total) * 100),
+    complete: total > 0 && finished === total,
+  };
+}
+
+/**
+ * Tasks as a forest, each level in the order given (pass them sorted by score).
+ * Progress is computed over all tasks; `visible` decides which nodes are listed.
+ * A visible task whose parent is hidden is listed as a root.
+ */
+export function buildTaskTree(
+  tasks: WeightedTask[],
+  visible: (task: WeightedTask) => boolean = () => true
+): TaskTreeNode[] {
+  const children = groupChildren(tasks);
+  const shown = new Set(tasks.filter(visible).map(t => t.id));
+
+  const toNode = (task: WeightedTask, path: Set<string>): TaskTreeNode => {
+    const node: TaskTreeNode = {
+      ...task,
+      children: (children.get(task.id) ?? [])
+        .filter(c => shown.has(c.id) && !path.has(c.id))
+        .map(c => toNode(c, new Set([...path, c.id]))),
+    };
+    const progress = subtaskProgress(task.id, children);
+    if (progress) node.progress = progress;
+    return node;
+  };
+
+  return tasks
+    .filter(t => shown.has(t.id) && !(t.parentId && shown.has(t.parentId)))
+    .map(t => toNode(t, new Set([t.id])));
+}
@@ -0,0 +1,137 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { TagDefinition, TagFilter, Task, UpdateTagDTO } from '../types/schema';
+import { StorageValidationError } from './errors';
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9\-_:/]*$/;
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS_PER_TASK = 20;
+const MAX_SCORE_MULTIPLIER = 10;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Trim and lowercase a tag name, rejecting anything that is not a valid tag
+ */
+export function normalizeTag(input: unknown): string {
+  const name = typeof input === 'string' ? input.trim().toLowerCase() : '';
+  if (!name || name.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(name)) {
+    throw new StorageValidationError(
+      `Invalid tag ${JSON.stringify(input)}: use up to ${MAX_TAG_LENGTH} lowercase letters, digits, '-', '_', ':' or '/'`
+    );
+  }
+  return name;
+}
+
+/**
+ * Check a task's tag list from a request; returns normalized, de-duplicated names
+ */
+export function normalizeTags(input: unknown): string[] {
+  if (!Array.isArray(input)) {
+    throw new StorageValidationError('tags must be an array of strings');
+  }
+  const tags = [...new Set(input.map(normalizeTag))];
+  if (tags.length > MAX_TAGS_PER_TASK) {
+    throw new StorageValidationError(`A task can have at most ${MAX_TAGS_PER_TASK} tags`);
+  }
+  return tags;
+}
+
+/**
+ * Check a registry update; returns the fields to apply (null = remove)
+ */
+export function validateTagUpdate(input: unknown): UpdateTagDTO {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new StorageValidationError('Tag update must be an object');
+  }
+  const { description, color, scoreMultiplier } = input as Record<string, unknown>;
+  if (description !== undefined && typeof description !== 'string') {
+    throw new StorageValidationError('description must be a string');
+  }
+  if (color !== undefined && (typeof color !== 'string' || !HEX_COLOR.test(color))) {
+    throw new StorageValidationError('color must be a hex color like #ef4444');
+  }
+  if (
+    scoreMultiplier !== undefined && scoreMultiplier !== null &&
+    (typeof scoreMultiplier !== 'number' || !(scoreMultiplier > 0) || scoreMultiplier > MAX_SCORE_MULTIPLIER)
+  ) {
+    throw new StorageValidationError(`scoreMultiplier must be a number above 0 and at most ${MAX_SCORE_MULTIPLIER}`);
+  }
+  const update: UpdateTagDTO = {};
+  if (description !== undefined) update.description = description as string;
+  if (color !== undefined) update.color = (color as string).toLowerCase();
+  if (scoreMultiplier !== undefined) update.scoreMultiplier = scoreMultiplier as number | null;
+  return update;
+}
+
+/**
+ * Add registry entries for tags that are not registered yet; returns the new entries
+ */
+export function registerTags(registry: TagDefinition[], names: string[], now: string): TagDefinition[] {
+  const known = new Set(registry.map(t => t.name));
+  const added = [...new Set(names)].filter(name => !known.has(name)).map(name => ({ name, createdAt: now, updatedAt: now }));
+  registry.push(...added);
+  return added;
+}
+
+/**
+ * Tag name → score multiplier, for the tags that have one
+ */
+export function tagMultipliers(registry: TagDefinition[] | undefined): Record<string, number> {
+  const multipliers: Record<string, number> = {};
+  for (const tag of registry ?? []) {
+    if (tag.scoreMultiplier !== undefined) multipliers[tag.name] = tag.scoreMultiplier;
+  }
+  return multipliers;
+}
+
+/**
+ * Does the task pass the filter? An empty filter matches every task.
+ */
+export function matchesTags(task: Pick<Task, 'tags'>, filter: TagFilter): boolean {
+  if (filter.tags.length === 0) return true;
+  const tags = new Set(task.tags ?? []);
+  return filter.match === 'all' ? filter.tags.every(t => tags.has(t)) : filter.tags.some(t => tags.has(t));
+}
+
+/**
+ * Build a filter from query-style input: a comma-separated string or a list
+ */
+export function parseTagFilter(tags: unknown, match?: unknown): TagFilter | undefined {
+  const names = (Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : [])
+    .map(t => String(t).trim())
+    .filter(Boolean);
+  if (names.length === 0) return undefined;
+  if (match !== undefined && match !== 'any' && match !== 'all') {
+    throw new StorageValidationError("tagMatch must be 'any' or 'all'");
+  }
+  return { tags: names.map(normalizeTag), match: match as TagFilter['match'] };
+}
+
+/**
+ * Registry entries of `source` that `target` lacks (limited to `names` if given),
+ * appended to a copy of `target`. Used when tasks move or merge between workspaces.
+ */
+export function copyTagDefinitions(
+  target: TagDefinition[] | undefined,
+  source: TagDefinition[] | undefined,
+  names?: Set<string>
+): TagDefinition[] {
+  const known = new Set((target ?? []).map(t => t.name));
+  const copied = (source ?? []).filter(t => !known.has(t.name) && (!names || names.has(t.name)));
+  return [...(target ?? []), ...structuredClone(copied)];
+}
@@ -0,0 +1,140 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { UndoEntry, UndoHistory, UndoSummary } from '../types/schema';
+
+export const UNDO_LIMIT = 50;
+
+export function summarizeUndoEntry(entry: UndoEntry): UndoSummary {
+  const { id, action, taskId, description, timestamp } = entry;
+  return { id, action, taskId, description, timestamp };
+}
+
+function touchedTaskIds(entry: UndoEntry): string[] {
+  return [
+    entry.taskId,
+    ...(entry.nextInstance ? [entry.nextInstance.id] : []),
+    ...(entry.unblocked ?? []).map(u => u.before.id),
+  ];
+}
+
+/**
+ * V4.3: Undo/redo stacks keyed by workspace
+ *
+ * Recording a new change clears that workspace's redo stack; the oldest
+ * entries are dropped once a stack exceeds UNDO_LIMIT.
+ */
+export class UndoStacks {
+  private stacks: Map<string, { undo: UndoEntry[]; redo: UndoEntry[] }> = new Map();
+
+  constructor(private readonly limit: number = UNDO_LIMIT) {}
+
+  private get(workspaceKey: string): { undo: UndoEntry[]; redo: UndoEntry[] } {
+    let stack = this.stacks.get(workspaceKey);
+    if (!stack) {
+      stack = { undo: [], redo: [] };
+      this.stacks.set(workspaceKey, stack);
+    }
+    return stack;
+  }
+
+  record(workspaceKey: string, entry: Omit<UndoEntry, 'id' | 'timestamp'>): UndoEntry {
+    const stack = this.get(workspaceKey);
+    const recorded: UndoEntry = { id: uuidv4(), timestamp: new Date().toISOString(), ...entry };
+    stack.undo.push(recorded);
+    if (stack.undo.length > this.limit) {
+      stack.undo.shift();
+    }
+    stack.redo = [];
+    return recorded;
+  }
+
+  peekUndo(workspaceKey: string): UndoEntry | undefined {
+    const { undo } = this.get(workspaceKey);
+    return undo[undo.length - 1];
+  }
+
+  peekRedo(workspaceKey: string): UndoEntry | undefined {
+    const { redo } = this.get(workspaceKey);
+    return redo[redo.length - 1];
+  }
+
+  /**
+   * Move the latest change onto the redo stack (call after it has been reverted)
+   */
+  commitUndo(workspaceKey: string): void {
+    const stack = this.get(workspaceKey);
+    const entry = stack.undo.pop();
+    if (entry) stack.redo.push(entry);
+  }
+
+  /**
+   * Move the next redo back onto the undo stack (call after it has been re-applied)
+   */
+  commitRedo(workspaceKey: string): void {
+    const stack = this.get(workspaceKey);
+    const entry = stack.redo.pop();
+    if (entry) stack.undo.push(entry);
+  }
+
+  history(workspaceKey: string): UndoHistory {
+    const { undo, redo } = this.get(workspaceKey);
+    return {
+      undo: [...undo].reverse().map(summarizeUndoEntry),
+      redo: [...redo].reverse().map(summarizeUndoEntry),
+    };
+  }
+
+  /**
+   * Remove one entry from either stack (it can no longer be applied)
+   */
+  discard(workspaceKey: string, entryId: string): void {
+    const stack = this.get(workspaceKey);
+    stack.undo = stack.undo.filter(e => e.id !== entryId);
+    stack.redo = stack.redo.filter(e => e.id !== entryId);
+  }
+
+  /**
+   * Drop every undo and redo entry that touches one of `taskIds` - tasks that
+   * left the workspace (moved, archived or purged) can no longer be reverted
+   */
+  dropTasks(workspaceKey: string, taskIds: Set<string>): void {
+    const stack = this.stacks.get(workspaceKey);
+    if (!stack || taskIds.size === 0) return;
+    const keep = (entry: UndoEntry) => !touchedTaskIds(entry).some(id => taskIds.has(id));
+    stack.undo = stack.undo.filter(keep);
+    stack.redo = stack.redo.filter(keep);
+  }
+
+  /**
+   * Drop the drag reorder entries (in every workspace) whose event was compacted
+   * into the summaries - re-adding or retracting it would miscount the training data
+   */
+  dropDragEvents(eventIds: Set<string>): void {
+    if (eventIds.size === 0) return;
+    const keep = (entry: UndoEntry) => !(entry.dragEvent && eventIds.has(entry.dragEvent.id));
+    for (const stack of this.stacks.values()) {
+      stack.undo = stack.undo.filter(keep);
+      stack.redo = stack.redo.filter(keep);
+    }
+  }
+
+  clear(workspaceKey: string): void {
+    this.stacks.delete(workspaceKey);
+  }
+}
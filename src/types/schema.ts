@@ -31,6 +31,7 @@ export interface Project {
   primaryFocus: string;
   createdAt: string;
   updatedAt: string;
+  revision: number;       // V4.3: Incremented on every write (optimistic concurrency)
 }
 
 // V2: Weight factors for priority scoring
@@ -69,8 +70,12 @@ export interface Task {
   blocking?: string;
   dependencies?: string[];  // Task IDs this depends on
   notes?: string;
+  parentId?: string;        // V4.3: Parent task (subtasks); a task with open children is a container, not queued
+  tags?: string[];          // V4.3: Free-form labels, registered in the workspace's tag registry
+  customFields?: Record<string, CustomFieldValue>;  // V4.3: Values for the workspace's custom field schema
   createdAt: string;
   updatedAt: string;
+  revision: number;         // V4.3: Incremented on every write; compare via If-Match / expectedRevision
 }
 
 // V2: Extended task with computed priority score
@@ -82,6 +87,70 @@ export interface WeightedTask extends Task {
   effort?: Effort;        // Task effort estimate
   // V4.0: Work duration tracking
   startedAt?: string;     // ISO timestamp when work actually began (status → in_progress)
+  // V4.3: Recurring tasks - completing one creates the next instance of the series
+  recurrence?: RecurrenceRule;
+  seriesId?: string;      // Shared by every instance of a recurring task
+  // V4.3: Hidden from the queue until this time (the scheduler clears it and re-queues the task)
+  snoozedUntil?: string;
+  // V4.3: Set when completing a prerequisite moved this task from blocked to not_started
+  // (cleared by the next status change)
+  unblockedBy?: string;   // The completed task
+  unblockedAt?: string;
+}
+
+// V4.3: RRULE-style schedule (weekdays use RRULE BYDAY codes)
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;      // Every N days/weeks/months, or N days after completion (default 1)
+  weekdays?: Weekday[];   // weekly only: the days it falls on (default: the deadline's weekday)
+  until?: string;         // No instances due after this date
+}
+
+// V4.3: Workspace-defined task fields (dates are ISO dates, URLs http(s) only)
+export type CustomFieldType = 'string' | 'number' | 'enum' | 'date' | 'boolean' | 'url';
+export type CustomFieldValue = string | number | boolean;
+
+export interface CustomFieldDefinition {
+  key: string;               // Property name in task.customFields (letters, digits, '_'; starts with a letter)
+  label?: string;            // Shown in the dashboard (defaults to the key)
+  type: CustomFieldType;
+  options?: string[];        // enum only: the allowed values
+  required?: boolean;        // New tasks must set it; it cannot be cleared
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomFieldInput = Omit<CustomFieldDefinition, 'key' | 'createdAt' | 'updatedAt'>;
+
+// V4.3: Tag registry entry (one per tag name per workspace)
+export interface TagDefinition {
+  name: string;              // Lowercase: letters, digits, '-', '_', ':' and '/'
+  description?: string;
+  color?: string;            // Hex color for the dashboard, e.g. #ef4444
+  scoreMultiplier?: number;  // Scales the heuristic adjustment of tagged tasks (2 = twice as urgent)
+  createdAt: string;
+  updatedAt: string;
+}
+
+// V4.3: Registry entry with how many live tasks carry the tag
+export interface TagSummary extends TagDefinition {
+  taskCount: number;
+}
+
+// V4.3: Task list filter; 'any' (default) keeps tasks with at least one of the tags
+export interface TagFilter {
+  tags: string[];
+  match?: 'any' | 'all';
+}
+
+export interface UpdateTagDTO {
+  description?: string;
+  color?: string;
+  scoreMultiplier?: number | null;  // null removes the multiplier
 }
 
 export interface DataGap {
@@ -131,6 +200,28 @@ export interface TaskCompletionRecord {
   actualWorkTime?: number;        // Hours from startedAt to completedAt (actual work, not queue time)
   // V4: Workspace tracking for ML aggregation
   workspaceId?: string;           // Which workspace this completion came from
+  // V4.0 migration: startedAt/actualWorkTime were estimated, not measured
+  _imputed?: boolean;
+  // V4.3: Recurring tasks (per-series durations)
+  seriesId?: string;
+  nextInstanceId?: string;        // The instance this completion created
+}
+
+// V4.3: What completeTask returns - the stored record plus the dependents it unblocked
+// (kept out of the record itself, which is ML training data)
+export interface TaskCompletionResult extends TaskCompletionRecord {
+  unblockedTaskIds?: string[];    // Blocked dependents this completion moved to not_started
+}
+
+// V4.3: Context switch event (persisted, so counts survive restarts)
+export interface ContextSwitchEvent {
+  id: string;
+  fromTaskId: string;            // Task the user switched away from
+  toTaskId?: string;             // Task they switched to (if known)
+  timestamp: string;
+  workspaceId?: string;
+  sessionId?: string;            // MCP session that logged the switch
+  actor?: string;                // V4.3: Who logged it (same format as the task history)
 }
 
 // V3: Priority change event (for learning from user overrides)
@@ -192,7 +283,7 @@ export interface TaskSelectionEvent {
 // V3: Queue rebalance event (for learning queue dynamics)
 export interface QueueRebalanceEvent {
   id: string;
-  trigger: 'task_created' | 'task_completed' | 'task_deleted' | 'task_updated' | 'weights_changed';
+  trigger: 'task_created' | 'task_completed' | 'task_deleted' | 'task_updated' | 'weights_changed' | 'tasks_woken';
   triggerTaskId?: string;        // Which task triggered the rebalance
   timestamp: string;
   // Snapshot of queue state before/after
@@ -347,6 +438,20 @@ export interface ProgressDatabase {
   // V4: Goal-conditioned learning (workspace-scoped)
   objectives?: Objective[];
   objectiveProgressEvents?: ObjectiveProgressEvent[];
+  // V4.3: Last applied migration (see src/migrations), absent = 0
+  schemaRevision?: number;
+  // V4.3: Soft-deleted tasks/projects and how long they are kept
+  trash?: TrashEntry[];
+  trashRetentionDays?: number;
+  // V4.3: Finished tasks moved out of the live queue, and after how many days
+  archive?: ArchivedTask[];
+  archiveAfterDays?: number;
+  // V4.3: Tags known to this workspace (tasks register new tags on use)
+  tags?: TagDefinition[];
+  // V4.3: Custom field schema for this workspace's tasks
+  customFields?: CustomFieldDefinition[];
+  // V4.3: Completing a task unblocks dependents whose prerequisites are all finished (absent = on)
+  autoUnblock?: boolean;
 }
 
 // V4: Global ML training data (shared across ALL workspaces)
@@ -354,6 +459,8 @@ export interface ProgressDatabase {
 export interface GlobalMLDatabase {
   version: 'v1';
   lastUpdated: string;
+  // V4.3: Last applied migration (see src/migrations), absent = 0
+  schemaRevision?: number;
   // V2: Tunable heuristic weights (global baseline)
   heuristicWeights: HeuristicWeights;
   // V3: ML training data (aggregated from all workspaces)
@@ -366,6 +473,65 @@ export interface GlobalMLDatabase {
   onlineLearnerState: OnlineLearnerState;
   // V4.2: Decision records for ML (aggregated from all workspaces)
   decisions: Decision[];
+  // V4.3: Context switches (source of TaskCompletionRecord.contextSwitchCount)
+  contextSwitchEvents: ContextSwitchEvent[];
+  // V4.3: Retention policies and aggregates of events compacted out of the arrays above
+  retention?: RetentionConfig;
+  compactedSummaries?: Partial<Record<RetainedEventType, CompactedEventSummary>>;
+  // V4.3: Backup schedule and rotation (see src/storage/backups.ts)
+  backups?: BackupConfig;
+}
+
+// V4.3: Retention / compaction of the global ML event logs
+export type RetainedEventType =
+  | 'queueRebalanceEvents'
+  | 'dragReorderEvents'
+  | 'taskSelectionEvents'
+  | 'priorityChangeEvents';
+
+export interface RetentionPolicy {
+  maxAgeDays?: number;           // Evict events older than this
+  maxCount?: number;             // Keep at most the newest N events
+}
+
+export interface RetentionConfig {
+  policies: Partial<Record<RetainedEventType, RetentionPolicy>>;  // No policy = keep forever
+  scheduleHours: number;         // Compact automatically every N hours (0 = on demand only)
+  lastCompactedAt?: string;
+}
+
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = {
+  policies: {
+    // Rebalance snapshots dominate file size and are not used for training directly
+    queueRebalanceEvents: { maxAgeDays: 30, maxCount: 5000 },
+  },
+  scheduleHours: 24,
+};
+
+export interface CompactedEventSummary {
+  count: number;
+  oldestTimestamp: string;
+  newestTimestamp: string;
+  tallies: Record<string, number>;   // Type-specific counts, e.g. "trigger:task_created"
+}
+
+export interface ArchivedMLEvent {
+  eventType: RetainedEventType;
+  archivedAt: string;
+  event: unknown;
+}
+
+export interface CompactionReport {
+  dryRun: boolean;
+  compactedAt: string;
+  evicted: Partial<Record<RetainedEventType, number>>;
+  remaining: Record<RetainedEventType, number>;
+  archivePath?: string;          // Where evicted raw events were appended
+}
+
+export interface UpdateRetentionDTO {
+  policies?: Partial<Record<RetainedEventType, RetentionPolicy | null>>;  // null removes a policy
+  scheduleHours?: number;
 }
 
 export const DEFAULT_GLOBAL_ML_DATABASE: GlobalMLDatabase = {
@@ -379,6 +545,7 @@ export const DEFAULT_GLOBAL_ML_DATABASE: GlobalMLDatabase = {
   dragReorderEvents: [],
   onlineLearnerState: { ...DEFAULT_ONLINE_LEARNER_STATE },
   decisions: [],
+  contextSwitchEvents: [],
 };
 
 // API response types
@@ -411,15 +578,20 @@ export interface UpdateProjectDTO {
 
 export interface CreateTaskDTO {
   id?: string;  // Allow custom IDs like DATA-001
-  priority: Priority;
+  // V4.3: priority and project are required, except for subtasks (they default to the parent's)
+  priority?: Priority;
   task: string;
-  project: string;
+  project?: string;
+  parentId?: string;
   status?: TaskStatus;
   blocking?: string;
   dependencies?: string[];
   notes?: string;
   deadline?: string;
   effort?: Effort;
+  recurrence?: RecurrenceRule;  // V4.3
+  tags?: string[];              // V4.3
+  customFields?: Record<string, CustomFieldValue>;  // V4.3: Checked against the workspace schema
   // V2: Optional manual weight overrides
   weights?: Partial<TaskWeights>;
 }
@@ -428,6 +600,7 @@ export interface UpdateTaskDTO {
   priority?: Priority;
   task?: string;
   project?: string;
+  parentId?: string | null;  // V4.3: null detaches the task from its parent
   status?: TaskStatus;
   blocking?: string;
   dependencies?: string[];
@@ -435,6 +608,9 @@ export interface UpdateTaskDTO {
   deadline?: string;
   effort?: Effort;
   weights?: Partial<TaskWeights>;
+  recurrence?: RecurrenceRule | null;  // V4.3: null stops the series (past instances keep their seriesId)
+  tags?: string[];                     // V4.3: Replaces the task's tags ([] clears them)
+  customFields?: Record<string, CustomFieldValue | null>;  // V4.3: Merged into the task's values (null clears one)
 }
 
 export interface CreateDataGapDTO {
@@ -465,6 +641,7 @@ export interface CreateDecisionDTO {
 
 export interface LogContextSwitchDTO {
   taskId: string;
+  toTaskId?: string;
 }
 
 // V2: Heuristic weight update DTO
@@ -493,6 +670,256 @@ export interface UpdateOnlineLearnerDTO {
   maxWeight?: number;
 }
 
+// V4.3: Append-only operation journal (per workspace)
+export type JournalEntity = 'task' | 'project' | 'decision' | 'dataGap';
+export type JournalOperation = 'create' | 'update' | 'delete' | 'complete';
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;              // Absent = field was not set
+  after?: unknown;               // Absent = field was removed
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  workspaceId?: string;
+  entity: JournalEntity;
+  entityId: string;
+  operation: JournalOperation;
+  changes: FieldChange[];        // Field-level before/after (update, complete)
+  snapshot?: Record<string, unknown>;  // Whole entity after create / before delete
+  // Written by a restore, undo/redo, integrity repair, import, merge, or completing a prerequisite (auto_unblock)
+  source?: 'restore' | 'undo' | 'redo' | 'repair' | 'import' | 'merge' | 'auto_unblock';
+  actor?: string;                // Who made the change (see TaskHistoryEntry.actor); absent on older entries
+}
+
+export interface JournalQuery {
+  entity?: JournalEntity;
+  entityId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;                // Most recent N after other filters
+}
+
+// V4.3: Subtask rollup over a parent's leaf descendants
+export interface SubtaskProgress {
+  total: number;
+  finished: number;
+  percent: number;               // 0-100, rounded
+  complete: boolean;             // Every leaf descendant is finished
+}
+
+// V4.3: A task with its subtasks (getTaskTree)
+export interface TaskTreeNode extends WeightedTask {
+  children: TaskTreeNode[];
+  progress?: SubtaskProgress;    // Only on tasks with children
+}
+
+// V4.3: Dependency graph - a task waits on another through its own `dependencies`
+// or through the other task's `blocking`
+export interface DependencyLink {
+  taskId: string;                // The waiting task
+  dependsOn: string;
+  via: 'dependencies' | 'blocking';  // taskId.dependencies, or dependsOn.blocking
+}
+
+export interface DependencyCycle {
+  path: string[];                // Task IDs around the cycle, first ID repeated at the end
+  links: DependencyLink[];       // One per step of the path
+}
+
+// V4.3: Per-workspace dependency settings
+export interface DependencySettings {
+  autoUnblock: boolean;
+}
+
+export interface DependencyCycleReport {
+  workspaceId: string | null;
+  taskCount: number;
+  cycles: DependencyCycle[];
+}
+
+// V4.3: One change to a task, as shown by GET /tasks/:id/history
+export interface TaskHistoryEntry {
+  timestamp: string;
+  operation: JournalOperation;
+  // 'system' (scheduler, repair), 'rest[:<user agent>]' or the X-Actor header,
+  // 'mcp[:<client>][:<session>]', or 'unknown' for entries written before actors were recorded
+  actor: string;
+  source?: JournalEntry['source'];
+  changes: FieldChange[];        // Empty for create/delete (see snapshot)
+  snapshot?: Record<string, unknown>;
+}
+
+// V4.3: Per-workspace undo/redo (in memory, cleared on restart)
+export type UndoableAction = 'createTask' | 'updateTask' | 'deleteTask' | 'completeTask' | 'logDragReorder';
+
+export interface UndoEntry {
+  id: string;
+  action: UndoableAction;
+  taskId: string;
+  description: string;
+  timestamp: string;
+  taskBefore: WeightedTask | null;     // null = task did not exist
+  taskAfter: WeightedTask | null;      // null = task was deleted
+  completionRecord?: TaskCompletionRecord;   // completeTask: retracted on undo
+  nextInstance?: WeightedTask;               // completeTask of a recurring task: removed on undo
+  unblocked?: Array<{ before: WeightedTask; after: WeightedTask }>;  // completeTask: dependents put back to blocked on undo
+  trashEntry?: TrashEntry;                   // deleteTask: taken back out of the trash on undo
+  dragEvent?: DragReorderEvent;              // logDragReorder: retracted on undo
+  weightsBefore?: HeuristicWeights;
+  weightsAfter?: HeuristicWeights;
+  learnerStateBefore?: OnlineLearnerState;
+  learnerStateAfter?: OnlineLearnerState;
+}
+
+export type UndoSummary = Pick<UndoEntry, 'id' | 'action' | 'taskId' | 'description' | 'timestamp'>;
+
+export interface UndoHistory {
+  undo: UndoSummary[];           // Most recent first
+  redo: UndoSummary[];           // Next redo first
+}
+
+export interface UndoResult {
+  direction: 'undo' | 'redo';
+  change: UndoSummary;
+  task: WeightedTask | null;     // Task state after the undo/redo
+}
+
+// V4.3: Soft delete - deleted tasks/projects wait in a per-workspace trash
+export type TrashEntity = 'task' | 'project';
+
+export interface TrashEntry {
+  id: string;
+  entity: TrashEntity;
+  entityId: string;
+  record: WeightedTask | Project;      // As it was when deleted
+  deletedAt: string;
+  deletedBy: string;                   // Actor: X-Actor header, 'rest[:<user agent>]', or 'mcp[:<client>][:<session>]'
+  deletedWithProject?: string;         // Task trashed by a project cascade (project ID); restored with it
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface TrashListing {
+  retentionDays: number;               // Entries older than this are purged automatically (0 = never)
+  items: TrashEntry[];                 // Most recently deleted first
+}
+
+export interface RestoreFromTrashResult {
+  restored: TrashEntry[];              // The entry itself plus any tasks cascaded with a project
+}
+
+export interface PurgeTrashOptions {
+  ids?: string[];                      // Trash entry IDs (default: everything)
+  olderThanDays?: number;
+}
+
+export interface PurgeTrashResult {
+  purged: number;
+  ids: string[];                       // Trash entry IDs removed
+}
+
+// V4.3: Archive - finished tasks leave the live queue (task map, heap, scoring) after N days
+export interface ArchivedTask extends WeightedTask {
+  archivedAt: string;
+}
+
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 30;
+
+export interface ArchiveQuery {
+  q?: string;                          // Case-insensitive match on ID, description, notes or project
+  project?: string;                    // Project ID or name
+  page?: number;                       // 1-based (default 1)
+  pageSize?: number;                   // Default 50, at most 500
+}
+
+export interface ArchiveListing {
+  archiveAfterDays: number;            // Finished tasks older than this are archived automatically (0 = never)
+  total: number;                       // Matches before pagination
+  page: number;
+  pageSize: number;
+  items: ArchivedTask[];               // Most recently finished first
+}
+
+export type DeleteProjectMode = 'refuse' | 'cascade' | 'reassign';
+
+export interface DeleteProjectOptions {
+  mode?: DeleteProjectMode;            // Default 'cascade': its tasks go to the trash with it
+  reassignTo?: string;                 // Project ID or name (mode 'reassign')
+  actor?: string;
+}
+
+export interface DeleteProjectResult {
+  project: Project;
+  mode: DeleteProjectMode;
+  trashedTaskIds: string[];
+  reassignedTaskIds: string[];
+}
+
+// V4.3: Backups - snapshots of every workspace and the global ML data
+export type BackupTrigger =
+  | 'scheduled'
+  | 'manual'
+  | 'pre-migration'
+  | 'pre-workspace-delete'
+  | 'pre-restore'
+  | 'pre-import'
+  | 'pre-merge';
+
+export interface BackupRetention {
+  hourly: number;                // Scheduled backups: keep the newest of each of the last N hours
+  daily: number;                 // ... of each of the last N days
+  weekly: number;                // ... of each of the last N weeks (weeks start on Monday, UTC)
+  preOperation: number;          // Keep the newest N backups taken before migrations, deletes, restores, imports, merges
+}
+
+export interface BackupConfig {
+  scheduleHours: number;         // Take a scheduled backup every N hours (0 = off)
+  retention: BackupRetention;    // Manual backups are never rotated out
+}
+
+export const DEFAULT_BACKUP_CONFIG: BackupConfig = {
+  scheduleHours: 1,
+  retention: { hourly: 24, daily: 7, weekly: 4, preOperation: 10 },
+};
+
+export interface BackupManifest {
+  id: string;
+  trigger: BackupTrigger;
+  createdAt: string;
+  backend: 'json' | 'sqlite' | 'memory';
+  schemaRevision: number;        // Lowest revision among the stores in the backup
+  workspaces: number;
+  tasks: number;
+  note?: string;
+}
+
+export interface BackupInfo extends BackupManifest {
+  path: string;
+  sizeBytes: number;
+}
+
+export interface BackupListing {
+  config: BackupConfig;
+  backups: BackupInfo[];         // Newest first
+}
+
+export interface UpdateBackupConfigDTO {
+  scheduleHours?: number;
+  retention?: Partial<BackupRetention>;
+}
+
+export interface BackupRestoreResult {
+  backup: BackupInfo;
+  safetyBackup: BackupInfo;      // Taken just before the restore, to undo it
+  currentWorkspaceId: string | null;
+  workspaces: Array<{ workspaceId: string; created: number; updated: number; deleted: number }>;
+  removedWorkspaces: string[];   // Workspaces created after the backup
+  migrated: number;              // Migrations applied to bring an older backup up to date
+}
+
 // V4: Workspace Management
 export interface Workspace {
   id: string;
@@ -507,6 +934,116 @@ export interface WorkspaceMetadata {
   currentWorkspaceId: string | null;
 }
 
+// V4.3: Portable single-file workspace archive (export/import)
+export const WORKSPACE_ARCHIVE_FORMAT = 'priority-forge-workspace';
+
+export type WorkspaceMLEventType =
+  | 'completionRecords'
+  | 'priorityChangeEvents'
+  | 'taskSelectionEvents'
+  | 'queueRebalanceEvents'
+  | 'dragReorderEvents'
+  | 'contextSwitchEvents'
+  | 'decisions';
+
+export interface WorkspaceArchive {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  formatVersion: 1;
+  exportedAt: string;
+  schemaRevision: number;
+  workspace: Workspace;
+  database: ProgressDatabase;
+  mlEvents?: Partial<Pick<GlobalMLDatabase, WorkspaceMLEventType>>;  // Only events tagged with this workspace
+}
+
+// What to do when the archive's workspace ID already exists here
+export type WorkspaceImportConflict = 'copy' | 'replace' | 'fail';
+
+export interface ImportWorkspaceOptions {
+  onConflict?: WorkspaceImportConflict;  // Default 'copy': import under a new workspace ID
+  name?: string;                         // Rename the imported workspace
+  switchTo?: boolean;                    // Make it the current workspace
+}
+
+export interface ImportWorkspaceResult {
+  workspace: Workspace;
+  sourceWorkspaceId: string;
+  outcome: 'created' | 'copied' | 'replaced';
+  tasks: number;
+  projects: number;
+  migrated: number;                      // Migrations applied to bring an older archive up to date
+  mlEvents: { imported: number; skipped: number };  // Skipped: an event with the same ID already exists
+  safetyBackup?: BackupInfo;             // Taken before 'replace'
+}
+
+// V4.3: Clone (fork) a workspace, or merge one into another
+export interface CloneWorkspaceDTO {
+  name: string;
+  description?: string;
+  switchTo?: boolean;
+}
+
+export interface CloneWorkspaceResult {
+  workspace: Workspace;
+  sourceWorkspaceId: string;
+  tasks: number;
+  projects: number;
+}
+
+export interface MergeWorkspacesDTO {
+  sourceId: string;
+  targetId: string;
+  dryRun?: boolean;
+}
+
+export interface WorkspaceMergeReport {
+  sourceWorkspaceId: string;
+  targetWorkspaceId: string;
+  dryRun: boolean;
+  projects: {
+    added: string[];
+    updated: string[];                  // Same project, source copy newer
+    kept: string[];                     // Same project, target copy identical or newer
+    mergedByName: Array<{ sourceId: string; targetId: string; name: string }>;
+  };
+  tasks: {
+    added: string[];
+    updated: string[];
+    kept: string[];
+    renamed: Array<{ from: string; to: string }>;  // Different task with a clashing ID: added under a new ID
+  };
+  decisions: { added: string[]; skipped: string[] };
+  dataGaps: { added: string[]; skipped: string[] };
+  objectives: { added: string[]; skipped: string[] };
+  rewrittenReferences: number;          // Task project/dependency/blocking and objective links rewritten
+  safetyBackup?: BackupInfo;            // Taken before a real merge
+}
+
+// V4.3: Move a task or a whole project to another workspace
+export interface MoveToWorkspaceDTO {
+  targetWorkspaceId: string;
+}
+
+export interface CrossWorkspaceDependency {
+  taskId: string;                       // Task holding the reference
+  field: 'dependencies' | 'blocking' | 'parentId';
+  reference: string;                    // Referenced task ID, now in the other workspace
+  message: string;
+}
+
+export interface MoveToWorkspaceResult {
+  sourceWorkspaceId: string;
+  targetWorkspaceId: string;
+  taskIds: string[];
+  projectId: string;                    // Project of the moved tasks, as referenced in the target
+  // moved: project created in the target and removed here; copied: created in the
+  // target and kept here (task moves); matched: the target already had it;
+  // missing: the task's project exists in neither workspace
+  projectOutcome: 'moved' | 'copied' | 'matched' | 'missing';
+  mlEventsRetagged: number;
+  warnings: CrossWorkspaceDependency[];  // References that now cross workspaces (left in place, except parentId: cleared)
+}
+
 export interface CreateWorkspaceDTO {
   name: string;
   description?: string;
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { addWorkspaceMLEvents, buildWorkspaceArchive, collectWorkspaceMLEvents, parseWorkspaceArchive } from '../archive';
+import { getEmptyDatabase, getEmptyGlobalML } from '../../storage/baseStorage';
+import { StorageValidationError } from '../../storage/errors';
+import { ContextSwitchEvent, TaskCompletionRecord, Workspace } from '../../types/schema';
+
+const workspace: Workspace = { id: 'ws-a', name: 'Client A', createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' };
+
+describe('workspace archives', () => {
+  it('exports only the ML events tagged with the workspace', () => {
+    const globalML = getEmptyGlobalML();
+    globalML.completionRecords = [
+      { id: 'C1', taskId: 'T1', workspaceId: 'ws-a' },
+      { id: 'C2', taskId: 'T9', workspaceId: 'ws-b' },
+    ] as TaskCompletionRecord[];
+
+    const archive = buildWorkspaceArchive(workspace, getEmptyDatabase(), collectWorkspaceMLEvents(globalML, 'ws-a'));
+    expect(parseWorkspaceArchive(JSON.parse(JSON.stringify(archive))).workspace.id).toBe('ws-a');
+    expect(archive.mlEvents?.completionRecords?.map(r => r.id)).toEqual(['C1']);
+    expect(archive.mlEvents?.taskSelectionEvents).toEqual([]);
+  });
+
+  it('retags imported events and skips ones already present', () => {
+    const globalML = getEmptyGlobalML();
+    globalML.contextSwitchEvents = [{ id: 'S1', fromTaskId: 'T1', workspaceId: 'ws-a' } as ContextSwitchEvent];
+    const events = {
+      contextSwitchEvents: [
+        { id: 'S1', fromTaskId: 'T1', workspaceId: 'ws-a' },
+        { id: 'S2', fromTaskId: 'T2', workspaceId: 'ws-a' },
+      ] as ContextSwitchEvent[],
+    };
+
+    expect(addWorkspaceMLEvents(globalML, events, 'ws-copy')).toEqual({ imported: 1, skipped: 1 });
+    expect(globalML.contextSwitchEvents.map(e => `${e.id}@${e.workspaceId}`)).toEqual(['S1@ws-a', 'S2@ws-copy']);
+  });
+
+  it('rejects files that are not workspace archives', () => {
+    expect(() => parseWorkspaceArchive({ tasks: [] })).toThrow(StorageValidationError);
+    const archive = buildWorkspaceArchive(workspace, getEmptyDatabase());
+    expect(() => parseWorkspaceArchive({ ...archive, formatVersion: 2 })).toThrow(/Unsupported/);
+    expect(() => parseWorkspaceArchive({ ...archive, mlEvents: { journal: [] } })).toThrow(/Unknown ML event type/);
+    expect(() => parseWorkspaceArchive({ ...archive, workspace: { ...workspace, id: '../../escaped' } }))
+      .toThrow(/invalid workspace id/);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { planWorkspaceMerge } from '../merge';
+import { getEmptyDatabase } from '../../storage/baseStorage';
+import { Objective, Project, ProgressDatabase, WeightedTask } from '../../types/schema';
+
+function task(id: string, extra: Partial<WeightedTask> = {}): WeightedTask {
+  return { id, task: id, project: 'app', createdAt: '2026-01-01', updatedAt: '2026-01-01', revision: 1, ...extra } as WeightedTask;
+}
+
+function database(projects: Project[], tasks: WeightedTask[]): ProgressDatabase {
+  return { ...getEmptyDatabase(), projects, tasks };
+}
+
+describe('workspace merge', () => {
+  const sourceId = 'aaaaaaaa-1111-2222-3333-444444444444';
+
+  it('folds same-named projects and renames clashing task IDs, rewriting references', () => {
+    const source = database(
+      [{ id: 'P-src', name: 'App' } as Project],
+      [
+        task('T1', { createdAt: '2026-02-01', project: 'P-src' }),
+        task('T2', { dependencies: ['T1'], blocking: 'T1', project: 'App' }),
+      ]
+    );
+    source.objectives = [{ id: 'O1', linkedTaskIds: ['T1'], linkedProjectIds: ['P-src'] } as Objective];
+    const target = database([{ id: 'P-tgt', name: 'app' } as Project], [task('T1')]);
+
+    const { merged, report } = planWorkspaceMerge(source, target, sourceId, 'target');
+
+    const renamed = 'T1-from-aaaaaaaa';
+    expect(report.projects.mergedByName).toEqual([{ sourceId: 'P-src', targetId: 'P-tgt', name: 'app' }]);
+    expect(report.tasks.renamed).toEqual([{ from: 'T1', to: renamed }]);
+    expect(merged.tasks.map(t => [t.id, t.project])).toEqual([['T1', 'app'], [renamed, 'P-tgt'], ['T2', 'app']]);
+    expect(merged.tasks[2]).toMatchObject({ dependencies: [renamed], blocking: renamed });
+    expect(merged.objectives?.[0]).toMatchObject({ linkedTaskIds: [renamed], linkedProjectIds: ['P-tgt'] });
+    expect(report.rewrittenReferences).toBe(6);
+  });
+
+  it('keeps the newer copy of a shared task, ties going to the target', () => {
+    const source = database([], [task('T1', { task: 'newer', updatedAt: '2026-03-01' }), task('T2', { task: 'tie' })]);
+    const target = database([], [task('T1', { task: 'older', revision: 4 }), task('T2', { task: 'target' })]);
+
+    const { merged, report } = planWorkspaceMerge(source, target, sourceId, 'target');
+
+    expect(report.tasks).toMatchObject({ updated: ['T1'], kept: ['T2'], added: [], renamed: [] });
+    expect(merged.tasks.map(t => [t.task, t.revision])).toEqual([['newer', 5], ['target', 1]]);
+    expect(planWorkspaceMerge(source, target, sourceId, 'target').report).toEqual(report);
+  });
+
+  it('renames a source task whose ID is archived in the target', () => {
+    const source = database([], [task('T1', { task: 'live' })]);
+    const target = database([], []);
+    target.archive = [{ ...task('T1', { task: 'archived' }), archivedAt: '2026-02-01' }];
+
+    const { merged, report } = planWorkspaceMerge(source, target, sourceId, 'target');
+
+    expect(report.tasks.renamed).toEqual([{ from: 'T1', to: 'T1-from-aaaaaaaa' }]);
+    expect(merged.tasks.map(t => t.id)).toEqual(['T1-from-aaaaaaaa']);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { findCrossWorkspaceDependencies, retagTaskMLEvents } from '../move';
+import { InMemoryStorage } from '../../storage/memoryStorage';
+import {
+  DEFAULT_GLOBAL_ML_DATABASE,
+  DragReorderEvent,
+  TaskCompletionRecord,
+  TaskSelectionEvent,
+  WeightedTask,
+} from '../../types/schema';
+
+function task(id: string, extra: Partial<WeightedTask> = {}): WeightedTask {
+  return { id, project: 'app', ...extra } as WeightedTask;
+}
+
+describe('moving between workspaces', () => {
+  it('warns about references in both directions and ignores free-text blocking', () => {
+    const tasks = [
+      task('A', { dependencies: ['B'] }),
+      task('B', { blocking: 'C' }),
+      task('C', { dependencies: ['A'], blocking: 'Release notes' }),
+    ];
+
+    const warnings = findCrossWorkspaceDependencies(tasks, new Set(['A']), 'ws2');
+
+    expect(warnings.map(w => [w.taskId, w.field, w.reference])).toEqual([
+      ['A', 'dependencies', 'B'],
+      ['C', 'dependencies', 'A'],
+    ]);
+    expect(warnings[1].message).toContain('moves to workspace ws2');
+  });
+
+  it('warns about a subtask that moves without its parent', () => {
+    const tasks = [task('P'), task('C', { parentId: 'P' })];
+
+    const warnings = findCrossWorkspaceDependencies(tasks, new Set(['C']), 'ws2');
+
+    expect(warnings.map(w => [w.taskId, w.field, w.reference])).toEqual([['C', 'parentId', 'P']]);
+    expect(warnings[0].message).toContain('becomes a top-level task');
+  });
+
+  it('re-tags only the events about the moved tasks in the source workspace', () => {
+    const globalML = structuredClone(DEFAULT_GLOBAL_ML_DATABASE);
+    globalML.completionRecords = [
+      { id: 'C1', taskId: 'A', workspaceId: 'ws1' },
+      { id: 'C2', taskId: 'B', workspaceId: 'ws1' },
+      { id: 'C3', taskId: 'A', workspaceId: 'other' },
+    ] as TaskCompletionRecord[];
+    globalML.taskSelectionEvents = [{ id: 'S1', selectedTaskId: 'A', workspaceId: 'ws1' }] as TaskSelectionEvent[];
+    globalML.dragReorderEvents = [{ id: 'D1', taskId: 'A', workspaceId: 'ws1' }] as DragReorderEvent[];
+
+    expect(retagTaskMLEvents(globalML, new Set(['A']), 'ws1', 'ws2')).toBe(3);
+    expect(globalML.completionRecords.map(r => r.workspaceId)).toEqual(['ws2', 'ws1', 'other']);
+    expect(globalML.taskSelectionEvents[0].workspaceId).toBe('ws2');
+  });
+});
+
+describe('moving tasks in storage', () => {
+  const cleanup: Array<() => void> = [];
+
+  afterEach(() => {
+    while (cleanup.length) cleanup.pop()!();
+  });
+
+  it('drops the moved task from the source workspace undo history', async () => {
+    const storage = new InMemoryStorage();
+    cleanup.push(() => storage.dispose());
+    const source = await storage.createWorkspace({ name: 'Source' });
+    const target = await storage.createWorkspace({ name: 'Target' });
+    await storage.switchWorkspace(source.id);
+
+    const stays = await storage.createTask({ task: 'Stays', priority: 'P1', project: 'app' });
+    const moves = await storage.createTask({ task: 'Moves', priority: 'P1', project: 'app' });
+    await storage.updateTask(moves.id, { notes: 'edited' });
+    await storage.moveTask(moves.id, { targetWorkspaceId: target.id });
+
+    expect((await storage.getUndoHistory()).undo.map(e => e.taskId)).toEqual([stays.id]);
+    expect((await storage.undo())?.change.taskId).toBe(stays.id);
+    expect(await storage.getTask(stays.id)).toBeNull();
+  });
+
+  it('moves subtasks with their parent and detaches a subtask moved alone', async () => {
+    const storage = new InMemoryStorage();
+    cleanup.push(() => storage.dispose());
+    const source = await storage.createWorkspace({ name: 'Source' });
+    const target = await storage.createWorkspace({ name: 'Target' });
+    await storage.switchWorkspace(source.id);
+
+    const parent = await storage.createTask({ task: 'Parent', priority: 'P1', project: 'app' });
+    const child = await storage.createTask({ task: 'Child', priority: 'P1', project: 'web', parentId: parent.id });
+    const other = await storage.createTask({ task: 'Other parent', priority: 'P1', project: 'app' });
+    const loner = await storage.createTask({ task: 'Loner', priority: 'P1', project: 'app', parentId: other.id });
+
+    const result = await storage.moveTask(parent.id, { targetWorkspaceId: target.id });
+    expect(result?.taskIds).toEqual([parent.id, child.id]);
+    expect(result?.warnings).toEqual([]);
+    const alone = await storage.moveTask(loner.id, { targetWorkspaceId: target.id });
+    expect(alone?.warnings.map(w => [w.taskId, w.field, w.reference])).toEqual([[loner.id, 'parentId', other.id]]);
+    expect(await storage.getTask(child.id)).toBeNull();
+
+    await storage.switchWorkspace(target.id);
+    expect(await storage.getTask(child.id)).toMatchObject({ parentId: parent.id, project: 'web' });
+    expect((await storage.getTask(loner.id))?.parentId).toBeUndefined();
+  });
+
+  it('moves subtasks from other projects along with a project', async () => {
+    const storage = new InMemoryStorage();
+    cleanup.push(() => storage.dispose());
+    const source = await storage.createWorkspace({ name: 'Source' });
+    const target = await storage.createWorkspace({ name: 'Target' });
+    await storage.switchWorkspace(source.id);
+
+    const project = await storage.createProject({ name: 'app', path: '/app', primaryFocus: 'Move' });
+    const parent = await storage.createTask({ task: 'Parent', priority: 'P1', project: 'app' });
+    const child = await storage.createTask({ task: 'Child', priority: 'P1', project: 'web', parentId: parent.id });
+
+    expect((await storage.moveProject(project.id, { targetWorkspaceId: target.id }))?.taskIds).toEqual([parent.id, child.id]);
+    expect(await storage.getTask(child.id)).toBeNull();
+  });
+
+  it('refuses to move a task onto an ID in the target trash', async () => {
+    const storage = new InMemoryStorage();
+    cleanup.push(() => storage.dispose());
+    const source = await storage.createWorkspace({ name: 'Source' });
+    const target = await storage.createWorkspace({ name: 'Target' });
+    await storage.switchWorkspace(target.id);
+    await storage.createTask({ id: 'shared', task: 'Trashed', priority: 'P1', project: 'app' });
+    await storage.deleteTask('shared');
+
+    await storage.switchWorkspace(source.id);
+    await storage.createTask({ id: 'shared', task: 'Moves', priority: 'P1', project: 'app' });
+    await expect(storage.moveTask('shared', { targetWorkspaceId: target.id })).rejects.toThrow(/already has task shared/);
+
+    await storage.switchWorkspace(target.id);
+    expect((await storage.restoreFromTrash('shared'))?.restored).toHaveLength(1);
+  });
+});
@@ -0,0 +1,150 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  GlobalMLDatabase,
+  ProgressDatabase,
+  Workspace,
+  WorkspaceArchive,
+  WorkspaceMLEventType,
+  WORKSPACE_ARCHIVE_FORMAT,
+} from '../types/schema';
+import { StorageValidationError } from '../storage/errors';
+
+type WorkspaceEvent = { id: string; workspaceId?: string };
+
+/**
+ * Global ML arrays whose entries are tagged with the workspace they came from
+ */
+export const WORKSPACE_ML_EVENT_TYPES: WorkspaceMLEventType[] = [
+  'completionRecords',
+  'priorityChangeEvents',
+  'taskSelectionEvents',
+  'queueRebalanceEvents',
+  'dragReorderEvents',
+  'contextSwitchEvents',
+  'decisions',
+];
+
+function eventsOf(source: Partial<Pick<GlobalMLDatabase, WorkspaceMLEventType>>, type: WorkspaceMLEventType): WorkspaceEvent[] {
+  return (source[type] ?? []) as WorkspaceEvent[];
+}
+
+/**
+ * Copies of the ML events tagged with `workspaceId`
+ */
+export function collectWorkspaceMLEvents(
+  globalML: GlobalMLDatabase,
+  workspaceId: string
+): NonNullable<WorkspaceArchive['mlEvents']> {
+  const collected: Record<string, WorkspaceEvent[]> = {};
+  for (const type of WORKSPACE_ML_EVENT_TYPES) {
+    collected[type] = structuredClone(eventsOf(globalML, type).filter(e => e.workspaceId === workspaceId));
+  }
+  return collected as NonNullable<WorkspaceArchive['mlEvents']>;
+}
+
+export function buildWorkspaceArchive(
+  workspace: Workspace,
+  db: ProgressDatabase,
+  mlEvents?: WorkspaceArchive['mlEvents']
+): WorkspaceArchive {
+  return {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    formatVersion: 1,
+    exportedAt: new Date().toISOString(),
+    schemaRevision: db.schemaRevision ?? 0,
+    workspace: structuredClone(workspace),
+    database: structuredClone(db),
+    ...(mlEvents && { mlEvents }),
+  };
+}
+
+/**
+ * Workspace IDs name directories on the JSON backend: only plain IDs
+ * (uuids, 'default') are accepted from an archive, never paths
+ */
+const WORKSPACE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the archive envelope (format, workspace, event arrays). The database
+ * itself is validated after migrating it to the current schema.
+ */
+export function parseWorkspaceArchive(input: unknown): WorkspaceArchive {
+  if (!isRecord(input) || input.format !== WORKSPACE_ARCHIVE_FORMAT) {
+    throw new StorageValidationError(`Not a workspace archive (expected format '${WORKSPACE_ARCHIVE_FORMAT}')`);
+  }
+  if (input.formatVersion !== 1) {
+    throw new StorageValidationError(`Unsupported workspace archive version ${String(input.formatVersion)}`);
+  }
+  const workspace = input.workspace;
+  if (!isRecord(workspace) || typeof workspace.id !== 'string' || typeof workspace.name !== 'string') {
+    throw new StorageValidationError('Workspace archive has no workspace id or name');
+  }
+  if (!WORKSPACE_ID_PATTERN.test(workspace.id)) {
+    throw new StorageValidationError(
+      `Workspace archive has an invalid workspace id '${workspace.id}' (letters, digits, '-' and '_' only)`
+    );
+  }
+  if (!isRecord(input.database)) {
+    throw new StorageValidationError('Workspace archive has no database');
+  }
+  if (input.mlEvents !== undefined) {
+    if (!isRecord(input.mlEvents)) {
+      throw new StorageValidationError('Workspace archive mlEvents must be an object');
+    }
+    for (const [type, events] of Object.entries(input.mlEvents)) {
+      if (!WORKSPACE_ML_EVENT_TYPES.includes(type as WorkspaceMLEventType)) {
+        throw new StorageValidationError(`Unknown ML event type '${type}' in workspace archive`);
+      }
+      if (!Array.isArray(events) || events.some(e => !isRecord(e) || typeof e.id !== 'string')) {
+        throw new StorageValidationError(`mlEvents.${type} must be an array of events with IDs`);
+      }
+    }
+  }
+  return input as unknown as WorkspaceArchive;
+}
+
+/**
+ * Append archived ML events to the global data, tagged with `workspaceId`.
+ * Events whose ID already exists (e.g. a second import of the same archive) are skipped.
+ */
+export function addWorkspaceMLEvents(
+  globalML: GlobalMLDatabase,
+  mlEvents: NonNullable<WorkspaceArchive['mlEvents']>,
+  workspaceId: string
+): { imported: number; skipped: number } {
+  const counts = { imported: 0, skipped: 0 };
+  for (const type of WORKSPACE_ML_EVENT_TYPES) {
+    const target = eventsOf(globalML, type);
+    const existing = new Set(target.map(e => e.id));
+    for (const event of eventsOf(mlEvents, type)) {
+      if (existing.has(event.id)) {
+        counts.skipped++;
+        continue;
+      }
+      target.push({ ...structuredClone(event), workspaceId });
+      existing.add(event.id);
+      counts.imported++;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,199 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ProgressDatabase, WorkspaceMergeReport } from '../types/schema';
+
+export interface WorkspaceMergePlan {
+  merged: ProgressDatabase;                                  // The target database after the merge
+  report: Omit<WorkspaceMergeReport, 'dryRun' | 'safetyBackup'>;
+}
+
+type Timestamped = { createdAt?: string; updatedAt?: string; revision?: number };
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Content equality, ignoring the revision counter (it is per-store bookkeeping)
+ */
+function sameContent(a: Timestamped, b: Timestamped): boolean {
+  return JSON.stringify({ ...a, revision: undefined }) === JSON.stringify({ ...b, revision: undefined });
+}
+
+/**
+ * Revision for a source copy that replaces the target's: above both, so a
+ * client holding the target's old revision (or ETag) cannot overwrite the merge
+ */
+function nextRevision(source: Timestamped, target: Timestamped): number {
+  return Math.max(source.revision ?? 0, target.revision ?? 0) + 1;
+}
+
+/**
+ * Whether the source copy of an entity both stores know wins: newer updatedAt,
+ * ties go to the target
+ */
+function sourceIsNewer(source: Timestamped, target: Timestamped): boolean {
+  return (source.updatedAt ?? '') > (target.updatedAt ?? '');
+}
+
+/**
+ * Plan the merge of `source` into `target` without touching either. Rules are
+ * deterministic, so a dry run reports exactly what the real merge writes:
+ *
+ * - Projects with the same ID are the same project; a source project whose name
+ *   matches a target project (case-insensitive) is folded into it. Otherwise added.
+ * - Tasks with the same ID and createdAt are the same task. Different tasks that
+ *   share an ID keep the target's ID; the source task is added as
+ *   `{id}-from-{first 8 chars of the source workspace ID}`. So is a source task
+ *   whose ID is in the target's archive.
+ * - For entities in both stores the newer updatedAt wins, ties keep the target.
+ *   A winning source copy gets a revision above both copies.
+ * - Decisions, data gaps and objectives are matched by ID; the target copy is kept.
+ *
+ * Source references (task project, dependencies, blocking, parent, objective links,
+ * decision task IDs) are rewritten to follow folded projects and renamed tasks.
+ */
+export function planWorkspaceMerge(
+  source: ProgressDatabase,
+  target: ProgressDatabase,
+  sourceWorkspaceId: string,
+  targetWorkspaceId: string
+): WorkspaceMergePlan {
+  const incoming = structuredClone(source);
+  const merged = structuredClone(target);
+  const report: WorkspaceMergePlan['report'] = {
+    sourceWorkspaceId,
+    targetWorkspaceId,
+    projects: { added: [], updated: [], kept: [], mergedByName: [] },
+    tasks: { added: [], updated: [], kept: [], renamed: [] },
+    decisions: { added: [], skipped: [] },
+    dataGaps: { added: [], skipped: [] },
+    objectives: { added: [], skipped: [] },
+    rewrittenReferences: 0,
+  };
+
+  // Folded projects: source ID/name -> target ID/name (tasks refer to projects by either)
+  const projectRefs = new Map<string, string>();
+  const projectIds = new Map<string, string>();
+  const targetProjectsById = new Map(merged.projects.map(p => [p.id, p]));
+  const targetProjectsByName = new Map(merged.projects.map(p => [normalizeName(p.name), p]));
+
+  for (const project of incoming.projects) {
+    const sameId = targetProjectsById.get(project.id);
+    if (sameId) {
+      if (sourceIsNewer(project, sameId) && !sameContent(project, sameId)) {
+        merged.projects[merged.projects.indexOf(sameId)] = { ...project, revision: nextRevision(project, sameId) };
+        report.projects.updated.push(project.id);
+      } else {
+        report.projects.kept.push(project.id);
+      }
+      continue;
+    }
+    const sameName = targetProjectsByName.get(normalizeName(project.name));
+    if (sameName) {
+      projectIds.set(project.id, sameName.id);
+      projectRefs.set(project.id, sameName.id);
+      projectRefs.set(project.name, sameName.name);
+      report.projects.mergedByName.push({ sourceId: project.id, targetId: sameName.id, name: sameName.name });
+      continue;
+    }
+    merged.projects.push(project);
+    targetProjectsById.set(project.id, project);
+    targetProjectsByName.set(normalizeName(project.name), project);
+    report.projects.added.push(project.id);
+  }
+
+  // Different tasks sharing an ID: the source one moves aside. IDs in the
+  // target's archive are taken too, so unarchiving never meets a live twin.
+  const targetTasksById = new Map(merged.tasks.map(t => [t.id, t]));
+  const archivedIds = new Set((merged.archive ?? []).map(t => t.id));
+  const sourceTaskIds = new Set(incoming.tasks.map(t => t.id));
+  const taken = (id: string) => targetTasksById.has(id) || archivedIds.has(id) || sourceTaskIds.has(id);
+  const taskIds = new Map<string, string>();
+  for (const task of incoming.tasks) {
+    const clash = targetTasksById.get(task.id);
+    if (clash ? clash.createdAt === task.createdAt : !archivedIds.has(task.id)) continue;
+    let renamed = `${task.id}-from-${sourceWorkspaceId.slice(0, 8)}`;
+    for (let n = 2; taken(renamed); n++) {
+      renamed = `${task.id}-from-${sourceWorkspaceId.slice(0, 8)}-${n}`;
+    }
+    taskIds.set(task.id, renamed);
+    report.tasks.renamed.push({ from: task.id, to: renamed });
+  }
+
+  const rewrite = <T extends string | undefined>(value: T, map: Map<string, string>): T => {
+    if (value === undefined || !map.has(value)) return value;
+    report.rewrittenReferences++;
+    return map.get(value) as T;
+  };
+  const rewriteAll = (values: string[] | undefined, map: Map<string, string>): string[] | undefined =>
+    values && [...new Set(values.map(v => rewrite(v, map)))];
+
+  for (const task of incoming.tasks) {
+    task.id = taskIds.get(task.id) ?? task.id;
+    task.project = rewrite(task.project, projectRefs);
+    task.dependencies = rewriteAll(task.dependencies, taskIds);
+    task.blocking = rewrite(task.blocking, taskIds);
+    task.parentId = rewrite(task.parentId, taskIds);
+    if (task.dependencies === undefined) delete task.dependencies;
+    if (task.blocking === undefined) delete task.blocking;
+    if (task.parentId === undefined) delete task.parentId;
+  }
+  for (const objective of incoming.objectives ?? []) {
+    objective.linkedTaskIds = rewriteAll(objective.linkedTaskIds, taskIds) ?? [];
+    objective.linkedProjectIds = rewriteAll(objective.linkedProjectIds, projectIds) ?? [];
+  }
+  for (const decision of incoming.decisions) {
+    decision.relatedTaskId = rewrite(decision.relatedTaskId, taskIds);
+    decision.skippedTaskId = rewrite(decision.skippedTaskId, taskIds);
+    decision.selectedTaskId = rewrite(decision.selectedTaskId, taskIds);
+  }
+
+  for (const task of incoming.tasks) {
+    const same = targetTasksById.get(task.id);
+    if (!same) {
+      merged.tasks.push(task);
+      report.tasks.added.push(task.id);
+    } else if (sourceIsNewer(task, same) && !sameContent(task, same)) {
+      merged.tasks[merged.tasks.indexOf(same)] = { ...task, revision: nextRevision(task, same) };
+      report.tasks.updated.push(task.id);
+    } else {
+      report.tasks.kept.push(task.id);
+    }
+  }
+
+  const mergeById = <T extends { id: string }>(from: T[], into: T[], outcome: { added: string[]; skipped: string[] }) => {
+    const existing = new Set(into.map(item => item.id));
+    for (const item of from) {
+      if (existing.has(item.id)) {
+        outcome.skipped.push(item.id);
+      } else {
+        into.push(item);
+        outcome.added.push(item.id);
+      }
+    }
+  };
+  mergeById(incoming.decisions, merged.decisions, report.decisions);
+  mergeById(incoming.dataGaps, merged.dataGaps, report.dataGaps);
+  if (incoming.objectives?.length) {
+    merged.objectives = merged.objectives ?? [];
+    mergeById(incoming.objectives, merged.objectives, report.objectives);
+  }
+
+  return { merged, report };
+}
@@ -0,0 +1,91 @@
+/*
+ * Priority Forge - Cross-project task prioritization
+ * Copyright (C) 2026 Priority Forge Contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, version 3.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CrossWorkspaceDependency, GlobalMLDatabase, WeightedTask, WorkspaceMLEventType } from '../types/schema';
+
+type TaskEvent = { workspaceId?: string } & Record<string, unknown>;
+
+/**
+ * The task each kind of ML event is about (the one whose workspace it belongs to)
+ */
+const EVENT_TASK: Record<WorkspaceMLEventType, (event: TaskEvent) => unknown> = {
+  completionRecords: e => e.taskId,
+  priorityChangeEvents: e => e.taskId,
+  taskSelectionEvents: e => e.selectedTaskId,
+  queueRebalanceEvents: e => e.triggerTaskId,
+  dragReorderEvents: e => e.taskId,
+  contextSwitchEvents: e => e.fromTaskId,
+  decisions: e => e.relatedTaskId ?? e.selectedTaskId,
+};
+
+/**
+ * Re-tag the ML events about `taskIds` from one workspace to another.
+ * Returns how many events changed.
+ */
+export function retagTaskMLEvents(
+  globalML: GlobalMLDatabase,
+  taskIds: Set<string>,
+  fromWorkspaceId: string,
+  toWorkspaceId: string
+): number {
+  let retagged = 0;
+  for (const [type, taskOf] of Object.entries(EVENT_TASK) as Array<[WorkspaceMLEventType, (e: TaskEvent) => unknown]>) {
+    for (const event of (globalML[type] ?? []) as unknown as TaskEvent[]) {
+      if (event.workspaceId === fromWorkspaceId && taskIds.has(taskOf(event) as string)) {
+        event.workspaceId = toWorkspaceId;
+        retagged++;
+      }
+    }
+  }
+  return retagged;
+}
+
+/**
+ * Dependency, blocking and parent references between the tasks that move and the
+ * ones that stay (in either direction). `tasks` is the source workspace before the move.
+ * A moved task whose parent stays behind becomes a top-level task in the target.
+ */
+export function findCrossWorkspaceDependencies(
+  tasks: WeightedTask[],
+  moving: Set<string>,
+  targetWorkspaceId: string
+): CrossWorkspaceDependency[] {
+  const taskIds = new Set(tasks.map(t => t.id));
+  const warnings: CrossWorkspaceDependency[] = [];
+  const check = (task: WeightedTask, field: CrossWorkspaceDependency['field'], reference: string) => {
+    if (!taskIds.has(reference) || moving.has(task.id) === moving.has(reference)) return;
+    const message = field === 'parentId' && moving.has(task.id)
+      ? `Task ${task.id} moves to workspace ${targetWorkspaceId} without its parent ${reference} and becomes a top-level task there`
+      : moving.has(task.id)
+        ? `Task ${task.id} moves to workspace ${targetWorkspaceId} but still references ${reference} (${field}), which stays behind`
+        : `Task ${task.id} stays behind but references ${reference} (${field}), which moves to workspace ${targetWorkspaceId}`;
+    warnings.push({ taskId: task.id, field, reference, message });
+  };
+
+  for (const task of tasks) {
+    for (const dependencyId of task.dependencies ?? []) {
+      check(task, 'dependencies', dependencyId);
+    }
+    if (task.blocking) {
+      check(task, 'blocking', task.blocking);
+    }
+    if (task.parentId) {
+      check(task, 'parentId', task.parentId);
+    }
+  }
+  return warnings;
+}